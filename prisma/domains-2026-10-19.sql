@@ -0,0 +1,13 @@
+-- Custom short domains (2026-10-19).
+-- Run AFTER `npx prisma db push` has applied the schema.
+--
+-- `short_links.code` used to be globally unique. It is now unique per
+-- domain via @@unique([domainId, code]), but Postgres treats NULLs as
+-- distinct so links on the default short host (domain_id IS NULL) would
+-- lose their uniqueness guarantee. This partial index restores it.
+--
+-- Safe to re-run (idempotent).
+
+CREATE UNIQUE INDEX IF NOT EXISTS short_links_code_default_domain_key
+  ON short_links (code)
+  WHERE domain_id IS NULL;
@@ -0,0 +1,56 @@
+-- Per-workspace tag names (2026-10-19).
+-- Run AFTER `npx prisma db push` has applied the schema.
+--
+-- `tags.name` and `campaign_tags.name` used to be globally unique. They
+-- are now unique per workspace via @@unique([workspaceId, name]), but
+-- Postgres treats NULLs as distinct so tags outside any workspace
+-- (workspace_id IS NULL) would lose their uniqueness guarantee. These
+-- partial indexes restore it.
+--
+-- Duplicates that slipped in before the indexes existed are folded into
+-- the oldest-id tag of each name first (assignments move over, the rest
+-- are deleted), otherwise CREATE UNIQUE INDEX would fail.
+--
+-- Safe to re-run (idempotent).
+
+BEGIN;
+
+WITH keep AS (
+  SELECT name, MIN(id) AS id FROM tags WHERE workspace_id IS NULL GROUP BY name HAVING COUNT(*) > 1
+)
+INSERT INTO tags_on_links (short_link_id, tag_id, "assignedAt")
+SELECT tol.short_link_id, keep.id, tol."assignedAt"
+  FROM tags_on_links tol
+  JOIN tags t ON t.id = tol.tag_id AND t.workspace_id IS NULL
+  JOIN keep ON keep.name = t.name AND keep.id <> t.id
+ON CONFLICT DO NOTHING;
+
+DELETE FROM tags t
+ USING tags k
+ WHERE t.workspace_id IS NULL AND k.workspace_id IS NULL
+   AND t.name = k.name AND k.id < t.id;
+
+WITH keep AS (
+  SELECT name, MIN(id) AS id FROM campaign_tags WHERE workspace_id IS NULL GROUP BY name HAVING COUNT(*) > 1
+)
+INSERT INTO tags_on_campaigns (campaign_id, tag_id, "assignedAt")
+SELECT toc.campaign_id, keep.id, toc."assignedAt"
+  FROM tags_on_campaigns toc
+  JOIN campaign_tags t ON t.id = toc.tag_id AND t.workspace_id IS NULL
+  JOIN keep ON keep.name = t.name AND keep.id <> t.id
+ON CONFLICT DO NOTHING;
+
+DELETE FROM campaign_tags t
+ USING campaign_tags k
+ WHERE t.workspace_id IS NULL AND k.workspace_id IS NULL
+   AND t.name = k.name AND k.id < t.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS tags_name_no_workspace_key
+  ON tags (name)
+  WHERE workspace_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS campaign_tags_name_no_workspace_key
+  ON campaign_tags (name)
+  WHERE workspace_id IS NULL;
+
+COMMIT;
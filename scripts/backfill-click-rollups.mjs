@@ -0,0 +1,171 @@
+/**
+ * Backfill — rebuilds the hourly / daily click rollups
+ * (click_rollups_hourly, click_rollups_daily) and the unique-visitor
+ * sketches (visitor_sketches) from the clicks table. Needed once after
+ * deploying either, since the redirect only counts clicks recorded from
+ * then on; safe to re-run whenever rollups look off.
+ *
+ * Strategy:
+ *   - Walk UTC days from the first click (or --since) up to --until
+ *     (default: start of today, UTC).
+ *   - Per day, in one transaction: delete that day's rollup rows and
+ *     re-aggregate them from clicks. Same dimensions and referrer-host
+ *     rule as src/lib/analytics/rollups.ts; same sketch hashing as
+ *     src/lib/analytics/visitors.ts. Fallback clicks are left out of
+ *     both, as on the live path.
+ *   - Today is left alone by default: the redirect is still bumping its
+ *     rows. Run again tomorrow (or pass --until) to cover the deploy day.
+ *
+ * Idempotent: each day is replaced wholesale, so re-runs give the same
+ * result.
+ *
+ * Dry-run first:
+ *   node --env-file=.env scripts/backfill-click-rollups.mjs
+ * Execute:
+ *   node --env-file=.env scripts/backfill-click-rollups.mjs --apply
+ * Options:
+ *   --since=2025-01-01   first day to rebuild (UTC)
+ *   --until=2025-06-01   stop before this day (UTC)
+ */
+
+import { Prisma, PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+const APPLY = process.argv.includes("--apply");
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Keep in step with BOT_SCORE_THRESHOLD in src/lib/bot-score.ts.
+const BOT_SCORE_THRESHOLD = 70;
+// Keep in step with HLL_PRECISION in src/lib/analytics/visitors.ts.
+const HLL_PRECISION = 11;
+const HLL_REGISTERS = 1 << HLL_PRECISION;
+const MAX_RANK = 64 - HLL_PRECISION + 1;
+
+const TABLES = [
+  { table: Prisma.raw("click_rollups_hourly"), unit: Prisma.raw("'hour'") },
+  { table: Prisma.raw("click_rollups_daily"), unit: Prisma.raw("'day'") },
+];
+
+function log(...args) {
+  console.log(APPLY ? "[APPLY]" : "[DRY]", ...args);
+}
+
+function option(name) {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : null;
+}
+
+function utcDay(date) {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+async function rebuildDay(dayStart) {
+  const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+  const ops = TABLES.flatMap(({ table, unit }) => [
+    prisma.$executeRaw`
+      DELETE FROM ${table} WHERE bucket >= ${dayStart} AND bucket < ${dayEnd}
+    `,
+    prisma.$executeRaw`
+      INSERT INTO ${table}
+        (short_link_id, workspace_id, bucket, dimension, value, is_internal, is_bot, clicks)
+      SELECT c.short_link_id, s.workspace_id, date_trunc(${unit}, c.timestamp),
+             d.dimension, d.value, c.is_internal, c.bot_score >= ${BOT_SCORE_THRESHOLD}, COUNT(*)::int
+      FROM clicks c
+      JOIN short_links s ON s.id = c.short_link_id
+      CROSS JOIN LATERAL (VALUES
+        ('total', ''),
+        ('country', COALESCE(c.country, '')),
+        ('device', COALESCE(c.device, '')),
+        ('referrer', COALESCE(lower(substring(c.referrer from '^[a-zA-Z][a-zA-Z0-9+.-]*://([^/?#:]+)')), '')),
+        ('source', COALESCE(c.referrer_source, '')),
+        ('channel', COALESCE(c.channel, '')),
+        ('variant', COALESCE(c.variant_id, ''))
+      ) AS d(dimension, value)
+      WHERE c.timestamp >= ${dayStart} AND c.timestamp < ${dayEnd}
+        AND c.fallback_state IS NULL
+      GROUP BY 1, 2, 3, 4, 5, 6, 7
+    `,
+  ]);
+  ops.push(
+    prisma.$executeRaw`DELETE FROM visitor_sketches WHERE day = ${dayStart}`,
+    prisma.$executeRaw`
+      WITH keyed AS (
+        SELECT c.short_link_id, s.workspace_id, date_trunc('day', c.timestamp) AS day, v.kind,
+               c.is_internal, c.bot_score >= ${BOT_SCORE_THRESHOLD} AS is_bot,
+               ('x' || substr(md5(v.key), 1, 16))::bit(64) AS bits
+        FROM clicks c
+        JOIN short_links s ON s.id = c.short_link_id
+        CROSS JOIN LATERAL (VALUES ('ip', c.ip_hash), ('visitor', c.visitor_hash)) AS v(kind, key)
+        WHERE v.key IS NOT NULL AND c.fallback_state IS NULL
+          AND c.timestamp >= ${dayStart} AND c.timestamp < ${dayEnd}
+      ), positions AS (
+        SELECT short_link_id, workspace_id, day, kind, is_internal, is_bot,
+               substring(bits from 1 for ${HLL_PRECISION}::int)::bit(${Prisma.raw(String(HLL_PRECISION))})::int AS idx,
+               MAX(COALESCE(NULLIF(position(B'1' in substring(bits from ${HLL_PRECISION + 1}::int)), 0), ${MAX_RANK}::int)) AS rank
+        FROM keyed
+        GROUP BY 1, 2, 3, 4, 5, 6, 7
+      ), sketches AS (
+        SELECT DISTINCT short_link_id, workspace_id, day, kind, is_internal, is_bot FROM positions
+      )
+      INSERT INTO visitor_sketches
+        (short_link_id, workspace_id, day, kind, is_internal, is_bot, registers)
+      SELECT k.short_link_id, k.workspace_id, k.day, k.kind, k.is_internal, k.is_bot,
+             decode(string_agg(lpad(to_hex(COALESCE(p.rank, 0)), 2, '0'), '' ORDER BY i), 'hex')
+      FROM sketches k
+      CROSS JOIN generate_series(0, ${HLL_REGISTERS - 1}::int) AS i
+      LEFT JOIN positions p
+        ON p.short_link_id = k.short_link_id AND p.day = k.day AND p.kind = k.kind
+       AND p.is_internal = k.is_internal AND p.is_bot = k.is_bot AND p.idx = i
+      GROUP BY 1, 2, 3, 4, 5, 6
+    `,
+  );
+  await prisma.$transaction(ops);
+}
+
+async function main() {
+  console.log(
+    APPLY
+      ? "Backfill: APPLY mode — writes will be made.\n"
+      : "Backfill: dry run (pass --apply to write).\n",
+  );
+
+  const sinceArg = option("since");
+  const untilArg = option("until");
+  const first = sinceArg
+    ? new Date(sinceArg)
+    : (await prisma.click.findFirst({ orderBy: { timestamp: "asc" }, select: { timestamp: true } }))
+        ?.timestamp;
+  if (!first) {
+    log("No clicks — nothing to do.");
+    return;
+  }
+  const start = utcDay(first);
+  const until = utcDay(untilArg ? new Date(untilArg) : new Date());
+  if (isNaN(start.getTime()) || isNaN(until.getTime())) {
+    throw new Error("--since / --until must be dates, e.g. 2025-01-31");
+  }
+
+  const clicks = await prisma.click.count({
+    where: { timestamp: { gte: start, lt: until } },
+  });
+  const days = Math.max(0, Math.round((until.getTime() - start.getTime()) / DAY_MS));
+  log(
+    `${days} day(s), ${clicks} click(s) from ${start.toISOString().slice(0, 10)} up to ${until
+      .toISOString()
+      .slice(0, 10)}`,
+  );
+  if (!APPLY) return;
+
+  for (let day = start; day < until; day = new Date(day.getTime() + DAY_MS)) {
+    await rebuildDay(day);
+    log(`rebuilt ${day.toISOString().slice(0, 10)}`);
+  }
+
+  console.log("\nDone.");
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
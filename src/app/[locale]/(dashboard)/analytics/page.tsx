@@ -1,7 +1,11 @@
 "use client";
 
 import { useState, useEffect, useMemo } from "react";
-import { computeAnalytics, type RawAnalyticsData } from "@/lib/analytics/compute";
+import {
+  computeAnalytics,
+  NO_RULE_MATCHED,
+  type RawAnalyticsData,
+} from "@/lib/analytics/compute";
 import { useSearchParams } from "next/navigation";
 import { useTranslations } from "next-intl";
 import { useQuery } from "@tanstack/react-query";
@@ -10,6 +14,9 @@ import { PieChartComponent } from "@/components/analytics/PieChartComponent";
 import { DecayChart } from "@/components/analytics/DecayChart";
 import { DayHourHeatmap } from "@/components/analytics/DayHourHeatmap";
 import { ShareModal } from "@/components/analytics/ShareModal";
+import { FALLBACK_STATE_LABEL_KEYS } from "@/components/forms/FallbackUrlsEditor";
+import type { FallbackState } from "@/lib/fallbacks";
+import { isReferrerChannel } from "@/lib/referrer-channels";
 import {
   MousePointerClick,
   Users,
@@ -23,14 +30,39 @@ import {
   Megaphone,
   Download,
   Share2,
-  Tag as TagIcon,
+  Folder,
   LineChart as LineChartIcon,
   BarChart3,
   Clock,
+  CalendarRange,
+  GitCompareArrows,
 } from "lucide-react";
 import { PageHeader } from "@/components/layout/PageHeader";
 import { SyncButton } from "@/components/layout/SyncButton";
 import { CampaignFilter } from "@/components/campaigns/CampaignFilter";
+import {
+  NO_GROUP,
+  groupsQueryKey,
+  type LinkGroupOption,
+} from "@/components/links/LinkFolderPanel";
+import { descendantGroupIds, flattenGroupTree } from "@/lib/link-groups";
+import { tagFilterParams, type TagFilter } from "@/lib/tag-filter";
+import type { VisitorEstimate } from "@/lib/analytics/visitors";
+import { TagFilterSelect } from "@/components/tags/TagFilterSelect";
+import { useReportingTimeZone } from "@/lib/hooks/useReportingTimeZone";
+import {
+  DEFAULT_RANGE,
+  comparisonRange,
+  dateRangeParams,
+  isCompareMode,
+  isRangePreset,
+  overlayDailySeries,
+  percentChange,
+  resolveDateRange,
+  type CampaignDates,
+  type CompareMode,
+  type RangePreset,
+} from "@/lib/date-ranges";
 
 interface ShortLink {
   id: string;
@@ -46,7 +78,7 @@ interface TagOption {
   _count: { links: number };
 }
 
-const dateRanges = [
+const dateRanges: { value: RangePreset; labelKey: string }[] = [
   { value: "24h", labelKey: "range24h" },
   { value: "7d", labelKey: "range7d" },
   { value: "30d", labelKey: "range30d" },
@@ -54,10 +86,29 @@ const dateRanges = [
   { value: "custom", labelKey: "custom" },
 ];
 
+// Behind the "More ranges" select — calendar periods and the selected
+// campaign's lifetime.
+const moreRanges: { value: RangePreset; labelKey: string }[] = [
+  { value: "thisMonth", labelKey: "rangeThisMonth" },
+  { value: "lastMonth", labelKey: "rangeLastMonth" },
+  { value: "thisQuarter", labelKey: "rangeThisQuarter" },
+  { value: "lastQuarter", labelKey: "rangeLastQuarter" },
+  { value: "thisYear", labelKey: "rangeThisYear" },
+  { value: "campaign", labelKey: "rangeCampaign" },
+];
+
+const compareLabelKeys: Record<CompareMode, string> = {
+  previous: "vsPreviousPeriod",
+  lastYear: "vsLastYear",
+};
+
 export default function AnalyticsPage() {
   const t = useTranslations("analytics");
+  const tLinks = useTranslations("links");
   const searchParams = useSearchParams();
-  const [range, setRange] = useState("7d");
+  const [range, setRange] = useState<RangePreset>(DEFAULT_RANGE);
+  // Period the KPIs and the clicks chart are compared with; null = none.
+  const [compare, setCompare] = useState<CompareMode | null>("previous");
   const [customFrom, setCustomFrom] = useState("");
   const [customTo, setCustomTo] = useState("");
   const [selectedCampaign, setSelectedCampaign] = useState<string>(
@@ -66,20 +117,69 @@ export default function AnalyticsPage() {
   const [selectedLinkId, setSelectedLinkId] = useState<string>(
     searchParams.get("linkId") || "",
   );
-  const [selectedTagId, setSelectedTagId] = useState<string>("");
+  const [selectedTags, setSelectedTags] = useState<TagFilter | null>(null);
+  const [selectedGroupId, setSelectedGroupId] = useState<string>("");
   const [shareOpen, setShareOpen] = useState(false);
   const [activeSection, setActiveSection] = useState<string>("performance");
   // Pre-launch test click filter. Off by default — analytics show real
   // traffic only. Toggle to include clicks the redirect handler flagged
   // as internal (?_test=1 or workspace-member self-clicks).
   const [includeInternal, setIncludeInternal] = useState(false);
+  // Likely-bot filter — same idea for clicks the redirect scored as bots
+  // (crawlers, link previews, scripted clients).
+  const [includeBots, setIncludeBots] = useState(false);
+  // Days / hours and calendar presets follow the reporting time zone.
+  const { timeZone } = useReportingTimeZone();
+
+  // "Campaign lifetime" needs the campaign's schedule.
+  const lifetimeCampaign =
+    range === "campaign" && selectedCampaign && selectedCampaign !== "__none__"
+      ? selectedCampaign
+      : null;
+  const { data: campaignDates } = useQuery({
+    queryKey: ["utm-campaigns", "lifetime", lifetimeCampaign],
+    enabled: !!lifetimeCampaign,
+    queryFn: async () => {
+      const response = await fetch(`/api/utm-campaigns/${encodeURIComponent(lifetimeCampaign ?? "")}`);
+      if (!response.ok) throw new Error("Failed to fetch campaign");
+      return ((await response.json()).campaignRecord ?? null) as CampaignDates | null;
+    },
+  });
+
+  // Falls back to the default window while a custom / campaign range
+  // can't be resolved yet (no start date picked, campaign loading).
+  const { rangeStart, rangeEnd } = useMemo(() => {
+    const resolved =
+      resolveDateRange({
+        preset: range,
+        from: customFrom,
+        to: customTo,
+        campaign: campaignDates,
+        timeZone,
+      }) ?? resolveDateRange({ preset: DEFAULT_RANGE })!;
+    return { rangeStart: resolved.start, rangeEnd: resolved.end };
+  }, [range, customFrom, customTo, campaignDates, timeZone]);
+
+  const comparisonWindow = useMemo(
+    () => (compare ? comparisonRange({ start: rangeStart, end: rangeEnd }, compare) : null),
+    [compare, rangeStart, rangeEnd],
+  );
 
   const tagsKey = useMemo(() => ["tags"] as const, []);
-  // Cache key includes the includeInternal flag so toggling it doesn't
-  // smear two different payloads into the same cache slot.
+  // Cache key includes both filter flags and the range so toggling one
+  // doesn't smear two different payloads into the same cache slot.
   const rawKey = useMemo(
-    () => ["analytics-raw", includeInternal ? "with-internal" : "real-only"] as const,
-    [includeInternal],
+    () =>
+      [
+        "analytics-raw",
+        includeInternal ? "with-internal" : "real-only",
+        ...(includeBots ? ["with-bots"] : []),
+        range,
+        timeZone,
+        ...(range === "custom" ? [customFrom, customTo] : []),
+        ...(range === "campaign" ? [lifetimeCampaign ?? "", campaignDates ? "dated" : "pending"] : []),
+      ] as const,
+    [includeInternal, includeBots, range, timeZone, customFrom, customTo, lifetimeCampaign, campaignDates],
   );
 
   const { data: tagsData } = useQuery({
@@ -92,6 +192,16 @@ export default function AnalyticsPage() {
   });
   const tags = useMemo(() => tagsData ?? [], [tagsData]);
 
+  const { data: groupsData } = useQuery({
+    queryKey: groupsQueryKey,
+    queryFn: async () => {
+      const response = await fetch("/api/groups");
+      if (!response.ok) throw new Error("Failed to fetch folders");
+      return ((await response.json()).groups || []) as LinkGroupOption[];
+    },
+  });
+  const groups = useMemo(() => groupsData ?? [], [groupsData]);
+
   const {
     data: raw,
     isLoading: loading,
@@ -99,10 +209,33 @@ export default function AnalyticsPage() {
   } = useQuery<RawAnalyticsData>({
     queryKey: rawKey,
     queryFn: async () => {
-      const url = includeInternal
-        ? "/api/analytics/raw?includeInternal=1"
-        : "/api/analytics/raw";
-      const response = await fetch(url);
+      // The previous period of the same length rides along for the
+      // "vs previous period" change.
+      const params = new URLSearchParams({
+        from: new Date(2 * rangeStart.getTime() - rangeEnd.getTime()).toISOString(),
+        to: rangeEnd.toISOString(),
+      });
+      if (includeInternal) params.set("includeInternal", "1");
+      if (includeBots) params.set("includeBots", "1");
+      const response = await fetch(`/api/analytics/raw?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch analytics");
+      return (await response.json()) as RawAnalyticsData;
+    },
+  });
+  // "Same period last year" sits outside the payload above, so it gets
+  // its own — same endpoint, the comparison window only.
+  const { data: lastYearRaw } = useQuery<RawAnalyticsData>({
+    queryKey: [...rawKey, "last-year"],
+    enabled: compare === "lastYear",
+    queryFn: async () => {
+      const lastYear = comparisonRange({ start: rangeStart, end: rangeEnd }, "lastYear");
+      const params = new URLSearchParams({
+        from: lastYear.start.toISOString(),
+        to: lastYear.end.toISOString(),
+      });
+      if (includeInternal) params.set("includeInternal", "1");
+      if (includeBots) params.set("includeBots", "1");
+      const response = await fetch(`/api/analytics/raw?${params}`);
       if (!response.ok) throw new Error("Failed to fetch analytics");
       return (await response.json()) as RawAnalyticsData;
     },
@@ -123,36 +256,104 @@ export default function AnalyticsPage() {
   );
   const loadingLinks = loading && !raw;
 
-  const { rangeStart, rangeEnd } = useMemo(() => {
-    const now = new Date();
-    if (range === "custom" && customFrom) {
-      return {
-        rangeStart: new Date(customFrom),
-        rangeEnd: customTo ? new Date(customTo) : now,
-      };
-    }
-    const days = range === "24h" ? 1 : range === "7d" ? 7 : range === "30d" ? 30 : range === "90d" ? 90 : 7;
-    const start =
-      range === "24h"
-        ? new Date(now.getTime() - 24 * 60 * 60 * 1000)
-        : new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
-    return { rangeStart: start, rangeEnd: now };
-  }, [range, customFrom, customTo]);
+  const viewFilters = useMemo(
+    () => ({
+      linkId: selectedLinkId || undefined,
+      campaign: selectedCampaign || undefined,
+      tags: selectedTags,
+      // A folder includes its subfolders.
+      groupIds: !selectedGroupId
+        ? undefined
+        : selectedGroupId === NO_GROUP
+          ? [NO_GROUP]
+          : descendantGroupIds(groups, selectedGroupId),
+    }),
+    [groups, selectedLinkId, selectedCampaign, selectedTags, selectedGroupId],
+  );
 
   const data = useMemo(() => {
     if (!raw) return null;
-    return computeAnalytics(raw, {
-      rangeStart,
-      rangeEnd,
-      linkId: selectedLinkId || undefined,
-      campaign: selectedCampaign || undefined,
-      tagId: selectedTagId || undefined,
+    return computeAnalytics(raw, { rangeStart, rangeEnd, timeZone, ...viewFilters });
+  }, [raw, rangeStart, rangeEnd, timeZone, viewFilters]);
+
+  // Marks the breakdowns still counted from the capped raw clicks
+  // (browser, OS, city, routing, fallbacks) once the cap is hit.
+  const sampledBadge = raw?.meta.truncated ? (
+    <span className="badge draft" style={{ marginLeft: 8 }} title={t("sampledHint")}>
+      {t("sampled")}
+    </span>
+  ) : null;
+
+  // Same view over the comparison period — the previous period rides
+  // along in `raw`, last year comes from its own payload.
+  const comparisonData = useMemo(() => {
+    const source = compare === "lastYear" ? lastYearRaw : raw;
+    if (!source || !comparisonWindow) return null;
+    return computeAnalytics(source, {
+      rangeStart: comparisonWindow.start,
+      rangeEnd: comparisonWindow.end,
+      timeZone,
+      ...viewFilters,
     });
-  }, [raw, rangeStart, rangeEnd, selectedLinkId, selectedCampaign, selectedTagId]);
+  }, [compare, raw, lastYearRaw, comparisonWindow, timeZone, viewFilters]);
+
+  // Unique visitors come from the server's sketches — the raw payload's
+  // clicks are capped, so counting them here undercounts long ranges.
+  const { data: visitors } = useQuery<VisitorEstimate & { comparison: VisitorEstimate | null }>({
+    queryKey: [
+      "analytics-visitors",
+      rangeStart.toISOString(),
+      rangeEnd.toISOString(),
+      comparisonWindow?.start.toISOString() ?? "",
+      selectedLinkId,
+      selectedCampaign,
+      ...Object.values(tagFilterParams(selectedTags)),
+      selectedGroupId,
+      includeInternal,
+      includeBots,
+    ],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        from: rangeStart.toISOString(),
+        to: rangeEnd.toISOString(),
+        ...(comparisonWindow && {
+          compareFrom: comparisonWindow.start.toISOString(),
+          compareTo: comparisonWindow.end.toISOString(),
+        }),
+        ...(selectedLinkId && { linkId: selectedLinkId }),
+        ...(selectedCampaign && { campaign: selectedCampaign }),
+        ...tagFilterParams(selectedTags),
+        ...(selectedGroupId && { groupId: selectedGroupId }),
+        ...(includeInternal && { includeInternal: "1" }),
+        ...(includeBots && { includeBots: "1" }),
+      });
+      const response = await fetch(`/api/analytics/visitors?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch visitors");
+      return await response.json();
+    },
+  });
+  const uniqueVisitors = visitors?.uniqueVisitors ?? data?.summary.uniqueVisitors ?? 0;
+  const prevUniqueVisitors =
+    visitors?.comparison?.uniqueVisitors ?? comparisonData?.summary.uniqueVisitors ?? 0;
+
+  const compareLabel = compare ? t(compareLabelKeys[compare]) : undefined;
+  const clicksOverTime = useMemo(() => {
+    if (!data) return [];
+    if (!comparisonData || !comparisonWindow) return data.clicksByDay;
+    return overlayDailySeries(
+      data.clicksByDay,
+      comparisonData.clicksByDay,
+      { start: rangeStart, end: rangeEnd },
+      comparisonWindow,
+      timeZone,
+    );
+  }, [data, comparisonData, comparisonWindow, rangeStart, rangeEnd, timeZone]);
 
   const handleCampaignChange = (value: string) => {
     setSelectedCampaign(value);
     setSelectedLinkId("");
+    // A lifetime needs a campaign to be the lifetime of.
+    if (range === "campaign" && (!value || value === "__none__")) setRange(DEFAULT_RANGE);
   };
 
   const selectedLink = links.find((l) => l.id === selectedLinkId);
@@ -214,6 +415,8 @@ export default function AnalyticsPage() {
         linkId={selectedLinkId || undefined}
         campaignFilter={selectedCampaign || undefined}
         dateRange={range}
+        customRange={range === "custom" ? { start: rangeStart, end: rangeEnd } : undefined}
+        compare={compare}
       />
 
       <PageHeader
@@ -221,12 +424,14 @@ export default function AnalyticsPage() {
         description={t("description")}
         actions={
           <>
-            <SyncButton queryKeys={[[...rawKey], [...tagsKey]]} />
+            <SyncButton queryKeys={[[...rawKey], [...tagsKey], ["analytics-visitors"]]} />
             <button className="btn btn-secondary" onClick={() => setShareOpen(true)}>
               <Share2 size={12} /> Share report
             </button>
             <a
-              href={`/api/export/analytics?range=${range}${selectedCampaign ? `&campaign=${selectedCampaign}` : ""}${selectedLinkId ? `&linkId=${selectedLinkId}` : ""}`}
+              href={`/api/export/analytics?${new URLSearchParams(
+                dateRangeParams(range, { from: customFrom, to: customTo }),
+              )}${selectedCampaign ? `&campaign=${selectedCampaign}` : ""}${selectedLinkId ? `&linkId=${selectedLinkId}` : ""}`}
               className="btn btn-secondary"
             >
               <Download size={12} /> Export CSV
@@ -269,36 +474,140 @@ export default function AnalyticsPage() {
           </div>
         )}
 
+        <div style={{ position: "relative" }}>
+          <select
+            value={moreRanges.some((r) => r.value === range) ? range : ""}
+            onChange={(e) => {
+              if (isRangePreset(e.target.value)) setRange(e.target.value);
+            }}
+            className={`input ${moreRanges.some((r) => r.value === range) ? "filter-active" : ""}`}
+            style={{ height: 32, paddingLeft: 32, paddingRight: 28, appearance: "none", cursor: "pointer" }}
+          >
+            <option value="" disabled>
+              {t("rangeMore")}
+            </option>
+            {moreRanges.map((r) => (
+              <option
+                key={r.value}
+                value={r.value}
+                disabled={r.value === "campaign" && (!selectedCampaign || selectedCampaign === "__none__")}
+              >
+                {r.value === "campaign" && (!selectedCampaign || selectedCampaign === "__none__")
+                  ? t("rangeCampaignNeedsCampaign")
+                  : t(r.labelKey)}
+              </option>
+            ))}
+          </select>
+          <CalendarRange
+            size={13}
+            style={{
+              position: "absolute",
+              left: 10,
+              top: "50%",
+              transform: "translateY(-50%)",
+              color: "var(--ink-500)",
+              pointerEvents: "none",
+            }}
+          />
+          <ChevronDown
+            size={12}
+            style={{
+              position: "absolute",
+              right: 8,
+              top: "50%",
+              transform: "translateY(-50%)",
+              color: "var(--ink-500)",
+              pointerEvents: "none",
+            }}
+          />
+        </div>
+
+        <div style={{ position: "relative" }}>
+          <select
+            value={compare ?? ""}
+            onChange={(e) => setCompare(isCompareMode(e.target.value) ? e.target.value : null)}
+            className={`input ${compare ? "filter-active" : ""}`}
+            style={{ height: 32, paddingLeft: 32, paddingRight: 28, appearance: "none", cursor: "pointer" }}
+            title={
+              comparisonWindow
+                ? t("comparedWith", {
+                    from: comparisonWindow.start.toLocaleDateString(),
+                    to: comparisonWindow.end.toLocaleDateString(),
+                  })
+                : undefined
+            }
+          >
+            <option value="">{t("compareNone")}</option>
+            <option value="previous">{t("vsPreviousPeriod")}</option>
+            <option value="lastYear">{t("vsLastYear")}</option>
+          </select>
+          <GitCompareArrows
+            size={13}
+            style={{
+              position: "absolute",
+              left: 10,
+              top: "50%",
+              transform: "translateY(-50%)",
+              color: compare ? "var(--brand-700)" : "var(--ink-500)",
+              pointerEvents: "none",
+            }}
+          />
+          <ChevronDown
+            size={12}
+            style={{
+              position: "absolute",
+              right: 8,
+              top: "50%",
+              transform: "translateY(-50%)",
+              color: compare ? "var(--brand-700)" : "var(--ink-500)",
+              pointerEvents: "none",
+            }}
+          />
+        </div>
+
         <div style={{ flex: 1 }} />
 
         <CampaignFilter value={selectedCampaign} onChange={handleCampaignChange} showNoCampaign />
 
         {tags.length > 0 && (
+          <TagFilterSelect
+            tags={tags}
+            value={selectedTags}
+            onChange={(value) => {
+              setSelectedTags(value);
+              setSelectedLinkId("");
+            }}
+          />
+        )}
+
+        {groups.length > 0 && (
           <div style={{ position: "relative" }}>
             <select
-              value={selectedTagId}
+              value={selectedGroupId}
               onChange={(e) => {
-                setSelectedTagId(e.target.value);
+                setSelectedGroupId(e.target.value);
                 setSelectedLinkId("");
               }}
-              className={`input ${selectedTagId ? "filter-active" : ""}`}
+              className={`input ${selectedGroupId ? "filter-active" : ""}`}
               style={{ height: 32, paddingLeft: 32, paddingRight: 28, appearance: "none", cursor: "pointer" }}
             >
-              <option value="">All Tags</option>
-              {tags.map((tag) => (
-                <option key={tag.id} value={tag.id}>
-                  #{tag.name} ({tag._count.links})
+              <option value="">{t("allFolders")}</option>
+              {flattenGroupTree(groups).map(({ group, depth }) => (
+                <option key={group.id} value={group.id}>
+                  {"\u00A0\u00A0".repeat(depth)}
+                  {group.name}
                 </option>
               ))}
+              <option value={NO_GROUP}>{tLinks("folderNone")}</option>
             </select>
-            <TagIcon
+            <Folder
               size={13}
               style={{
                 position: "absolute",
                 left: 10,
                 top: "50%",
                 transform: "translateY(-50%)",
-                color: selectedTagId ? "var(--brand-700)" : "var(--ink-500)",
+                color: selectedGroupId ? "var(--brand-700)" : "var(--ink-500)",
                 pointerEvents: "none",
               }}
             />
@@ -309,7 +618,7 @@ export default function AnalyticsPage() {
                 right: 8,
                 top: "50%",
                 transform: "translateY(-50%)",
-                color: selectedTagId ? "var(--brand-700)" : "var(--ink-500)",
+                color: selectedGroupId ? "var(--brand-700)" : "var(--ink-500)",
                 pointerEvents: "none",
               }}
             />
@@ -408,12 +717,46 @@ export default function AnalyticsPage() {
           {t("includeTest")}
         </button>
 
-        {(selectedLinkId || selectedTagId) && (
+        <button
+          type="button"
+          onClick={() => setIncludeBots((v) => !v)}
+          className={`input ${includeBots ? "filter-active" : ""}`}
+          style={{
+            height: 32,
+            display: "inline-flex",
+            alignItems: "center",
+            gap: 6,
+            padding: "0 10px",
+            cursor: "pointer",
+            fontSize: 12,
+          }}
+          title={t("includeBotsTip")}
+        >
+          <span
+            style={{
+              width: 14,
+              height: 14,
+              border: "1.5px solid currentColor",
+              borderRadius: 3,
+              display: "inline-flex",
+              alignItems: "center",
+              justifyContent: "center",
+              fontSize: 10,
+              lineHeight: 1,
+            }}
+          >
+            {includeBots ? "✓" : ""}
+          </span>
+          {t("includeBots")}
+        </button>
+
+        {(selectedLinkId || selectedTags || selectedGroupId) && (
           <button
             className="btn btn-ghost"
             onClick={() => {
               setSelectedLinkId("");
-              setSelectedTagId("");
+              setSelectedTags(null);
+              setSelectedGroupId("");
             }}
             title={t("clearFilter")}
           >
@@ -456,6 +799,35 @@ export default function AnalyticsPage() {
         </div>
       )}
 
+      {!includeBots && (raw?.meta.excludedBots ?? 0) > 0 && (
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 12,
+            padding: "10px 14px",
+            marginBottom: 16,
+            background: "var(--bg-subtle)",
+            border: "1px solid var(--border)",
+            borderRadius: 8,
+            fontSize: 12.5,
+            color: "var(--ink-400)",
+          }}
+        >
+          <span style={{ fontVariantNumeric: "tabular-nums" }}>
+            {t("filteredBotClicks", { n: raw?.meta.excludedBots ?? 0 })}
+          </span>
+          <button
+            type="button"
+            onClick={() => setIncludeBots(true)}
+            className="btn btn-ghost"
+            style={{ marginLeft: "auto", height: 26, fontSize: 12 }}
+          >
+            {t("showAll")}
+          </button>
+        </div>
+      )}
+
       {/* Selected link callout — promoted to a clearly-noticed filter
           banner so the user always knows analytics are scoped to one
           link, not all-workspace traffic. */}
@@ -872,28 +1244,37 @@ export default function AnalyticsPage() {
                       <MousePointerClick size={12} /> {t("clicks")}
                     </div>
                     <div className="kpi-value">{data.summary.totalClicks.toLocaleString()}</div>
-                    {data.summary.clicksChange !== 0 && (
-                      <div
-                        className={`kpi-sub ${data.summary.clicksChange > 0 ? "pos" : "neg"}`}
-                      >
-                        {data.summary.clicksChange > 0 ? "▲" : "▼"}{" "}
-                        {Math.abs(data.summary.clicksChange)}% {t("vsPreviousPeriod")}
-                      </div>
+                    {comparisonData && (
+                      <ChangeLine
+                        change={percentChange(data.summary.totalClicks, comparisonData.summary.totalClicks)}
+                        previous={comparisonData.summary.totalClicks}
+                        label={compareLabel}
+                      />
                     )}
                   </div>
                   <div className="kpi">
                     <div className="kpi-label">
                       <Users size={12} /> {t("uniqueClicks")}
                     </div>
-                    <div className="kpi-value">{data.summary.uniqueVisitors.toLocaleString()}</div>
+                    <div className="kpi-value">{uniqueVisitors.toLocaleString()}</div>
+                    {comparisonData && (
+                      <ChangeLine
+                        change={percentChange(uniqueVisitors, prevUniqueVisitors)}
+                        previous={prevUniqueVisitors}
+                        label={compareLabel}
+                      />
+                    )}
                     {data.summary.totalClicks > 0 && (
                       <div className="kpi-sub">
                         {t("ofTotalClicks", {
-                          pct: (
-                            (data.summary.uniqueVisitors /
-                              data.summary.totalClicks) *
-                            100
-                          ).toFixed(1),
+                          pct: ((uniqueVisitors / data.summary.totalClicks) * 100).toFixed(1),
+                        })}
+                      </div>
+                    )}
+                    {!!visitors?.identifiedVisitors && (
+                      <div className="kpi-sub" title={t("identifiedVisitorsHint")}>
+                        {t("identifiedVisitors", {
+                          count: visitors.identifiedVisitors.toLocaleString(),
                         })}
                       </div>
                     )}
@@ -904,7 +1285,7 @@ export default function AnalyticsPage() {
                     </div>
                     <div className="kpi-value">
                       {data.summary.totalClicks > 0
-                        ? `${((data.summary.uniqueVisitors / data.summary.totalClicks) * 100).toFixed(1)}%`
+                        ? `${((uniqueVisitors / data.summary.totalClicks) * 100).toFixed(1)}%`
                         : "0%"}
                     </div>
                   </div>
@@ -925,7 +1306,11 @@ export default function AnalyticsPage() {
                     {t("clicksOverTime")}
                   </div>
                   {data.clicksByDay.length > 0 ? (
-                    <ClicksChart data={data.clicksByDay} />
+                    <ClicksChart
+                      data={clicksOverTime}
+                      clicksLabel={t("clicks")}
+                      compareLabel={comparisonData ? compareLabel : undefined}
+                    />
                   ) : (
                     <div
                       style={{
@@ -1006,7 +1391,7 @@ export default function AnalyticsPage() {
                     {t("heatmapTitle")}
                   </div>
                   <p className="section-sub" style={{ lineHeight: 1.55 }}>
-                    {t("heatmapHint")}
+                    {t("heatmapHint")} {t("timesIn", { zone: timeZone })}
                   </p>
                   <DayHourHeatmap data={data.dayHourHeatmap} />
                 </div>
@@ -1016,7 +1401,7 @@ export default function AnalyticsPage() {
               <section id="a-traffic" className="a-section">
                 <div className="a-section-head">
                   <h2>{t("sections.traffic")}</h2>
-                  <span className="hint">countries, top links, referrers</span>
+                  <span className="hint">countries, top links, channels, referrers</span>
                 </div>
                 {/* Country + City side by side. Country = always full
                     coverage; City = drill-down (top 15) when GeoIP
@@ -1034,7 +1419,10 @@ export default function AnalyticsPage() {
                     )}
                   </div>
                   <div className="card card-padded">
-                    <div className="section-title">{t("cities")}</div>
+                    <div className="section-title">
+                      {t("cities")}
+                      {sampledBadge}
+                    </div>
                     <p className="section-sub" style={{ lineHeight: 1.55 }}>
                       {t("citiesHint")}
                     </p>
@@ -1054,6 +1442,57 @@ export default function AnalyticsPage() {
                   </div>
                 </div>
 
+                {data.geoRouting.length > 0 && (
+                  <div className="card card-padded" style={{ marginBottom: 12 }}>
+                    <div className="section-title">
+                      {t("geoRouting")}
+                      {sampledBadge}
+                    </div>
+                    <p className="section-sub" style={{ lineHeight: 1.55 }}>
+                      {t("geoRoutingHint")}
+                    </p>
+                    <ProgressList
+                      rows={data.geoRouting.map((r) => ({
+                        ...r,
+                        name: r.name === NO_RULE_MATCHED ? t("noGeoRouteMatched") : r.name,
+                      }))}
+                      color="var(--data-violet)"
+                    />
+                  </div>
+                )}
+
+                {data.fallbackServed.length > 0 && (
+                  <div className="card card-padded" style={{ marginBottom: 12 }}>
+                    <div className="section-title">
+                      {t("fallbackServed")}
+                      {sampledBadge}
+                    </div>
+                    <p className="section-sub" style={{ lineHeight: 1.55 }}>
+                      {t("fallbackServedHint")}
+                    </p>
+                    <ProgressList
+                      rows={data.fallbackServed.map((r) => ({
+                        ...r,
+                        name:
+                          r.name in FALLBACK_STATE_LABEL_KEYS
+                            ? tLinks(FALLBACK_STATE_LABEL_KEYS[r.name as FallbackState])
+                            : r.name,
+                      }))}
+                      color="var(--data-amber)"
+                    />
+                  </div>
+                )}
+
+                {data.failedUnlocks.length > 0 && (
+                  <div className="card card-padded" style={{ marginBottom: 12 }}>
+                    <div className="section-title">{t("failedUnlocks")}</div>
+                    <p className="section-sub" style={{ lineHeight: 1.55 }}>
+                      {t("failedUnlocksHint")}
+                    </p>
+                    <ProgressList rows={data.failedUnlocks} color="var(--data-rose)" />
+                  </div>
+                )}
+
                 {!selectedLinkId && data.topLinks.length > 0 && (
                   <div className="tbl-wrap">
                     <div className="tbl-head">
@@ -1121,6 +1560,46 @@ export default function AnalyticsPage() {
                   </div>
                 )}
 
+                {/* Channels — the referrer / in-app webview classified by
+                    lib/referrer-channels (workspace rules first), so
+                    l.facebook.com and the Facebook app are one source. */}
+                <div className="grid-2" style={{ marginTop: 12 }}>
+                  <div className="card card-padded">
+                    <div className="section-title">{t("channels")}</div>
+                    <p className="section-sub" style={{ lineHeight: 1.55 }}>
+                      {t("channelsHint")}
+                    </p>
+                    {data.channels.length > 0 ? (
+                      <ProgressList
+                        rows={data.channels.map((c) => ({
+                          name: isReferrerChannel(c.name)
+                            ? t(`channelNames.${c.name}`)
+                            : t("channelNames.unclassified"),
+                          value: c.value,
+                        }))}
+                        color="var(--data-blue)"
+                      />
+                    ) : (
+                      <div style={{ padding: "24px 0", textAlign: "center" }}>
+                        <div className="placeholder">{t("noData")}</div>
+                      </div>
+                    )}
+                  </div>
+                  <div className="card card-padded">
+                    <div className="section-title">{t("referrerSources")}</div>
+                    <p className="section-sub" style={{ lineHeight: 1.55 }}>
+                      {t("referrerSourcesHint")}
+                    </p>
+                    {data.referrerSources.length > 0 ? (
+                      <ProgressList rows={data.referrerSources} color="var(--data-cyan)" />
+                    ) : (
+                      <div style={{ padding: "24px 0", textAlign: "center" }}>
+                        <div className="placeholder">{t("noData")}</div>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
                 {/* Referrer — bottom of section, secondary signal.
                     Mostly empty for EDM / chat / direct traffic; useful
                     for spotting natural pickups (blog mentions, partner
@@ -1150,13 +1629,44 @@ export default function AnalyticsPage() {
                 <div className="card card-padded">
                   <div className="grid-3">
                     <PieChartComponent data={data.devices} title={t("devices")} />
-                    <PieChartComponent data={data.browsers} title={t("browsers")} />
+                    <PieChartComponent
+                      data={data.browsers}
+                      title={
+                        <>
+                          {t("browsers")}
+                          {sampledBadge}
+                        </>
+                      }
+                    />
                     <PieChartComponent
                       data={data.operatingSystems}
-                      title={t("operatingSystems")}
+                      title={
+                        <>
+                          {t("operatingSystems")}
+                          {sampledBadge}
+                        </>
+                      }
                     />
                   </div>
                 </div>
+                {data.routingRules.length > 0 && (
+                  <div className="card card-padded" style={{ marginTop: 12 }}>
+                    <div className="section-title">
+                      {t("routingRules")}
+                      {sampledBadge}
+                    </div>
+                    <p className="section-sub" style={{ lineHeight: 1.55 }}>
+                      {t("routingRulesHint")}
+                    </p>
+                    <ProgressList
+                      rows={data.routingRules.map((r) => ({
+                        ...r,
+                        name: r.name === NO_RULE_MATCHED ? t("noRuleMatched") : r.name,
+                      }))}
+                      color="var(--data-cyan)"
+                    />
+                  </div>
+                )}
               </section>
             </>
           ) : null}
@@ -1180,13 +1690,33 @@ export default function AnalyticsPage() {
             boxShadow: "var(--shadow-md)",
           }}
         >
-          ⚠️ 只顯示最近 10,000 筆點擊。更早的資料請縮小日期範圍或選特定連結。
+          {t("sampledBanner")}
         </div>
       )}
     </>
   );
 }
 
+/** KPI sub-line: % change against the comparison period, its value on hover. */
+function ChangeLine({
+  change,
+  previous,
+  label,
+}: {
+  change: number;
+  previous: number;
+  label?: string;
+}) {
+  return (
+    <div
+      className={`kpi-sub ${change > 0 ? "pos" : change < 0 ? "neg" : ""}`}
+      title={previous.toLocaleString()}
+    >
+      {change > 0 ? "▲" : change < 0 ? "▼" : "±"} {Math.abs(change)}% {label}
+    </div>
+  );
+}
+
 function PerfTile({
   label,
   rows,
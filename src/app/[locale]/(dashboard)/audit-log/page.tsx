@@ -13,6 +13,10 @@ import {
   Plus,
   RotateCcw,
   ChevronDown,
+  Trophy,
+  History,
+  Folder,
+  Tag,
 } from "lucide-react";
 
 interface AuditLogMetadata {
@@ -47,11 +51,23 @@ const actionIcons: Record<string, React.ReactNode> = {
   UPDATE_LINK: <Edit className="w-4 h-4 text-blue-600" />,
   DELETE_LINK: <Trash2 className="w-4 h-4 text-red-600" />,
   RESTORE_LINK: <RotateCcw className="w-4 h-4 text-purple-600" />,
+  PURGE_LINK: <Trash2 className="w-4 h-4 text-red-800" />,
   CREATE_TEMPLATE: <Plus className="w-4 h-4 text-green-600" />,
   UPDATE_TEMPLATE: <Edit className="w-4 h-4 text-blue-600" />,
   DELETE_TEMPLATE: <Trash2 className="w-4 h-4 text-red-600" />,
   SHARE_LINK: <Share2 className="w-4 h-4 text-cyan-600" />,
   REVOKE_SHARE: <Shield className="w-4 h-4 text-orange-600" />,
+  ADD_DOMAIN: <Plus className="w-4 h-4 text-green-600" />,
+  UPDATE_DOMAIN: <Edit className="w-4 h-4 text-blue-600" />,
+  REMOVE_DOMAIN: <Trash2 className="w-4 h-4 text-red-600" />,
+  PROMOTE_VARIANT: <Trophy className="w-4 h-4 text-amber-600" />,
+  ROLLBACK_LINK: <History className="w-4 h-4 text-sky-600" />,
+  CREATE_GROUP: <Folder className="w-4 h-4 text-green-600" />,
+  UPDATE_GROUP: <Folder className="w-4 h-4 text-blue-600" />,
+  DELETE_GROUP: <Folder className="w-4 h-4 text-red-600" />,
+  UPDATE_TAG: <Tag className="w-4 h-4 text-blue-600" />,
+  MERGE_TAGS: <Tag className="w-4 h-4 text-violet-600" />,
+  DELETE_TAG: <Tag className="w-4 h-4 text-red-600" />,
 };
 
 const actionLabels: Record<string, string> = {
@@ -59,11 +75,23 @@ const actionLabels: Record<string, string> = {
   UPDATE_LINK: "Updated link",
   DELETE_LINK: "Deleted link",
   RESTORE_LINK: "Restored link",
+  PURGE_LINK: "Permanently deleted link",
   CREATE_TEMPLATE: "Created template",
   UPDATE_TEMPLATE: "Updated template",
   DELETE_TEMPLATE: "Deleted template",
   SHARE_LINK: "Shared link",
   REVOKE_SHARE: "Revoked share",
+  ADD_DOMAIN: "Added domain",
+  UPDATE_DOMAIN: "Updated domain",
+  REMOVE_DOMAIN: "Removed domain",
+  PROMOTE_VARIANT: "Auto-promoted A/B winner",
+  ROLLBACK_LINK: "Rolled back link",
+  CREATE_GROUP: "Created folder",
+  UPDATE_GROUP: "Updated folder",
+  DELETE_GROUP: "Deleted folder",
+  UPDATE_TAG: "Updated tag",
+  MERGE_TAGS: "Merged tags",
+  DELETE_TAG: "Deleted tag",
 };
 
 const actionFilters = [
@@ -71,10 +99,20 @@ const actionFilters = [
   { value: "CREATE_LINK", label: "Create Link" },
   { value: "UPDATE_LINK", label: "Update Link" },
   { value: "DELETE_LINK", label: "Delete Link" },
+  { value: "RESTORE_LINK", label: "Restore Link" },
+  { value: "PURGE_LINK", label: "Purge Link" },
   { value: "CREATE_TEMPLATE", label: "Create Template" },
   { value: "UPDATE_TEMPLATE", label: "Update Template" },
   { value: "DELETE_TEMPLATE", label: "Delete Template" },
   { value: "SHARE_LINK", label: "Share Link" },
+  { value: "PROMOTE_VARIANT", label: "Promote Variant" },
+  { value: "ROLLBACK_LINK", label: "Rollback Link" },
+  { value: "CREATE_GROUP", label: "Create Folder" },
+  { value: "UPDATE_GROUP", label: "Update Folder" },
+  { value: "DELETE_GROUP", label: "Delete Folder" },
+  { value: "UPDATE_TAG", label: "Update Tag" },
+  { value: "MERGE_TAGS", label: "Merge Tags" },
+  { value: "DELETE_TAG", label: "Delete Tag" },
 ];
 
 export default function AuditLogPage() {
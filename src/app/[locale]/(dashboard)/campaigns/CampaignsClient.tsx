@@ -4,8 +4,12 @@
  * Campaigns list — the "how's every campaign doing?" hub.
  *
  * Leaderboard lives here — every campaign row shows windowed clicks,
- * conversions, CVR and goal progress. Select 2–4 rows to overlay a
+ * unique visitors, conversions, CVR, revenue, spend / ROAS and goal progress. Select 2–4 rows to overlay a
  * daily-clicks chart and jump into /campaigns/compare for side-by-side.
+ * Conversions are credited under the workspace's attribution model unless
+ * another one is picked in the toolbar (src/lib/attribution.ts); revenue
+ * and spend are in the workspace's reporting currency (src/lib/currency.ts,
+ * src/lib/spend.ts).
  */
 
 import { useState, useMemo, useCallback } from "react";
@@ -32,6 +36,10 @@ import { MultiCampaignChart } from "@/components/analytics/MultiCampaignChart";
 import { TrendCell, type TrendState } from "@/components/analytics/TrendCell";
 import { SyncButton } from "@/components/layout/SyncButton";
 import { formatRelativeTime } from "@/lib/utils/format";
+import { isCompareMode, type CompareMode } from "@/lib/date-ranges";
+import { ATTRIBUTION_MODELS, isAttributionModel, type AttributionModel } from "@/lib/attribution";
+import { formatMoney } from "@/lib/currency";
+import { formatRoas } from "@/lib/spend";
 
 interface CampaignRow {
   id: string | null;
@@ -43,7 +51,19 @@ interface CampaignRow {
   defaultMedium: string | null;
   linkCount: number;
   clicks: number;
+  /** Sketch estimate across the campaign's links — see lib/analytics/visitors */
+  uniqueVisitors: number;
+  /** Credit under meta.attribution.model — fractional under LINEAR */
   conversions: number;
+  /** Converted to meta.currency, split like conversions */
+  revenue: number;
+  /** Spend entries dated in the window, in meta.currency */
+  spend: number;
+  /** Whole budget in meta.currency */
+  budget: number | null;
+  cpc: number | null;
+  costPerConversion: number | null;
+  roas: number | null;
   cvr: number;
   goalClicks: number | null;
   goalPct: number | null;
@@ -75,6 +95,9 @@ interface SummaryResponse {
     totalCampaigns: number;
     totalOrphans: number;
     since: string;
+    attribution?: { model: AttributionModel; windowDays: number };
+    currency?: string;
+    unconvertedCurrencies?: string[];
   };
 }
 
@@ -88,6 +111,10 @@ const windowPresets: { value: string; labelKey: string; days: number }[] = [
   { value: "90d", labelKey: "last90Days", days: 90 },
 ];
 
+function formatConversions(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+}
+
 function statusClass(status: string | null): string {
   switch (status) {
     case "ACTIVE":
@@ -106,9 +133,15 @@ function statusClass(status: string | null): string {
 export default function CampaignsClient() {
   const t = useTranslations("campaigns");
   const tCommon = useTranslations("common");
+  const tWorkspace = useTranslations("workspace");
   const router = useRouter();
 
   const [window, setWindow] = useState<string>("30d");
+  // Trend column: null = last 7d vs prev 7d, else the whole window vs
+  // the previous window / the same dates last year.
+  const [compare, setCompare] = useState<CompareMode | null>(null);
+  // Conversion credit: null = the workspace's default attribution model.
+  const [model, setModel] = useState<AttributionModel | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("");
   const [sortKey, setSortKey] = useState<SortKey>("clicks");
@@ -123,13 +156,19 @@ export default function CampaignsClient() {
     });
   }, []);
 
-  const queryKey = useMemo(() => ["campaigns-summary", window] as const, [window]);
+  const queryKey = useMemo(
+    () =>
+      ["campaigns-summary", window, ...(compare ? [compare] : []), ...(model ? [model] : [])] as const,
+    [window, compare, model],
+  );
 
   const { data, isLoading: loading } = useQuery<SummaryResponse>({
     queryKey,
     queryFn: async () => {
       const preset = windowPresets.find((p) => p.value === window) ?? windowPresets[1];
-      const res = await fetch(`/api/analytics/campaigns-summary?days=${preset.days}`);
+      const res = await fetch(
+        `/api/analytics/campaigns-summary?days=${preset.days}${compare ? `&compare=${compare}` : ""}${model ? `&model=${model}` : ""}`,
+      );
       if (!res.ok) throw new Error("Failed to fetch campaigns summary");
       return (await res.json()) as SummaryResponse;
     },
@@ -267,6 +306,34 @@ export default function CampaignsClient() {
             </button>
           ))}
         </div>
+        <select
+          value={compare ?? ""}
+          onChange={(e) => setCompare(isCompareMode(e.target.value) ? e.target.value : null)}
+          className={`input ${compare ? "filter-active" : ""}`}
+          style={{ height: 32, fontSize: 12.5, cursor: "pointer" }}
+          title={t("trendCompareTip")}
+        >
+          <option value="">{t("trendLast7d")}</option>
+          <option value="previous">{t("trendVsPrevious")}</option>
+          <option value="lastYear">{t("trendVsLastYear")}</option>
+        </select>
+        <select
+          value={model ?? ""}
+          onChange={(e) => setModel(isAttributionModel(e.target.value) ? e.target.value : null)}
+          className={`input ${model ? "filter-active" : ""}`}
+          style={{ height: 32, fontSize: 12.5, cursor: "pointer" }}
+          title={t("attributionModelTip")}
+        >
+          <option value="">
+            {t("attributionDefault")}
+            {data?.meta.attribution && ` · ${tWorkspace(`attributionModels.${data.meta.attribution.model}`)}`}
+          </option>
+          {ATTRIBUTION_MODELS.map((m) => (
+            <option key={m} value={m}>
+              {tWorkspace(`attributionModels.${m}`)}
+            </option>
+          ))}
+        </select>
         <div className="search">
           <Search size={14} />
           <input
@@ -390,7 +457,24 @@ export default function CampaignsClient() {
                 <th style={{ width: 110 }}>{t("colStatus")}</th>
                 <th className="num" style={{ width: 70 }}>{t("colLinks")}</th>
                 <th className="num" style={{ width: 180 }}>{t("colClicks")}</th>
-                <th style={{ width: 130 }} title={t("col7dTrendTooltip")}>{t("col7dTrend")}</th>
+                <th className="num" style={{ width: 90 }} title={t("colVisitorsTooltip")}>
+                  {t("colVisitors")}
+                </th>
+                <th className="num" style={{ width: 110 }} title={t("colConversionsTooltip")}>
+                  {t("colConversions")}
+                </th>
+                <th className="num" style={{ width: 110 }} title={t("colRevenueTooltip")}>
+                  {t("colRevenue")}
+                </th>
+                <th className="num" style={{ width: 120 }} title={t("colSpendTooltip")}>
+                  {t("colSpend")}
+                </th>
+                <th
+                  style={{ width: 130 }}
+                  title={t(compare ? "colTrendTooltip" : "col7dTrendTooltip")}
+                >
+                  {t(compare ? "colTrend" : "col7dTrend")}
+                </th>
                 <th style={{ width: 110 }}>{t("colLastActivity")}</th>
                 <th style={{ width: 130 }}>{t("colGoal")}</th>
               </tr>
@@ -462,6 +546,53 @@ export default function CampaignsClient() {
                         <span className="num">{c.clicks.toLocaleString()}</span>
                       </div>
                     </td>
+                    <td className="num">{c.uniqueVisitors.toLocaleString()}</td>
+                    <td className="num">
+                      {c.conversions > 0 ? (
+                        <>
+                          {formatConversions(c.conversions)}
+                          <span className="muted" style={{ fontSize: 11, marginLeft: 6 }}>
+                            {c.cvr.toFixed(1)}%
+                          </span>
+                        </>
+                      ) : (
+                        <span className="muted">—</span>
+                      )}
+                    </td>
+                    <td className="num">
+                      {c.revenue > 0 && data?.meta.currency ? (
+                        formatMoney(c.revenue, data.meta.currency)
+                      ) : (
+                        <span className="muted">—</span>
+                      )}
+                    </td>
+                    <td className="num">
+                      {(c.spend ?? 0) > 0 && data?.meta.currency ? (
+                        <span
+                          title={[
+                            c.cpc !== null
+                              ? t("cpcValue", { value: formatMoney(c.cpc, data.meta.currency) })
+                              : null,
+                            c.costPerConversion !== null
+                              ? t("costPerConversionValue", {
+                                  value: formatMoney(c.costPerConversion, data.meta.currency),
+                                })
+                              : null,
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        >
+                          {formatMoney(c.spend, data.meta.currency)}
+                          {c.roas !== null && (
+                            <span className="muted" style={{ fontSize: 11, marginLeft: 6 }}>
+                              {formatRoas(c.roas)}
+                            </span>
+                          )}
+                        </span>
+                      ) : (
+                        <span className="muted">—</span>
+                      )}
+                    </td>
                     <td>
                       {(() => {
                         // Defensive: cached payloads from before these
@@ -475,6 +606,11 @@ export default function CampaignsClient() {
                             sparkline={sparkline}
                             trendPct={trendPct}
                             trendState={trendState}
+                            compareLabel={
+                              compare
+                                ? t(compare === "previous" ? "trendVsPrevious" : "trendVsLastYear")
+                                : undefined
+                            }
                           />
                         ) : (
                           <span className="muted">—</span>
@@ -525,6 +661,15 @@ export default function CampaignsClient() {
         )}
       </div>
 
+      {data?.meta.unconvertedCurrencies && data.meta.unconvertedCurrencies.length > 0 && (
+        <p style={{ marginTop: 14, fontSize: 11.5, color: "var(--warn-fg)" }}>
+          {t("unconvertedCurrencies", {
+            currencies: data.meta.unconvertedCurrencies.join(", "),
+            currency: data.meta.currency ?? "",
+          })}
+        </p>
+      )}
+
       <p style={{ marginTop: 14, fontSize: 11.5, color: "var(--ink-500)" }}>
         {t("compareTip")}
       </p>
@@ -25,16 +25,23 @@ import {
   Trash2,
   AlertTriangle,
   RotateCcw,
+  Coins,
 } from "lucide-react";
 import Link from "next/link";
 import { useToast } from "@/components/ui/Toast";
 import { ClicksChart } from "@/components/analytics/ClicksChart";
+import { useReportingTimeZone } from "@/lib/hooks/useReportingTimeZone";
 import { PieChartComponent } from "@/components/analytics/PieChartComponent";
 import { TrendCell, classifyTrend, type TrendState } from "@/components/analytics/TrendCell";
 import { formatRelativeTime } from "@/lib/utils/format";
+import { buildShortUrl } from "@/lib/utils/short-url";
 import { computeAnalytics, type RawAnalyticsData } from "@/lib/analytics/compute";
 import { PageHeader } from "@/components/layout/PageHeader";
 import { SyncButton } from "@/components/layout/SyncButton";
+import { UtmMismatchList } from "@/components/analytics/UtmMismatchList";
+import { CampaignSpendCard } from "@/components/campaigns/CampaignSpendCard";
+import { formatMoney } from "@/lib/currency";
+import type { AttributionModel } from "@/lib/attribution";
 
 interface CampaignLink {
   id: string;
@@ -48,6 +55,7 @@ interface CampaignLink {
   utmMedium: string | null;
   utmContent: string | null;
   _count: { clicks: number; conversions?: number };
+  domain?: { id: string; hostname: string } | null;
 }
 
 type TabId = "overview" | "traffic" | "links";
@@ -66,6 +74,7 @@ export default function CampaignDetailPage() {
   // Test-click filter strings live in the analytics namespace because
   // the same UI shows up on /analytics — keeping one source of truth.
   const tAnalytics = useTranslations("analytics");
+  const tWorkspace = useTranslations("workspace");
   const campaignName = decodeURIComponent(params.name as string);
 
   const qc = useQueryClient();
@@ -91,8 +100,6 @@ export default function CampaignDetailPage() {
   const [resetOpen, setResetOpen] = useState(false);
   const [resetting, setResetting] = useState(false);
 
-  const shortBaseUrl = process.env.NEXT_PUBLIC_SHORT_URL || "http://localhost:3000/s";
-
   // Pre-launch test click filter. Off by default — campaign metrics
   // show real traffic only. Toggle to include clicks the redirect
   // handler flagged as internal.
@@ -136,10 +143,20 @@ export default function CampaignDetailPage() {
     queryFn: async () => {
       const response = await fetch(`/api/utm-campaigns/${encodeURIComponent(campaignName)}`);
       if (!response.ok) return { goalClicks: null as number | null };
-      return (await response.json()) as { goalClicks: number | null };
+      return (await response.json()) as {
+        goalClicks: number | null;
+        // All-time, under the workspace's attribution model and in its
+        // reporting currency.
+        conversions?: number;
+        revenue?: number;
+        currency?: string;
+        attributionModel?: AttributionModel;
+        unconvertedCurrencies?: string[];
+      };
     },
   });
   const goalClicks = goalData?.goalClicks ?? null;
+  const { timeZone } = useReportingTimeZone();
 
   const { data: raw, isLoading: rawLoading } = useQuery<RawAnalyticsData>({
     queryKey: rawKey,
@@ -158,8 +175,16 @@ export default function CampaignDetailPage() {
     const rangeEnd = new Date();
     const rangeStart = new Date();
     rangeStart.setDate(rangeEnd.getDate() - 30);
-    return computeAnalytics(raw, { rangeStart, rangeEnd, campaign: campaignName });
-  }, [raw, campaignName]);
+    return computeAnalytics(raw, { rangeStart, rangeEnd, campaign: campaignName, timeZone });
+  }, [raw, campaignName, timeZone]);
+
+  // Browser / OS still come from the capped raw clicks — flag them once
+  // the cap is hit.
+  const sampledBadge = raw?.meta.truncated ? (
+    <span className="badge draft" style={{ marginLeft: 8 }} title={tAnalytics("sampledHint")}>
+      {tAnalytics("sampled")}
+    </span>
+  ) : null;
 
   // Per-link metrics from the raw click stream — single pass over all
   // clicks keyed by shortLinkId, so we don't re-scan N times per link.
@@ -242,7 +267,7 @@ export default function CampaignDetailPage() {
       if (response.ok) {
         // Optimistic update + invalidate both the goal query and the
         // Campaigns leaderboard so goal progress % stays consistent.
-        qc.setQueryData(goalKey, { goalClicks: parsed });
+        qc.setQueryData<typeof goalData>(goalKey, (prev) => ({ ...prev, goalClicks: parsed }));
         qc.invalidateQueries({ queryKey: ["campaigns-summary"] });
         setEditingGoal(false);
         success(t("goalSaved"));
@@ -263,7 +288,7 @@ export default function CampaignDetailPage() {
         body: JSON.stringify({ goalClicks: null }),
       });
       if (response.ok) {
-        qc.setQueryData(goalKey, { goalClicks: null });
+        qc.setQueryData<typeof goalData>(goalKey, (prev) => ({ ...prev, goalClicks: null }));
         qc.invalidateQueries({ queryKey: ["campaigns-summary"] });
         setGoalInput("");
         setEditingGoal(false);
@@ -347,7 +372,7 @@ export default function CampaignDetailPage() {
   };
 
   const copyAllLinks = async () => {
-    const all = links.map((l) => `${shortBaseUrl}/${l.code}`).join("\n");
+    const all = links.map((l) => buildShortUrl(l.code, l.domain?.hostname)).join("\n");
     await navigator.clipboard.writeText(all);
     setCopiedAll(true);
     success(t("allLinksCopied"));
@@ -640,7 +665,7 @@ export default function CampaignDetailPage() {
       </div>
 
       {/* KPI Row */}
-      <div className="kpi-row" style={{ gridTemplateColumns: "repeat(3, 1fr)" }}>
+      <div className="kpi-row" style={{ gridTemplateColumns: "repeat(4, 1fr)" }}>
         <div className="kpi">
           <div className="kpi-label">
             <Link2 size={12} /> {t("kpiLinks")}
@@ -694,6 +719,28 @@ export default function CampaignDetailPage() {
           </div>
           <div className="kpi-sub">{t("kpiPerLink")}</div>
         </div>
+        <div className="kpi">
+          <div className="kpi-label">
+            <Coins size={12} /> {t("kpiRevenue")}
+          </div>
+          <div className="kpi-value">
+            {goalData?.currency ? formatMoney(goalData.revenue ?? 0, goalData.currency) : "—"}
+          </div>
+          <div
+            className="kpi-sub"
+            title={
+              goalData?.unconvertedCurrencies?.length
+                ? t("kpiRevenueUnconverted", { currencies: goalData.unconvertedCurrencies.join(", ") })
+                : undefined
+            }
+          >
+            {t("kpiConversions", {
+              n: (goalData?.conversions ?? 0).toLocaleString(undefined, { maximumFractionDigits: 1 }),
+            })}
+            {goalData?.attributionModel && ` · ${tWorkspace(`attributionModels.${goalData.attributionModel}`)}`}
+            {goalData?.unconvertedCurrencies?.length ? " ⚠" : ""}
+          </div>
+        </div>
       </div>
 
       {/* Tabs */}
@@ -818,6 +865,8 @@ export default function CampaignDetailPage() {
             )}
           </div>
 
+          <CampaignSpendCard campaignName={campaignName} />
+
           {/* Trend chart */}
           <div className="card card-padded">
             <div className="section-title" style={{ marginBottom: 10 }}>
@@ -845,6 +894,7 @@ export default function CampaignDetailPage() {
       {/* Traffic tab */}
       {activeTab === "traffic" && (
         <div className="stack" style={{ gap: 14 }}>
+          <UtmMismatchList campaign={campaignName} />
           {rawLoading ? (
             <div className="card" style={{ padding: 48, display: "grid", placeItems: "center" }}>
               <Loader2 size={20} className="animate-spin" style={{ color: "var(--ink-500)" }} />
@@ -883,8 +933,24 @@ export default function CampaignDetailPage() {
                 </div>
                 <div className="grid-3">
                   <PieChartComponent data={computed.devices} title={t("device")} />
-                  <PieChartComponent data={computed.browsers} title={t("browser")} />
-                  <PieChartComponent data={computed.operatingSystems} title={t("os")} />
+                  <PieChartComponent
+                    data={computed.browsers}
+                    title={
+                      <>
+                        {t("browser")}
+                        {sampledBadge}
+                      </>
+                    }
+                  />
+                  <PieChartComponent
+                    data={computed.operatingSystems}
+                    title={
+                      <>
+                        {t("os")}
+                        {sampledBadge}
+                      </>
+                    }
+                  />
                 </div>
               </div>
 
@@ -969,7 +1035,7 @@ export default function CampaignDetailPage() {
               </thead>
               <tbody>
                 {links.map((link) => {
-                  const shortUrl = `${shortBaseUrl}/${link.code}`;
+                  const shortUrl = buildShortUrl(link.code, link.domain?.hostname);
                   const m = perLinkMetrics.get(link.id);
                   const sharePct = (link._count.clicks / totalCampaignClicks) * 100;
                   return (
@@ -1,7 +1,9 @@
 "use client";
 
 /**
- * /campaigns/compare?names=a,b,c — side-by-side deep comparison.
+ * /campaigns/compare?names=a,b,c — side-by-side deep comparison. Spend
+ * and the cost metrics are in the workspace's reporting currency
+ * (src/lib/spend.ts).
  */
 
 import { useState, useMemo, useCallback } from "react";
@@ -16,11 +18,14 @@ import {
   LineChart as LineChartIcon,
   X,
   Flag,
+  Coins,
 } from "lucide-react";
 import { MultiCampaignChart } from "@/components/analytics/MultiCampaignChart";
 import { PageHeader } from "@/components/layout/PageHeader";
 import { SyncButton } from "@/components/layout/SyncButton";
 import { computeAnalytics, type RawAnalyticsData } from "@/lib/analytics/compute";
+import { formatMoney } from "@/lib/currency";
+import { formatRoas } from "@/lib/spend";
 
 interface CampaignRow {
   id: string | null;
@@ -31,9 +36,14 @@ interface CampaignRow {
   linkCount: number;
   clicks: number;
   conversions: number;
+  revenue: number;
   cvr: number;
   goalClicks: number | null;
   goalPct: number | null;
+  spend: number;
+  cpc: number | null;
+  costPerConversion: number | null;
+  roas: number | null;
 }
 
 interface SummaryResponse {
@@ -42,7 +52,7 @@ interface SummaryResponse {
     dates: string[];
     perCampaign: Record<string, number[]>;
   };
-  meta: { days: number };
+  meta: { days: number; currency?: string };
 }
 
 const windowPresets: { value: string; days: number }[] = [
@@ -171,6 +181,7 @@ export default function CompareClient({ initialNames }: { initialNames: string[]
     return {
       clicks: best("clicks"),
       goalPct: best("goalPct"),
+      roas: best("roas"),
     };
   }, [selectedCampaigns]);
 
@@ -191,6 +202,9 @@ export default function CompareClient({ initialNames }: { initialNames: string[]
   }
 
   const days = summary?.meta.days ?? 30;
+  const currency = summary?.meta.currency;
+  const money = (value: number | null) =>
+    value !== null && currency ? formatMoney(value, currency) : "—";
 
   return (
     <>
@@ -231,7 +245,7 @@ export default function CompareClient({ initialNames }: { initialNames: string[]
         <>
           {/* Winner KPIs */}
           {winners && (
-            <div className="kpi-row" style={{ gridTemplateColumns: "repeat(2, 1fr)" }}>
+            <div className="kpi-row" style={{ gridTemplateColumns: "repeat(3, 1fr)" }}>
               <WinnerCard
                 icon={<MousePointerClick size={12} />}
                 label={t("mostClicks")}
@@ -246,6 +260,13 @@ export default function CompareClient({ initialNames }: { initialNames: string[]
                 format={(c) => (c.goalPct !== null ? `${c.goalPct.toFixed(0)}%` : "—")}
                 emptyHint={t("noGoalsSet")}
               />
+              <WinnerCard
+                icon={<Coins size={12} />}
+                label={t("bestRoas")}
+                winner={winners.roas}
+                format={(c) => (c.roas !== null ? formatRoas(c.roas) : "—")}
+                emptyHint={t("noSpendLogged")}
+              />
             </div>
           )}
 
@@ -338,6 +359,27 @@ export default function CompareClient({ initialNames }: { initialNames: string[]
                     </div>
                   </div>
 
+                  <div className="compare-metrics" style={{ gridTemplateColumns: "1fr 1fr" }}>
+                    <div>
+                      <div className="compare-metric-label">{t("spend")}</div>
+                      <div className="compare-metric-val">{money(c.spend > 0 ? c.spend : null)}</div>
+                    </div>
+                    <div>
+                      <div className="compare-metric-label">{t("roas")}</div>
+                      <div className="compare-metric-val">
+                        {c.roas !== null ? formatRoas(c.roas) : "—"}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="compare-metric-label">{t("cpc")}</div>
+                      <div className="compare-metric-val">{money(c.cpc)}</div>
+                    </div>
+                    <div>
+                      <div className="compare-metric-label">{t("costPerConversion")}</div>
+                      <div className="compare-metric-val">{money(c.costPerConversion)}</div>
+                    </div>
+                  </div>
+
                   {c.goalPct !== null && c.goalClicks ? (
                     <div className="compare-row">
                       <div className="row-between" style={{ marginBottom: 6 }}>
@@ -0,0 +1,45 @@
+import { ChevronLeft, FileSpreadsheet } from "lucide-react";
+import Link from "next/link";
+import ConversionImportClient from "./ConversionImportClient";
+
+export function generateMetadata() {
+  return { title: "Import Offline Conversions" };
+}
+
+export default function ConversionImportPage() {
+  return (
+    <div style={{ maxWidth: 720, margin: "0 auto" }}>
+      <Link href="/funnels" className="back-link">
+        <ChevronLeft size={13} /> Back to Funnels
+      </Link>
+      <div className="card" style={{ padding: 24 }}>
+        <div style={{ display: "flex", gap: 12, alignItems: "center", marginBottom: 16 }}>
+          <div
+            style={{
+              width: 36,
+              height: 36,
+              borderRadius: 8,
+              background: "var(--brand-50)",
+              color: "var(--brand-600)",
+              display: "grid",
+              placeItems: "center",
+            }}
+          >
+            <FileSpreadsheet size={18} />
+          </div>
+          <div>
+            <div style={{ fontSize: 15, fontWeight: 600, color: "var(--ink-100)" }}>
+              Import offline conversions
+            </div>
+          </div>
+        </div>
+        <p style={{ fontSize: 13, color: "var(--ink-400)", margin: "0 0 16px" }}>
+          Upload orders and leads that closed outside the website — distributor orders,
+          trade-show leads — using the <code>_sl</code> session ID your CRM captured from the
+          landing URL. Each row is attributed to the click it came from.
+        </p>
+        <ConversionImportClient />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,618 @@
+"use client";
+
+/**
+ * /funnels — workspace funnels (ordered conversion events, see
+ * src/lib/funnels.ts) and their report: step counts, drop-off and
+ * median time between steps, optionally broken down per link, campaign
+ * or A/B variant.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowDown,
+  ChevronDown,
+  FileSpreadsheet,
+  Filter,
+  Layers,
+  Link2,
+  Loader2,
+  Pencil,
+  Plus,
+  Trash2,
+  X,
+} from "lucide-react";
+import { Link } from "@/i18n/routing";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { SyncButton } from "@/components/layout/SyncButton";
+import { CampaignFilter } from "@/components/campaigns/CampaignFilter";
+import { EmptyState } from "@/components/ui/EmptyState";
+import { useToast } from "@/components/ui/Toast";
+import { dateRangeParams, type RangePreset } from "@/lib/date-ranges";
+import {
+  FUNNEL_GROUP_BYS,
+  MAX_FUNNEL_STEPS,
+  MAX_FUNNEL_WINDOW_DAYS,
+  isFunnelGroupBy,
+  type FunnelGroupBy,
+  type FunnelReport,
+} from "@/lib/funnels";
+
+interface Funnel {
+  id: string;
+  name: string;
+  steps: string[];
+  windowDays: number;
+}
+
+interface FunnelsResponse {
+  funnels: Funnel[];
+  events: { name: string; count: number }[];
+}
+
+interface FunnelReportResponse {
+  groupBy: FunnelGroupBy | null;
+  total: FunnelReport;
+  groups: (FunnelReport & { key: string | null; label: string | null })[];
+}
+
+interface LinkOption {
+  id: string;
+  code: string;
+  title: string | null;
+}
+
+interface FunnelDraft {
+  id: string | null;
+  name: string;
+  steps: string[];
+  windowDays: number;
+}
+
+const funnelsKey = ["funnels"] as const;
+
+const dateRanges: { value: RangePreset; labelKey: string }[] = [
+  { value: "7d", labelKey: "range7d" },
+  { value: "30d", labelKey: "range30d" },
+  { value: "90d", labelKey: "range90d" },
+];
+
+function pct(n: number): string {
+  return `${(n * 100).toFixed(1)}%`;
+}
+
+// 45s / 12m / 3h 20m / 2d 4h
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return "—";
+  const s = Math.round(seconds);
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.round(s / 60)}m`;
+  if (s < 86400) return `${Math.floor(s / 3600)}h ${Math.round((s % 3600) / 60)}m`;
+  return `${Math.floor(s / 86400)}d ${Math.round((s % 86400) / 3600)}h`;
+}
+
+export default function FunnelsClient({
+  initialCampaign,
+  initialLinkId,
+}: {
+  initialCampaign: string;
+  initialLinkId: string;
+}) {
+  const t = useTranslations("funnels");
+  const tAnalytics = useTranslations("analytics");
+  const tCommon = useTranslations("common");
+  const qc = useQueryClient();
+  const { success, error: toastError } = useToast();
+  const { hasPermission } = useWorkspace();
+
+  const [selectedId, setSelectedId] = useState<string>("");
+  const [draft, setDraft] = useState<FunnelDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [range, setRange] = useState<RangePreset>("30d");
+  const [campaign, setCampaign] = useState(initialCampaign);
+  const [linkId, setLinkId] = useState(initialLinkId);
+  const [groupBy, setGroupBy] = useState<FunnelGroupBy | "">("");
+
+  const { data, isLoading } = useQuery({
+    queryKey: funnelsKey,
+    queryFn: async (): Promise<FunnelsResponse> => {
+      const response = await fetch("/api/funnels");
+      if (!response.ok) throw new Error("Failed to load funnels");
+      return response.json();
+    },
+  });
+  const funnels = useMemo(() => data?.funnels ?? [], [data]);
+  const funnel = funnels.find((f) => f.id === selectedId) ?? funnels[0] ?? null;
+
+  const { data: links = [] } = useQuery({
+    queryKey: ["funnel-links", campaign],
+    queryFn: async (): Promise<LinkOption[]> => {
+      const params = new URLSearchParams({ limit: "100", sortBy: "clicks", sortOrder: "desc" });
+      if (campaign) params.set("campaign", campaign);
+      const response = await fetch(`/api/links?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to load links");
+      return ((await response.json()).links || []) as LinkOption[];
+    },
+  });
+
+  // Variant ids are per link — the breakdown needs one picked.
+  useEffect(() => {
+    if (groupBy === "variant" && !linkId) setGroupBy("");
+  }, [groupBy, linkId]);
+
+  const reportParams = useMemo(() => {
+    const params = new URLSearchParams(dateRangeParams(range));
+    if (campaign) params.set("campaign", campaign);
+    if (linkId) params.set("linkId", linkId);
+    if (groupBy) params.set("groupBy", groupBy);
+    return params.toString();
+  }, [range, campaign, linkId, groupBy]);
+  const reportKey = useMemo(
+    () => ["funnel-report", funnel?.id ?? null, reportParams] as const,
+    [funnel?.id, reportParams],
+  );
+
+  const { data: report, isLoading: reportLoading } = useQuery({
+    queryKey: reportKey,
+    enabled: !!funnel && !draft,
+    queryFn: async (): Promise<FunnelReportResponse> => {
+      const response = await fetch(`/api/funnels/${funnel!.id}/report?${reportParams}`);
+      if (!response.ok) throw new Error("Failed to load funnel report");
+      return response.json();
+    },
+  });
+
+  const startNew = () =>
+    setDraft({ id: null, name: "", steps: [""], windowDays: 30 });
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const body = {
+        name: draft.name,
+        steps: draft.steps.map((s) => s.trim()).filter(Boolean),
+        windowDays: draft.windowDays,
+      };
+      const response = await fetch(draft.id ? `/api/funnels/${draft.id}` : "/api/funnels", {
+        method: draft.id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        const message = Array.isArray(result.error) ? result.error[0]?.message : result.error;
+        throw new Error(message || "Failed to save funnel");
+      }
+      await qc.invalidateQueries({ queryKey: funnelsKey });
+      qc.invalidateQueries({ queryKey: ["funnel-report"] });
+      setSelectedId(result.id);
+      setDraft(null);
+      success(t("saved", { name: result.name }));
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : "Failed to save funnel");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteFunnel = async (target: Funnel) => {
+    if (!confirm(t("deleteConfirm", { name: target.name }))) return;
+    try {
+      const response = await fetch(`/api/funnels/${target.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to delete funnel");
+      }
+      qc.setQueryData<FunnelsResponse>(funnelsKey, (prev) =>
+        prev ? { ...prev, funnels: prev.funnels.filter((f) => f.id !== target.id) } : prev,
+      );
+      setSelectedId("");
+      setDraft(null);
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : "Failed to delete funnel");
+    }
+  };
+
+  const updateStep = (index: number, value: string) =>
+    draft && setDraft({ ...draft, steps: draft.steps.map((s, i) => (i === index ? value : s)) });
+
+  return (
+    <>
+      <PageHeader
+        title={t("title")}
+        description={t("description")}
+        actions={
+          <>
+            <SyncButton queryKeys={[[...funnelsKey], [...reportKey]]} />
+            {hasPermission("manage") && (
+              <Link href="/conversions/import" className="btn btn-secondary">
+                <FileSpreadsheet size={12} /> {t("importOffline")}
+              </Link>
+            )}
+            <button className="btn btn-primary" onClick={startNew} disabled={!!draft}>
+              <Plus size={13} /> {t("newFunnel")}
+            </button>
+          </>
+        }
+      />
+
+      {/* Editor */}
+      {draft && (
+        <div className="card card-padded" style={{ marginBottom: 14 }}>
+          <div className="row-between" style={{ marginBottom: 12 }}>
+            <div className="section-title">
+              <Filter size={14} style={{ color: "var(--data-violet)" }} />
+              {draft.id ? t("editFunnel") : t("newFunnel")}
+            </div>
+            <button className="btn btn-ghost" style={{ padding: "4px 6px" }} onClick={() => setDraft(null)}>
+              <X size={13} />
+            </button>
+          </div>
+
+          <div className="stack" style={{ gap: 14 }}>
+            <div className="grid-2">
+              <div>
+                <div className="field-label">{t("name")}</div>
+                <input
+                  className="input"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder={t("namePlaceholder")}
+                  maxLength={80}
+                  style={{ width: "100%" }}
+                />
+              </div>
+              <div>
+                <div className="field-label">{t("window")}</div>
+                <input
+                  type="number"
+                  className="input"
+                  min={1}
+                  max={MAX_FUNNEL_WINDOW_DAYS}
+                  value={draft.windowDays}
+                  onChange={(e) => setDraft({ ...draft, windowDays: Number(e.target.value) || 1 })}
+                  style={{ width: 120 }}
+                />
+                <p className="section-sub" style={{ margin: "4px 0 0" }}>
+                  {t("windowHint")}
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <div className="field-label">{t("steps")}</div>
+              <p className="section-sub">{t("stepsHint")}</p>
+              <datalist id="funnel-events">
+                {(data?.events ?? []).map((e) => (
+                  <option key={e.name} value={e.name}>
+                    {t("eventCount", { n: e.count })}
+                  </option>
+                ))}
+              </datalist>
+              <div className="stack" style={{ gap: 8 }}>
+                {draft.steps.map((step, index) => (
+                  <div key={index} className="row" style={{ gap: 8 }}>
+                    <span className="muted" style={{ width: 20, fontFamily: "var(--font-mono)", fontSize: 12 }}>
+                      {index + 1}.
+                    </span>
+                    <input
+                      className="input"
+                      list="funnel-events"
+                      value={step}
+                      onChange={(e) => updateStep(index, e.target.value)}
+                      placeholder="add_to_cart"
+                      maxLength={60}
+                      style={{ flex: 1, fontFamily: "var(--font-mono)" }}
+                    />
+                    <button
+                      className="btn btn-ghost"
+                      style={{ padding: "4px 6px" }}
+                      onClick={() => setDraft({ ...draft, steps: draft.steps.filter((_, i) => i !== index) })}
+                      disabled={draft.steps.length === 1}
+                      title={t("removeStep")}
+                    >
+                      <Trash2 size={13} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                className="btn btn-secondary"
+                style={{ marginTop: 8 }}
+                onClick={() => setDraft({ ...draft, steps: [...draft.steps, ""] })}
+                disabled={draft.steps.length >= MAX_FUNNEL_STEPS}
+              >
+                <Plus size={13} /> {t("addStep")}
+              </button>
+            </div>
+
+            <div className="row" style={{ gap: 8 }}>
+              <button
+                className="btn btn-primary"
+                onClick={saveDraft}
+                disabled={saving || !draft.name.trim() || !draft.steps.some((s) => s.trim())}
+              >
+                {saving && <Loader2 size={13} className="animate-spin" />}
+                {tCommon("save")}
+              </button>
+              <button className="btn btn-secondary" onClick={() => setDraft(null)}>
+                {tCommon("cancel")}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="card" style={{ padding: 48, display: "grid", placeItems: "center" }}>
+          <Loader2 size={20} className="animate-spin" style={{ color: "var(--ink-500)" }} />
+        </div>
+      ) : !funnel ? (
+        !draft && (
+          <EmptyState
+            icon={<Filter className="w-12 h-12" />}
+            title={t("emptyTitle")}
+            description={t("emptyDescription")}
+            action={{ label: t("newFunnel"), onClick: startNew }}
+          />
+        )
+      ) : (
+        <>
+          {/* Toolbar */}
+          <div className="toolbar">
+            {funnels.length > 1 && (
+              <div style={{ position: "relative" }}>
+                <select
+                  value={funnel.id}
+                  onChange={(e) => setSelectedId(e.target.value)}
+                  className="input"
+                  style={{ height: 32, paddingLeft: 32, paddingRight: 28, appearance: "none", cursor: "pointer" }}
+                >
+                  {funnels.map((f) => (
+                    <option key={f.id} value={f.id}>
+                      {f.name}
+                    </option>
+                  ))}
+                </select>
+                <Filter
+                  size={13}
+                  style={{ position: "absolute", left: 10, top: "50%", transform: "translateY(-50%)", color: "var(--ink-500)", pointerEvents: "none" }}
+                />
+                <ChevronDown
+                  size={12}
+                  style={{ position: "absolute", right: 8, top: "50%", transform: "translateY(-50%)", color: "var(--ink-500)", pointerEvents: "none" }}
+                />
+              </div>
+            )}
+
+            <div className="segmented">
+              {dateRanges.map((r) => (
+                <button
+                  key={r.value}
+                  className={range === r.value ? "active" : ""}
+                  onClick={() => setRange(r.value)}
+                >
+                  {tAnalytics(r.labelKey)}
+                </button>
+              ))}
+            </div>
+
+            <div style={{ flex: 1 }} />
+
+            <CampaignFilter
+              value={campaign}
+              onChange={(value) => {
+                setCampaign(value);
+                setLinkId("");
+              }}
+              showNoCampaign
+            />
+
+            <div style={{ position: "relative", minWidth: 180 }}>
+              <select
+                value={linkId}
+                onChange={(e) => setLinkId(e.target.value)}
+                className={`input ${linkId ? "filter-active" : ""}`}
+                style={{ height: 32, paddingLeft: 32, paddingRight: 28, appearance: "none", cursor: "pointer", width: "100%" }}
+              >
+                <option value="">{tAnalytics("allLinks")}</option>
+                {links.map((link) => (
+                  <option key={link.id} value={link.id}>
+                    /{link.code} {link.title ? `- ${link.title}` : ""}
+                  </option>
+                ))}
+              </select>
+              <Link2
+                size={13}
+                style={{ position: "absolute", left: 10, top: "50%", transform: "translateY(-50%)", color: "var(--ink-500)", pointerEvents: "none" }}
+              />
+            </div>
+
+            <div style={{ position: "relative" }}>
+              <select
+                value={groupBy}
+                onChange={(e) => setGroupBy(isFunnelGroupBy(e.target.value) ? e.target.value : "")}
+                className={`input ${groupBy ? "filter-active" : ""}`}
+                style={{ height: 32, paddingLeft: 32, paddingRight: 28, appearance: "none", cursor: "pointer" }}
+              >
+                <option value="">{t("groupByNone")}</option>
+                {FUNNEL_GROUP_BYS.map((g) => (
+                  <option key={g} value={g} disabled={g === "variant" && !linkId}>
+                    {g === "variant" && !linkId ? t("groupByVariantNeedsLink") : t(`groupBy.${g}`)}
+                  </option>
+                ))}
+              </select>
+              <Layers
+                size={13}
+                style={{ position: "absolute", left: 10, top: "50%", transform: "translateY(-50%)", color: "var(--ink-500)", pointerEvents: "none" }}
+              />
+            </div>
+          </div>
+
+          {/* Funnel */}
+          <div className="card card-padded" style={{ marginBottom: 14 }}>
+            <div className="row-between" style={{ marginBottom: 4 }}>
+              <div className="section-title">
+                <Filter size={14} style={{ color: "var(--data-violet)" }} />
+                {funnel.name}
+              </div>
+              <div className="row" style={{ gap: 4 }}>
+                <button
+                  className="btn btn-ghost"
+                  style={{ padding: "4px 6px" }}
+                  onClick={() => setDraft({ ...funnel })}
+                  title={t("editFunnel")}
+                >
+                  <Pencil size={13} />
+                </button>
+                <button
+                  className="btn btn-ghost"
+                  style={{ padding: "4px 6px" }}
+                  onClick={() => deleteFunnel(funnel)}
+                  title={t("deleteFunnel")}
+                >
+                  <Trash2 size={13} />
+                </button>
+              </div>
+            </div>
+            <p className="section-sub">{t("reportHint", { days: funnel.windowDays })}</p>
+
+            {reportLoading || !report ? (
+              <div style={{ height: 200, display: "grid", placeItems: "center" }}>
+                <Loader2 size={20} className="animate-spin" style={{ color: "var(--ink-500)" }} />
+              </div>
+            ) : (
+              <FunnelBars report={report.total} />
+            )}
+          </div>
+
+          {/* Breakdown */}
+          {report && report.groupBy && (
+            <div className="card" style={{ marginBottom: 14 }}>
+              <div className="card-padded" style={{ paddingBottom: 0 }}>
+                <div className="section-title">{t("breakdownTitle", { by: t(`groupBy.${report.groupBy}`) })}</div>
+              </div>
+              <div className="table-scroll">
+                <table className="data">
+                  <thead>
+                    <tr>
+                      <th>{t(`groupBy.${report.groupBy}`)}</th>
+                      <th className="num">{t("clicks")}</th>
+                      {report.total.steps.map((s) => (
+                        <th key={s.event} className="num" style={{ fontFamily: "var(--font-mono)" }}>
+                          {s.event}
+                        </th>
+                      ))}
+                      <th className="num">{t("overallRate")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.groups.map((g) => {
+                      const last = g.steps[g.steps.length - 1];
+                      return (
+                        <tr key={g.key ?? "__none__"}>
+                          <td>
+                            {g.label ??
+                              (report.groupBy === "variant" ? t("primaryUrl") : t("noCampaign"))}
+                          </td>
+                          <td className="num">{g.clicks.toLocaleString()}</td>
+                          {g.steps.map((s) => (
+                            <td key={s.event} className="num">
+                              {s.sessions.toLocaleString()}
+                              <span className="muted" style={{ marginLeft: 6, fontSize: 11 }}>
+                                {pct(s.rate)}
+                              </span>
+                            </td>
+                          ))}
+                          <td className="num">{last ? pct(last.rate) : "—"}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </>
+  );
+}
+
+function FunnelBars({ report }: { report: FunnelReport }) {
+  const t = useTranslations("funnels");
+
+  if (report.clicks === 0) {
+    return (
+      <p className="placeholder" style={{ textAlign: "center", padding: "32px 0" }}>
+        {t("noClicks")}
+      </p>
+    );
+  }
+
+  return (
+    <div className="stack" style={{ gap: 6 }}>
+      <FunnelRow label={t("clicks")} count={report.clicks} share={1} />
+      {report.steps.map((step, index) => {
+        const previous = index === 0 ? report.clicks : report.steps[index - 1].sessions;
+        const dropped = previous - step.sessions;
+        return (
+          <div key={step.event} className="stack" style={{ gap: 6 }}>
+            <div className="row muted" style={{ gap: 10, fontSize: 11.5, paddingLeft: 4 }}>
+              <ArrowDown size={12} />
+              <span>{t("stepRate", { pct: pct(step.stepRate) })}</span>
+              <span>·</span>
+              <span>{t("dropOff", { n: dropped.toLocaleString() })}</span>
+              <span>·</span>
+              <span>{t("medianTime", { time: formatDuration(step.medianSeconds) })}</span>
+            </div>
+            <FunnelRow label={step.event} mono count={step.sessions} share={step.rate} />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function FunnelRow({
+  label,
+  count,
+  share,
+  mono = false,
+}: {
+  label: string;
+  count: number;
+  share: number;
+  mono?: boolean;
+}) {
+  return (
+    <div className="row" style={{ gap: 12 }}>
+      <span
+        style={{
+          width: 140,
+          fontSize: 12.5,
+          fontWeight: 500,
+          fontFamily: mono ? "var(--font-mono)" : undefined,
+          overflow: "hidden",
+          textOverflow: "ellipsis",
+          whiteSpace: "nowrap",
+        }}
+        title={label}
+      >
+        {label}
+      </span>
+      <div className="bar-track" style={{ flex: 1, height: 22 }}>
+        <div className="bar-fill" style={{ width: `${Math.max(share * 100, 0.5)}%`, background: "var(--data-violet)" }} />
+      </div>
+      <span style={{ fontFamily: "var(--font-mono)", fontSize: 12.5, minWidth: 60, textAlign: "right" }}>
+        {count.toLocaleString()}
+      </span>
+      <span className="muted" style={{ fontFamily: "var(--font-mono)", fontSize: 12, minWidth: 52, textAlign: "right" }}>
+        {pct(share)}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { auth } from "@/lib/auth";
+import { checkWorkspaceAccess } from "@/lib/workspace";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import FunnelsClient from "./FunnelsClient";
+
+export function generateMetadata() {
+  return { title: "Funnels" };
+}
+
+export default async function FunnelsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ campaign?: string; linkId?: string }>;
+}) {
+  const session = await auth();
+  if (!session?.user) redirect("/auth/signin");
+
+  const requestHeaders = await headers();
+  const workspaceId = requestHeaders.get("x-workspace-id") || null;
+  if (workspaceId && !(await checkWorkspaceAccess(workspaceId, session.user.id))) {
+    redirect("/");
+  }
+
+  const params = await searchParams;
+  return (
+    <FunnelsClient initialCampaign={params.campaign ?? ""} initialLinkId={params.linkId ?? ""} />
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo, type DragEvent } from "react";
 import { useTranslations } from "next-intl";
 import { useSearchParams } from "next/navigation";
 import { Link } from "@/i18n/routing";
@@ -11,6 +11,9 @@ import { useMediaQuery } from "@/lib/hooks/useMediaQuery";
 import { EmptyState } from "@/components/ui/EmptyState";
 import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
 import { useToast } from "@/components/ui/Toast";
+import { shortUrlBase } from "@/lib/utils/short-url";
+import { descendantGroupIds, flattenGroupTree } from "@/lib/link-groups";
+import { matchesTagFilter, type TagFilter } from "@/lib/tag-filter";
 import {
   Plus,
   Search,
@@ -26,12 +29,21 @@ import {
   ArrowUpDown,
   ChevronDown,
   FileSpreadsheet,
+  FolderInput,
   X,
 } from "lucide-react";
 import { CampaignFilter } from "@/components/campaigns/CampaignFilter";
 import { PageHeader } from "@/components/layout/PageHeader";
 import { SyncButton } from "@/components/layout/SyncButton";
 import { InfoTooltip } from "@/components/ui/InfoTooltip";
+import { TagFilterSelect } from "@/components/tags/TagFilterSelect";
+import {
+  LinkFolderPanel,
+  LINK_DRAG_TYPE,
+  NO_GROUP,
+  groupsQueryKey,
+  type LinkGroupOption,
+} from "@/components/links/LinkFolderPanel";
 
 interface LinkTag {
   tag: { id: string; name: string; color?: string | null };
@@ -62,6 +74,8 @@ interface ShortLink {
   ogTitle?: string | null;
   _count: { clicks: number; conversions?: number };
   tags?: LinkTag[];
+  domain?: { id: string; hostname: string } | null;
+  groupId?: string | null;
 }
 
 interface LinksClientProps {
@@ -109,6 +123,16 @@ export default function LinksClient({ initialCampaign = "" }: LinksClientProps)
   });
   const allTags = useMemo(() => tagsData ?? [], [tagsData]);
 
+  const { data: groupsData } = useQuery<LinkGroupOption[]>({
+    queryKey: groupsQueryKey,
+    queryFn: async () => {
+      const response = await fetch("/api/groups");
+      if (!response.ok) throw new Error("Failed to load folders");
+      return ((await response.json()).groups || []) as LinkGroupOption[];
+    },
+  });
+  const allGroups = useMemo(() => groupsData ?? [], [groupsData]);
+
   // Optimistic mutation helpers against the React Query cache. Avoids a
   // second source of truth in local state — every mutation below edits
   // the cached `LinksPayload` directly.
@@ -155,6 +179,7 @@ export default function LinksClient({ initialCampaign = "" }: LinksClientProps)
   const refreshLinks = useCallback(async () => {
     await qc.invalidateQueries({ queryKey: linksKey, refetchType: "all" });
     await qc.invalidateQueries({ queryKey: tagsKey, refetchType: "all" });
+    await qc.invalidateQueries({ queryKey: groupsQueryKey, refetchType: "all" });
     invalidateDerived();
   }, [qc, linksKey, tagsKey, invalidateDerived]);
 
@@ -164,7 +189,8 @@ export default function LinksClient({ initialCampaign = "" }: LinksClientProps)
 
   const [search, setSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState("");
-  const [tagFilter, setTagFilter] = useState("");
+  const [tagFilter, setTagFilter] = useState<TagFilter | null>(null);
+  const [groupFilter, setGroupFilter] = useState("");
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [batchLoading, setBatchLoading] = useState(false);
   const [sortBy, setSortBy] = useState("createdAt");
@@ -179,8 +205,6 @@ export default function LinksClient({ initialCampaign = "" }: LinksClientProps)
   const [showTagDropdown, setShowTagDropdown] = useState(false);
   const [batchTagLoading, setBatchTagLoading] = useState(false);
 
-  const shortBaseUrl = process.env.NEXT_PUBLIC_SHORT_URL || "http://localhost:3000/s";
-
   const links = useMemo(() => {
     const q = search.trim().toLowerCase();
     let out = allLinks;
@@ -198,7 +222,14 @@ export default function LinksClient({ initialCampaign = "" }: LinksClientProps)
       else out = out.filter((l) => l.utmCampaign === campaignFilter);
     }
     if (tagFilter) {
-      out = out.filter((l) => (l.tags || []).some((tg) => tg.tag.id === tagFilter));
+      out = out.filter((l) => matchesTagFilter((l.tags || []).map((tg) => tg.tag.id), tagFilter));
+    }
+    // A folder shows its subfolders' links too.
+    if (groupFilter === NO_GROUP) {
+      out = out.filter((l) => !l.groupId);
+    } else if (groupFilter) {
+      const ids = new Set(descendantGroupIds(allGroups, groupFilter));
+      out = out.filter((l) => !!l.groupId && ids.has(l.groupId));
     }
     const dir = sortOrder === "asc" ? 1 : -1;
     out = [...out].sort((a, b) => {
@@ -206,7 +237,15 @@ export default function LinksClient({ initialCampaign = "" }: LinksClientProps)
       return (new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()) * dir;
     });
     return out;
-  }, [allLinks, search, statusFilter, campaignFilter, tagFilter, sortBy, sortOrder]);
+  }, [allLinks, allGroups, search, statusFilter, campaignFilter, tagFilter, groupFilter, sortBy, sortOrder]);
+
+  const exportHref = useMemo(() => {
+    const params = new URLSearchParams();
+    if (statusFilter) params.set("status", statusFilter);
+    if (groupFilter) params.set("groupId", groupFilter);
+    const query = params.toString();
+    return `/api/export/links${query ? `?${query}` : ""}`;
+  }, [statusFilter, groupFilter]);
 
   const confirmDelete = (id: string) => setDeleteConfirmId(id);
 
@@ -219,7 +258,7 @@ export default function LinksClient({ initialCampaign = "" }: LinksClientProps)
       if (response.ok) {
         removeLink(id);
         invalidateDerived();
-        success("Link deleted.");
+        success("Link moved to Trash.");
       } else toastError("Failed to delete link.");
     } catch {
       toastError("Failed to delete link.");
@@ -296,6 +335,35 @@ export default function LinksClient({ initialCampaign = "" }: LinksClientProps)
     }
   };
 
+  // Dragging a selected row carries the whole selection along.
+  const handleRowDragStart = (id: string, e: DragEvent) => {
+    const ids = selectedIds.has(id) ? Array.from(selectedIds) : [id];
+    e.dataTransfer.setData(LINK_DRAG_TYPE, JSON.stringify(ids));
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  const handleMoveToGroup = async (ids: string[], groupId: string | null) => {
+    setBatchLoading(true);
+    try {
+      const response = await fetch("/api/links/batch-actions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids, action: "move_to_group", groupId }),
+      });
+      if (response.ok) {
+        for (const id of ids) patchLink(id, { groupId });
+        qc.invalidateQueries({ queryKey: groupsQueryKey, refetchType: "all" });
+        invalidateDerived();
+        const name = groupId ? allGroups.find((g) => g.id === groupId)?.name : null;
+        success(t("folderMoved", { n: ids.length, name: name ?? t("folderNone") }));
+      } else toastError(t("folderMoveFailed"));
+    } catch {
+      toastError(t("folderMoveFailed"));
+    } finally {
+      setBatchLoading(false);
+    }
+  };
+
   const executeBatchDelete = async () => {
     setBatchDeleteConfirm(false);
     setBatchLoading(true);
@@ -309,7 +377,7 @@ export default function LinksClient({ initialCampaign = "" }: LinksClientProps)
         const count = selectedIds.size;
         setSelectedIds(new Set());
         refreshLinks();
-        success(`${count} link${count > 1 ? "s" : ""} deleted.`);
+        success(`${count} link${count > 1 ? "s" : ""} moved to Trash.`);
       } else toastError("Batch delete failed.");
     } catch {
       toastError("Batch delete failed.");
@@ -345,8 +413,8 @@ export default function LinksClient({ initialCampaign = "" }: LinksClientProps)
     <div className="links-page-shell">
       <ConfirmDialog
         open={!!deleteConfirmId}
-        title="Delete this link?"
-        description="This action cannot be undone. All click data for this link will be permanently lost."
+        title={t("deleteToTrashTitle")}
+        description={t("deleteToTrashDescription")}
         confirmLabel="Delete"
         cancelLabel="Cancel"
         onConfirm={executeDelete}
@@ -355,8 +423,8 @@ export default function LinksClient({ initialCampaign = "" }: LinksClientProps)
       />
       <ConfirmDialog
         open={batchDeleteConfirm}
-        title={`Delete ${selectedIds.size} link${selectedIds.size > 1 ? "s" : ""}?`}
-        description="This action cannot be undone. All click data for these links will be permanently lost."
+        title={t("batchDeleteToTrashTitle", { n: selectedIds.size })}
+        description={t("deleteToTrashDescription")}
         confirmLabel="Delete All"
         cancelLabel="Cancel"
         onConfirm={executeBatchDelete}
@@ -388,11 +456,8 @@ export default function LinksClient({ initialCampaign = "" }: LinksClientProps)
         }
         actions={
           <>
-            <SyncButton queryKeys={[[...linksKey], [...tagsKey]]} />
-            <a
-              href={`/api/export/links${statusFilter ? `?status=${statusFilter}` : ""}`}
-              className="btn btn-secondary"
-            >
+            <SyncButton queryKeys={[[...linksKey], [...tagsKey], [...groupsQueryKey]]} />
+            <a href={exportHref} className="btn btn-secondary">
               <Download size={12} /> {tCommon("export")}
             </a>
             <Link href="/links/new" className="btn btn-secondary">
@@ -401,6 +466,9 @@ export default function LinksClient({ initialCampaign = "" }: LinksClientProps)
             <Link href="/links/import" className="btn btn-secondary">
               <FileSpreadsheet size={12} /> Import CSV
             </Link>
+            <Link href="/links/trash" className="btn btn-secondary">
+              <Trash2 size={12} /> {t("trash")}
+            </Link>
             <Link href="/links/batch" className="btn btn-primary">
               <Layers size={12} /> Batch create
             </Link>
@@ -484,41 +552,7 @@ export default function LinksClient({ initialCampaign = "" }: LinksClientProps)
           />
         </div>
         {allTags.length > 0 && (
-          <div style={{ position: "relative" }}>
-            <select
-              value={tagFilter}
-              onChange={(e) => setTagFilter(e.target.value)}
-              className="input"
-              style={{
-                height: 32,
-                paddingLeft: 32,
-                paddingRight: 28,
-                appearance: "none",
-                cursor: "pointer",
-                fontSize: 12.5,
-              }}
-            >
-              <option value="">
-                {t("tags")}: {tCommon("all")}
-              </option>
-              {allTags.map((tag) => (
-                <option key={tag.id} value={tag.id}>
-                  {tag.name} ({tag._count.links})
-                </option>
-              ))}
-            </select>
-            <TagIcon
-              size={13}
-              style={{
-                position: "absolute",
-                left: 10,
-                top: "50%",
-                transform: "translateY(-50%)",
-                color: "var(--ink-500)",
-                pointerEvents: "none",
-              }}
-            />
-          </div>
+          <TagFilterSelect tags={allTags} value={tagFilter} onChange={setTagFilter} />
         )}
       </div>
 
@@ -612,6 +646,50 @@ export default function LinksClient({ initialCampaign = "" }: LinksClientProps)
                 )}
               </div>
             )}
+            {allGroups.length > 0 && (
+              <div style={{ position: "relative" }}>
+                <select
+                  value=""
+                  onChange={(e) => {
+                    if (!e.target.value) return;
+                    handleMoveToGroup(
+                      Array.from(selectedIds),
+                      e.target.value === NO_GROUP ? null : e.target.value,
+                    );
+                  }}
+                  disabled={batchLoading}
+                  className="input"
+                  style={{
+                    height: 28,
+                    paddingLeft: 26,
+                    paddingRight: 10,
+                    appearance: "none",
+                    cursor: "pointer",
+                    fontSize: 11.5,
+                  }}
+                >
+                  <option value="">{t("moveToFolder")}</option>
+                  {flattenGroupTree(allGroups).map(({ group, depth }) => (
+                    <option key={group.id} value={group.id}>
+                      {"\u00A0\u00A0".repeat(depth)}
+                      {group.name}
+                    </option>
+                  ))}
+                  <option value={NO_GROUP}>{t("folderRemove")}</option>
+                </select>
+                <FolderInput
+                  size={12}
+                  style={{
+                    position: "absolute",
+                    left: 9,
+                    top: "50%",
+                    transform: "translateY(-50%)",
+                    color: "var(--ink-500)",
+                    pointerEvents: "none",
+                  }}
+                />
+              </div>
+            )}
             <button
               className="btn"
               onClick={() => handleBatchAction("activate")}
@@ -651,80 +729,44 @@ export default function LinksClient({ initialCampaign = "" }: LinksClientProps)
         </div>
       )}
 
-      {/* Table */}
-      {linksLoading && !linksData ? (
-        <div className="card" style={{ padding: 48, textAlign: "center" }}>
-          <Loader2 size={20} className="animate-spin" style={{ color: "var(--ink-500)" }} />
-        </div>
-      ) : links.length === 0 ? (
-        <div className="card">
-          <EmptyState
-            icon={<Link2 className="w-10 h-10" />}
-            title={t("noLinks")}
-            description={t("createFirst")}
-            action={{ label: t("createNew"), href: "/links/new" }}
-          />
-        </div>
-      ) : isMobile ? (
-        <div className="link-mobile-card-list">
-          {links.map((link) => (
-            <LinkMobileCard
-              key={link.id}
-              link={link}
-              shortBaseUrl={shortBaseUrl}
-              selected={selectedIds.has(link.id)}
-              onSelect={toggleSelect}
-              onDelete={confirmDelete}
-              onStatusChange={handleStatusChange}
-              onClone={handleClone}
-            />
-          ))}
-        </div>
-      ) : (
-        <div className="tbl-wrap">
-          <table className="data">
-            <thead>
-              <tr>
-                <th style={{ width: 40 }}>
-                  <button
-                    onClick={toggleSelectAll}
-                    className={`cbx ${selectedIds.size === links.length && links.length > 0 ? "checked" : ""}`}
-                    aria-label="Select all"
-                  />
-                </th>
-                <th>{t("title")}</th>
-                <th style={{ width: 160 }}>Campaign</th>
-                <th style={{ width: 100 }}>{tUtm("medium")}</th>
-                <th style={{ width: 110 }}>{tUtm("source")}</th>
-                <th style={{ width: 140 }}>{t("shortUrl")}</th>
-                <th style={{ width: 120 }}>{t("tags")}</th>
-                <th style={{ width: 100 }}>{t("status")}</th>
-                <th className="num" style={{ width: 110 }}>
-                  {/* Custom InfoTooltip — native `title` was unreliable
-                      here (browser delay, uppercase/letter-spacing of th
-                      bled into the tooltip). Hover the ⓘ to see the
-                      explanation that this counter is real-traffic only. */}
-                  <span
-                    style={{
-                      display: "inline-flex",
-                      alignItems: "center",
-                      justifyContent: "flex-end",
-                      gap: 4,
-                    }}
-                  >
-                    {t("clicks")}
-                    <InfoTooltip text={t("clicksColumnTip")} align="right" />
-                  </span>
-                </th>
-                <th style={{ width: 36 }} />
-              </tr>
-            </thead>
-            <tbody>
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: isMobile ? "minmax(0, 1fr)" : "200px minmax(0, 1fr)",
+          gap: 14,
+          alignItems: "start",
+        }}
+      >
+        <LinkFolderPanel
+          groups={allGroups}
+          value={groupFilter}
+          onChange={setGroupFilter}
+          onMoveLinks={handleMoveToGroup}
+          onChanged={refreshLinks}
+        />
+
+        <div style={{ minWidth: 0 }}>
+          {/* Table */}
+          {linksLoading && !linksData ? (
+            <div className="card" style={{ padding: 48, textAlign: "center" }}>
+              <Loader2 size={20} className="animate-spin" style={{ color: "var(--ink-500)" }} />
+            </div>
+          ) : links.length === 0 ? (
+            <div className="card">
+              <EmptyState
+                icon={<Link2 className="w-10 h-10" />}
+                title={t("noLinks")}
+                description={t("createFirst")}
+                action={{ label: t("createNew"), href: "/links/new" }}
+              />
+            </div>
+          ) : isMobile ? (
+            <div className="link-mobile-card-list">
               {links.map((link) => (
-                <LinkTableRow
+                <LinkMobileCard
                   key={link.id}
                   link={link}
-                  shortBaseUrl={shortBaseUrl}
+                  shortBaseUrl={shortUrlBase(link.domain?.hostname)}
                   selected={selectedIds.has(link.id)}
                   onSelect={toggleSelect}
                   onDelete={confirmDelete}
@@ -732,10 +774,66 @@ export default function LinksClient({ initialCampaign = "" }: LinksClientProps)
                   onClone={handleClone}
                 />
               ))}
-            </tbody>
-          </table>
+            </div>
+          ) : (
+            <div className="tbl-wrap">
+              <table className="data">
+                <thead>
+                  <tr>
+                    <th style={{ width: 40 }}>
+                      <button
+                        onClick={toggleSelectAll}
+                        className={`cbx ${selectedIds.size === links.length && links.length > 0 ? "checked" : ""}`}
+                        aria-label="Select all"
+                      />
+                    </th>
+                    <th>{t("title")}</th>
+                    <th style={{ width: 160 }}>Campaign</th>
+                    <th style={{ width: 100 }}>{tUtm("medium")}</th>
+                    <th style={{ width: 110 }}>{tUtm("source")}</th>
+                    <th style={{ width: 140 }}>{t("shortUrl")}</th>
+                    <th style={{ width: 120 }}>{t("tags")}</th>
+                    <th style={{ width: 100 }}>{t("status")}</th>
+                    <th className="num" style={{ width: 110 }}>
+                      {/* Custom InfoTooltip — native `title` was unreliable
+                          here (browser delay, uppercase/letter-spacing of th
+                          bled into the tooltip). Hover the ⓘ to see the
+                          explanation that this counter is real-traffic only. */}
+                      <span
+                        style={{
+                          display: "inline-flex",
+                          alignItems: "center",
+                          justifyContent: "flex-end",
+                          gap: 4,
+                        }}
+                      >
+                        {t("clicks")}
+                        <InfoTooltip text={t("clicksColumnTip")} align="right" />
+                      </span>
+                    </th>
+                    <th style={{ width: 36 }} />
+                  </tr>
+                </thead>
+                <tbody>
+                  {links.map((link) => (
+                    <LinkTableRow
+                      key={link.id}
+                      link={link}
+                      shortBaseUrl={shortUrlBase(link.domain?.hostname)}
+                      selected={selectedIds.has(link.id)}
+                      onSelect={toggleSelect}
+                      onDelete={confirmDelete}
+                      onStatusChange={handleStatusChange}
+                      onClone={handleClone}
+                      onDragStart={handleRowDragStart}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
         </div>
-      )}
+      </div>
 
       {refreshing && (
         <div
@@ -7,7 +7,22 @@ import { useTranslations } from "next-intl";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { UTMBuilder } from "@/components/forms/UTMBuilder";
 import { TagInput } from "@/components/tags/TagInput";
+import { GeoRoutesEditor, cleanGeoRoutes } from "@/components/forms/GeoRoutesEditor";
+import { FallbackUrlsEditor, cleanFallbackUrls } from "@/components/forms/FallbackUrlsEditor";
+import {
+  ALLOCATION_MODE_LABELS,
+  ExperimentReport,
+  experimentQueryKey,
+} from "@/components/links/ExperimentReport";
+import { RevisionHistory, revisionsQueryKey } from "@/components/links/RevisionHistory";
 import { useToast } from "@/components/ui/Toast";
+import { shortUrlBase } from "@/lib/utils/short-url";
+import { RULE_DEVICES, RULE_OSES, type DeviceRule } from "@/lib/routing-rules";
+import type { GeoRoute } from "@/lib/geo-routes";
+import { parseFallbackUrls, type FallbackUrls } from "@/lib/fallbacks";
+import { parseExperimentSettings, type ExperimentSettings } from "@/lib/experiments";
+import { ALLOCATION_MODES, EPSILON } from "@/lib/bandit";
+import type { AllocationMode } from "@prisma/client";
 import {
   ArrowLeft,
   Link2,
@@ -54,8 +69,16 @@ interface LinkData {
   startsAt: string | null;
   expiresAt: string | null;
   maxClicks: number | null;
+  scheduledUrl: string | null;
+  scheduledUrlAt: string | null;
   allowedCountries: string[];
+  hasPassword?: boolean;
   variants: LinkVariantUI[] | null;
+  experiment: unknown;
+  allocationMode: AllocationMode;
+  deviceRules: DeviceRule[] | null;
+  geoRoutes: GeoRoute[] | null;
+  fallbackUrls: FallbackUrls | null;
   utmSource: string | null;
   utmMedium: string | null;
   utmCampaign: string | null;
@@ -64,6 +87,30 @@ interface LinkData {
   createdAt: string;
   _count: { clicks: number };
   tags: { tag: TagOption }[];
+  domain: { id: string; hostname: string } | null;
+}
+
+// UTM params are edited separately in the UTM builder — strip them from
+// destinations shown in URL fields. The server re-applies them on save.
+function stripUtmParams(raw: string): string {
+  try {
+    const url = new URL(raw);
+    ["utm_source", "utm_medium", "utm_campaign", "utm_content", "utm_term"].forEach(
+      (p) => url.searchParams.delete(p),
+    );
+    const clean = url.toString();
+    return clean.endsWith("?") ? clean.slice(0, -1) : clean;
+  } catch {
+    // URL parsing failed, use as-is
+    return raw;
+  }
+}
+
+// ISO timestamp → value for <input type="datetime-local"> in the
+// browser's own time zone (toISOString() would show UTC).
+function toDatetimeLocal(iso: string): string {
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
 }
 
 export default function EditLinkPage() {
@@ -83,6 +130,11 @@ export default function EditLinkPage() {
 
   // Form state
   const [originalUrl, setOriginalUrl] = useState("");
+  // Only sent when touched — re-sending an unchanged time that has
+  // since passed would be rejected.
+  const [scheduledUrl, setScheduledUrl] = useState("");
+  const [scheduledUrlAt, setScheduledUrlAt] = useState("");
+  const [scheduleDirty, setScheduleDirty] = useState(false);
   const [title, setTitle] = useState("");
   const [code, setCode] = useState("");
   const [status, setStatus] = useState("ACTIVE");
@@ -92,7 +144,20 @@ export default function EditLinkPage() {
   const [maxClicks, setMaxClicks] = useState("");
   const [allowedCountries, setAllowedCountries] = useState<string[]>([]);
   const [newCountry, setNewCountry] = useState("");
+  // The hash never leaves the server — the form only knows whether one
+  // is set. Empty newPassword = keep the current one.
+  const [hasPassword, setHasPassword] = useState(false);
+  const [newPassword, setNewPassword] = useState("");
+  const [removePassword, setRemovePassword] = useState(false);
   const [variants, setVariants] = useState<LinkVariantUI[]>([]);
+  // Only sent when touched — saving settings clears the previous
+  // auto-promotion marker server-side.
+  const [experiment, setExperiment] = useState<ExperimentSettings>(parseExperimentSettings(null));
+  const [experimentDirty, setExperimentDirty] = useState(false);
+  const [allocationMode, setAllocationMode] = useState<AllocationMode>("FIXED");
+  const [deviceRules, setDeviceRules] = useState<DeviceRule[]>([]);
+  const [geoRoutes, setGeoRoutes] = useState<GeoRoute[]>([]);
+  const [fallbackUrls, setFallbackUrls] = useState<FallbackUrls>({});
   const [utmSource, setUtmSource] = useState("");
   const [utmMedium, setUtmMedium] = useState("");
   const [utmCampaign, setUtmCampaign] = useState("");
@@ -149,19 +214,10 @@ export default function EditLinkPage() {
     populatedRef.current = true;
 
     // Strip UTM params from URL for editing (they are managed separately)
-    let cleanUrl = linkData.originalUrl;
-    try {
-      const url = new URL(linkData.originalUrl);
-      ["utm_source", "utm_medium", "utm_campaign", "utm_content", "utm_term"].forEach(
-        (p) => url.searchParams.delete(p),
-      );
-      cleanUrl = url.toString();
-      if (cleanUrl.endsWith("?")) cleanUrl = cleanUrl.slice(0, -1);
-    } catch {
-      // URL parsing failed, use as-is
-    }
-
-    setOriginalUrl(cleanUrl);
+    setOriginalUrl(stripUtmParams(linkData.originalUrl));
+    setScheduledUrl(linkData.scheduledUrl ? stripUtmParams(linkData.scheduledUrl) : "");
+    setScheduledUrlAt(linkData.scheduledUrlAt ? toDatetimeLocal(linkData.scheduledUrlAt) : "");
+    setScheduleDirty(false);
     setTitle(linkData.title || "");
     setCode(linkData.code);
     setStatus(linkData.status);
@@ -175,18 +231,22 @@ export default function EditLinkPage() {
     setUtmTerm(linkData.utmTerm || "");
     setSelectedTags(linkData.tags.map((t) => t.tag));
 
-    if (linkData.startsAt) {
-      setStartsAt(new Date(linkData.startsAt).toISOString().slice(0, 16));
-    }
-    if (linkData.expiresAt) {
-      const d = new Date(linkData.expiresAt);
-      setExpiresAt(d.toISOString().slice(0, 16));
-    }
-    if (linkData.maxClicks) setMaxClicks(String(linkData.maxClicks));
+    // Unconditional so a re-populate after rollback clears removed values.
+    setStartsAt(linkData.startsAt ? new Date(linkData.startsAt).toISOString().slice(0, 16) : "");
+    setExpiresAt(linkData.expiresAt ? new Date(linkData.expiresAt).toISOString().slice(0, 16) : "");
+    setMaxClicks(linkData.maxClicks ? String(linkData.maxClicks) : "");
     if (linkData.allowedCountries?.length) setAllowedCountries(linkData.allowedCountries);
-    if (Array.isArray(linkData.variants) && linkData.variants.length > 0) {
-      setVariants(linkData.variants);
+    setHasPassword(Boolean(linkData.hasPassword));
+    setVariants(Array.isArray(linkData.variants) ? linkData.variants : []);
+    setExperiment(parseExperimentSettings(linkData.experiment));
+    setAllocationMode(linkData.allocationMode ?? "FIXED");
+    if (Array.isArray(linkData.deviceRules) && linkData.deviceRules.length > 0) {
+      setDeviceRules(linkData.deviceRules);
+    }
+    if (Array.isArray(linkData.geoRoutes) && linkData.geoRoutes.length > 0) {
+      setGeoRoutes(linkData.geoRoutes);
     }
+    setFallbackUrls(parseFallbackUrls(linkData.fallbackUrls));
 
     // Auto-expand sections if they have values
     if (linkData.utmSource || linkData.utmMedium || linkData.utmContent || linkData.utmTerm) {
@@ -197,6 +257,7 @@ export default function EditLinkPage() {
       linkData.expiresAt ||
       linkData.maxClicks ||
       linkData.allowedCountries?.length ||
+      linkData.hasPassword ||
       linkData.redirectType === "PERMANENT"
     ) {
       setShowAdvanced(true);
@@ -237,6 +298,23 @@ export default function EditLinkPage() {
       return;
     }
 
+    if (scheduleDirty && (scheduledUrl || scheduledUrlAt)) {
+      if (!scheduledUrl || !scheduledUrlAt) {
+        setError(t("scheduledUrlIncomplete"));
+        return;
+      }
+      try {
+        new URL(scheduledUrl);
+      } catch {
+        setError(tErrors("invalidUrl"));
+        return;
+      }
+      if (new Date(scheduledUrlAt) <= new Date()) {
+        setError(t("scheduledUrlPast"));
+        return;
+      }
+    }
+
     setSaving(true);
     try {
       // Drop empty / malformed variants before sending. Weights default to 1.
@@ -244,7 +322,7 @@ export default function EditLinkPage() {
         .map((v) => ({
           id: v.id || `v_${Math.random().toString(36).slice(2, 8)}`,
           url: v.url.trim(),
-          weight: Number.isFinite(v.weight) && v.weight > 0 ? v.weight : 1,
+          weight: Number.isFinite(v.weight) && v.weight >= 0 ? v.weight : 1,
           ...(v.label && v.label.trim() ? { label: v.label.trim() } : {}),
         }))
         .filter((v) => {
@@ -256,6 +334,26 @@ export default function EditLinkPage() {
           }
         });
 
+      // Same for routing rules — a rule needs a valid URL and at least
+      // one condition, otherwise the server rejects the whole save.
+      const cleanedRules = deviceRules
+        .map((r) => ({
+          id: r.id || `r_${Math.random().toString(36).slice(2, 8)}`,
+          ...(r.device ? { device: r.device } : {}),
+          ...(r.os ? { os: r.os } : {}),
+          url: r.url.trim(),
+          ...(r.label && r.label.trim() ? { label: r.label.trim() } : {}),
+        }))
+        .filter((r) => {
+          if (!r.device && !r.os) return false;
+          try {
+            new URL(r.url);
+            return true;
+          } catch {
+            return false;
+          }
+        });
+
       const payload: Record<string, unknown> = {
         originalUrl,
         title: title || null,
@@ -266,6 +364,10 @@ export default function EditLinkPage() {
         maxClicks: maxClicks ? parseInt(maxClicks) : null,
         allowedCountries,
         variants: cleanedVariants,
+        allocationMode,
+        deviceRules: cleanedRules,
+        geoRoutes: cleanGeoRoutes(geoRoutes),
+        fallbackUrls: cleanFallbackUrls(fallbackUrls),
         utmSource: utmSource || null,
         utmMedium: utmMedium || null,
         utmCampaign: utmCampaign || null,
@@ -273,6 +375,19 @@ export default function EditLinkPage() {
         utmTerm: utmTerm || null,
         tags: selectedTags.map((t) => t.id),
       };
+      if (experimentDirty) {
+        payload.experiment = {
+          autoPromote: experiment.autoPromote,
+          confidence: experiment.confidence,
+          minClicksPerVariant: experiment.minClicksPerVariant,
+        };
+      }
+      if (scheduleDirty) {
+        payload.scheduledUrl = scheduledUrl || null;
+        payload.scheduledUrlAt = scheduledUrlAt ? new Date(scheduledUrlAt).toISOString() : null;
+      }
+      if (removePassword) payload.password = null;
+      else if (newPassword) payload.password = newPassword;
 
       const response = await fetch(`/api/links/${linkId}`, {
         method: "PATCH",
@@ -296,6 +411,8 @@ export default function EditLinkPage() {
       // / title / utm not updated).
       qc.invalidateQueries({ queryKey: ["links"] });
       qc.invalidateQueries({ queryKey: ["link", linkId] });
+      qc.invalidateQueries({ queryKey: experimentQueryKey(linkId) });
+      qc.invalidateQueries({ queryKey: revisionsQueryKey(linkId) });
       qc.invalidateQueries({ queryKey: ["campaigns-summary"] });
       qc.invalidateQueries({ queryKey: ["analytics-raw"] });
       qc.invalidateQueries({ queryKey: ["campaign-links"] });
@@ -308,6 +425,17 @@ export default function EditLinkPage() {
     }
   };
 
+  // Rollback rewrites the link server-side — load the restored state
+  // into the form (the populate effect re-runs once unfrozen).
+  const handleRolledBack = (restored: unknown) => {
+    populatedRef.current = false;
+    qc.setQueryData(["link", linkId], restored as LinkData);
+    qc.invalidateQueries({ queryKey: ["links"] });
+    qc.invalidateQueries({ queryKey: experimentQueryKey(linkId) });
+    setError(null);
+    toast.success(t("revisionRolledBack"));
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-96">
@@ -316,7 +444,7 @@ export default function EditLinkPage() {
     );
   }
 
-  const shortBaseUrl = process.env.NEXT_PUBLIC_SHORT_URL || "http://localhost:3000/s";
+  const shortBaseUrl = shortUrlBase(linkData?.domain?.hostname);
   const fullShortUrl = `${shortBaseUrl}/${code}`;
 
   const handleCopyShortUrl = async () => {
@@ -474,6 +602,53 @@ export default function EditLinkPage() {
                 required
               />
             </div>
+
+            {/* Scheduled destination swap */}
+            <div className="mt-3 p-4 bg-slate-50/70 border border-slate-200 rounded-xl">
+              <div className="flex items-center justify-between gap-3 mb-1">
+                <span className="text-sm font-semibold text-slate-700">{t("scheduledUrl")}</span>
+                {(scheduledUrl || scheduledUrlAt) && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setScheduledUrl("");
+                      setScheduledUrlAt("");
+                      setScheduleDirty(true);
+                    }}
+                    className="text-xs text-slate-500 hover:text-red-600 transition-colors"
+                  >
+                    {t("scheduledUrlClear")}
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-slate-500 mb-3">
+                {t("scheduledUrlDesc", { timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone })}
+              </p>
+              <div className="flex flex-col md:flex-row gap-2">
+                <input
+                  type="url"
+                  value={scheduledUrl}
+                  onChange={(e) => {
+                    setScheduledUrl(e.target.value);
+                    setScheduleDirty(true);
+                    setError(null);
+                  }}
+                  placeholder="https://example.com/launch"
+                  className="flex-1 min-w-0 px-3 py-2 text-sm border border-slate-200 rounded-lg bg-white focus:ring-1 focus:ring-[#03A9F4] focus:border-[#03A9F4] placeholder:text-slate-400"
+                />
+                <input
+                  type="datetime-local"
+                  value={scheduledUrlAt}
+                  onChange={(e) => {
+                    setScheduledUrlAt(e.target.value);
+                    setScheduleDirty(true);
+                    setError(null);
+                  }}
+                  aria-label={t("scheduledUrlAt")}
+                  className="md:w-56 px-3 py-2 text-sm border border-slate-200 rounded-lg bg-white focus:ring-1 focus:ring-[#03A9F4] focus:border-[#03A9F4]"
+                />
+              </div>
+            </div>
           </div>
 
           {/* Title */}
@@ -563,6 +738,138 @@ export default function EditLinkPage() {
             )}
           </div>
 
+          {/* Device / OS routing */}
+          <div className="border border-slate-200 rounded-xl overflow-hidden bg-white">
+            <div className="px-5 py-4 border-b border-slate-200 flex items-start justify-between gap-3">
+              <div>
+                <h3 className="font-semibold text-slate-700">Device &amp; OS routing</h3>
+                <p className="text-xs text-slate-500 mt-0.5">
+                  Send visitors to a different URL by device or operating system (e.g. iOS &rarr; App Store).
+                  Rules are checked top to bottom before A/B variants; the first match wins.
+                </p>
+              </div>
+            </div>
+            <div className="p-5 space-y-3">
+              {deviceRules.length === 0 ? (
+                <p className="text-xs text-slate-400 italic">
+                  No rules &mdash; every device gets the primary URL or A/B variants.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {deviceRules.map((r, idx) => (
+                    <div
+                      key={r.id || idx}
+                      className="flex items-center gap-2 p-3 bg-slate-50/70 border border-slate-200 rounded-lg"
+                    >
+                      <select
+                        value={r.os ?? ""}
+                        onChange={(e) =>
+                          setDeviceRules(
+                            deviceRules.map((x, i) =>
+                              i === idx ? { ...x, os: (e.target.value || undefined) as DeviceRule["os"] } : x,
+                            ),
+                          )
+                        }
+                        aria-label="Operating system"
+                        className="w-28 px-2 py-1.5 text-sm border border-slate-200 rounded bg-white focus:ring-1 focus:ring-[#03A9F4] focus:border-[#03A9F4]"
+                      >
+                        <option value="">Any OS</option>
+                        {RULE_OSES.map((os) => (
+                          <option key={os} value={os}>{os}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={r.device ?? ""}
+                        onChange={(e) =>
+                          setDeviceRules(
+                            deviceRules.map((x, i) =>
+                              i === idx ? { ...x, device: (e.target.value || undefined) as DeviceRule["device"] } : x,
+                            ),
+                          )
+                        }
+                        aria-label="Device"
+                        className="w-28 px-2 py-1.5 text-sm border border-slate-200 rounded bg-white focus:ring-1 focus:ring-[#03A9F4] focus:border-[#03A9F4]"
+                      >
+                        <option value="">Any device</option>
+                        {RULE_DEVICES.map((device) => (
+                          <option key={device} value={device}>{device}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="url"
+                        value={r.url}
+                        onChange={(e) =>
+                          setDeviceRules(
+                            deviceRules.map((x, i) => (i === idx ? { ...x, url: e.target.value } : x)),
+                          )
+                        }
+                        placeholder="https://apps.apple.com/app/..."
+                        className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-slate-200 rounded bg-white focus:ring-1 focus:ring-[#03A9F4] focus:border-[#03A9F4]"
+                      />
+                      <input
+                        type="text"
+                        value={r.label ?? ""}
+                        onChange={(e) =>
+                          setDeviceRules(
+                            deviceRules.map((x, i) => (i === idx ? { ...x, label: e.target.value } : x)),
+                          )
+                        }
+                        placeholder="Label (optional)"
+                        className="w-32 px-2 py-1.5 text-sm border border-slate-200 rounded bg-white focus:ring-1 focus:ring-[#03A9F4] focus:border-[#03A9F4]"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setDeviceRules(deviceRules.filter((_, i) => i !== idx))}
+                        className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                        aria-label="Remove rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <button
+                type="button"
+                onClick={() =>
+                  setDeviceRules([
+                    ...deviceRules,
+                    {
+                      id: `r_${Math.random().toString(36).slice(2, 8)}`,
+                      url: "",
+                      label: "",
+                    },
+                  ])
+                }
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors"
+              >
+                + Add rule
+              </button>
+            </div>
+          </div>
+
+          {/* Geo routing */}
+          <div className="border border-slate-200 rounded-xl overflow-hidden bg-white">
+            <div className="px-5 py-4 border-b border-slate-200">
+              <h3 className="font-semibold text-slate-700">{t("geoRoutes")}</h3>
+              <p className="text-xs text-slate-500 mt-0.5">{t("geoRoutesDesc")}</p>
+            </div>
+            <div className="p-5">
+              <GeoRoutesEditor routes={geoRoutes} onChange={setGeoRoutes} />
+            </div>
+          </div>
+
+          {/* Fallback destinations */}
+          <div className="border border-slate-200 rounded-xl overflow-hidden bg-white">
+            <div className="px-5 py-4 border-b border-slate-200">
+              <h3 className="font-semibold text-slate-700">{t("fallbackUrls")}</h3>
+              <p className="text-xs text-slate-500 mt-0.5">{t("fallbackUrlsDesc")}</p>
+            </div>
+            <div className="p-5">
+              <FallbackUrlsEditor value={fallbackUrls} onChange={setFallbackUrls} />
+            </div>
+          </div>
+
           {/* A/B Variants */}
           <div className="border border-slate-200 rounded-xl overflow-hidden bg-white">
             <div className="px-5 py-4 border-b border-slate-200 flex items-start justify-between gap-3">
@@ -570,11 +877,29 @@ export default function EditLinkPage() {
                 <h3 className="font-semibold text-slate-700">A/B variants</h3>
                 <p className="text-xs text-slate-500 mt-0.5">
                   Split traffic across alternate URLs. Leave empty to send all visitors to the primary URL above.
-                  Weights are relative &mdash; e.g. 1 vs 1 = 50/50, 3 vs 1 = 75/25.
+                  Weights are relative &mdash; e.g. 1 vs 1 = 50/50, 3 vs 1 = 75/25. Weight 0 pauses a variant.
                 </p>
               </div>
+              <select
+                value={allocationMode}
+                onChange={(e) => setAllocationMode(e.target.value as AllocationMode)}
+                aria-label="Traffic allocation"
+                className="shrink-0 px-2 py-1.5 text-sm border border-slate-200 rounded-lg bg-white focus:ring-1 focus:ring-[#03A9F4] focus:border-[#03A9F4]"
+              >
+                {ALLOCATION_MODES.map((m) => (
+                  <option key={m} value={m}>{ALLOCATION_MODE_LABELS[m]}</option>
+                ))}
+              </select>
             </div>
             <div className="p-5 space-y-3">
+              {allocationMode !== "FIXED" && (
+                <p className="text-xs text-slate-500">
+                  {allocationMode === "THOMPSON"
+                    ? "Each visit goes to the variant that wins a random draw from its conversion-rate posterior, so traffic shifts toward likely winners as data comes in."
+                    : `${Math.round((1 - EPSILON) * 100)}% of visits go to the variant with the best conversion rate so far; the other ${Math.round(EPSILON * 100)}% are spread evenly to keep exploring.`}{" "}
+                  Weights only pause (0) or enable variants in this mode.
+                </p>
+              )}
               {variants.length === 0 ? (
                 <p className="text-xs text-slate-400 italic">
                   No variants &mdash; everyone lands on the primary URL.
@@ -613,18 +938,21 @@ export default function EditLinkPage() {
                         />
                         <input
                           type="number"
-                          min="1"
+                          min="0"
                           value={v.weight}
-                          onChange={(e) =>
+                          onChange={(e) => {
+                            const weight = parseInt(e.target.value, 10);
                             setVariants(
                               variants.map((x, i) =>
-                                i === idx ? { ...x, weight: parseInt(e.target.value, 10) || 1 } : x,
+                                i === idx ? { ...x, weight: Number.isNaN(weight) ? 1 : Math.max(0, weight) } : x,
                               ),
-                            )
-                          }
+                            );
+                          }}
                           className="w-16 px-2 py-1.5 text-sm border border-slate-200 rounded bg-white text-center tabular-nums focus:ring-1 focus:ring-[#03A9F4] focus:border-[#03A9F4]"
                         />
-                        <span className="text-xs text-slate-400 tabular-nums w-10 text-right">{pct}%</span>
+                        <span className="text-xs text-slate-400 tabular-nums w-10 text-right">
+                          {allocationMode === "FIXED" || v.weight === 0 ? `${pct}%` : "auto"}
+                        </span>
                         <button
                           type="button"
                           onClick={() => setVariants(variants.filter((_, i) => i !== idx))}
@@ -655,6 +983,20 @@ export default function EditLinkPage() {
               >
                 + Add variant
               </button>
+
+              {Array.isArray(linkData?.variants) && linkData.variants.length > 0 && (
+                <div className="pt-4 mt-2 border-t border-slate-200">
+                  <h4 className="text-sm font-semibold text-slate-700 mb-3">Experiment results</h4>
+                  <ExperimentReport
+                    linkId={linkId}
+                    settings={experiment}
+                    onSettingsChange={(next) => {
+                      setExperiment(next);
+                      setExperimentDirty(true);
+                    }}
+                  />
+                </div>
+              )}
             </div>
           </div>
 
@@ -843,6 +1185,48 @@ export default function EditLinkPage() {
                     Use ISO 3166-1 alpha-2 codes (TW, US, JP, GB…). Non-matching visitors see a &quot;not available in your region&quot; page.
                   </p>
                 </div>
+
+                {/* Password */}
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 mb-2">
+                    {t("password")}
+                  </label>
+                  {hasPassword && (
+                    <div className="flex items-center gap-2 mb-2">
+                      <span
+                        className={`inline-flex items-center px-2.5 py-1 rounded-full text-sm font-medium border ${
+                          removePassword
+                            ? "bg-slate-50 text-slate-400 border-slate-200 line-through"
+                            : "bg-amber-50 text-amber-700 border-amber-200"
+                        }`}
+                      >
+                        {t("passwordProtected")}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setRemovePassword(!removePassword);
+                          setNewPassword("");
+                        }}
+                        className="text-sm text-slate-500 hover:text-red-600 transition-colors"
+                      >
+                        {removePassword ? t("passwordKeep") : t("passwordRemove")}
+                      </button>
+                    </div>
+                  )}
+                  <input
+                    type="password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    disabled={removePassword}
+                    placeholder={hasPassword ? t("passwordChange") : t("noPassword")}
+                    autoComplete="new-password"
+                    minLength={4}
+                    maxLength={100}
+                    className="w-full md:max-w-xs px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-[#03A9F4] focus:border-[#03A9F4] transition-all placeholder:text-slate-400 disabled:opacity-50"
+                  />
+                  <p className="mt-2 text-xs text-slate-500">{t("passwordDesc")}</p>
+                </div>
               </div>
             )}
           </div>
@@ -876,6 +1260,18 @@ export default function EditLinkPage() {
           </div>
         </form>
       </div>
+
+      {/* Revision history — outside the form: rollback applies at once
+          and doesn't go through Save. */}
+      <div className="mt-6 bg-white rounded-2xl border border-slate-100 overflow-hidden">
+        <div className="px-8 py-5 border-b border-slate-100">
+          <h3 className="font-semibold text-slate-700">{t("revisions")}</h3>
+          <p className="text-xs text-slate-500 mt-0.5">{t("revisionsDesc")}</p>
+        </div>
+        <div className="p-8">
+          <RevisionHistory linkId={linkId} onRolledBack={handleRolledBack} />
+        </div>
+      </div>
     </div>
   );
 }
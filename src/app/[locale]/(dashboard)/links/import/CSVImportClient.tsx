@@ -11,6 +11,8 @@ import {
   AlertCircle,
   X,
 } from "lucide-react";
+import { useWorkspaceDomains } from "@/lib/hooks/useWorkspaceDomains";
+import { DEFAULT_SHORT_HOST_ID, shortUrlBase } from "@/lib/utils/short-url";
 
 // Columns matter — order is what we put in the downloadable template.
 // The server parses by header name so users *can* reorder if they want.
@@ -29,6 +31,7 @@ const TEMPLATE_COLUMNS = [
   "expires_at",
   "allowed_countries",
   "redirect_type",
+  "domain",
 ] as const;
 
 const TEMPLATE_SAMPLE: Record<string, string> = {
@@ -46,6 +49,7 @@ const TEMPLATE_SAMPLE: Record<string, string> = {
   expires_at: "",
   allowed_countries: "TW,JP",
   redirect_type: "TEMPORARY",
+  domain: "",
 };
 
 type RowResult =
@@ -69,6 +73,12 @@ export default function CSVImportClient() {
   const [response, setResponse] = useState<ImportResponse | null>(null);
   const [serverError, setServerError] = useState<string | null>(null);
 
+  // Default domain for rows without a `domain` column value. `null` =
+  // not picked yet, follow the workspace default.
+  const { domains, defaultDomain } = useWorkspaceDomains();
+  const [pickedDomainId, setPickedDomainId] = useState<string | null>(null);
+  const domainId = pickedDomainId ?? defaultDomain?.id ?? DEFAULT_SHORT_HOST_ID;
+
   const downloadTemplate = () => {
     const header = TEMPLATE_COLUMNS.join(",");
     const sampleRow = TEMPLATE_COLUMNS.map((c) => {
@@ -139,6 +149,7 @@ export default function CSVImportClient() {
     try {
       const fd = new FormData();
       fd.append("file", file);
+      if (pickedDomainId) fd.append("domainId", pickedDomainId);
       const res = await fetch("/api/links/batch-csv", { method: "POST", body: fd });
       const data = await res.json();
       if (!res.ok) {
@@ -330,6 +341,29 @@ export default function CSVImportClient() {
         </div>
       )}
 
+      {domains.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">
+            Short domain
+          </label>
+          <select
+            value={domainId}
+            onChange={(e) => setPickedDomainId(e.target.value)}
+            className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-[#03A9F4] bg-white"
+          >
+            <option value={DEFAULT_SHORT_HOST_ID}>{shortUrlBase().replace(/^https?:\/\//, "")} (default)</option>
+            {domains.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.hostname}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-slate-500 mt-1">
+            Used for rows that leave the <code className="px-1 py-0.5 bg-slate-100 rounded">domain</code> column empty.
+          </p>
+        </div>
+      )}
+
       <div className="flex gap-2 pt-2">
         <button
           onClick={submit}
@@ -0,0 +1,324 @@
+"use client";
+
+import { useState, useCallback, useMemo } from "react";
+import { useTranslations } from "next-intl";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { EmptyState } from "@/components/ui/EmptyState";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { useToast } from "@/components/ui/Toast";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { SyncButton } from "@/components/layout/SyncButton";
+import { buildShortUrl } from "@/lib/utils/short-url";
+
+interface TrashedLink {
+  id: string;
+  code: string;
+  title: string | null;
+  originalUrl: string;
+  status: string;
+  deletedAt: string;
+  purgeAt: string;
+  deletedBy: { id: string; name: string | null; email: string } | null;
+  domain: { id: string; hostname: string } | null;
+  _count: { clicks: number };
+}
+
+interface TrashPayload {
+  retentionDays: number;
+  links: TrashedLink[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function TrashClient() {
+  const t = useTranslations("links");
+  const tCommon = useTranslations("common");
+  const { success, error: toastError, warning } = useToast();
+  const qc = useQueryClient();
+
+  const trashKey = useMemo(() => ["links-trash"] as const, []);
+
+  const { data, isLoading } = useQuery<TrashPayload>({
+    queryKey: trashKey,
+    queryFn: async () => {
+      const response = await fetch("/api/links/trash");
+      if (!response.ok) throw new Error("Failed to load trash");
+      return (await response.json()) as TrashPayload;
+    },
+  });
+  const links = useMemo(() => data?.links ?? [], [data]);
+
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [purgeConfirmIds, setPurgeConfirmIds] = useState<string[] | null>(null);
+
+  // A restore brings the link back into every list and report.
+  const refreshAll = useCallback(async () => {
+    setSelectedIds(new Set());
+    await qc.invalidateQueries({ queryKey: trashKey, refetchType: "all" });
+    qc.invalidateQueries({ queryKey: ["links"], refetchType: "all" });
+    qc.invalidateQueries({ queryKey: ["campaigns-summary"], refetchType: "all" });
+    qc.invalidateQueries({ queryKey: ["analytics-raw"], refetchType: "all" });
+    qc.invalidateQueries({ queryKey: ["campaign-links"], refetchType: "all" });
+    qc.invalidateQueries({ queryKey: ["utm-campaigns"] });
+  }, [qc, trashKey]);
+
+  const toggleSelect = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    if (selectedIds.size === links.length) setSelectedIds(new Set());
+    else setSelectedIds(new Set(links.map((l) => l.id)));
+  };
+
+  const runBulk = async (ids: string[], action: "restore" | "purge") => {
+    setBusy(true);
+    try {
+      const response = await fetch("/api/links/trash", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids, action }),
+      });
+      if (!response.ok) {
+        toastError(t("trashActionFailed"));
+        return;
+      }
+      const result = (await response.json()) as {
+        affected: number;
+        conflicts?: { id: string; code: string }[];
+      };
+      if (result.affected > 0) {
+        success(t(action === "restore" ? "trashRestored" : "trashPurged", { n: result.affected }));
+      }
+      if (result.conflicts?.length) {
+        warning(t("trashConflicts", { n: result.conflicts.length }));
+      }
+      await refreshAll();
+    } catch {
+      toastError(t("trashActionFailed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Single restore. When the code is no longer free, ask for a new one
+  // and retry with it.
+  const restoreOne = async (link: TrashedLink) => {
+    setBusy(true);
+    try {
+      let code: string | undefined;
+      for (;;) {
+        const response = await fetch(`/api/links/${link.id}/restore`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(code ? { code } : {}),
+        });
+        if (response.ok) {
+          success(t("trashRestored", { n: 1 }));
+          await refreshAll();
+          return;
+        }
+        const body = await response.json().catch(() => ({}));
+        if (response.status !== 409) {
+          toastError(typeof body.error === "string" ? body.error : t("trashActionFailed"));
+          return;
+        }
+        const next = prompt(t("trashNewCodePrompt", { code: body.code ?? link.code }), code ?? link.code);
+        if (!next?.trim()) return;
+        code = next.trim();
+      }
+    } catch {
+      toastError(t("trashActionFailed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const executePurge = async () => {
+    if (!purgeConfirmIds) return;
+    const ids = purgeConfirmIds;
+    setPurgeConfirmIds(null);
+    await runBulk(ids, "purge");
+  };
+
+  const now = Date.now();
+
+  return (
+    <div className="links-page-shell">
+      <ConfirmDialog
+        open={!!purgeConfirmIds}
+        title={t("trashPurgeConfirmTitle", { n: purgeConfirmIds?.length ?? 0 })}
+        description={t("trashPurgeConfirmDescription")}
+        confirmLabel={t("trashPurge")}
+        cancelLabel={tCommon("cancel")}
+        onConfirm={executePurge}
+        onCancel={() => setPurgeConfirmIds(null)}
+        variant="danger"
+      />
+
+      <PageHeader
+        title={t("trash")}
+        back="Back to Links"
+        backHref="/links"
+        description={data ? t("trashDescription", { days: data.retentionDays }) : undefined}
+        actions={<SyncButton queryKeys={[[...trashKey]]} />}
+      />
+
+      {/* Batch toolbar */}
+      {selectedIds.size > 0 && (
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 12,
+            padding: 10,
+            background: "var(--bg-subtle)",
+            border: "1px solid var(--border)",
+            borderRadius: "var(--r-lg)",
+            marginBottom: 14,
+          }}
+        >
+          <span style={{ fontSize: 13, fontWeight: 500, color: "var(--ink-200)" }}>
+            {t("trashSelected", { n: selectedIds.size })}
+          </span>
+          <div className="row" style={{ marginLeft: "auto", gap: 4 }}>
+            <button
+              className="btn"
+              onClick={() => runBulk(Array.from(selectedIds), "restore")}
+              disabled={busy}
+              style={{ height: 28, fontSize: 11.5, background: "var(--ok-bg)", color: "var(--ok-fg)" }}
+            >
+              <RotateCcw size={12} /> {t("trashRestore")}
+            </button>
+            <button
+              className="btn"
+              onClick={() => setPurgeConfirmIds(Array.from(selectedIds))}
+              disabled={busy}
+              style={{ height: 28, fontSize: 11.5, background: "var(--err-bg)", color: "var(--err-fg)" }}
+            >
+              <Trash2 size={12} /> {t("trashPurge")}
+            </button>
+          </div>
+          {busy && <Loader2 size={14} className="animate-spin" style={{ color: "var(--ink-500)" }} />}
+        </div>
+      )}
+
+      {isLoading && !data ? (
+        <div className="card" style={{ padding: 48, textAlign: "center" }}>
+          <Loader2 size={20} className="animate-spin" style={{ color: "var(--ink-500)" }} />
+        </div>
+      ) : links.length === 0 ? (
+        <div className="card">
+          <EmptyState
+            icon={<Trash2 className="w-10 h-10" />}
+            title={t("trashEmpty")}
+            description={t("trashEmptyHint")}
+          />
+        </div>
+      ) : (
+        <div className="tbl-wrap">
+          <table className="data">
+            <thead>
+              <tr>
+                <th style={{ width: 40 }}>
+                  <button
+                    onClick={toggleSelectAll}
+                    className={`cbx ${selectedIds.size === links.length && links.length > 0 ? "checked" : ""}`}
+                    aria-label="Select all"
+                  />
+                </th>
+                <th>{t("title")}</th>
+                <th style={{ width: 180 }}>{t("shortUrl")}</th>
+                <th style={{ width: 160 }}>{t("trashDeletedBy")}</th>
+                <th style={{ width: 150 }}>{t("trashDeletedAt")}</th>
+                <th style={{ width: 100 }}>{t("trashPurgeIn")}</th>
+                <th className="num" style={{ width: 90 }}>{t("clicks")}</th>
+                <th style={{ width: 190 }} />
+              </tr>
+            </thead>
+            <tbody>
+              {links.map((link) => {
+                const daysLeft = Math.max(0, Math.ceil((new Date(link.purgeAt).getTime() - now) / DAY_MS));
+                return (
+                  <tr key={link.id}>
+                    <td>
+                      <button
+                        onClick={() => toggleSelect(link.id)}
+                        className={`cbx ${selectedIds.has(link.id) ? "checked" : ""}`}
+                        aria-label="Select"
+                      />
+                    </td>
+                    <td style={{ minWidth: 0 }}>
+                      <div style={{ fontWeight: 500, color: "var(--ink-200)" }}>
+                        {link.title || link.code}
+                      </div>
+                      <div
+                        className="muted"
+                        style={{
+                          fontSize: 11.5,
+                          overflow: "hidden",
+                          textOverflow: "ellipsis",
+                          whiteSpace: "nowrap",
+                          maxWidth: 360,
+                        }}
+                        title={link.originalUrl}
+                      >
+                        {link.originalUrl}
+                      </div>
+                    </td>
+                    <td style={{ fontFamily: "var(--font-mono)", fontSize: 12 }}>
+                      {buildShortUrl(link.code, link.domain?.hostname).replace(/^https?:\/\//, "")}
+                    </td>
+                    <td style={{ fontSize: 12.5 }}>
+                      {link.deletedBy?.name || link.deletedBy?.email || "—"}
+                    </td>
+                    <td style={{ fontSize: 12.5, fontVariantNumeric: "tabular-nums" }}>
+                      {new Date(link.deletedAt).toLocaleString()}
+                    </td>
+                    <td
+                      style={{
+                        fontSize: 12.5,
+                        fontVariantNumeric: "tabular-nums",
+                        color: daysLeft <= 3 ? "var(--err-fg)" : undefined,
+                      }}
+                    >
+                      {t("trashPurgeDays", { n: daysLeft })}
+                    </td>
+                    <td className="num">{link._count.clicks.toLocaleString()}</td>
+                    <td>
+                      <div className="row" style={{ gap: 4, justifyContent: "flex-end" }}>
+                        <button
+                          className="btn btn-ghost"
+                          onClick={() => restoreOne(link)}
+                          disabled={busy}
+                          style={{ height: 26, fontSize: 11.5 }}
+                        >
+                          <RotateCcw size={12} /> {t("trashRestore")}
+                        </button>
+                        <button
+                          className="btn btn-ghost"
+                          onClick={() => setPurgeConfirmIds([link.id])}
+                          disabled={busy}
+                          style={{ height: 26, fontSize: 11.5, color: "var(--err-fg)" }}
+                        >
+                          <Trash2 size={12} /> {t("trashPurge")}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
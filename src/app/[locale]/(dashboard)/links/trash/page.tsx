@@ -0,0 +1,21 @@
+/**
+ * /links/trash — deleted links awaiting purge. Auth-gated shell; the list
+ * and restore / purge actions live in the client.
+ */
+
+import { getTranslations } from "next-intl/server";
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import TrashClient from "./TrashClient";
+
+export async function generateMetadata() {
+  const t = await getTranslations("links");
+  return { title: t("trash") };
+}
+
+export default async function TrashPage() {
+  const session = await auth();
+  if (!session?.user) redirect("/auth/signin");
+
+  return <TrashClient />;
+}
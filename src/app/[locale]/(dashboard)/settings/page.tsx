@@ -17,24 +17,40 @@ import {
   ShieldCheck,
   Plus,
   X as XIcon,
+  Tag as TagIcon,
+  Share2,
+  KeyRound,
+  Coins,
 } from "lucide-react";
 import { useSession, signOut } from "next-auth/react";
 import { useWorkspace } from "@/contexts/WorkspaceContext";
 import { MembersTab } from "@/components/settings/MembersTab";
 import { WorkspaceTab } from "@/components/settings/WorkspaceTab";
+import { DomainsTab } from "@/components/settings/DomainsTab";
+import { TagsTab } from "@/components/settings/TagsTab";
+import { ReferrerChannelsTab } from "@/components/settings/ReferrerChannelsTab";
+import { PostbacksTab } from "@/components/settings/PostbacksTab";
+import { CurrencyTab } from "@/components/settings/CurrencyTab";
+import { ReportingTimeZoneCard } from "@/components/settings/ReportingTimeZoneCard";
+import { UtmMismatchList } from "@/components/analytics/UtmMismatchList";
 import { PageHeader } from "@/components/layout/PageHeader";
 
-type SettingsTab = "profile" | "members" | "workspace" | "governance";
+type SettingsTab = "profile" | "members" | "workspace" | "domains" | "tags" | "channels" | "currency" | "postbacks" | "governance";
 
 export default function SettingsPage() {
   const t = useTranslations("settings");
   const tWorkspace = useTranslations("workspace");
   const tCommon = useTranslations("common");
+  const tDomains = useTranslations("domains");
+  const tTags = useTranslations("tags");
+  const tChannels = useTranslations("channels");
+  const tPostbacks = useTranslations("postbacks");
+  const tCurrency = useTranslations("currency");
   const locale = useLocale() as Locale;
   const router = useRouter();
   const pathname = usePathname();
   const { data: session, update: updateSession } = useSession();
-  const { currentWorkspace, refreshWorkspaces } = useWorkspace();
+  const { currentWorkspace, refreshWorkspaces, hasPermission } = useWorkspace();
 
   const [activeTab, setActiveTab] = useState<SettingsTab>("profile");
 
@@ -195,6 +211,17 @@ export default function SettingsPage() {
     { id: "profile" as const, label: t("profile"), icon: User },
     { id: "members" as const, label: tWorkspace("members"), icon: Users },
     { id: "workspace" as const, label: tWorkspace("title"), icon: Building2 },
+    ...(currentWorkspace
+      ? [
+          { id: "domains" as const, label: tDomains("tab"), icon: Globe },
+          { id: "tags" as const, label: tTags("tab"), icon: TagIcon },
+          { id: "channels" as const, label: tChannels("tab"), icon: Share2 },
+          { id: "currency" as const, label: tCurrency("tab"), icon: Coins },
+        ]
+      : []),
+    ...(currentWorkspace && hasPermission("manage")
+      ? [{ id: "postbacks" as const, label: tPostbacks("tab"), icon: KeyRound }]
+      : []),
     ...(isAdminOrManager && currentWorkspace
       ? [{ id: "governance" as const, label: "UTM Rules", icon: ShieldCheck }]
       : []),
@@ -356,6 +383,8 @@ export default function SettingsPage() {
               </div>
             </div>
 
+            <ReportingTimeZoneCard />
+
             <div className="card card-padded" style={{ marginBottom: 12 }}>
               <div className="section-title">{t("about")}</div>
               <div style={{ marginTop: 10 }}>
@@ -387,6 +416,11 @@ export default function SettingsPage() {
 
         {activeTab === "members" && <MembersTab />}
         {activeTab === "workspace" && <WorkspaceTab />}
+        {activeTab === "domains" && <DomainsTab />}
+        {activeTab === "tags" && <TagsTab />}
+        {activeTab === "channels" && <ReferrerChannelsTab />}
+        {activeTab === "currency" && <CurrencyTab />}
+        {activeTab === "postbacks" && <PostbacksTab />}
 
         {/* UTM Governance */}
         {activeTab === "governance" && (
@@ -582,6 +616,7 @@ export default function SettingsPage() {
             )}
           </div>
         )}
+        {activeTab === "governance" && <UtmMismatchList />}
 
         {/* Danger zone */}
         <div
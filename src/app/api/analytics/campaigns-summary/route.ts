@@ -2,12 +2,22 @@
  * GET /api/analytics/campaigns-summary
  *
  * Feeds the cross-campaign comparison section of the Analytics page.
- * Returns per-campaign aggregates (clicks, conversions, CVR, goal%)
+ * Returns per-campaign aggregates (clicks, conversions, revenue, CVR, goal%,
+ * spend, CPC, cost per conversion, ROAS)
  * plus a list of orphan links — links with no utmCampaign attached —
  * so marketers can spot tracking gaps without paging through /links.
  *
  * Query params:
- *   - days: lookback window (default 30, max 90)
+ *   - days: lookback window (default 30, max 365)
+ *   - compare: previous | lastYear — trend compares the window with the
+ *     one before it / the same dates last year. Without it the trend is
+ *     last 7d vs prev 7d.
+ *   - model: LAST_CLICK | FIRST_CLICK | LINEAR — how conversions are
+ *     credited to links (src/lib/attribution.ts). Defaults to the
+ *     workspace's attribution model. Revenue is split the same way, in
+ *     the workspace's reporting currency (src/lib/currency.ts).
+ *     Spend is the campaign's entries dated in the window, in the same
+ *     currency (src/lib/spend.ts).
  *
  * Design notes:
  *   - Redis-cached 60s — campaign leaderboards don't need second-by-second
@@ -19,18 +29,36 @@
  *     so manually-entered campaigns still show up.
  *   - Orphan links = ShortLink rows where utmCampaign IS NULL AND
  *     campaignId IS NULL. Capped at 20 by clicks to keep payload tight.
+ *   - Unique visitors per campaign are merged from the links' visitor
+ *     sketches (src/lib/analytics/visitors.ts), so a person clicking
+ *     two of a campaign's links counts once.
+ *   - Click counts come from the click rollups; the daily series from
+ *     queryZonedDays, so its days are the reporting time zone's.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { Prisma } from "@prisma/client";
 import { resolveWorkspaceScope } from "@/lib/workspace";
 import { cached, cacheKey } from "@/lib/cache";
+import { HUMAN_CLICK_FILTER } from "@/lib/bot-score";
+import { queryRollups, queryZonedDays, rollupGranularity } from "@/lib/analytics/rollups";
+import { estimateVisitors, type VisitorEstimate } from "@/lib/analytics/visitors";
+import { reportingTimeZone } from "@/lib/analytics/resolve-range";
+import {
+  attributedConversions,
+  workspaceAttribution,
+  type ConversionCredit,
+} from "@/lib/analytics/attribution";
+import { isAttributionModel } from "@/lib/attribution";
+import { workspaceRevenueCurrency } from "@/lib/analytics/revenue";
+import { campaignSpendTotals } from "@/lib/analytics/spend";
+import { costMetrics } from "@/lib/spend";
+import { calendarDays, comparisonRange, isCompareMode } from "@/lib/date-ranges";
 import { classifyTrend, type TrendState } from "@/components/analytics/TrendCell";
 
 const DEFAULT_DAYS = 30;
-const MAX_DAYS = 90;
+const MAX_DAYS = 365;
 const ORPHAN_LIMIT = 20;
 
 export async function GET(request: NextRequest) {
@@ -51,16 +79,36 @@ export async function GET(request: NextRequest) {
     // by default. Pass includeInternal=1 to opt back in. Same semantics
     // as /api/analytics/raw.
     const includeInternal = searchParams.get("includeInternal") === "1";
+    const compareParam = searchParams.get("compare");
+    const compare = isCompareMode(compareParam) ? compareParam : null;
+    const [timeZone, attribution, revenueCurrency] = await Promise.all([
+      reportingTimeZone(session.user.id, scope.workspaceId),
+      workspaceAttribution(scope.workspaceId),
+      workspaceRevenueCurrency(scope.workspaceId),
+    ]);
+    const modelParam = searchParams.get("model");
+    const model = isAttributionModel(modelParam) ? modelParam : attribution.model;
 
     // v4 suffix: clicks now filtered by isInternal by default. Bump
     // so v3 cached payloads (which mixed test clicks into the totals)
     // don't haunt the leaderboard for up to 60s.
+    // v5: click counts from rollups (whole UTC days).
+    // v6: daily series in the reporting time zone.
+    // v7: per-campaign unique visitors.
+    // v8: conversions credited by attribution model.
+    // v9: normalised revenue.
+    // v10: spend and cost metrics.
     const key = cacheKey(
-      "campaigns-summary-v4",
+      "campaigns-summary-v10",
       session.user.id,
       scope.workspaceId ?? "_",
+      timeZone,
       days,
       includeInternal ? "with-internal" : "real-only",
+      compare ?? "7d",
+      model,
+      attribution.windowDays,
+      revenueCurrency.currency,
     );
 
     const payload = await cached(key, 60, async () => {
@@ -106,73 +154,96 @@ export async function GET(request: NextRequest) {
       });
 
       const linkIds = links.map((l) => l.id);
+      const campaignLinks = links.filter((l) => l.campaign?.name ?? l.utmCampaign);
       // Windowed click counts + a per-(link, day) breakdown for the
-      // overlay chart on /campaigns. Raw SQL because Prisma groupBy
-      // can't bucket by day. The breakdown stays small (links × days ≤
-      // 90 ≈ a few thousand rows max) so in-memory reshaping is cheap.
-      // All click queries below filter out internal/test clicks unless
-      // the caller opted in. The shared `clickFilter` keeps the flag
-      // consistent across windowClicks, dailyRaw, and lastClicks.
-      const clickFilter = includeInternal ? {} : { isInternal: false };
-      // Raw SQL companion of the same filter — used in the dailyRaw
-      // queryRaw below where we can't pass a Prisma where object.
-      const rawClickSqlFilter = includeInternal
-        ? Prisma.sql``
-        : Prisma.sql`AND is_internal = false`;
+      // overlay chart on /campaigns, both from the rollups. The
+      // breakdown stays small (links × days) so in-memory reshaping is
+      // cheap. Internal/test clicks are left out unless the caller opted
+      // in; likely bots are excluded regardless of includeInternal. The
+      // shared `clickFilter` keeps lastClicks on the same rules.
+      const clickFilter = includeInternal
+        ? HUMAN_CLICK_FILTER
+        : { isInternal: false, ...HUMAN_CLICK_FILTER };
 
-      const [windowClicks, windowConversions, dailyRaw, lastClicks] = linkIds.length > 0
-        ? await Promise.all([
-            prisma.click.groupBy({
-              by: ["shortLinkId"],
-              where: {
-                shortLinkId: { in: linkIds },
-                timestamp: { gte: since },
-                ...clickFilter,
-              },
-              _count: { _all: true },
-            }),
-            prisma.conversion.groupBy({
-              by: ["shortLinkId"],
-              where: { shortLinkId: { in: linkIds }, timestamp: { gte: since } },
-              _count: { _all: true },
-            }),
-            prisma.$queryRaw<
-              { short_link_id: string; day: Date; clicks: bigint }[]
-            >(Prisma.sql`
-              SELECT short_link_id,
-                     date_trunc('day', timestamp) AS day,
-                     COUNT(*)::bigint AS clicks
-              FROM clicks
-              WHERE short_link_id IN (${Prisma.join(linkIds)})
-                AND timestamp >= ${since}
-                ${rawClickSqlFilter}
-              GROUP BY short_link_id, day
-              ORDER BY day
-            `),
-            // MAX(timestamp) for each link — NOT windowed, because the
-            // leaderboard's "last activity" column is supposed to answer
-            // "is this campaign still alive?" — a 60-day-old click is
-            // the most interesting data point when the window is 30d.
-            prisma.click.groupBy({
-              by: ["shortLinkId"],
-              where: { shortLinkId: { in: linkIds }, ...clickFilter },
-              _max: { timestamp: true },
-            }),
-          ])
-        : [[], [], [], []];
+      const period = { start: since, end: new Date() };
+      const comparison = compare ? comparisonRange(period, compare) : null;
+      const granularity = rollupGranularity(period.start, period.end);
 
-      const windowClicksMap = new Map(
-        (windowClicks as { shortLinkId: string; _count: { _all: number } }[]).map((r) => [
-          r.shortLinkId,
-          r._count._all,
-        ]),
-      );
-      const windowConversionsMap = new Map(
-        (windowConversions as { shortLinkId: string; _count: { _all: number } }[]).map((r) => [
-          r.shortLinkId,
-          r._count._all,
-        ]),
-      );
+      const [
+        windowRollups,
+        windowDays,
+        windowConversions,
+        lastClicks,
+        comparisonRollups,
+        campaignVisitors,
+      ] =
+        linkIds.length > 0
+          ? await Promise.all([
+              queryRollups({
+                linkIds,
+                ...period,
+                includeInternal,
+                includeBots: false,
+                dimensions: ["total"],
+                granularity,
+              }),
+              queryZonedDays({
+                linkIds,
+                ...period,
+                includeInternal,
+                includeBots: false,
+                timeZone,
+              }),
+              // Conversion + revenue credit per link — fractional under LINEAR.
+              attributedConversions({
+                linkIds,
+                since,
+                model,
+                windowDays: attribution.windowDays,
+                convert: revenueCurrency.convert,
+                clickFilter,
+              }),
+              // MAX(timestamp) for each link — NOT windowed, because the
+              // leaderboard's "last activity" column is supposed to answer
+              // "is this campaign still alive?" — a 60-day-old click is
+              // the most interesting data point when the window is 30d.
+              prisma.click.groupBy({
+                by: ["shortLinkId"],
+                where: { shortLinkId: { in: linkIds }, ...clickFilter },
+                _max: { timestamp: true },
+              }),
+              comparison
+                ? queryRollups({
+                    linkIds,
+                    ...comparison,
+                    includeInternal,
+                    includeBots: false,
+                    dimensions: ["total"],
+                    granularity: "day",
+                  })
+                : { rows: [] },
+              estimateVisitors({
+                linkIds: campaignLinks.map((l) => l.id),
+                groupKeys: campaignLinks.map((l) => (l.campaign?.name ?? l.utmCampaign)!),
+                ...period,
+                includeInternal,
+                includeBots: false,
+              }),
+            ])
+          : [
+              { rows: [] },
+              [],
+              { byLink: new Map<string, ConversionCredit>(), unconvertedCurrencies: [] },
+              [],
+              { rows: [] },
+              new Map<string, VisitorEstimate>(),
+            ];
+
+      const windowClicksMap = new Map<string, number>();
+      for (const row of windowRollups.rows) {
+        windowClicksMap.set(row.shortLinkId, (windowClicksMap.get(row.shortLinkId) ?? 0) + row.clicks);
+      }
+      const conversionCredit = windowConversions.byLink;
       const lastClickMap = new Map(
         (lastClicks as { shortLinkId: string; _max: { timestamp: Date | null } }[]).map((r) => [
           r.shortLinkId,
@@ -194,6 +265,7 @@ export async function GET(request: NextRequest) {
         linkCount: number;
         clicks: number;
         conversions: number;
+        revenue: number;
         // Max-of-max across this campaign's links — used for the "Last
         // activity" column. Null when no link has ever been clicked.
         lastClickAt: string | null;
@@ -225,6 +297,7 @@ export async function GET(request: NextRequest) {
             linkCount: 0,
             clicks: 0,
             conversions: 0,
+            revenue: 0,
             lastClickAt: null,
             hasActiveLink: false,
           });
@@ -232,7 +305,8 @@ export async function GET(request: NextRequest) {
         const b = buckets.get(campaignName)!;
         b.linkCount += 1;
         b.clicks += windowClicksMap.get(link.id) ?? 0;
-        b.conversions += windowConversionsMap.get(link.id) ?? 0;
+        b.conversions += conversionCredit.get(link.id)?.conversions ?? 0;
+        b.revenue += conversionCredit.get(link.id)?.revenue ?? 0;
         if (link.status === "ACTIVE") b.hasActiveLink = true;
         const linkLast = lastClickMap.get(link.id);
         if (linkLast && (!b.lastClickAt || linkLast > b.lastClickAt)) {
@@ -240,6 +314,12 @@ export async function GET(request: NextRequest) {
         }
       }
 
+      const spendTotals = await campaignSpendTotals({
+        campaignIds: Array.from(buckets.values()).flatMap((b) => (b.id ? [b.id] : [])),
+        since,
+        convert: revenueCurrency.convert,
+      });
+
       const campaigns = Array.from(buckets.values())
         // Drop "ghost" rows: utm_campaign string survives on links even
         // after the Campaign row is deleted. We keep showing them while
@@ -247,29 +327,45 @@ export async function GET(request: NextRequest) {
         // cleanup), but a fully-retired bucket (no Campaign + all links
         // paused/archived) should disappear from the leaderboard.
         .filter((b) => b.id !== null || b.hasActiveLink)
-        .map((b) => ({
-          id: b.id,
-          name: b.name,
-          displayName: b.displayName,
-          description: b.description,
-          status: b.status,
-          defaultSource: b.defaultSource,
-          defaultMedium: b.defaultMedium,
-          linkCount: b.linkCount,
-          clicks: b.clicks,
-          conversions: b.conversions,
-          cvr: b.clicks > 0 ? (b.conversions / b.clicks) * 100 : 0,
-          goalClicks: b.goalClicks,
-          // Goal progress uses all-time clickCount-like totals in the
-          // window, not the goal's lifetime clicks. Marketers asked
-          // "how close are we in this period?" rather than "since
-          // forever?" — the latter is visible on the detail page.
-          goalPct:
-            b.goalClicks && b.goalClicks > 0
-              ? Math.min((b.clicks / b.goalClicks) * 100, 100)
-              : null,
-          lastClickAt: b.lastClickAt,
-        }))
+        .map((b) => {
+          const spend = (b.id ? spendTotals.byCampaign.get(b.id) : undefined) ?? {
+            spend: 0,
+            budget: null,
+          };
+          return {
+            id: b.id,
+            name: b.name,
+            displayName: b.displayName,
+            description: b.description,
+            status: b.status,
+            defaultSource: b.defaultSource,
+            defaultMedium: b.defaultMedium,
+            linkCount: b.linkCount,
+            clicks: b.clicks,
+            uniqueVisitors: campaignVisitors.get(b.name)?.uniqueVisitors ?? 0,
+            conversions: b.conversions,
+            revenue: b.revenue,
+            cvr: b.clicks > 0 ? (b.conversions / b.clicks) * 100 : 0,
+            goalClicks: b.goalClicks,
+            // Goal progress uses all-time clickCount-like totals in the
+            // window, not the goal's lifetime clicks. Marketers asked
+            // "how close are we in this period?" rather than "since
+            // forever?" — the latter is visible on the detail page.
+            goalPct:
+              b.goalClicks && b.goalClicks > 0
+                ? Math.min((b.clicks / b.goalClicks) * 100, 100)
+                : null,
+            lastClickAt: b.lastClickAt,
+            spend: spend.spend,
+            budget: spend.budget,
+            ...costMetrics({
+              spend: spend.spend,
+              clicks: b.clicks,
+              conversions: b.conversions,
+              revenue: b.revenue,
+            }),
+          };
+        })
         .sort((a, b) => b.clicks - a.clicks);
 
       // Orphans — show top-N by windowed clicks so the list surfaces
@@ -281,7 +377,8 @@ export async function GET(request: NextRequest) {
           title: l.title,
           originalUrl: l.originalUrl,
           clicks: windowClicksMap.get(l.id) ?? 0,
-          conversions: windowConversionsMap.get(l.id) ?? 0,
+          conversions: conversionCredit.get(l.id)?.conversions ?? 0,
+          revenue: conversionCredit.get(l.id)?.revenue ?? 0,
           lastClickAt: lastClickMap.get(l.id) ?? null,
         }))
         .sort((a, b) => b.clicks - a.clicks)
@@ -297,33 +394,33 @@ export async function GET(request: NextRequest) {
         if (name) linkIdToCampaign.set(l.id, name);
       }
 
-      const dateAxis: string[] = [];
-      const cursor = new Date(since);
-      cursor.setUTCHours(0, 0, 0, 0);
-      const endDay = new Date();
-      endDay.setUTCHours(0, 0, 0, 0);
-      while (cursor <= endDay) {
-        dateAxis.push(cursor.toISOString().slice(0, 10));
-        cursor.setUTCDate(cursor.getUTCDate() + 1);
-      }
+      const dateAxis = calendarDays(period, timeZone);
       const dayIndex = new Map(dateAxis.map((d, i) => [d, i]));
 
       const perCampaign: Record<string, number[]> = {};
       for (const campaignName of buckets.keys()) {
         perCampaign[campaignName] = new Array(dateAxis.length).fill(0);
       }
-      for (const row of dailyRaw as { short_link_id: string; day: Date; clicks: bigint }[]) {
-        const campaignName = linkIdToCampaign.get(row.short_link_id);
+      for (const row of windowDays) {
+        const campaignName = linkIdToCampaign.get(row.shortLinkId);
         if (!campaignName) continue;
-        const dateKey = new Date(row.day).toISOString().slice(0, 10);
-        const idx = dayIndex.get(dateKey);
+        const idx = dayIndex.get(row.date);
         if (idx === undefined) continue;
-        perCampaign[campaignName][idx] += Number(row.clicks);
+        perCampaign[campaignName][idx] += row.clicks;
+      }
+
+      // Clicks per campaign in the ?compare= period.
+      const comparisonClicks = new Map<string, number>();
+      for (const row of comparisonRollups.rows) {
+        const campaignName = linkIdToCampaign.get(row.shortLinkId);
+        if (!campaignName) continue;
+        comparisonClicks.set(campaignName, (comparisonClicks.get(campaignName) ?? 0) + row.clicks);
       }
 
       // Derive per-campaign 7d sparkline + trend from the same
       // time-series data. Sparkline is the last 7 days of daily clicks;
-      // trend compares last7d vs prev7d. If the requested window is
+      // trend compares last7d vs prev7d — or, with ?compare=, the whole
+      // window vs the comparison period. If the requested window is
       // shorter than 14 days we don't have a prev-7d tail — trendState
       // falls back to "new" / "none" accordingly via classifyTrend.
       const campaignsWithTrend = campaigns.map((c) => {
@@ -334,7 +431,9 @@ export async function GET(request: NextRequest) {
           series.length >= 14
             ? series.slice(-14, -7).reduce((s, v) => s + v, 0)
             : 0;
-        const { trendState, trendPct } = classifyTrend(last7d, prev7d);
+        const { trendState, trendPct } = compare
+          ? classifyTrend(c.clicks, comparisonClicks.get(c.name) ?? 0)
+          : classifyTrend(last7d, prev7d);
         return {
           ...c,
           sparkline,
@@ -353,6 +452,16 @@ export async function GET(request: NextRequest) {
           totalOrphans: orphanLinks.length,
           since: since.toISOString(),
           includeInternal,
+          compare,
+          timeZone,
+          attribution: { model, windowDays: attribution.windowDays },
+          currency: revenueCurrency.currency,
+          unconvertedCurrencies: Array.from(
+            new Set([
+              ...windowConversions.unconvertedCurrencies,
+              ...spendTotals.unconvertedCurrencies,
+            ]),
+          ).sort(),
         },
       };
     });
@@ -1,13 +1,19 @@
 /**
  * GET /api/analytics/raw
  *
- * Returns the last 90 days of raw clicks + all link metadata in one
- * response. The client uses this to render Analytics entirely in the
+ * Returns click rollups, raw clicks + all link metadata for a range in
+ * one response. The client uses this to render Analytics entirely in the
  * browser — filter switches become pure useMemo with zero network.
  *
- * Caps at CLICK_CAP to keep payload size sane. When truncated we return
- * only the MOST RECENT CLICK_CAP clicks and set meta.truncated=true so
- * the client can show a banner.
+ * Query params:
+ *   - from / to: ISO range (default: the last 90 days)
+ *
+ * Counts come from the click rollups (src/lib/analytics/rollups.ts), so
+ * any range is exact — hourly buckets up to HOURLY_MAX_DAYS, daily past
+ * that — plus per-day counts in the caller's reporting time zone for the
+ * by-day chart. Raw clicks only feed the breakdowns rollups don't carry and cap
+ * at CLICK_CAP: when truncated we return only the MOST RECENT CLICK_CAP
+ * clicks and set meta.truncated=true so the client can say so.
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -15,6 +21,11 @@ import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { resolveWorkspaceScope } from "@/lib/workspace";
 import { cached, cacheKey } from "@/lib/cache";
+import { describeDeviceRule, parseDeviceRules } from "@/lib/routing-rules";
+import { describeGeoRoute, parseGeoRoutes } from "@/lib/geo-routes";
+import { HUMAN_CLICK_FILTER } from "@/lib/bot-score";
+import { countExcludedClicks, queryRollups, queryZonedDays } from "@/lib/analytics/rollups";
+import { reportingTimeZone } from "@/lib/analytics/resolve-range";
 
 const DAYS_WINDOW = 90;
 const CLICK_CAP = 10_000;
@@ -30,16 +41,28 @@ export async function GET(request: NextRequest) {
     if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     const { workspaceId, where: workspaceWhere } = scope;
 
-    const since = new Date();
-    since.setDate(since.getDate() - DAYS_WINDOW);
+    const { searchParams } = new URL(request.url);
+    // Whole minutes, so repeat loads of the same view share a cache slot.
+    const minute = (d: Date) => new Date(Math.floor(d.getTime() / 60_000) * 60_000);
+    const fromParam = searchParams.get("from");
+    const toParam = searchParams.get("to");
+    const until = minute(toParam ? new Date(toParam) : new Date());
+    const since = fromParam
+      ? minute(new Date(fromParam))
+      : new Date(until.getTime() - DAYS_WINDOW * 24 * 60 * 60 * 1000);
+    if (isNaN(since.getTime()) || isNaN(until.getTime()) || since > until) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
     const sinceIso = since.toISOString();
 
     // Pre-launch testing filter — by default we exclude clicks that the
     // redirect handler flagged as isInternal (URL had ?_test=1, or an
     // authenticated workspace member triggered the click). Pass
     // includeInternal=1 to opt back in.
-    const { searchParams } = new URL(request.url);
     const includeInternal = searchParams.get("includeInternal") === "1";
+    // Same for likely bots (botScore >= BOT_SCORE_THRESHOLD): recorded
+    // by the redirect, hidden unless includeBots=1.
+    const includeBots = searchParams.get("includeBots") === "1";
 
     // Redis-cache the whole raw payload. This is the heaviest call in the
     // app (can return 1-2 MB) and the result is identical for every view of
@@ -47,38 +70,63 @@ export async function GET(request: NextRequest) {
     // v3: payload now reports excludedInternal counts + filters
     // isInternal=true by default. Bump key so old v2 doesn't serve
     // stale data with test clicks mixed in.
+    // v4: clicks carry ruleId, links carry their routing rule labels.
+    // v5: same for geo routes (geoRouteId / geoRoutes).
+    // v6: payload carries failed password unlocks.
+    // v7: clicks carry fallbackState.
+    // v8: likely bots (bot score) filtered by default + excludedBots.
+    // v9: links carry their folder (groupId).
+    // v10: counts come from rollups; any from/to range.
+    // v11: referrer source / channel (clicks + rollup dimensions).
+    // v12: per-day counts in the reporting time zone.
+    const timeZone = await reportingTimeZone(session.user.id, workspaceId);
     const key = cacheKey(
-      "analytics-raw-v3",
+      "analytics-raw-v12",
       session.user.id,
       workspaceId ?? "_",
+      timeZone,
       sinceIso,
+      until.toISOString(),
       includeInternal ? "with-internal" : "real-only",
+      includeBots ? "with-bots" : "humans-only",
     );
 
     const payload = await cached(key, 60, async () => {
       const clickWhere = {
-        timestamp: { gte: since },
+        timestamp: { gte: since, lte: until },
         ...(workspaceId ? { workspaceId } : {}),
         shortLink: { deletedAt: null, ...workspaceWhere },
         ...(includeInternal ? {} : { isInternal: false }),
+        ...(includeBots ? {} : HUMAN_CLICK_FILTER),
       };
 
-      const [links, clicks, excludedInternal] = await Promise.all([
-        prisma.shortLink.findMany({
-          where: { deletedAt: null, ...workspaceWhere },
-          select: {
-            id: true,
-            code: true,
-            title: true,
-            originalUrl: true,
-            utmCampaign: true,
-            utmSource: true,
-            utmMedium: true,
-            utmContent: true,
-            tags: { select: { tagId: true } },
-          },
-          orderBy: { createdAt: "desc" },
-        }),
+      const links = await prisma.shortLink.findMany({
+        where: { deletedAt: null, ...workspaceWhere },
+        select: {
+          id: true,
+          code: true,
+          title: true,
+          originalUrl: true,
+          utmCampaign: true,
+          utmSource: true,
+          utmMedium: true,
+          utmContent: true,
+          tags: { select: { tagId: true } },
+          groupId: true,
+          deviceRules: true,
+          geoRoutes: true,
+        },
+        orderBy: { createdAt: "desc" },
+      });
+      const rollupQuery = {
+        linkIds: links.map((l) => l.id),
+        start: since,
+        end: until,
+        includeInternal,
+        includeBots,
+      };
+
+      const [clicks, rollups, days, excluded, unlockFailures] = await Promise.all([
         prisma.click.findMany({
           where: clickWhere,
           select: {
@@ -91,23 +139,34 @@ export async function GET(request: NextRequest) {
             city: true,
             ipHash: true,
             referrer: true,
+            referrerSource: true,
+            channel: true,
+            ruleId: true,
+            geoRouteId: true,
+            fallbackState: true,
           },
           orderBy: { timestamp: "desc" },
           take: CLICK_CAP + 1, // +1 so we can tell if we hit the cap
         }),
-        // Count of clicks we filtered out — surfaced in the UI as
-        // "已過濾 N 筆測試點擊" so users know the filter is active.
-        // Skip the count when the filter is off (would always be 0).
-        includeInternal
-          ? Promise.resolve(0)
-          : prisma.click.count({
-              where: {
-                timestamp: { gte: since },
-                ...(workspaceId ? { workspaceId } : {}),
-                shortLink: { deletedAt: null, ...workspaceWhere },
-                isInternal: true,
-              },
-            }),
+        queryRollups({
+          ...rollupQuery,
+          dimensions: ["total", "device", "country", "referrer", "source", "channel"],
+        }),
+        queryZonedDays({ ...rollupQuery, timeZone }),
+        // Clicks we filtered out — surfaced in the UI as "已過濾 N 筆
+        // 測試點擊" so users know the filter is active. Internal clicks
+        // aren't counted again as bots so the two counts don't overlap.
+        countExcludedClicks(rollupQuery),
+        prisma.linkUnlockFailure.findMany({
+          where: {
+            timestamp: { gte: since, lte: until },
+            ...(workspaceId ? { workspaceId } : {}),
+            shortLink: { deletedAt: null, ...workspaceWhere },
+          },
+          select: { shortLinkId: true, timestamp: true },
+          orderBy: { timestamp: "desc" },
+          take: CLICK_CAP,
+        }),
       ]);
 
       const truncated = clicks.length > CLICK_CAP;
@@ -124,6 +183,11 @@ export async function GET(request: NextRequest) {
           city: c.city,
           ipHash: c.ipHash,
           referrer: c.referrer,
+          referrerSource: c.referrerSource,
+          channel: c.channel,
+          ruleId: c.ruleId,
+          geoRouteId: c.geoRouteId,
+          fallbackState: c.fallbackState,
         })),
         links: links.map((l) => ({
           id: l.id,
@@ -135,13 +199,31 @@ export async function GET(request: NextRequest) {
           utmMedium: l.utmMedium,
           utmContent: l.utmContent,
           tagIds: l.tags.map((t) => t.tagId),
+          groupId: l.groupId,
+          rules: parseDeviceRules(l.deviceRules).map((r) => ({
+            id: r.id,
+            label: describeDeviceRule(r),
+          })),
+          geoRoutes: parseGeoRoutes(l.geoRoutes).map((r) => ({
+            id: r.id,
+            label: describeGeoRoute(r),
+          })),
+        })),
+        rollups,
+        days: { timeZone, rows: days },
+        unlockFailures: unlockFailures.map((f) => ({
+          shortLinkId: f.shortLinkId,
+          timestamp: f.timestamp.toISOString(),
         })),
         meta: {
           totalClicks: trimmed.length,
           truncated,
           since: sinceIso,
+          until: until.toISOString(),
           includeInternal,
-          excludedInternal,
+          excludedInternal: excluded.internal,
+          includeBots,
+          excludedBots: excluded.bots,
         },
       };
     });
@@ -1,17 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
 import type { Session } from "next-auth";
+import { Prisma } from "@prisma/client";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { buildWorkspaceWhere, resolveWorkspaceScope } from "@/lib/workspace";
 import { cached, cacheKey } from "@/lib/cache";
+import { BOT_SCORE_THRESHOLD, HUMAN_CLICK_FILTER } from "@/lib/bot-score";
+import { parseTagFilter, tagFilterKey, tagFilterWhere, type TagFilter } from "@/lib/tag-filter";
+import {
+  comparisonRange,
+  parseDateRangeParams,
+  percentChange,
+  type CompareMode,
+  type DateRange,
+} from "@/lib/date-ranges";
+import { reportingTimeZone, resolveRequestedRange } from "@/lib/analytics/resolve-range";
+import { estimateVisitorTotals } from "@/lib/analytics/visitors";
+import { UNCLASSIFIED_CHANNEL } from "@/lib/analytics/compute";
 
 interface QueryInput {
-  range: string;
+  range: DateRange;
+  /** IANA zone days / hours are bucketed in */
+  timeZone: string;
+  compare: CompareMode;
   linkId: string | null;
   campaign: string | null;
-  tagId: string | null;
-  customFrom: string | null;
-  customTo: string | null;
+  tags: TagFilter | null;
 }
 
 /**
@@ -23,36 +37,16 @@ async function computeAnalytics(
   workspaceId: string | null,
   q: QueryInput,
 ) {
-  const { range, linkId, campaign, tagId, customFrom, customTo } = q;
-
-  const now = new Date();
-  let startDate: Date;
-  let endDate: Date = now;
-
-  if (range === "custom" && customFrom) {
-    startDate = new Date(customFrom);
-    endDate = customTo ? new Date(customTo) : now;
-  } else {
-    switch (range) {
-      case "24h":
-        startDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-        break;
-      case "7d":
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      case "30d":
-        startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        break;
-      case "90d":
-        startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-        break;
-      default:
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-    }
-  }
+  const { range, timeZone, compare, linkId, campaign, tags } = q;
+  const { start: startDate, end: endDate } = range;
+  // "timestamp" is stored as UTC without a zone — shift it to the
+  // reporting zone's wall clock before taking its day / hour.
+  const localTimestamp = Prisma.sql`(("timestamp" AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone})`;
 
+  // Likely-bot clicks are recorded but never counted here.
   const whereClicks: Record<string, unknown> = {
     timestamp: { gte: startDate, lte: endDate },
+    ...HUMAN_CLICK_FILTER,
   };
 
   const workspaceWhere = buildWorkspaceWhere(
@@ -63,20 +57,13 @@ async function computeAnalytics(
   const whereLinks: Record<string, unknown> = {
     deletedAt: null,
     ...workspaceWhere,
+    ...tagFilterWhere(tags),
   };
 
   if (campaign) {
     whereLinks.utmCampaign = campaign === "__none__" ? null : campaign;
   }
 
-  if (tagId) {
-    const taggedLinks = await prisma.tagOnLink.findMany({
-      where: { tagId },
-      select: { shortLinkId: true },
-    });
-    whereLinks.id = { in: taggedLinks.map((t) => t.shortLinkId) };
-  }
-
   if (linkId) {
     whereClicks.shortLinkId = linkId;
   } else {
@@ -87,11 +74,10 @@ async function computeAnalytics(
     whereClicks.shortLinkId = { in: userLinks.map((l) => l.id) };
   }
 
-  const periodMs = now.getTime() - startDate.getTime();
-  const prevStartDate = new Date(startDate.getTime() - periodMs);
+  const comparison = comparisonRange(range, compare);
   const prevWhereClicks: Record<string, unknown> = {
     ...whereClicks,
-    timestamp: { gte: prevStartDate, lt: startDate },
+    timestamp: { gte: comparison.start, lte: comparison.end },
   };
 
   const shortLinkIds =
@@ -102,20 +88,36 @@ async function computeAnalytics(
   const [
     totalClicks,
     prevTotalClicks,
-    uniqueVisitors,
+    visitors,
+    prevVisitors,
     deviceStats,
     browserStats,
     osStats,
     referrerStats,
+    referrerSourceStats,
+    channelStats,
     countryStats,
     clicksByDayRaw,
+    prevClicksByDayRaw,
     clicksByHourRaw,
     topLinks,
     linksWithUTM,
   ] = await Promise.all([
     prisma.click.count({ where: whereClicks }),
     prisma.click.count({ where: prevWhereClicks }),
-    prisma.click.groupBy({ by: ["ipHash"], where: whereClicks }),
+    // Sketch estimates — like the counts above, internal clicks in, bots out.
+    estimateVisitorTotals({
+      linkIds: shortLinkIds,
+      ...range,
+      includeInternal: true,
+      includeBots: false,
+    }),
+    estimateVisitorTotals({
+      linkIds: shortLinkIds,
+      ...comparison,
+      includeInternal: true,
+      includeBots: false,
+    }),
     prisma.click.groupBy({ by: ["device"], where: whereClicks, _count: true }),
     prisma.click.groupBy({ by: ["browser"], where: whereClicks, _count: true }),
     prisma.click.groupBy({ by: ["os"], where: whereClicks, _count: true }),
@@ -126,6 +128,14 @@ async function computeAnalytics(
       orderBy: { _count: { referrer: "desc" } },
       take: 10,
     }),
+    prisma.click.groupBy({
+      by: ["referrerSource"],
+      where: { ...whereClicks, referrerSource: { not: null } },
+      _count: true,
+      orderBy: { _count: { referrerSource: "desc" } },
+      take: 10,
+    }),
+    prisma.click.groupBy({ by: ["channel"], where: whereClicks, _count: true }),
     prisma.click.groupBy({
       by: ["country"],
       where: { ...whereClicks, country: { not: null } },
@@ -134,26 +144,38 @@ async function computeAnalytics(
       take: 10,
     }),
     prisma.$queryRaw<{ date: string; count: bigint }[]>`
-      SELECT DATE("timestamp") as date, COUNT(*)::bigint as count
+      SELECT DATE(${localTimestamp}) as date, COUNT(*)::bigint as count
       FROM clicks
       WHERE "short_link_id" IN (SELECT unnest(${shortLinkIds}::text[]))
         AND "timestamp" >= ${startDate}
         AND "timestamp" <= ${endDate}
-      GROUP BY DATE("timestamp")
+        AND "bot_score" < ${BOT_SCORE_THRESHOLD}
+      GROUP BY 1
+      ORDER BY date ASC
+    `,
+    prisma.$queryRaw<{ date: string; count: bigint }[]>`
+      SELECT DATE(${localTimestamp}) as date, COUNT(*)::bigint as count
+      FROM clicks
+      WHERE "short_link_id" IN (SELECT unnest(${shortLinkIds}::text[]))
+        AND "timestamp" >= ${comparison.start}
+        AND "timestamp" <= ${comparison.end}
+        AND "bot_score" < ${BOT_SCORE_THRESHOLD}
+      GROUP BY 1
       ORDER BY date ASC
     `,
     prisma.$queryRaw<{ hour: number; count: bigint }[]>`
-      SELECT EXTRACT(HOUR FROM "timestamp")::int as hour, COUNT(*)::bigint as count
+      SELECT EXTRACT(HOUR FROM ${localTimestamp})::int as hour, COUNT(*)::bigint as count
       FROM clicks
       WHERE "short_link_id" IN (SELECT unnest(${shortLinkIds}::text[]))
         AND "timestamp" >= ${startDate}
         AND "timestamp" <= ${endDate}
-      GROUP BY EXTRACT(HOUR FROM "timestamp")
+        AND "bot_score" < ${BOT_SCORE_THRESHOLD}
+      GROUP BY 1
       ORDER BY hour ASC
     `,
     prisma.shortLink.findMany({
       where: whereLinks,
-      include: { _count: { select: { clicks: true } } },
+      include: { _count: { select: { clicks: { where: HUMAN_CLICK_FILTER } } } },
       orderBy: { clicks: { _count: "desc" } },
       take: 10,
     }),
@@ -175,7 +197,7 @@ async function computeAnalytics(
         _count: {
           select: {
             clicks: {
-              where: { timestamp: { gte: startDate, lte: endDate } },
+              where: { timestamp: { gte: startDate, lte: endDate }, ...HUMAN_CLICK_FILTER },
             },
           },
         },
@@ -183,20 +205,15 @@ async function computeAnalytics(
     }),
   ]);
 
-  let clicksChange = 0;
-  if (prevTotalClicks > 0) {
-    clicksChange = Math.round(((totalClicks - prevTotalClicks) / prevTotalClicks) * 100);
-  } else if (totalClicks > 0) {
-    clicksChange = 100;
-  }
-
-  const clicksByDay = clicksByDayRaw.map((row) => ({
-    date:
-      typeof row.date === "string"
-        ? row.date
-        : new Date(row.date).toISOString().split("T")[0],
-    clicks: Number(row.count),
-  }));
+  const toDailySeries = (rows: { date: string; count: bigint }[]) =>
+    rows.map((row) => ({
+      date:
+        typeof row.date === "string"
+          ? row.date
+          : new Date(row.date).toISOString().split("T")[0],
+      clicks: Number(row.count),
+    }));
+  const clicksByDay = toDailySeries(clicksByDayRaw);
 
   const clicksByHourMap = new Map<number, number>();
   for (let h = 0; h < 24; h++) clicksByHourMap.set(h, 0);
@@ -252,10 +269,22 @@ async function computeAnalytics(
       .slice(0, limit);
 
   return {
+    timeZone,
     summary: {
       totalClicks,
-      uniqueVisitors: uniqueVisitors.length,
-      clicksChange,
+      uniqueVisitors: visitors.uniqueVisitors,
+      identifiedVisitors: visitors.identifiedVisitors,
+      clicksChange: percentChange(totalClicks, prevTotalClicks),
+    },
+    // The period clicksChange is measured against (?compare=).
+    comparison: {
+      mode: compare,
+      start: comparison.start.toISOString(),
+      end: comparison.end.toISOString(),
+      totalClicks: prevTotalClicks,
+      uniqueVisitors: prevVisitors.uniqueVisitors,
+      identifiedVisitors: prevVisitors.identifiedVisitors,
+      clicksByDay: toDailySeries(prevClicksByDayRaw),
     },
     clicksByDay,
     clicksByHour,
@@ -275,6 +304,14 @@ async function computeAnalytics(
       name: r.referrer || "Direct",
       value: r._count,
     })),
+    referrerSources: referrerSourceStats.map((r) => ({
+      name: r.referrerSource!,
+      value: r._count,
+    })),
+    // Clicks recorded before classification under UNCLASSIFIED_CHANNEL.
+    channels: channelStats
+      .map((c) => ({ name: c.channel || UNCLASSIFIED_CHANNEL, value: c._count }))
+      .sort((a, b) => b.value - a.value),
     countries: countryStats.map((c) => ({
       name: c.country || "Unknown",
       value: c._count,
@@ -308,40 +345,50 @@ export async function GET(request: NextRequest) {
     }
 
     const { searchParams } = new URL(request.url);
-    const range = searchParams.get("range") || "7d";
+    const rangeParams = parseDateRangeParams(searchParams);
+    const compare = rangeParams.compare ?? "previous";
     const linkId = searchParams.get("linkId");
     const campaign = searchParams.get("campaign");
-    const tagId = searchParams.get("tagId");
-    const customFrom = searchParams.get("from");
-    const customTo = searchParams.get("to");
+    const tags = parseTagFilter(searchParams);
 
     const scope = await resolveWorkspaceScope(request, session);
     if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     const workspaceId = scope.workspaceId;
 
+    const timeZone = await reportingTimeZone(session.user.id, workspaceId);
+    const range = await resolveRequestedRange({ ...rangeParams, timeZone }, workspaceId, campaign);
+    if (!range) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
+
     // Two layers of cache in front of the DB:
     // 1. Redis (60s TTL) — shared across all instances, survives user refresh
     // 2. Browser (max-age=30) — zero network, instant back/tab-switch
+    // v3: days / hours in the reporting time zone.
+    // v4: unique visitors from the HyperLogLog sketches.
+    // v5: referrer sources / channels.
     const key = cacheKey(
-      "analytics",
+      "analytics-v5",
       session.user.id,
       workspaceId ?? "_",
-      range,
+      timeZone,
+      rangeParams.preset,
+      compare,
       linkId ?? "_",
       campaign ?? "_",
-      tagId ?? "_",
-      customFrom ?? "_",
-      customTo ?? "_",
+      tagFilterKey(tags),
+      rangeParams.from ?? "_",
+      rangeParams.to ?? "_",
     );
 
     const payload = await cached(key, 60, () =>
       computeAnalytics(session, workspaceId, {
         range,
+        timeZone,
+        compare,
         linkId,
         campaign,
-        tagId,
-        customFrom,
-        customTo,
+        tags,
       }),
     );
 
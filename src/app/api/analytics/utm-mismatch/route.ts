@@ -0,0 +1,146 @@
+/**
+ * GET /api/analytics/utm-mismatch
+ *
+ * Links whose observed traffic disagrees with their UTM tags — tagged
+ * utm_source=facebook, clicked mostly from LINE (src/lib/utm-mismatch.ts).
+ * Shown on the campaign detail page and in Settings > UTM Rules.
+ *
+ * Query params:
+ *   - campaign: limit to one campaign (default: every tagged link)
+ *   - days: window, 1–90 (default 30)
+ *
+ * Observed sources / channels come from the click rollups, real human
+ * clicks only. Only flagged links are returned, biggest first.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { resolveWorkspaceScope } from "@/lib/workspace";
+import { cached, cacheKey } from "@/lib/cache";
+import { queryRollups } from "@/lib/analytics/rollups";
+import { parseReferrerRules } from "@/lib/referrer-channels";
+import {
+  detectUtmMismatch,
+  expectedTraffic,
+  type ObservedTraffic,
+} from "@/lib/utm-mismatch";
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 90;
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const { workspaceId, where: workspaceWhere } = scope;
+
+    const { searchParams } = new URL(request.url);
+    const campaign = searchParams.get("campaign");
+    const days = Math.min(
+      Math.max(parseInt(searchParams.get("days") || "", 10) || DEFAULT_DAYS, 1),
+      MAX_DAYS,
+    );
+
+    const key = cacheKey(
+      "utm-mismatch-v1",
+      session.user.id,
+      workspaceId ?? "_",
+      campaign ?? "_",
+      String(days),
+    );
+
+    const payload = await cached(key, 60, async () => {
+      const [links, workspace] = await Promise.all([
+        prisma.shortLink.findMany({
+          where: {
+            deletedAt: null,
+            ...workspaceWhere,
+            ...(campaign ? { utmCampaign: campaign } : {}),
+            OR: [{ utmSource: { not: null } }, { utmMedium: { not: null } }],
+          },
+          select: {
+            id: true,
+            code: true,
+            title: true,
+            utmSource: true,
+            utmMedium: true,
+            utmCampaign: true,
+          },
+        }),
+        workspaceId
+          ? prisma.workspace.findUnique({
+              where: { id: workspaceId },
+              select: { referrerRules: true },
+            })
+          : null,
+      ]);
+      const rules = parseReferrerRules(workspace?.referrerRules);
+
+      const expectations = new Map(
+        links.flatMap((l) => {
+          const expected = expectedTraffic(l.utmSource, l.utmMedium, rules);
+          return expected ? [[l.id, expected] as const] : [];
+        }),
+      );
+
+      const end = new Date();
+      const start = new Date(end.getTime() - days * 24 * 60 * 60 * 1000);
+      const { rows } = await queryRollups({
+        linkIds: [...expectations.keys()],
+        start,
+        end,
+        includeInternal: false,
+        includeBots: false,
+        dimensions: ["source", "channel"],
+        granularity: "day",
+      });
+
+      const observed = new Map<string, ObservedTraffic>();
+      for (const row of rows) {
+        let o = observed.get(row.shortLinkId);
+        if (!o) {
+          o = { sources: {}, channels: {} };
+          observed.set(row.shortLinkId, o);
+        }
+        const counts = row.dimension === "source" ? o.sources : o.channels;
+        const name = row.value ?? "";
+        counts[name] = (counts[name] ?? 0) + row.clicks;
+      }
+
+      const flagged = links.flatMap((l) => {
+        const expected = expectations.get(l.id);
+        const traffic = observed.get(l.id);
+        if (!expected || !traffic) return [];
+        const result = detectUtmMismatch(expected, traffic);
+        if (!result.mismatch) return [];
+        return [
+          {
+            id: l.id,
+            code: l.code,
+            title: l.title,
+            utmSource: l.utmSource,
+            utmMedium: l.utmMedium,
+            utmCampaign: l.utmCampaign,
+            ...result,
+          },
+        ];
+      });
+      flagged.sort((a, b) => b.classifiedClicks - a.classifiedClicks);
+
+      return { days, checked: expectations.size, links: flagged };
+    });
+
+    return NextResponse.json(payload, {
+      headers: { "Cache-Control": "private, max-age=30, stale-while-revalidate=60" },
+    });
+  } catch (error) {
+    console.error("Failed to detect UTM mismatches:", error);
+    return NextResponse.json({ error: "Failed to detect UTM mismatches" }, { status: 500 });
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * GET /api/analytics/visitors
+ *
+ * Unique-visitor estimates for the Analytics page's current view, merged
+ * from the HyperLogLog day sketches (src/lib/analytics/visitors.ts) —
+ * the raw payload's clicks are capped, so the browser can't count
+ * distinct visitors over a long range itself.
+ *
+ * Query params:
+ *   - from / to: ISO range (default: the last 90 days)
+ *   - compareFrom / compareTo: optional second window, estimated alongside
+ *   - linkId, campaign ("__none__" = no campaign), tagIds / tagMatch,
+ *     groupId (including subfolders; "__none__" = no folder)
+ *   - includeInternal=1, includeBots=1: same as /api/analytics/raw
+ *
+ * Sketches are per UTC day, so `from` is widened to the start of its
+ * UTC day.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { resolveWorkspaceScope } from "@/lib/workspace";
+import { cached, cacheKey } from "@/lib/cache";
+import { descendantGroupIds } from "@/lib/link-groups";
+import { parseTagFilter, tagFilterKey, tagFilterWhere } from "@/lib/tag-filter";
+import { estimateVisitorTotals } from "@/lib/analytics/visitors";
+
+const DAYS_WINDOW = 90;
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const { workspaceId, where: workspaceWhere } = scope;
+
+    const { searchParams } = new URL(request.url);
+    // Whole minutes, so repeat loads of the same view share a cache slot.
+    const minute = (d: Date) => new Date(Math.floor(d.getTime() / 60_000) * 60_000);
+    const fromParam = searchParams.get("from");
+    const toParam = searchParams.get("to");
+    const until = minute(toParam ? new Date(toParam) : new Date());
+    const since = fromParam
+      ? minute(new Date(fromParam))
+      : new Date(until.getTime() - DAYS_WINDOW * 24 * 60 * 60 * 1000);
+    if (isNaN(since.getTime()) || isNaN(until.getTime()) || since > until) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
+    const compareFrom = searchParams.get("compareFrom");
+    const compareTo = searchParams.get("compareTo");
+    const comparison =
+      compareFrom && compareTo
+        ? { start: minute(new Date(compareFrom)), end: minute(new Date(compareTo)) }
+        : null;
+    if (
+      comparison &&
+      (isNaN(comparison.start.getTime()) ||
+        isNaN(comparison.end.getTime()) ||
+        comparison.start > comparison.end)
+    ) {
+      return NextResponse.json({ error: "Invalid comparison range" }, { status: 400 });
+    }
+
+    const linkId = searchParams.get("linkId");
+    const campaign = searchParams.get("campaign");
+    const tags = parseTagFilter(searchParams);
+    const groupId = searchParams.get("groupId");
+    const includeInternal = searchParams.get("includeInternal") === "1";
+    const includeBots = searchParams.get("includeBots") === "1";
+
+    const key = cacheKey(
+      "analytics-visitors-v1",
+      session.user.id,
+      workspaceId ?? "_",
+      since.toISOString(),
+      until.toISOString(),
+      comparison ? `${comparison.start.toISOString()}~${comparison.end.toISOString()}` : "_",
+      linkId ?? "_",
+      campaign ?? "_",
+      tagFilterKey(tags),
+      groupId ?? "_",
+      includeInternal ? "with-internal" : "real-only",
+      includeBots ? "with-bots" : "humans-only",
+    );
+
+    const payload = await cached(key, 60, async () => {
+      const where: Record<string, unknown> = {
+        deletedAt: null,
+        ...workspaceWhere,
+        ...tagFilterWhere(tags),
+      };
+      if (linkId) where.id = linkId;
+      if (campaign) where.utmCampaign = campaign === "__none__" ? null : campaign;
+      if (groupId) {
+        if (groupId === "__none__") {
+          where.groupId = null;
+        } else {
+          const groups = await prisma.linkGroup.findMany({
+            where: workspaceWhere,
+            select: { id: true, name: true, parentId: true },
+          });
+          where.groupId = { in: descendantGroupIds(groups, groupId) };
+        }
+      }
+
+      const links = await prisma.shortLink.findMany({ where, select: { id: true } });
+      const linkIds = links.map((l) => l.id);
+      const [current, previous] = await Promise.all([
+        estimateVisitorTotals({ linkIds, start: since, end: until, includeInternal, includeBots }),
+        comparison
+          ? estimateVisitorTotals({ linkIds, ...comparison, includeInternal, includeBots })
+          : null,
+      ]);
+      return { ...current, comparison: previous };
+    });
+
+    return NextResponse.json(payload, {
+      headers: { "Cache-Control": "private, max-age=30, stale-while-revalidate=60" },
+    });
+  } catch (error) {
+    console.error("Failed to estimate visitors:", error);
+    return NextResponse.json({ error: "Failed to estimate visitors" }, { status: 500 });
+  }
+}
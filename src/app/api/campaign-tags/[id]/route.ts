@@ -0,0 +1,7 @@
+import { deleteTagHandler, patchTagHandler } from "@/lib/tag-route-handlers";
+
+// PATCH - Rename / recolor a campaign tag (workspace OWNER / ADMIN)
+export const PATCH = patchTagHandler("campaign");
+
+// DELETE - Delete a campaign tag; campaigns carrying it are untagged
+export const DELETE = deleteTagHandler("campaign");
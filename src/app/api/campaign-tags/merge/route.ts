@@ -0,0 +1,4 @@
+import { mergeTagsHandler } from "@/lib/tag-route-handlers";
+
+// POST - Merge campaign tags: { targetId, sourceIds }
+export const POST = mergeTagsHandler("campaign");
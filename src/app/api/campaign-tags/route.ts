@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { resolveWorkspaceScope } from "@/lib/workspace";
+
+// GET - List the workspace's campaign tags with usage counts
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+    const tags = await prisma.campaignTag.findMany({
+      where: { workspaceId: scope.workspaceId },
+      include: {
+        _count: { select: { campaigns: true } },
+      },
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json({ tags });
+  } catch (error) {
+    console.error("Failed to fetch campaign tags:", error);
+    return NextResponse.json({ error: "Failed to fetch campaign tags" }, { status: 500 });
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { canUserActOnResource } from "@/lib/workspace";
+import { findOrCreateTag } from "@/lib/tags";
 import { z } from "zod";
 
 const updateCampaignSchema = z.object({
@@ -138,11 +139,7 @@ export async function PATCH(
       // Create new tag connections
       if (validated.tags.length > 0) {
         for (const tagName of validated.tags) {
-          const tag = await prisma.campaignTag.upsert({
-            where: { name: tagName },
-            update: {},
-            create: { name: tagName },
-          });
+          const tag = await findOrCreateTag("campaign", existing.workspaceId, tagName);
           await prisma.tagOnCampaign.create({
             data: {
               campaignId: id,
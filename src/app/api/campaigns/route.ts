@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { resolveWorkspaceScope } from "@/lib/workspace";
+import { findOrCreateTag } from "@/lib/tags";
+import { parseTagFilter, tagFilterWhere } from "@/lib/tag-filter";
 import { z } from "zod";
 
 const campaignSchema = z.object({
@@ -27,7 +29,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status");
     const search = searchParams.get("search");
-    const tagId = searchParams.get("tagId");
+    const tagFilter = parseTagFilter(searchParams);
     const includeArchived = searchParams.get("includeArchived") === "true";
 
     // Build where clause
@@ -50,12 +52,8 @@ export async function GET(request: NextRequest) {
       ];
     }
 
-    // Tag filter
-    if (tagId) {
-      where.tags = {
-        some: { tagId },
-      };
-    }
+    // Tag filter (any / all of the given tags)
+    Object.assign(where, tagFilterWhere(tagFilter));
 
     const campaigns = await prisma.campaign.findMany({
       where,
@@ -72,8 +70,9 @@ export async function GET(request: NextRequest) {
       orderBy: { createdAt: "desc" },
     });
 
-    // Get all available tags
+    // Get the workspace's available tags
     const allTags = await prisma.campaignTag.findMany({
+      where: { workspaceId: scope.workspaceId },
       orderBy: { name: "asc" },
     });
 
@@ -125,23 +124,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Handle tags - create if not exists
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const workspaceId = scope.workspaceId;
+
+    // Handle tags - create in this workspace if not exists
     let tagConnections: { tagId: string }[] = [];
     if (validated.tags && validated.tags.length > 0) {
       const tagPromises = validated.tags.map(async (tagName) => {
-        const tag = await prisma.campaignTag.upsert({
-          where: { name: tagName },
-          update: {},
-          create: { name: tagName },
-        });
+        const tag = await findOrCreateTag("campaign", workspaceId, tagName);
         return { tagId: tag.id };
       });
       tagConnections = await Promise.all(tagPromises);
     }
-
-    const scope = await resolveWorkspaceScope(request, session);
-    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    const workspaceId = scope.workspaceId;
     const campaign = await prisma.campaign.create({
       data: {
         name: validated.name,
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { resolveWorkspaceScope } from "@/lib/workspace";
+
+// DELETE /api/conversions/import/[batchId] - Undo an offline import:
+// delete every conversion it created. Rows it reported as deduped belong
+// to the earlier record and stay. OWNER / ADMIN only, like the import.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { batchId } = await params;
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    if (!scope.workspaceId) {
+      return NextResponse.json({ error: "Conversion imports need a workspace" }, { status: 400 });
+    }
+
+    const membership = await prisma.workspaceMember.findFirst({
+      where: { userId: session.user.id, workspaceId: scope.workspaceId },
+      select: { role: true },
+    });
+    if (!membership || (membership.role !== "OWNER" && membership.role !== "ADMIN")) {
+      return NextResponse.json({ error: "Forbidden — admin only" }, { status: 403 });
+    }
+
+    const [deleted] = await prisma.$transaction([
+      prisma.conversion.deleteMany({
+        where: { importBatchId: batchId, workspaceId: scope.workspaceId },
+      }),
+      prisma.auditLog.create({
+        data: {
+          userId: session.user.id,
+          action: "UNDO_CONVERSION_IMPORT",
+          targetId: batchId,
+          metadata: { workspaceId: scope.workspaceId },
+        },
+      }),
+    ]);
+
+    return NextResponse.json({ batchId, deleted: deleted.count });
+  } catch (error) {
+    console.error("Failed to undo conversion import:", error);
+    return NextResponse.json({ error: "Failed to undo conversion import" }, { status: 500 });
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * /api/conversions/import — offline conversions (distributor orders,
+ * trade-show leads) uploaded as CSV and attributed by the `_sl` session
+ * ID the CRM captured.
+ *
+ * POST contract (same shape as /api/links/batch-csv):
+ *   - Content-Type: multipart/form-data, field `file` with the CSV
+ *   - First row = header, case-insensitive, expected columns:
+ *       session_id   (required — the `_sl` value from the landing URL)
+ *       event_name   (default "conversion")
+ *       value, currency
+ *       external_id  (order / lead id; `order_id` is accepted too) —
+ *                    rows whose id is already recorded for the link
+ *                    come back as deduped, so re-uploading is safe
+ *       occurred_at  (ISO 8601; default now) — must fall within the
+ *                    attribution window after the click
+ *
+ * Rows are recorded one by one (src/lib/conversions.ts) under a fresh
+ * import batch id, with per-row results; DELETE /api/conversions/import/
+ * [batchId] removes everything one upload created, like the click reset
+ * batches. GET lists the workspace's recent imports.
+ *
+ * OWNER / ADMIN only — an import writes revenue numbers for every link in
+ * the workspace at once.
+ */
+
+import { NextRequest, NextResponse, after } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { resolveWorkspaceScope } from "@/lib/workspace";
+import { maybeAutoPromote } from "@/lib/auto-promote";
+import { recordConversion } from "@/lib/conversions";
+import { randomBytes } from "crypto";
+import Papa from "papaparse";
+import { z } from "zod";
+
+// Hard cap so one upload can't exhaust Lambda time / memory.
+const MAX_ROWS = 1000;
+
+// Imports listed on the page.
+const RECENT_IMPORTS = 20;
+
+const optional = z
+  .string()
+  .optional()
+  .nullable()
+  .transform((v) => v?.trim() || null);
+
+const rowSchema = z.object({
+  session_id: z.string().trim().min(1, "session_id is required").max(64),
+  event_name: optional.refine((v) => v === null || v.length <= 60, {
+    message: "event_name must be at most 60 characters",
+  }),
+  value: optional
+    .transform((v) => (v === null ? null : Number(v.replace(/,/g, ""))))
+    .refine((v) => v === null || (Number.isFinite(v) && v >= 0), {
+      message: "value must be a non-negative number",
+    }),
+  currency: optional
+    .transform((v) => v?.toUpperCase() ?? null)
+    .refine((v) => v === null || /^[A-Z]{3}$/.test(v), {
+      message: "currency must be ISO 4217 (e.g. TWD, USD)",
+    }),
+  external_id: optional.refine((v) => v === null || v.length <= 120, {
+    message: "external_id must be at most 120 characters",
+  }),
+  order_id: optional,
+  occurred_at: optional,
+});
+
+type RowResult =
+  | { row: number; ok: true; conversionId: string; deduped?: true }
+  | { row: number; ok: false; error: string };
+
+async function requireAdmin(userId: string, workspaceId: string): Promise<boolean> {
+  const membership = await prisma.workspaceMember.findFirst({
+    where: { userId, workspaceId },
+    select: { role: true },
+  });
+  return membership?.role === "OWNER" || membership?.role === "ADMIN";
+}
+
+// GET - Recent imports for the workspace, with how many of each batch's
+// conversions are still there (0 once undone)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    if (!scope.workspaceId) {
+      return NextResponse.json({ imports: [] });
+    }
+
+    const logs = await prisma.auditLog.findMany({
+      where: {
+        action: "IMPORT_CONVERSIONS",
+        metadata: { path: ["workspaceId"], equals: scope.workspaceId },
+      },
+      orderBy: { createdAt: "desc" },
+      take: RECENT_IMPORTS,
+      include: { user: { select: { name: true, email: true } } },
+    });
+    const batchIds = logs.map((l) => l.targetId).filter((id): id is string => !!id);
+    const remaining = batchIds.length
+      ? await prisma.conversion.groupBy({
+          by: ["importBatchId"],
+          where: { importBatchId: { in: batchIds } },
+          _count: { _all: true },
+        })
+      : [];
+    const remainingByBatch = new Map(remaining.map((r) => [r.importBatchId, r._count._all]));
+
+    return NextResponse.json({
+      imports: logs.map((log) => {
+        const meta = (log.metadata ?? {}) as Record<string, unknown>;
+        return {
+          batchId: log.targetId,
+          createdAt: log.createdAt,
+          user: log.user.name || log.user.email,
+          fileName: typeof meta.fileName === "string" ? meta.fileName : null,
+          total: Number(meta.total ?? 0),
+          imported: Number(meta.imported ?? 0),
+          remaining: remainingByBatch.get(log.targetId) ?? 0,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("Failed to fetch conversion imports:", error);
+    return NextResponse.json({ error: "Failed to fetch conversion imports" }, { status: 500 });
+  }
+}
+
+// POST - Import a CSV of offline conversions
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    if (!scope.workspaceId) {
+      return NextResponse.json({ error: "Conversion imports need a workspace" }, { status: 400 });
+    }
+    const workspaceId = scope.workspaceId;
+    if (!(await requireAdmin(session.user.id, workspaceId))) {
+      return NextResponse.json({ error: "Forbidden — admin only" }, { status: 403 });
+    }
+
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No CSV file uploaded" }, { status: 400 });
+    }
+
+    const text = await file.text();
+    const parsed = Papa.parse<Record<string, string>>(text, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (h) => h.trim().toLowerCase(),
+    });
+
+    if (parsed.errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: "CSV parse error",
+          details: parsed.errors.slice(0, 5).map((e) => e.message),
+        },
+        { status: 400 },
+      );
+    }
+
+    const rows = parsed.data;
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "CSV is empty" }, { status: 400 });
+    }
+    if (rows.length > MAX_ROWS) {
+      return NextResponse.json(
+        { error: `Too many rows (max ${MAX_ROWS})` },
+        { status: 400 },
+      );
+    }
+
+    const batchId = `imp_${randomBytes(8).toString("hex")}`;
+    const now = new Date();
+    const results: RowResult[] = [];
+
+    // Sequential — two rows for the same order must see each other for
+    // the externalId idempotency check.
+    for (let i = 0; i < rows.length; i++) {
+      const rowNumber = i + 2; // +2 because row 1 is the header for users
+
+      const parsedRow = rowSchema.safeParse(rows[i]);
+      if (!parsedRow.success) {
+        results.push({
+          row: rowNumber,
+          ok: false,
+          error: parsedRow.error.issues.map((iss) => `${iss.path.join(".")}: ${iss.message}`).join("; "),
+        });
+        continue;
+      }
+      const r = parsedRow.data;
+
+      let occurredAt: Date | undefined;
+      if (r.occurred_at) {
+        const d = new Date(r.occurred_at);
+        if (isNaN(d.getTime())) {
+          results.push({ row: rowNumber, ok: false, error: "Invalid occurred_at datetime" });
+          continue;
+        }
+        if (d > now) {
+          results.push({ row: rowNumber, ok: false, error: "occurred_at is in the future" });
+          continue;
+        }
+        occurredAt = d;
+      }
+
+      try {
+        const result = await recordConversion(
+          {
+            sessionId: r.session_id,
+            eventName: r.event_name ?? undefined,
+            value: r.value ?? undefined,
+            currency: r.currency ?? undefined,
+            externalId: r.external_id ?? r.order_id ?? undefined,
+          },
+          { workspaceId, timestamp: occurredAt, importBatchId: batchId, autoPromote: false },
+        );
+        results.push(
+          result.ok ? { row: rowNumber, ...result } : { row: rowNumber, ok: false, error: result.error },
+        );
+      } catch (err) {
+        results.push({
+          row: rowNumber,
+          ok: false,
+          error: err instanceof Error ? err.message : "DB error",
+        });
+      }
+    }
+
+    const importedCount = results.filter((r) => r.ok && !r.deduped).length;
+    const dedupedCount = results.filter((r) => r.ok && r.deduped).length;
+    const failedCount = results.length - importedCount - dedupedCount;
+
+    // Single audit log for the whole batch — it doubles as the list of
+    // imports GET returns.
+    if (importedCount > 0) {
+      await prisma.auditLog.create({
+        data: {
+          userId: session.user.id,
+          action: "IMPORT_CONVERSIONS",
+          targetId: batchId,
+          metadata: {
+            workspaceId,
+            fileName: file.name,
+            total: rows.length,
+            imported: importedCount,
+            deduped: dedupedCount,
+            failed: failedCount,
+          },
+        },
+      });
+
+      // A/B auto-promote, once per link instead of once per row.
+      const variantLinks = await prisma.conversion.findMany({
+        where: { importBatchId: batchId, variantId: { not: null } },
+        distinct: ["shortLinkId"],
+        select: { shortLinkId: true },
+      });
+      if (variantLinks.length > 0) {
+        after(async () => {
+          for (const { shortLinkId } of variantLinks) {
+            await maybeAutoPromote(shortLinkId).catch((err) =>
+              console.error("[conversion-import] auto-promote failed:", err),
+            );
+          }
+        });
+      }
+    }
+
+    return NextResponse.json({
+      batchId: importedCount > 0 ? batchId : null,
+      total: rows.length,
+      imported: importedCount,
+      deduped: dedupedCount,
+      failed: failedCount,
+      results,
+    });
+  } catch (error) {
+    console.error("Conversion import failed:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Import failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { purgeExpiredTrash } from "@/lib/link-trash";
+
+// GET /api/cron/purge-trash — purge every trashed link past its
+// workspace's retention. For Vercel Cron / any external scheduler; the
+// Trash view also purges lazily, so this is optional.
+// Requires `Authorization: Bearer $CRON_SECRET` (what Vercel Cron sends);
+// refuses to run when CRON_SECRET isn't configured.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const purged = await purgeExpiredTrash();
+    return NextResponse.json({ success: true, purged });
+  } catch (error) {
+    console.error("Failed to purge trash:", error);
+    return NextResponse.json({ error: "Failed to purge trash" }, { status: 500 });
+  }
+}
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { resolveWorkspaceScope } from "@/lib/workspace";
+import { parseDateRangeParams } from "@/lib/date-ranges";
+import { reportingTimeZone, resolveRequestedRange } from "@/lib/analytics/resolve-range";
+import { formatZoned, zonedDayKey } from "@/lib/timezone";
 
 export async function GET(request: NextRequest) {
   try {
@@ -11,33 +14,25 @@ export async function GET(request: NextRequest) {
     }
 
     const { searchParams } = new URL(request.url);
-    const range = searchParams.get("range") || "7d";
     const linkId = searchParams.get("linkId");
-
-    const now = new Date();
-    let startDate: Date;
-    switch (range) {
-      case "24h":
-        startDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-        break;
-      case "30d":
-        startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        break;
-      case "90d":
-        startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-        break;
-      default:
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+    const scope = await resolveWorkspaceScope(request, session);
+    const timeZone = await reportingTimeZone(session.user.id, scope?.workspaceId ?? null);
+    const range = await resolveRequestedRange(
+      { ...parseDateRangeParams(searchParams), timeZone },
+      scope?.workspaceId ?? null,
+      scope ? searchParams.get("campaign") : null,
+    );
+    if (!range) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
     }
 
     const whereClicks: Record<string, unknown> = {
-      timestamp: { gte: startDate },
+      timestamp: { gte: range.start, lte: range.end },
     };
 
     if (linkId) {
       whereClicks.shortLinkId = linkId;
     } else {
-      const scope = await resolveWorkspaceScope(request, session);
       if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
       const whereLinks: Record<string, unknown> = { deletedAt: null, ...scope.where };
       const userLinks = await prisma.shortLink.findMany({
@@ -56,8 +51,9 @@ export async function GET(request: NextRequest) {
     });
 
     const headers = [
-      "Timestamp", "Link Code", "Link Title", "Original URL",
-      "Device", "Browser", "OS", "Referrer", "Country", "City",
+      "Timestamp", `Local Time (${timeZone})`, "Link Code", "Link Title", "Original URL",
+      "Device", "Browser", "Browser Version", "In-App", "OS", "OS Version",
+      "Referrer", "Referrer Source", "Channel", "Country", "Region", "City", "ASN", "AS Organization", "Bot Score",
     ];
 
     type ClickRow = {
@@ -65,23 +61,42 @@ export async function GET(request: NextRequest) {
       shortLink: { code: string; title: string | null; originalUrl: string };
       device: string | null;
       browser: string | null;
+      browserVersion: string | null;
+      inApp: string | null;
       os: string | null;
+      osVersion: string | null;
       referrer: string | null;
+      referrerSource: string | null;
+      channel: string | null;
       country: string | null;
+      region: string | null;
       city: string | null;
+      asn: number | null;
+      asOrg: string | null;
+      botScore: number;
     };
 
     const rows = clicks.map((c: ClickRow) => [
       c.timestamp.toISOString(),
+      formatZoned(c.timestamp, timeZone),
       c.shortLink.code,
       csvEscape(c.shortLink.title || ""),
       csvEscape(c.shortLink.originalUrl),
       c.device || "unknown",
       c.browser || "unknown",
+      c.browserVersion || "",
+      c.inApp || "",
       c.os || "unknown",
+      c.osVersion || "",
       csvEscape(c.referrer || ""),
+      csvEscape(c.referrerSource || ""),
+      c.channel || "",
       c.country || "",
-      c.city || "",
+      c.region || "",
+      csvEscape(c.city || ""),
+      c.asn ?? "",
+      csvEscape(c.asOrg || ""),
+      c.botScore,
     ]);
 
     const csv = [headers.join(","), ...rows.map((r) => r.join(","))].join("\n");
@@ -89,7 +104,7 @@ export async function GET(request: NextRequest) {
     return new NextResponse(csv, {
       headers: {
         "Content-Type": "text/csv; charset=utf-8",
-        "Content-Disposition": `attachment; filename="analytics-export-${new Date().toISOString().split("T")[0]}.csv"`,
+        "Content-Disposition": `attachment; filename="analytics-export-${zonedDayKey(Date.now(), timeZone)}.csv"`,
       },
     });
   } catch (error) {
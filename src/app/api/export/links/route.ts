@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { resolveWorkspaceScope } from "@/lib/workspace";
+import { buildShortUrl } from "@/lib/utils/short-url";
+import { descendantGroupIds, groupPaths } from "@/lib/link-groups";
 
 export async function GET(request: NextRequest) {
   try {
@@ -12,33 +14,42 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status");
+    const groupId = searchParams.get("groupId");
 
     const scope = await resolveWorkspaceScope(request, session);
     if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     const where: Record<string, unknown> = { deletedAt: null, ...scope.where };
     if (status) where.status = status;
 
+    const groups = await prisma.linkGroup.findMany({
+      where: scope.where,
+      select: { id: true, name: true, parentId: true },
+    });
+    if (groupId) {
+      where.groupId = groupId === "__none__" ? null : { in: descendantGroupIds(groups, groupId) };
+    }
+    const paths = groupPaths(groups);
+
     const links = await prisma.shortLink.findMany({
       where,
       include: {
         _count: { select: { clicks: true } },
         tags: { include: { tag: true } },
+        domain: { select: { hostname: true } },
       },
       orderBy: { createdAt: "desc" },
     });
 
-    const shortBaseUrl = process.env.NEXT_PUBLIC_SHORT_URL || "http://localhost:3000/s";
-
     // Build CSV
     const headers = [
       "Title", "Short URL", "Original URL", "Status", "Clicks",
       "UTM Source", "UTM Medium", "UTM Campaign", "UTM Content", "UTM Term",
-      "Tags", "Created At", "Expires At",
+      "Tags", "Group", "Created At", "Expires At",
     ];
 
     const rows = links.map((link) => [
       csvEscape(link.title || ""),
-      csvEscape(`${shortBaseUrl}/${link.code}`),
+      csvEscape(buildShortUrl(link.code, link.domain?.hostname)),
       csvEscape(link.originalUrl),
       link.status,
       link._count.clicks.toString(),
@@ -48,6 +59,7 @@ export async function GET(request: NextRequest) {
       csvEscape(link.utmContent || ""),
       csvEscape(link.utmTerm || ""),
       csvEscape(link.tags.map((t: { tag: { name: string } }) => t.tag.name).join(", ")),
+      csvEscape(link.groupId ? (paths.get(link.groupId) ?? "") : ""),
       link.createdAt.toISOString(),
       link.expiresAt?.toISOString() || "",
     ]);
@@ -0,0 +1,133 @@
+/**
+ * GET /api/funnels/[id]/report
+ *
+ * Step counts, drop-off and median time between steps for the clicks in
+ * a range (src/lib/analytics/funnels.ts).
+ *
+ * Query params:
+ *   - range / from / to: same as /api/analytics (default: last 7 days)
+ *   - linkId, campaign ("__none__" = no campaign): narrow the links
+ *   - groupBy: link | campaign | variant — adds a per-group breakdown;
+ *     variant needs a linkId (variant ids are per link)
+ *   - includeInternal=1: count test clicks too
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { checkWorkspaceAccess } from "@/lib/workspace";
+import { cached, cacheKey } from "@/lib/cache";
+import { parseDateRangeParams } from "@/lib/date-ranges";
+import { reportingTimeZone, resolveRequestedRange } from "@/lib/analytics/resolve-range";
+import { computeFunnel } from "@/lib/analytics/funnels";
+import { isFunnelGroupBy } from "@/lib/funnels";
+import { parseVariants } from "@/lib/variants";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const funnel = await prisma.funnel.findUnique({ where: { id } });
+    if (!funnel) {
+      return NextResponse.json({ error: "Funnel not found" }, { status: 404 });
+    }
+    if (!(await checkWorkspaceAccess(funnel.workspaceId, session.user.id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const rangeParams = parseDateRangeParams(searchParams);
+    const linkId = searchParams.get("linkId");
+    const campaign = searchParams.get("campaign");
+    const groupByParam = searchParams.get("groupBy");
+    const groupBy = isFunnelGroupBy(groupByParam) ? groupByParam : null;
+    const includeInternal = searchParams.get("includeInternal") === "1";
+    if (groupBy === "variant" && !linkId) {
+      return NextResponse.json(
+        { error: "Grouping by variant needs a linkId" },
+        { status: 400 }
+      );
+    }
+
+    const timeZone = await reportingTimeZone(session.user.id, funnel.workspaceId);
+    const range = await resolveRequestedRange(
+      { ...rangeParams, timeZone },
+      funnel.workspaceId,
+      campaign,
+    );
+    if (!range) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
+
+    const key = cacheKey(
+      "funnel-report-v1",
+      id,
+      funnel.updatedAt.toISOString(),
+      timeZone,
+      rangeParams.preset,
+      rangeParams.from ?? "_",
+      rangeParams.to ?? "_",
+      linkId ?? "_",
+      campaign ?? "_",
+      groupBy ?? "_",
+      includeInternal ? "with-internal" : "real-only",
+    );
+
+    const payload = await cached(key, 60, async () => {
+      const where: Record<string, unknown> = {
+        workspaceId: funnel.workspaceId,
+        deletedAt: null,
+      };
+      if (linkId) where.id = linkId;
+      if (campaign) where.utmCampaign = campaign === "__none__" ? null : campaign;
+
+      const links = await prisma.shortLink.findMany({
+        where,
+        select: { id: true, code: true, title: true, utmCampaign: true, variants: true },
+      });
+
+      const { total, groups } = await computeFunnel({
+        steps: funnel.steps,
+        windowDays: funnel.windowDays,
+        linkIds: links.map((l) => l.id),
+        ...range,
+        includeInternal,
+        groupBy,
+        linkCampaigns: new Map(links.map((l) => [l.id, l.utmCampaign])),
+      });
+
+      // Display names for the group keys.
+      const labels = new Map<string, string>();
+      if (groupBy === "link") {
+        for (const l of links) labels.set(l.id, l.title || l.code);
+      } else if (groupBy === "variant") {
+        for (const v of parseVariants(links[0]?.variants)) labels.set(v.id, v.label || v.id);
+      }
+
+      return {
+        funnel: { id: funnel.id, name: funnel.name, steps: funnel.steps, windowDays: funnel.windowDays },
+        range: { start: range.start.toISOString(), end: range.end.toISOString() },
+        groupBy,
+        total,
+        groups: groups.map((g) => ({
+          ...g,
+          label: g.key === null ? null : (labels.get(g.key) ?? g.key),
+        })),
+      };
+    });
+
+    return NextResponse.json(payload, {
+      headers: { "Cache-Control": "private, max-age=30, stale-while-revalidate=60" },
+    });
+  } catch (error) {
+    console.error("Failed to compute funnel report:", error);
+    return NextResponse.json({ error: "Failed to compute funnel report" }, { status: 500 });
+  }
+}
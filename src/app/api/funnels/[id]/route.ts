@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { canUserActOnResource } from "@/lib/workspace";
+import {
+  FUNNEL_EVENT_PATTERN,
+  MAX_FUNNEL_STEPS,
+  MAX_FUNNEL_WINDOW_DAYS,
+} from "@/lib/funnels";
+import { z } from "zod";
+
+const updateFunnelSchema = z.object({
+  name: z.string().trim().min(1).max(80).optional(),
+  steps: z
+    .array(z.string().trim().regex(FUNNEL_EVENT_PATTERN, "Invalid event name"))
+    .min(1)
+    .max(MAX_FUNNEL_STEPS)
+    .optional(),
+  windowDays: z.number().int().min(1).max(MAX_FUNNEL_WINDOW_DAYS).optional(),
+});
+
+// PATCH - Update a funnel (creator or workspace OWNER / ADMIN)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const validated = updateFunnelSchema.parse(body);
+
+    const existing = await prisma.funnel.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: "Funnel not found" }, { status: 404 });
+    }
+    if (!(await canUserActOnResource(session.user.id, existing))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (validated.name && validated.name !== existing.name) {
+      const conflict = await prisma.funnel.findUnique({
+        where: { workspaceId_name: { workspaceId: existing.workspaceId, name: validated.name } },
+        select: { id: true },
+      });
+      if (conflict) {
+        return NextResponse.json(
+          { error: "A funnel with this name already exists" },
+          { status: 409 }
+        );
+      }
+    }
+
+    const funnel = await prisma.funnel.update({
+      where: { id },
+      data: validated,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "UPDATE_FUNNEL",
+        targetId: id,
+        metadata: { changes: validated },
+      },
+    });
+
+    return NextResponse.json(funnel);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    console.error("Failed to update funnel:", error);
+    return NextResponse.json({ error: "Failed to update funnel" }, { status: 500 });
+  }
+}
+
+// DELETE - Delete a funnel (creator or workspace OWNER / ADMIN)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.funnel.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: "Funnel not found" }, { status: 404 });
+    }
+    if (!(await canUserActOnResource(session.user.id, existing))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    await prisma.funnel.delete({ where: { id } });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "DELETE_FUNNEL",
+        targetId: id,
+        metadata: { name: existing.name },
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete funnel:", error);
+    return NextResponse.json({ error: "Failed to delete funnel" }, { status: 500 });
+  }
+}
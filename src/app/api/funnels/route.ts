@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { resolveWorkspaceScope } from "@/lib/workspace";
+import {
+  FUNNEL_EVENT_PATTERN,
+  MAX_FUNNEL_STEPS,
+  MAX_FUNNEL_WINDOW_DAYS,
+} from "@/lib/funnels";
+import { z } from "zod";
+
+// Event names seen in this window are offered as step suggestions.
+const EVENT_SUGGESTION_DAYS = 90;
+
+const funnelSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(80),
+  steps: z
+    .array(z.string().trim().regex(FUNNEL_EVENT_PATTERN, "Invalid event name"))
+    .min(1, "Add at least one step")
+    .max(MAX_FUNNEL_STEPS),
+  windowDays: z.number().int().min(1).max(MAX_FUNNEL_WINDOW_DAYS).optional(),
+});
+
+// GET - List the workspace's funnels, plus the event names its
+// conversions use so the editor can suggest steps
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    if (!scope.workspaceId) {
+      return NextResponse.json({ funnels: [], events: [] });
+    }
+
+    const since = new Date(Date.now() - EVENT_SUGGESTION_DAYS * 24 * 60 * 60 * 1000);
+    const [funnels, events] = await Promise.all([
+      prisma.funnel.findMany({
+        where: { workspaceId: scope.workspaceId },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.conversion.groupBy({
+        by: ["eventName"],
+        where: { workspaceId: scope.workspaceId, timestamp: { gte: since } },
+        _count: { _all: true },
+        orderBy: { _count: { eventName: "desc" } },
+        take: 50,
+      }),
+    ]);
+
+    return NextResponse.json({
+      funnels,
+      events: events.map((e) => ({ name: e.eventName, count: e._count._all })),
+    });
+  } catch (error) {
+    console.error("Failed to fetch funnels:", error);
+    return NextResponse.json({ error: "Failed to fetch funnels" }, { status: 500 });
+  }
+}
+
+// POST - Create a funnel
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validated = funnelSchema.parse(body);
+
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    if (!scope.workspaceId) {
+      return NextResponse.json({ error: "Funnels need a workspace" }, { status: 400 });
+    }
+
+    const existing = await prisma.funnel.findUnique({
+      where: { workspaceId_name: { workspaceId: scope.workspaceId, name: validated.name } },
+      select: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: "A funnel with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    const funnel = await prisma.funnel.create({
+      data: {
+        ...validated,
+        workspaceId: scope.workspaceId,
+        createdById: session.user.id,
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "CREATE_FUNNEL",
+        targetId: funnel.id,
+        metadata: { name: funnel.name, steps: funnel.steps },
+      },
+    });
+
+    return NextResponse.json(funnel, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    console.error("Failed to create funnel:", error);
+    return NextResponse.json({ error: "Failed to create funnel" }, { status: 500 });
+  }
+}
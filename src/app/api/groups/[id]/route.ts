@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { canUserActOnResource } from "@/lib/workspace";
+import { bumpLinksCache } from "@/lib/cache-scopes";
+import {
+  MAX_GROUP_DEPTH,
+  descendantGroupIds,
+  groupDepth,
+  subtreeHeight,
+} from "@/lib/link-groups";
+import { z } from "zod";
+
+const updateGroupSchema = z.object({
+  name: z.string().trim().min(1).max(60).optional(),
+  description: z.string().max(200).optional().nullable(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional().nullable(),
+  // null moves the folder to the top level.
+  parentId: z.string().optional().nullable(),
+});
+
+// Every folder sharing `group`'s tree — same workspace, or the creator's
+// own folders for orphans.
+function treeWhere(group: { workspaceId: string | null; createdById: string | null }) {
+  return group.workspaceId
+    ? { workspaceId: group.workspaceId }
+    : { workspaceId: null, createdById: group.createdById };
+}
+
+// PATCH - Rename / recolor / move a folder
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const validated = updateGroupSchema.parse(body);
+
+    const existing = await prisma.linkGroup.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Group not found" }, { status: 404 });
+    }
+
+    if (!(await canUserActOnResource(session.user.id, existing))) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const tree = await prisma.linkGroup.findMany({
+      where: treeWhere(existing),
+      select: { id: true, name: true, parentId: true },
+    });
+    const parentId = validated.parentId !== undefined ? validated.parentId : existing.parentId;
+
+    if (validated.parentId !== undefined && parentId) {
+      if (!tree.some((g) => g.id === parentId)) {
+        return NextResponse.json({ error: "Parent folder not found" }, { status: 404 });
+      }
+      if (descendantGroupIds(tree, id).includes(parentId)) {
+        return NextResponse.json(
+          { error: "A folder can't be moved into itself or one of its subfolders" },
+          { status: 400 }
+        );
+      }
+      if (groupDepth(tree, parentId) + subtreeHeight(tree, id) > MAX_GROUP_DEPTH) {
+        return NextResponse.json(
+          { error: `Folders can be nested at most ${MAX_GROUP_DEPTH} levels deep` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const name = validated.name ?? existing.name;
+    if (tree.some((g) => g.id !== id && g.parentId === parentId && g.name === name)) {
+      return NextResponse.json(
+        { error: "A folder with this name already exists here" },
+        { status: 409 }
+      );
+    }
+
+    const group = await prisma.linkGroup.update({
+      where: { id },
+      data: validated,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "UPDATE_GROUP",
+        targetId: id,
+        metadata: { changes: validated },
+      },
+    });
+
+    return NextResponse.json(group);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    console.error("Failed to update group:", error);
+    return NextResponse.json({ error: "Failed to update group" }, { status: 500 });
+  }
+}
+
+// DELETE - Delete a folder. Its subfolders and links move up to its
+// parent (or the top level); no link is deleted.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.linkGroup.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Group not found" }, { status: 404 });
+    }
+
+    if (!(await canUserActOnResource(session.user.id, existing))) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const [, movedLinks] = await prisma.$transaction([
+      prisma.linkGroup.updateMany({
+        where: { parentId: id },
+        data: { parentId: existing.parentId },
+      }),
+      // Trashed links move too, so a restore doesn't land in a dead folder.
+      prisma.shortLink.updateMany({
+        where: { groupId: id },
+        data: { groupId: existing.parentId },
+      }),
+      prisma.linkGroup.delete({ where: { id } }),
+    ]);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "DELETE_GROUP",
+        targetId: id,
+        metadata: {
+          name: existing.name,
+          parentId: existing.parentId,
+          movedLinks: movedLinks.count,
+        },
+      },
+    });
+
+    await bumpLinksCache(existing.workspaceId, session.user.id);
+
+    return NextResponse.json({ success: true, movedLinks: movedLinks.count });
+  } catch (error) {
+    console.error("Failed to delete group:", error);
+    return NextResponse.json({ error: "Failed to delete group" }, { status: 500 });
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { resolveWorkspaceScope } from "@/lib/workspace";
+import { MAX_GROUP_DEPTH, groupDepth } from "@/lib/link-groups";
+import { z } from "zod";
+
+const createGroupSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  description: z.string().max(200).optional().nullable(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional().nullable(),
+  parentId: z.string().optional().nullable(),
+});
+
+// GET - List all folders in scope (flat; nest client-side via parentId)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+    const groups = await prisma.linkGroup.findMany({
+      where: scope.where,
+      include: {
+        _count: { select: { links: { where: { deletedAt: null } } } },
+      },
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json({ groups });
+  } catch (error) {
+    console.error("Failed to fetch groups:", error);
+    return NextResponse.json({ error: "Failed to fetch groups" }, { status: 500 });
+  }
+}
+
+// POST - Create a folder, optionally inside another one
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validated = createGroupSchema.parse(body);
+
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+    const siblings = await prisma.linkGroup.findMany({
+      where: scope.where,
+      select: { id: true, name: true, parentId: true },
+    });
+    const parentId = validated.parentId ?? null;
+
+    if (parentId) {
+      if (!siblings.some((g) => g.id === parentId)) {
+        return NextResponse.json({ error: "Parent folder not found" }, { status: 404 });
+      }
+      if (groupDepth(siblings, parentId) >= MAX_GROUP_DEPTH) {
+        return NextResponse.json(
+          { error: `Folders can be nested at most ${MAX_GROUP_DEPTH} levels deep` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (siblings.some((g) => g.parentId === parentId && g.name === validated.name)) {
+      return NextResponse.json(
+        { error: "A folder with this name already exists here" },
+        { status: 409 }
+      );
+    }
+
+    const group = await prisma.linkGroup.create({
+      data: {
+        name: validated.name,
+        description: validated.description,
+        color: validated.color,
+        parentId,
+        workspaceId: scope.workspaceId || undefined,
+        createdById: session.user.id,
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "CREATE_GROUP",
+        targetId: group.id,
+        metadata: { name: group.name, parentId },
+      },
+    });
+
+    return NextResponse.json(group, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    console.error("Failed to create group:", error);
+    return NextResponse.json({ error: "Failed to create group" }, { status: 500 });
+  }
+}
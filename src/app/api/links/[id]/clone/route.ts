@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { createShortCode } from "@/lib/utils/shortcode";
 import { bumpLinksCache } from "@/lib/cache-scopes";
 import { canUserActOnResource } from "@/lib/workspace";
+import { allocateShortCode } from "@/lib/domains";
 
 // POST - Clone an existing link
 export async function POST(
@@ -32,17 +32,10 @@ export async function POST(
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
-    // Generate new unique code
-    let code: string;
-    let attempts = 0;
-    do {
-      code = createShortCode();
-      const existing = await prisma.shortLink.findUnique({ where: { code } });
-      if (!existing) break;
-      attempts++;
-    } while (attempts < 10);
+    // Generate new unique code on the same domain as the source link
+    const code = await allocateShortCode(sourceLink.domainId);
 
-    if (attempts >= 10) {
+    if (!code) {
       return NextResponse.json(
         { error: "Failed to generate unique code" },
         { status: 500 }
@@ -53,6 +46,7 @@ export async function POST(
     const clonedLink = await prisma.shortLink.create({
       data: {
         code,
+        domainId: sourceLink.domainId,
         originalUrl: sourceLink.originalUrl,
         title: sourceLink.title ? `${sourceLink.title} (copy)` : null,
         description: sourceLink.description,
@@ -80,6 +74,7 @@ export async function POST(
       },
       include: {
         tags: { include: { tag: true } },
+        domain: { select: { id: true, hostname: true } },
         _count: { select: { clicks: true } },
       },
     });
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { canUserActOnResource } from "@/lib/workspace";
+import { parseVariants } from "@/lib/variants";
+import { evaluateExperiment, parseExperimentSettings } from "@/lib/experiments";
+import { loadVariantStats } from "@/lib/auto-promote";
+import { currentAllocation, seededRandom } from "@/lib/bandit";
+
+// GET - A/B experiment report: per-variant clicks, converting clicks,
+// CVR with 95% interval, significance vs control / between leaders, and
+// the share of traffic each variant currently gets under allocationMode.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const link = await prisma.shortLink.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        variants: true,
+        experiment: true,
+        allocationMode: true,
+        createdById: true,
+        workspaceId: true,
+      },
+    });
+
+    if (!link) {
+      return NextResponse.json({ error: "Link not found" }, { status: 404 });
+    }
+
+    if (!(await canUserActOnResource(session.user.id, link))) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const settings = parseExperimentSettings(link.experiment);
+    const variants = parseVariants(link.variants);
+    const stats = await loadVariantStats(link.id);
+    const report = evaluateExperiment(variants, stats, settings);
+    // Fixed seed so the simulated Thompson shares don't jitter between
+    // refetches of the same counts.
+    const allocation = currentAllocation(link.allocationMode, variants, stats, seededRandom(1));
+
+    return NextResponse.json({
+      settings,
+      report,
+      allocationMode: link.allocationMode,
+      allocation,
+    });
+  } catch (error) {
+    console.error("Failed to fetch experiment report:", error);
+    return NextResponse.json({ error: "Failed to fetch experiment report" }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { bumpLinksCache } from "@/lib/cache-scopes";
+import { canUserActOnResource } from "@/lib/workspace";
+import { isValidCustomCode } from "@/lib/utils/shortcode";
+import { findRestoreConflict } from "@/lib/link-trash";
+import { z } from "zod";
+
+const restoreSchema = z.object({
+  // Restore under a different code when the original is no longer free.
+  code: z
+    .string()
+    .refine(isValidCustomCode, "3–50 alphanumeric characters, hyphens, or underscores")
+    .optional(),
+});
+
+// POST - Restore a link from Trash
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { code } = restoreSchema.parse(await request.json().catch(() => ({})));
+
+    const existingLink = await prisma.shortLink.findUnique({
+      where: { id },
+    });
+
+    if (!existingLink || !existingLink.deletedAt) {
+      return NextResponse.json({ error: "Link not found in Trash" }, { status: 404 });
+    }
+
+    if (!(await canUserActOnResource(session.user.id, existingLink))) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const restoreCode = code ?? existingLink.code;
+    const conflict = await findRestoreConflict(existingLink, restoreCode);
+    if (conflict) {
+      return NextResponse.json(
+        {
+          error:
+            conflict === "reserved"
+              ? "This code is reserved"
+              : "This code is already used by another link on this domain",
+          reason: conflict,
+          code: restoreCode,
+        },
+        { status: 409 }
+      );
+    }
+
+    const restoredLink = await prisma.shortLink.update({
+      where: { id },
+      data: { deletedAt: null, deletedById: null, code: restoreCode },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "RESTORE_LINK",
+        targetId: id,
+        metadata: {
+          code: restoreCode,
+          ...(restoreCode !== existingLink.code && { previousCode: existingLink.code }),
+          deletedAt: existingLink.deletedAt.toISOString(),
+        },
+      },
+    });
+
+    await bumpLinksCache(existingLink.workspaceId, session.user.id);
+    if (existingLink.createdById && existingLink.createdById !== session.user.id) {
+      await bumpLinksCache(null, existingLink.createdById);
+    }
+
+    return NextResponse.json({ success: true, id: restoredLink.id, code: restoredLink.code });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    console.error("Failed to restore link:", error);
+    return NextResponse.json({ error: "Failed to restore link" }, { status: 500 });
+  }
+}
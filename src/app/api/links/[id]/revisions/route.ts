@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { bumpLinksCache } from "@/lib/cache-scopes";
+import { canUserActOnResource } from "@/lib/workspace";
+import { withHasPassword } from "@/lib/link-password";
+import { parseSnapshot, recordRevision, snapshotToUpdate } from "@/lib/link-revisions";
+import { z } from "zod";
+
+const rollbackSchema = z.object({
+  revisionId: z.string().min(1),
+});
+
+// GET - Revision history, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const link = await prisma.shortLink.findUnique({
+      where: { id },
+      select: { id: true, createdById: true, workspaceId: true },
+    });
+
+    if (!link) {
+      return NextResponse.json({ error: "Link not found" }, { status: 404 });
+    }
+
+    if (!(await canUserActOnResource(session.user.id, link))) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const revisions = await prisma.shortLinkRevision.findMany({
+      where: { shortLinkId: id },
+      orderBy: { createdAt: "desc" },
+      take: 100,
+      include: { user: { select: { id: true, name: true, email: true, image: true } } },
+    });
+
+    return NextResponse.json({ revisions });
+  } catch (error) {
+    console.error("Failed to fetch link revisions:", error);
+    return NextResponse.json({ error: "Failed to fetch link revisions" }, { status: 500 });
+  }
+}
+
+// POST - Roll the link back to a revision's snapshot. Recorded as a new
+// ROLLBACK revision, so a rollback can itself be undone.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { revisionId } = rollbackSchema.parse(await request.json());
+
+    const existingLink = await prisma.shortLink.findUnique({
+      where: { id },
+    });
+
+    if (!existingLink || existingLink.deletedAt) {
+      return NextResponse.json({ error: "Link not found" }, { status: 404 });
+    }
+
+    if (!(await canUserActOnResource(session.user.id, existingLink))) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const revision = await prisma.shortLinkRevision.findFirst({
+      where: { id: revisionId, shortLinkId: id },
+    });
+    const snapshot = revision && parseSnapshot(revision.snapshot);
+    if (!revision || !snapshot) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    // A schedule whose time has passed would fire on the next click —
+    // restoring it would swap the destination straight back. Drop it.
+    if (snapshot.scheduledUrlAt && new Date(snapshot.scheduledUrlAt) <= new Date()) {
+      snapshot.scheduledUrl = null;
+      snapshot.scheduledUrlAt = null;
+    }
+
+    const updatedLink = await prisma.shortLink.update({
+      where: { id },
+      data: snapshotToUpdate(snapshot),
+      omit: { password: false },
+      include: {
+        _count: { select: { clicks: true } },
+        tags: { include: { tag: true } },
+        domain: { select: { id: true, hostname: true } },
+      },
+    });
+
+    const rollback = await recordRevision({
+      shortLinkId: id,
+      before: existingLink,
+      after: updatedLink,
+      userId: session.user.id,
+      source: "ROLLBACK",
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "ROLLBACK_LINK",
+        targetId: id,
+        metadata: {
+          code: existingLink.code,
+          restoredRevisionId: revision.id,
+          restoredFrom: revision.createdAt.toISOString(),
+          revisionId: rollback?.id ?? null,
+          fields: Object.keys(rollback?.changes ?? {}),
+        },
+      },
+    });
+
+    await bumpLinksCache(existingLink.workspaceId, session.user.id);
+    if (existingLink.createdById && existingLink.createdById !== session.user.id) {
+      await bumpLinksCache(null, existingLink.createdById);
+    }
+
+    return NextResponse.json(withHasPassword(updatedLink));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    console.error("Failed to roll back link:", error);
+    return NextResponse.json({ error: "Failed to roll back link" }, { status: 500 });
+  }
+}
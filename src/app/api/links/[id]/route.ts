@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { after } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { bumpLinksCache } from "@/lib/cache-scopes";
@@ -8,15 +9,57 @@ import {
 } from "@/lib/utm-governance";
 import { upsertCampaignForUtm } from "@/lib/campaign-autolink";
 import { canUserActOnResource } from "@/lib/workspace";
+import { RULE_DEVICES, RULE_OSES } from "@/lib/routing-rules";
+import { LINK_PASSWORD_MAX, LINK_PASSWORD_MIN, withHasPassword } from "@/lib/link-password";
+import { FALLBACK_STATES } from "@/lib/fallbacks";
+import { CONFIDENCE_LEVELS } from "@/lib/experiments";
+import { maybeAutoPromote } from "@/lib/auto-promote";
+import { ALLOCATION_MODES } from "@/lib/bandit";
+import { applyDueSchedule, dueScheduledUrl, recordRevision } from "@/lib/link-revisions";
+import { linkTagsBelongTo } from "@/lib/tags";
+import bcrypt from "bcryptjs";
 import { z } from "zod";
 
 const variantSchema = z.object({
   id: z.string().min(1).max(40),
   url: z.string().url(),
-  weight: z.number().int().positive().max(1000),
+  // 0 = paused (kept for reporting); at least one variant must be live.
+  weight: z.number().int().nonnegative().max(1000),
   label: z.string().max(60).optional(),
 });
 
+const deviceRuleSchema = z
+  .object({
+    id: z.string().min(1).max(40),
+    device: z.enum(RULE_DEVICES).optional(),
+    os: z.enum(RULE_OSES).optional(),
+    url: z.string().url(),
+    label: z.string().max(60).optional(),
+  })
+  .refine((r) => r.device || r.os, "A rule needs a device or an OS");
+
+const geoRouteSchema = z.object({
+  id: z.string().min(1).max(40),
+  countries: z
+    .array(z.string().regex(/^[A-Z]{2}$/, "Use ISO 3166-1 alpha-2 codes"))
+    .min(1)
+    .max(50),
+  url: z.string().url(),
+  label: z.string().max(60).optional(),
+});
+
+// Per-state fallback destinations; a state left out has no link-level
+// fallback (the workspace default, if any, applies).
+const fallbackUrlsSchema = z.partialRecord(z.enum(FALLBACK_STATES), z.string().url());
+
+// Saving settings re-arms auto-promote: promotedVariantId is not
+// accepted here, so a save clears the previous promotion marker.
+const experimentSchema = z.object({
+  autoPromote: z.boolean(),
+  confidence: z.union(CONFIDENCE_LEVELS.map((c) => z.literal(c))),
+  minClicksPerVariant: z.number().int().min(10).max(1_000_000),
+});
+
 const updateLinkSchema = z.object({
   originalUrl: z.string().url().optional(),
   title: z.string().optional().nullable(),
@@ -25,19 +68,56 @@ const updateLinkSchema = z.object({
   startsAt: z.string().datetime().optional().nullable(),
   expiresAt: z.string().datetime().optional().nullable(),
   maxClicks: z.number().int().positive().optional().nullable(),
+  // Future destination swap; both set or both null.
+  scheduledUrl: z.string().url().optional().nullable(),
+  scheduledUrlAt: z.string().datetime().optional().nullable(),
   allowedCountries: z
     .array(z.string().regex(/^[A-Z]{2}$/, "Use ISO 3166-1 alpha-2 codes"))
     .max(50)
     .optional(),
-  variants: z.array(variantSchema).max(10).optional(),
+  variants: z
+    .array(variantSchema)
+    .max(10)
+    .refine(
+      (vs) => vs.length === 0 || vs.some((v) => v.weight > 0),
+      "At least one variant needs a weight above 0",
+    )
+    .optional(),
+  experiment: experimentSchema.optional(),
+  allocationMode: z.enum(ALLOCATION_MODES).optional(),
+  deviceRules: z.array(deviceRuleSchema).max(10).optional(),
+  geoRoutes: z.array(geoRouteSchema).max(20).optional(),
+  fallbackUrls: fallbackUrlsSchema.optional(),
+  // New plaintext password; null removes the protection.
+  password: z.string().min(LINK_PASSWORD_MIN).max(LINK_PASSWORD_MAX).optional().nullable(),
   utmSource: z.string().optional().nullable(),
   utmMedium: z.string().optional().nullable(),
   utmCampaign: z.string().optional().nullable(),
   utmContent: z.string().optional().nullable(),
   utmTerm: z.string().optional().nullable(),
   tags: z.array(z.string()).optional(), // Array of tag IDs
+  // Folder; null takes the link out of any folder.
+  groupId: z.string().optional().nullable(),
 });
 
+const UTM_FIELDS = ["utmSource", "utmMedium", "utmCampaign", "utmContent", "utmTerm"] as const;
+
+type UtmValues = Record<(typeof UTM_FIELDS)[number], string | null | undefined>;
+
+// Replace the utm_* query params on a destination with the link's UTM values.
+function withUtmParams(baseUrl: string, utm: UtmValues): string {
+  const url = new URL(baseUrl);
+  ["utm_source", "utm_medium", "utm_campaign", "utm_content", "utm_term"].forEach(
+    (p) => url.searchParams.delete(p)
+  );
+  if (utm.utmSource) url.searchParams.set("utm_source", utm.utmSource);
+  if (utm.utmMedium) url.searchParams.set("utm_medium", utm.utmMedium);
+  if (utm.utmCampaign) url.searchParams.set("utm_campaign", utm.utmCampaign);
+  if (utm.utmContent) url.searchParams.set("utm_content", utm.utmContent);
+  if (utm.utmTerm) url.searchParams.set("utm_term", utm.utmTerm);
+  return url.toString();
+}
+
 // GET - Get single link
 export async function GET(
   request: NextRequest,
@@ -53,9 +133,11 @@ export async function GET(
 
     const link = await prisma.shortLink.findUnique({
       where: { id },
+      omit: { password: false },
       include: {
         _count: { select: { clicks: true } },
         tags: { include: { tag: true } },
+        domain: { select: { id: true, hostname: true } },
       },
     });
 
@@ -67,7 +149,16 @@ export async function GET(
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
-    return NextResponse.json(link);
+    // A swap that came due with no redirect since — apply it now so the
+    // form doesn't show the old destination.
+    const scheduledUrl = dueScheduledUrl(link);
+    if (scheduledUrl && (await applyDueSchedule(link))) {
+      link.originalUrl = scheduledUrl;
+      link.scheduledUrl = null;
+      link.scheduledUrlAt = null;
+    }
+
+    return NextResponse.json(withHasPassword(link));
   } catch (error) {
     console.error("Failed to fetch link:", error);
     return NextResponse.json({ error: "Failed to fetch link" }, { status: 500 });
@@ -118,6 +209,39 @@ export async function PATCH(
       }
     }
 
+    const scheduledUrl =
+      validated.scheduledUrl !== undefined ? validated.scheduledUrl : existingLink.scheduledUrl;
+    const scheduledUrlAt =
+      validated.scheduledUrlAt !== undefined
+        ? validated.scheduledUrlAt && new Date(validated.scheduledUrlAt)
+        : existingLink.scheduledUrlAt;
+    if (Boolean(scheduledUrl) !== Boolean(scheduledUrlAt)) {
+      return NextResponse.json(
+        { error: "scheduledUrl and scheduledUrlAt must be set together" },
+        { status: 400 },
+      );
+    }
+    if (validated.scheduledUrlAt && scheduledUrlAt && scheduledUrlAt <= new Date()) {
+      return NextResponse.json(
+        { error: "scheduledUrlAt must be in the future" },
+        { status: 400 },
+      );
+    }
+
+    if (validated.groupId) {
+      const group = await prisma.linkGroup.findFirst({
+        where: { id: validated.groupId, workspaceId: existingLink.workspaceId },
+        select: { id: true },
+      });
+      if (!group) {
+        return NextResponse.json({ error: "Group not found" }, { status: 404 });
+      }
+    }
+
+    if (validated.tags && !(await linkTagsBelongTo(validated.tags, existingLink.workspaceId))) {
+      return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+    }
+
     // Build update data
     const updateData: Record<string, unknown> = {};
 
@@ -134,6 +258,26 @@ export async function PATCH(
     if (validated.variants !== undefined) {
       updateData.variants = validated.variants;
     }
+    if (validated.deviceRules !== undefined) {
+      updateData.deviceRules = validated.deviceRules;
+    }
+    if (validated.geoRoutes !== undefined) {
+      updateData.geoRoutes = validated.geoRoutes;
+    }
+    if (validated.experiment !== undefined) {
+      updateData.experiment = validated.experiment;
+    }
+    if (validated.allocationMode !== undefined) {
+      updateData.allocationMode = validated.allocationMode;
+    }
+    if (validated.fallbackUrls !== undefined) {
+      updateData.fallbackUrls = validated.fallbackUrls;
+    }
+    if (validated.password !== undefined) {
+      updateData.password = validated.password
+        ? await bcrypt.hash(validated.password, 10)
+        : null;
+    }
 
     // Auto-link Campaign when utmCampaign is being set/changed and no
     // explicit campaignId was preserved on the link. Uses the link's own
@@ -154,6 +298,8 @@ export async function PATCH(
       updateData.expiresAt = validated.expiresAt ? new Date(validated.expiresAt) : null;
     }
     if (validated.maxClicks !== undefined) updateData.maxClicks = validated.maxClicks;
+    if (validated.scheduledUrlAt !== undefined) updateData.scheduledUrlAt = scheduledUrlAt;
+    if (validated.groupId !== undefined) updateData.groupId = validated.groupId;
 
     // UTM fields
     if (validated.utmSource !== undefined) updateData.utmSource = validated.utmSource;
@@ -162,32 +308,21 @@ export async function PATCH(
     if (validated.utmContent !== undefined) updateData.utmContent = validated.utmContent;
     if (validated.utmTerm !== undefined) updateData.utmTerm = validated.utmTerm;
 
-    // If UTM params changed, rebuild the originalUrl with updated UTM query params
-    const utmChanged = ["utmSource", "utmMedium", "utmCampaign", "utmContent", "utmTerm"]
-      .some((key) => (validated as Record<string, unknown>)[key] !== undefined);
+    // If UTM params changed, rebuild the originalUrl with updated UTM query
+    // params. A scheduled destination gets the same params so the swap
+    // doesn't silently drop tracking.
+    const utmChanged = UTM_FIELDS.some((key) => validated[key] !== undefined);
+    const utm = Object.fromEntries(
+      UTM_FIELDS.map((key) => [key, validated[key] !== undefined ? validated[key] : existingLink[key]]),
+    ) as UtmValues;
 
     if (utmChanged) {
-      const baseUrl = validated.originalUrl || existingLink.originalUrl;
-      const url = new URL(baseUrl);
-
-      // Merge: use validated value if provided, else keep existing
-      const utmSource = validated.utmSource !== undefined ? validated.utmSource : existingLink.utmSource;
-      const utmMedium = validated.utmMedium !== undefined ? validated.utmMedium : existingLink.utmMedium;
-      const utmCampaign = validated.utmCampaign !== undefined ? validated.utmCampaign : existingLink.utmCampaign;
-      const utmContent = validated.utmContent !== undefined ? validated.utmContent : existingLink.utmContent;
-      const utmTerm = validated.utmTerm !== undefined ? validated.utmTerm : existingLink.utmTerm;
-
-      // Remove old UTM params, then set new ones
-      ["utm_source", "utm_medium", "utm_campaign", "utm_content", "utm_term"].forEach(
-        (p) => url.searchParams.delete(p)
-      );
-      if (utmSource) url.searchParams.set("utm_source", utmSource);
-      if (utmMedium) url.searchParams.set("utm_medium", utmMedium);
-      if (utmCampaign) url.searchParams.set("utm_campaign", utmCampaign);
-      if (utmContent) url.searchParams.set("utm_content", utmContent);
-      if (utmTerm) url.searchParams.set("utm_term", utmTerm);
-
-      updateData.originalUrl = url.toString();
+      updateData.originalUrl = withUtmParams(validated.originalUrl || existingLink.originalUrl, utm);
+    }
+    if (scheduledUrl && (utmChanged || validated.scheduledUrl)) {
+      updateData.scheduledUrl = withUtmParams(scheduledUrl, utm);
+    } else if (validated.scheduledUrl !== undefined) {
+      updateData.scheduledUrl = validated.scheduledUrl;
     }
 
     // Update the link
@@ -196,6 +331,14 @@ export async function PATCH(
       data: updateData,
     });
 
+    const revision = await recordRevision({
+      shortLinkId: id,
+      before: existingLink,
+      after: updatedLink,
+      userId: session.user.id,
+      source: "EDIT",
+    });
+
     // Update tags if provided (replace all)
     if (validated.tags !== undefined) {
       // Remove all existing tag associations
@@ -215,9 +358,11 @@ export async function PATCH(
     // Re-fetch with tags included
     const result = await prisma.shortLink.findUnique({
       where: { id },
+      omit: { password: false },
       include: {
         _count: { select: { clicks: true } },
         tags: { include: { tag: true } },
+        domain: { select: { id: true, hostname: true } },
       },
     });
 
@@ -227,7 +372,16 @@ export async function PATCH(
         userId: session.user.id,
         action: "UPDATE_LINK",
         targetId: id,
-        metadata: { changes: validated },
+        // Never log the plaintext password — only whether it changed.
+        metadata: {
+          changes: {
+            ...validated,
+            ...(validated.password !== undefined && {
+              password: validated.password ? "set" : "removed",
+            }),
+          },
+          revisionId: revision?.id ?? null,
+        },
       },
     });
 
@@ -237,7 +391,13 @@ export async function PATCH(
       await bumpLinksCache(null, existingLink.createdById);
     }
 
-    return NextResponse.json(result);
+    // Turning auto-promote on may already meet the thresholds — evaluate
+    // now rather than waiting for the next conversion.
+    if (validated.experiment?.autoPromote) {
+      after(() => maybeAutoPromote(id).catch((err) => console.error("Auto-promote failed:", err)));
+    }
+
+    return NextResponse.json(result && withHasPassword(result));
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 });
@@ -247,7 +407,7 @@ export async function PATCH(
   }
 }
 
-// DELETE - Soft delete link
+// DELETE - Move link to Trash (restorable until purged — see link-trash.ts)
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -265,7 +425,7 @@ export async function DELETE(
       where: { id },
     });
 
-    if (!existingLink) {
+    if (!existingLink || existingLink.deletedAt) {
       return NextResponse.json({ error: "Link not found" }, { status: 404 });
     }
 
@@ -276,7 +436,7 @@ export async function DELETE(
     // Soft delete
     await prisma.shortLink.update({
       where: { id },
-      data: { deletedAt: new Date() },
+      data: { deletedAt: new Date(), deletedById: session.user.id },
     });
 
     // Create audit log
@@ -3,12 +3,15 @@ import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { resolveWorkspaceScope } from "@/lib/workspace";
 import { bumpLinksCache } from "@/lib/cache-scopes";
+import { linkTagsBelongTo } from "@/lib/tags";
 import { z } from "zod";
 
 const batchActionSchema = z.object({
   ids: z.array(z.string()).min(1).max(100),
-  action: z.enum(["delete", "pause", "activate", "archive", "add_tag"]),
+  action: z.enum(["delete", "pause", "activate", "archive", "add_tag", "move_to_group"]),
   tagId: z.string().optional(),
+  // Target folder for move_to_group; null takes the links out of any folder.
+  groupId: z.string().nullable().optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -19,7 +22,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { ids, action, tagId } = batchActionSchema.parse(body);
+    const { ids, action, tagId, groupId } = batchActionSchema.parse(body);
 
     // Verify ownership/workspace scope
     const scope = await resolveWorkspaceScope(request, session);
@@ -40,7 +43,7 @@ export async function POST(request: NextRequest) {
       case "delete":
         result = await prisma.shortLink.updateMany({
           where: { id: { in: ids }, deletedAt: null },
-          data: { deletedAt: new Date() },
+          data: { deletedAt: new Date(), deletedById: session.user.id },
         });
         break;
       case "pause":
@@ -65,6 +68,9 @@ export async function POST(request: NextRequest) {
         if (!tagId) {
           return NextResponse.json({ error: "tagId required for add_tag action" }, { status: 400 });
         }
+        if (!(await linkTagsBelongTo([tagId], scope.workspaceId))) {
+          return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+        }
         // Create TagOnLink records; skip duplicates using upsert pattern
         await Promise.all(
           ids.map((linkId) =>
@@ -77,6 +83,24 @@ export async function POST(request: NextRequest) {
         );
         result = { count: ids.length };
         break;
+      case "move_to_group":
+        if (groupId === undefined) {
+          return NextResponse.json({ error: "groupId required for move_to_group action" }, { status: 400 });
+        }
+        if (groupId) {
+          const group = await prisma.linkGroup.findFirst({
+            where: { id: groupId, ...scope.where },
+            select: { id: true },
+          });
+          if (!group) {
+            return NextResponse.json({ error: "Group not found" }, { status: 404 });
+          }
+        }
+        result = await prisma.shortLink.updateMany({
+          where: { id: { in: ids }, deletedAt: null },
+          data: { groupId },
+        });
+        break;
     }
 
     // Audit log
@@ -84,7 +108,12 @@ export async function POST(request: NextRequest) {
       data: {
         userId: session.user.id,
         action: action === "delete" ? "DELETE_LINK" : "UPDATE_LINK",
-        metadata: { batchAction: action, linkIds: ids, affected: result.count },
+        metadata: {
+          batchAction: action,
+          linkIds: ids,
+          affected: result.count,
+          ...(action === "move_to_group" && { groupId }),
+        },
       },
     });
 
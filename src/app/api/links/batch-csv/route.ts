@@ -8,10 +8,12 @@
  *
  * Contract:
  *   - Content-Type: multipart/form-data
- *   - Single field `file` containing the CSV
+ *   - Field `file` containing the CSV
+ *   - Optional field `domainId` — default short domain for every row
  *   - First row = header, case-insensitive, expected columns (extras ignored):
  *       original_url (required)
  *       title, custom_code
+ *       domain         (hostname of a workspace domain; overrides `domainId`)
  *       utm_source, utm_medium, utm_campaign, utm_content, utm_term
  *       tags           (comma-separated tag names; auto-created if missing)
  *       max_clicks     (integer)
@@ -31,17 +33,20 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { resolveWorkspaceScope } from "@/lib/workspace";
-import {
-  createShortCode,
-  isReservedCode,
-  isValidCustomCode,
-} from "@/lib/utils/shortcode";
+import { isReservedCode, isValidCustomCode } from "@/lib/utils/shortcode";
 import { bumpLinksCache } from "@/lib/cache-scopes";
 import {
   getWorkspaceUtmGovernance,
   validateUtmAgainstGovernance,
 } from "@/lib/utm-governance";
 import { upsertCampaignForUtm } from "@/lib/campaign-autolink";
+import { findOrCreateTag } from "@/lib/tags";
+import {
+  allocateShortCode,
+  isCodeTaken,
+  normalizeHostname,
+  resolveLinkDomain,
+} from "@/lib/domains";
 import Papa from "papaparse";
 import { z } from "zod";
 
@@ -52,6 +57,7 @@ const rowSchema = z.object({
   original_url: z.string().url(),
   title: z.string().optional().nullable(),
   custom_code: z.string().optional().nullable(),
+  domain: z.string().optional().nullable(),
   utm_source: z.string().optional().nullable(),
   utm_medium: z.string().optional().nullable(),
   utm_campaign: z.string().optional().nullable(),
@@ -100,6 +106,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "No CSV file uploaded" }, { status: 400 });
     }
 
+    const requestedDomainId = form.get("domainId");
+    const defaultDomain = await resolveLinkDomain(
+      typeof requestedDomainId === "string" && requestedDomainId ? requestedDomainId : undefined,
+      scope.workspaceId,
+    );
+    if (!defaultDomain.ok) {
+      return NextResponse.json({ error: "Domain not found in this workspace" }, { status: 400 });
+    }
+
     const text = await file.text();
     const parsed = Papa.parse<Record<string, string>>(text, {
       header: true,
@@ -130,6 +145,16 @@ export async function POST(request: NextRequest) {
 
     const governance = await getWorkspaceUtmGovernance(scope.workspaceId);
 
+    // Per-row `domain` column → Domain id, limited to this workspace's
+    // domains so a CSV can't drop links onto another team's host.
+    const workspaceDomains = scope.workspaceId
+      ? await prisma.domain.findMany({
+          where: { workspaceId: scope.workspaceId },
+          select: { id: true, hostname: true },
+        })
+      : [];
+    const domainIdByHost = new Map(workspaceDomains.map((d) => [d.hostname, d.id]));
+
     // Resolve tag names → tag IDs up-front. Collect unique names across all
     // rows so we only make one DB roundtrip per tag. Missing tags are created
     // in the current workspace (null for user-scope mode is allowed by schema).
@@ -145,7 +170,7 @@ export async function POST(request: NextRequest) {
       const existing = await prisma.tag.findMany({
         where: {
           name: { in: Array.from(tagNames) },
-          ...(scope.workspaceId ? { workspaceId: scope.workspaceId } : {}),
+          workspaceId: scope.workspaceId,
         },
         select: { id: true, name: true },
       });
@@ -153,13 +178,9 @@ export async function POST(request: NextRequest) {
 
       const missing = Array.from(tagNames).filter((n) => !tagNameToId.has(n));
       for (const name of missing) {
-        // upsert rather than createMany so concurrent imports don't race on
-        // the @unique(name) constraint.
-        const tag = await prisma.tag.upsert({
-          where: { name },
-          update: {},
-          create: { name, workspaceId: scope.workspaceId ?? undefined },
-        });
+        // One at a time rather than createMany so concurrent imports don't
+        // race on the (workspace, name) unique constraint.
+        const tag = await findOrCreateTag("link", scope.workspaceId, name);
         tagNameToId.set(name, tag.id);
       }
     }
@@ -168,7 +189,7 @@ export async function POST(request: NextRequest) {
 
     // Sequential loop — each row needs a unique short code + collision
     // check, and governance/tag writes are cheap. Parallelism would just
-    // contend on the short_links.code unique index.
+    // contend on the short_links (domain_id, code) unique index.
     for (let i = 0; i < rows.length; i++) {
       const rowNumber = i + 2; // +2 because row 1 is the header for users
       const raw = rows[i];
@@ -194,6 +215,18 @@ export async function POST(request: NextRequest) {
         continue;
       }
 
+      // Resolve the row's domain — explicit column wins over the form default
+      let domainId = defaultDomain.domainId;
+      if (r.domain?.trim()) {
+        const host = normalizeHostname(r.domain);
+        const id = host ? domainIdByHost.get(host) : undefined;
+        if (!id) {
+          results.push({ row: rowNumber, ok: false, error: `Unknown domain "${r.domain.trim()}"` });
+          continue;
+        }
+        domainId = id;
+      }
+
       // Resolve short code
       let code = r.custom_code?.trim() || "";
       if (code) {
@@ -205,23 +238,17 @@ export async function POST(request: NextRequest) {
           results.push({ row: rowNumber, ok: false, error: `Reserved code "${code}"` });
           continue;
         }
-        const dupe = await prisma.shortLink.findUnique({ where: { code } });
-        if (dupe) {
+        if (await isCodeTaken(code, domainId)) {
           results.push({ row: rowNumber, ok: false, error: `Code "${code}" already exists` });
           continue;
         }
       } else {
-        let attempts = 0;
-        do {
-          code = createShortCode();
-          const existing = await prisma.shortLink.findUnique({ where: { code } });
-          if (!existing) break;
-          attempts++;
-        } while (attempts < 10);
-        if (attempts >= 10) {
+        const allocated = await allocateShortCode(domainId);
+        if (!allocated) {
           results.push({ row: rowNumber, ok: false, error: "Failed to allocate unique code" });
           continue;
         }
+        code = allocated;
       }
 
       // Build final URL with UTM params
@@ -308,6 +335,7 @@ export async function POST(request: NextRequest) {
         const created = await prisma.shortLink.create({
           data: {
             code,
+            domainId,
             originalUrl: finalUrl,
             title: r.title || null,
             redirectType: (r.redirect_type as "PERMANENT" | "TEMPORARY" | null) ?? "TEMPORARY",
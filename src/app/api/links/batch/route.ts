@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { createShortCode } from "@/lib/utils/shortcode";
 import { bumpLinksCache } from "@/lib/cache-scopes";
 import { resolveWorkspaceScope } from "@/lib/workspace";
 import {
   getWorkspaceUtmGovernance,
   validateUtmAgainstGovernance,
 } from "@/lib/utm-governance";
+import { allocateShortCode, resolveLinkDomain } from "@/lib/domains";
+import { buildShortUrl } from "@/lib/utils/short-url";
 import { z } from "zod";
 
 const batchCreateSchema = z.object({
@@ -18,6 +19,8 @@ const batchCreateSchema = z.object({
   // Array of content values (e.g., KOL names)
   contents: z.array(z.string().min(1)).min(1).max(100),
   redirectType: z.enum(["PERMANENT", "TEMPORARY"]).default("TEMPORARY"),
+  // Custom short domain shared by every link in the batch.
+  domainId: z.string().optional().nullable(),
 });
 
 export async function POST(request: NextRequest) {
@@ -47,22 +50,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const domain = await resolveLinkDomain(validated.domainId, scope.workspaceId);
+    if (!domain.ok) {
+      return NextResponse.json(
+        { error: "Domain not found in this workspace." },
+        { status: 400 },
+      );
+    }
+    const domainId = domain.domainId;
+    const domainHostname = domainId
+      ? (await prisma.domain.findUnique({ where: { id: domainId }, select: { hostname: true } }))?.hostname ?? null
+      : null;
+
     const createdLinks = [];
     const errors = [];
 
     for (const content of validated.contents) {
       try {
         // Generate unique code
-        let code: string;
-        let attempts = 0;
-        do {
-          code = createShortCode();
-          const existing = await prisma.shortLink.findUnique({ where: { code } });
-          if (!existing) break;
-          attempts++;
-        } while (attempts < 10);
+        const code = await allocateShortCode(domainId);
 
-        if (attempts >= 10) {
+        if (!code) {
           errors.push({ content, error: "Failed to generate unique code" });
           continue;
         }
@@ -77,6 +85,7 @@ export async function POST(request: NextRequest) {
         const shortLink = await prisma.shortLink.create({
           data: {
             code,
+            domainId,
             originalUrl: url.toString(),
             title: content,
             redirectType: validated.redirectType,
@@ -90,7 +99,7 @@ export async function POST(request: NextRequest) {
 
         createdLinks.push({
           ...shortLink,
-          shortUrl: `${process.env.NEXT_PUBLIC_SHORT_URL}/${shortLink.code}`,
+          shortUrl: buildShortUrl(shortLink.code, domainHostname),
         });
 
         // Create audit log
@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { prisma } from "@/lib/prisma";
 import { isValidCustomCode, isReservedCode } from "@/lib/utils/shortcode";
+import { resolveWorkspaceScope } from "@/lib/workspace";
+import { isCodeTaken, resolveLinkDomain } from "@/lib/domains";
 
-// GET /api/links/check-code?code=my-slug
+// GET /api/links/check-code?code=my-slug[&domainId=...]
+// Codes are unique per short domain, so the check runs against the same
+// domain the form will submit to (workspace default when omitted).
 export async function GET(request: NextRequest) {
   try {
     const session = await auth();
@@ -13,6 +16,8 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const code = searchParams.get("code") || "";
+    // Absent = the workspace default domain, like link creation.
+    const requestedDomainId = searchParams.get("domainId") || undefined;
 
     if (!code) {
       return NextResponse.json({ available: null, reason: "empty" });
@@ -34,11 +39,18 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    const existing = await prisma.shortLink.findUnique({ where: { code } });
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const domain = await resolveLinkDomain(requestedDomainId, scope.workspaceId);
+    if (!domain.ok) {
+      return NextResponse.json({ error: "Domain not found" }, { status: 400 });
+    }
+
+    const taken = await isCodeTaken(code, domain.domainId);
 
     return NextResponse.json({
-      available: !existing,
-      reason: existing ? "taken" : "ok",
+      available: !taken,
+      reason: taken ? "taken" : "ok",
     });
   } catch (error) {
     console.error("Code check failed:", error);
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { after } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { createShortCode, isValidCustomCode, isReservedCode } from "@/lib/utils/shortcode";
+import { isValidCustomCode, isReservedCode } from "@/lib/utils/shortcode";
 import { resolveWorkspaceScope } from "@/lib/workspace";
 import { cacheGetVersion, cacheKey, cached } from "@/lib/cache";
 import { bumpLinksCache, linksCacheNamespace } from "@/lib/cache-scopes";
@@ -12,6 +12,15 @@ import {
 } from "@/lib/utm-governance";
 import { fetchOpenGraph } from "@/lib/og-scraper";
 import { upsertCampaignForUtm } from "@/lib/campaign-autolink";
+import { allocateShortCode, isCodeTaken, resolveLinkDomain } from "@/lib/domains";
+import { DEFAULT_SHORT_HOST_ID } from "@/lib/utils/short-url";
+import { LINK_PASSWORD_MAX, LINK_PASSWORD_MIN, withHasPassword } from "@/lib/link-password";
+import { FALLBACK_STATES } from "@/lib/fallbacks";
+import { HUMAN_CLICK_FILTER } from "@/lib/bot-score";
+import { descendantGroupIds } from "@/lib/link-groups";
+import { linkTagsBelongTo } from "@/lib/tags";
+import { parseTagFilter, tagFilterKey, tagFilterWhere } from "@/lib/tag-filter";
+import bcrypt from "bcryptjs";
 import { z } from "zod";
 
 /**
@@ -39,10 +48,26 @@ async function populateOgMetadata(linkId: string, url: string, workspaceId: stri
   }
 }
 
+const geoRouteSchema = z.object({
+  id: z.string().min(1).max(40),
+  countries: z
+    .array(z.string().regex(/^[A-Z]{2}$/, "Use ISO 3166-1 alpha-2 codes (e.g. TW, US)"))
+    .min(1)
+    .max(50),
+  url: z.string().url("Invalid URL"),
+  label: z.string().max(60).optional(),
+});
+
+// Per-state fallback destinations, e.g. { expired: "https://…" }.
+const fallbackUrlsSchema = z.partialRecord(z.enum(FALLBACK_STATES), z.string().url("Invalid URL"));
+
 // Validation schema
 const createLinkSchema = z.object({
   originalUrl: z.string().url("Invalid URL"),
   customCode: z.string().optional(),
+  // Custom short domain. Omitted → workspace default domain, else the
+  // default short host.
+  domainId: z.string().optional().nullable(),
   title: z.string().optional(),
   redirectType: z.enum(["PERMANENT", "TEMPORARY"]).default("TEMPORARY"),
   startsAt: z.string().datetime().optional().nullable(),
@@ -52,6 +77,10 @@ const createLinkSchema = z.object({
     .array(z.string().regex(/^[A-Z]{2}$/, "Use ISO 3166-1 alpha-2 codes (e.g. TW, US)"))
     .max(50)
     .optional(),
+  geoRoutes: z.array(geoRouteSchema).max(20).optional(),
+  fallbackUrls: fallbackUrlsSchema.optional(),
+  // Plaintext on the way in; stored as a bcrypt hash, never returned.
+  password: z.string().min(LINK_PASSWORD_MIN).max(LINK_PASSWORD_MAX).optional(),
   campaignId: z.string().optional(),
   utmSource: z.string().optional(),
   utmMedium: z.string().optional(),
@@ -76,7 +105,12 @@ export async function GET(request: NextRequest) {
     const search = searchParams.get("search") || "";
     const status = searchParams.get("status");
     const campaign = searchParams.get("campaign");
-    const tagId = searchParams.get("tagId");
+    // ?tagIds=a,b&tagMatch=any|all (legacy ?tagId= still accepted)
+    const tagFilter = parseTagFilter(searchParams);
+    // Folder, including its subfolders; "__none__" = links in no folder
+    const groupId = searchParams.get("groupId");
+    // DEFAULT_SHORT_HOST_ID = links on the default short host (domainId null)
+    const domainId = searchParams.get("domainId");
     const sortBy = searchParams.get("sortBy") || "createdAt";
     const sortOrder = searchParams.get("sortOrder") || "desc";
     // Pre-launch test click filter — same semantics as /api/analytics/raw.
@@ -113,9 +147,25 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Filter by tag
-    if (tagId) {
-      where.tags = { some: { tagId } };
+    // Filter by tags
+    Object.assign(where, tagFilterWhere(tagFilter));
+
+    // Filter by folder
+    if (groupId) {
+      if (groupId === "__none__") {
+        where.groupId = null;
+      } else {
+        const groups = await prisma.linkGroup.findMany({
+          where: scope.where,
+          select: { id: true, name: true, parentId: true },
+        });
+        where.groupId = { in: descendantGroupIds(groups, groupId) };
+      }
+    }
+
+    // Filter by short domain
+    if (domainId) {
+      where.domainId = domainId === DEFAULT_SHORT_HOST_ID ? null : domainId;
     }
 
     // Redis cache wraps the whole query + trend groupBys. Key includes
@@ -134,7 +184,9 @@ export async function GET(request: NextRequest) {
       search,
       status ?? "_",
       campaign ?? "_",
-      tagId ?? "_",
+      tagFilterKey(tagFilter),
+      groupId ?? "_",
+      domainId ?? "_",
       sortBy,
       sortOrder,
       includeInternal ? "with-internal" : "real-only",
@@ -147,12 +199,16 @@ export async function GET(request: NextRequest) {
       fourteenDaysAgo.setDate(fourteenDaysAgo.getDate() - 14);
 
       // The relation-count filter and the trend-window filter share
-      // this rule. When includeInternal is true, we just don't filter.
-      const internalFilter = includeInternal ? {} : { isInternal: false };
+      // this rule. includeInternal only lifts the test-click filter —
+      // likely bots stay out either way.
+      const internalFilter = includeInternal
+        ? HUMAN_CLICK_FILTER
+        : { isInternal: false, ...HUMAN_CLICK_FILTER };
 
       const [links, total] = await Promise.all([
         prisma.shortLink.findMany({
           where,
+          omit: { password: false },
           include: {
             // _count.clicks respects the includeInternal flag so KPI
             // numbers on /campaigns/[name] match what /analytics shows
@@ -165,6 +221,7 @@ export async function GET(request: NextRequest) {
               },
             },
             tags: { include: { tag: true } },
+            domain: { select: { id: true, hostname: true } },
           },
           // When real-only: order by the denormalized clickCount (which
           // is real-only too — redirect handler skips its increment for
@@ -210,11 +267,11 @@ export async function GET(request: NextRequest) {
       const clicks7dMap = new Map((clicks7d as { shortLinkId: string; _count: { _all: number } }[]).map((r) => [r.shortLinkId, r._count._all]));
       const clicksPrev7dMap = new Map((clicksPrev7d as { shortLinkId: string; _count: { _all: number } }[]).map((r) => [r.shortLinkId, r._count._all]));
 
-      const enrichedLinks = links.map((link: { id: string }) => {
+      const enrichedLinks = links.map((link) => {
         const c7 = clicks7dMap.get(link.id) ?? 0;
         const cp = clicksPrev7dMap.get(link.id) ?? 0;
         const trendPct = cp > 0 ? Math.round(((c7 - cp) / cp) * 100) : null;
-        return { ...link, clicksLast7d: c7, trendPct };
+        return { ...withHasPassword(link), clicksLast7d: c7, trendPct };
       });
 
       return {
@@ -255,6 +312,16 @@ export async function POST(request: NextRequest) {
     const scope = await resolveWorkspaceScope(request, session);
     if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
 
+    // Resolve which host the code lives on — uniqueness is per domain.
+    const domain = await resolveLinkDomain(validated.domainId, scope.workspaceId);
+    if (!domain.ok) {
+      return NextResponse.json(
+        { error: "Domain not found in this workspace." },
+        { status: 400 }
+      );
+    }
+    const domainId = domain.domainId;
+
     // Generate or validate code
     let code = validated.customCode;
 
@@ -274,9 +341,8 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Check if code exists
-      const existing = await prisma.shortLink.findUnique({ where: { code } });
-      if (existing) {
+      // Check if code exists on this domain
+      if (await isCodeTaken(code, domainId)) {
         return NextResponse.json(
           { error: "This code is already in use." },
           { status: 400 }
@@ -284,15 +350,9 @@ export async function POST(request: NextRequest) {
       }
     } else {
       // Generate unique code
-      let attempts = 0;
-      do {
-        code = createShortCode();
-        const existing = await prisma.shortLink.findUnique({ where: { code } });
-        if (!existing) break;
-        attempts++;
-      } while (attempts < 10);
-
-      if (attempts >= 10) {
+      code = (await allocateShortCode(domainId)) ?? undefined;
+
+      if (!code) {
         return NextResponse.json(
           { error: "Failed to generate unique code. Please try again." },
           { status: 500 }
@@ -335,6 +395,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (validated.groupId) {
+      const group = await prisma.linkGroup.findFirst({
+        where: { id: validated.groupId, ...scope.where },
+        select: { id: true },
+      });
+      if (!group) {
+        return NextResponse.json({ error: "Group not found" }, { status: 404 });
+      }
+    }
+
+    if (validated.tags && !(await linkTagsBelongTo(validated.tags, scope.workspaceId))) {
+      return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+    }
+
     // Auto-link: if the caller provided utmCampaign but no campaignId,
     // upsert a Campaign row for that name and attach it. Keeps the
     // Campaigns list in sync with utm values the marketer actually uses
@@ -365,6 +439,7 @@ export async function POST(request: NextRequest) {
     const shortLink = await prisma.shortLink.create({
       data: {
         code: code!,
+        domainId,
         originalUrl: finalUrl,
         title: validated.title,
         redirectType: validated.redirectType,
@@ -372,6 +447,9 @@ export async function POST(request: NextRequest) {
         expiresAt: validated.expiresAt ? new Date(validated.expiresAt) : null,
         maxClicks: validated.maxClicks,
         allowedCountries: validated.allowedCountries ?? [],
+        geoRoutes: validated.geoRoutes ?? [],
+        fallbackUrls: validated.fallbackUrls ?? {},
+        password: validated.password ? await bcrypt.hash(validated.password, 10) : null,
         utmSource,
         utmMedium,
         utmCampaign,
@@ -391,6 +469,7 @@ export async function POST(request: NextRequest) {
       },
       include: {
         tags: { include: { tag: true } },
+        domain: { select: { id: true, hostname: true } },
       },
     });
 
@@ -411,7 +490,10 @@ export async function POST(request: NextRequest) {
     // so thumbnails aren't keyed by tracking variants.
     after(() => populateOgMetadata(shortLink.id, validated.originalUrl, workspaceId, session.user.id));
 
-    return NextResponse.json(shortLink, { status: 201 });
+    return NextResponse.json(
+      { ...shortLink, hasPassword: Boolean(validated.password) },
+      { status: 201 },
+    );
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 });
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { canUserActOnResource, resolveWorkspaceScope } from "@/lib/workspace";
+import { bumpLinksCache } from "@/lib/cache-scopes";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  PURGEABLE_LINK_SELECT,
+  findRestoreConflict,
+  purgeDueAt,
+  purgeExpiredTrash,
+  purgeLinks,
+  type RestoreConflict,
+} from "@/lib/link-trash";
+import { z } from "zod";
+
+const trashActionSchema = z.object({
+  ids: z.array(z.string()).min(1).max(100),
+  action: z.enum(["restore", "purge"]),
+});
+
+// GET - Trashed links in scope, oldest purge first. Anything already
+// past retention is purged before listing.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+    await purgeExpiredTrash(scope.where);
+
+    const retentionDays = scope.workspaceId
+      ? ((
+          await prisma.workspace.findUnique({
+            where: { id: scope.workspaceId },
+            select: { trashRetentionDays: true },
+          })
+        )?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS)
+      : DEFAULT_TRASH_RETENTION_DAYS;
+
+    const links = await prisma.shortLink.findMany({
+      where: { deletedAt: { not: null }, ...scope.where },
+      select: {
+        id: true,
+        code: true,
+        title: true,
+        originalUrl: true,
+        status: true,
+        deletedAt: true,
+        deletedById: true,
+        domain: { select: { id: true, hostname: true } },
+        _count: { select: { clicks: true } },
+      },
+      orderBy: { deletedAt: "asc" },
+    });
+
+    const deleterIds = [...new Set(links.map((l) => l.deletedById).filter((id): id is string => !!id))];
+    const deleters = deleterIds.length
+      ? await prisma.user.findMany({
+          where: { id: { in: deleterIds } },
+          select: { id: true, name: true, email: true },
+        })
+      : [];
+    const deletersById = new Map(deleters.map((u) => [u.id, u]));
+
+    return NextResponse.json({
+      retentionDays,
+      links: links.map(({ deletedById, ...link }) => ({
+        ...link,
+        deletedBy: deletedById ? (deletersById.get(deletedById) ?? null) : null,
+        purgeAt: link.deletedAt ? purgeDueAt(link.deletedAt, retentionDays) : null,
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to fetch trash:", error);
+    return NextResponse.json({ error: "Failed to fetch trash" }, { status: 500 });
+  }
+}
+
+// POST - Bulk restore / purge. Restore skips links whose code can no
+// longer be used and reports them; those can be restored one by one
+// under a new code via POST /api/links/[id]/restore.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { ids, action } = trashActionSchema.parse(await request.json());
+
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+    const links = await prisma.shortLink.findMany({
+      where: { id: { in: ids }, deletedAt: { not: null }, ...scope.where },
+      select: { ...PURGEABLE_LINK_SELECT, domainId: true },
+    });
+    if (links.length !== ids.length) {
+      return NextResponse.json({ error: "Link not found" }, { status: 404 });
+    }
+    for (const link of links) {
+      if (!(await canUserActOnResource(session.user.id, link))) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+      }
+    }
+
+    if (action === "purge") {
+      const purged = await purgeLinks(links, session.user.id);
+      return NextResponse.json({ success: true, affected: purged });
+    }
+
+    const conflicts: { id: string; code: string; reason: RestoreConflict }[] = [];
+    const restorable: typeof links = [];
+    for (const link of links) {
+      const reason = await findRestoreConflict(link);
+      if (reason) conflicts.push({ id: link.id, code: link.code, reason });
+      else restorable.push(link);
+    }
+
+    if (restorable.length > 0) {
+      const restorableIds = restorable.map((l) => l.id);
+      await prisma.$transaction([
+        prisma.shortLink.updateMany({
+          where: { id: { in: restorableIds }, deletedAt: { not: null } },
+          data: { deletedAt: null, deletedById: null },
+        }),
+        prisma.auditLog.createMany({
+          data: restorable.map((link) => ({
+            userId: session.user.id,
+            action: "RESTORE_LINK" as const,
+            targetId: link.id,
+            metadata: { code: link.code, batchAction: "restore" },
+          })),
+        }),
+      ]);
+
+      await bumpLinksCache(scope.workspaceId, session.user.id);
+    }
+
+    return NextResponse.json({ success: true, affected: restorable.length, conflicts });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    console.error("Trash action failed:", error);
+    return NextResponse.json({ error: "Trash action failed" }, { status: 500 });
+  }
+}
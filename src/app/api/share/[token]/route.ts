@@ -4,15 +4,24 @@ import { checkRateLimit } from "@/lib/rate-limit";
 import bcrypt from "bcryptjs";
 import { headers } from "next/headers";
 import type { Prisma } from "@prisma/client";
+import { HUMAN_CLICK_FILTER } from "@/lib/bot-score";
+import {
+  comparisonRange,
+  isCompareMode,
+  isRangePreset,
+  percentChange,
+  type DateRange,
+} from "@/lib/date-ranges";
+import { reportingTimeZone, resolveRequestedRange } from "@/lib/analytics/resolve-range";
+import { zonedDayKey } from "@/lib/timezone";
 
 /** Resolve the Click.where filter from the ShareToken's scope fields. */
 function buildClickFilter(token: {
   shortLinkId: string | null;
   campaignName: string | null;
-  rangeWindow: string | null;
   workspaceId: string | null;
 }): Prisma.ClickWhereInput {
-  const where: Prisma.ClickWhereInput = {};
+  const where: Prisma.ClickWhereInput = { ...HUMAN_CLICK_FILTER };
 
   if (token.shortLinkId) {
     where.shortLinkId = token.shortLinkId;
@@ -27,14 +36,49 @@ function buildClickFilter(token: {
     }
   }
 
-  if (token.rangeWindow) {
-    const days = parseInt(token.rangeWindow.replace("d", ""), 10) || 30;
-    where.timestamp = { gte: new Date(Date.now() - days * 24 * 60 * 60 * 1000) };
-  }
-
   return where;
 }
 
+/**
+ * The token's date range as of now — a pinned custom range, or its
+ * preset resolved today. Null = no range (all time), also when a
+ * campaign-lifetime preset's campaign no longer resolves.
+ */
+async function resolveShareRange(
+  token: {
+    rangeWindow: string | null;
+    rangeFrom: Date | null;
+    rangeTo: Date | null;
+    campaignName: string | null;
+    workspaceId: string | null;
+  },
+  timeZone: string,
+): Promise<DateRange | null> {
+  if (token.rangeFrom) return { start: token.rangeFrom, end: token.rangeTo ?? new Date() };
+  if (!isRangePreset(token.rangeWindow)) return null;
+  return resolveRequestedRange(
+    { preset: token.rangeWindow, timeZone },
+    token.workspaceId,
+    token.campaignName,
+  );
+}
+
+function inRange(where: Prisma.ClickWhereInput, range: DateRange): Prisma.ClickWhereInput {
+  return { ...where, timestamp: { gte: range.start, lte: range.end } };
+}
+
+/** Per-timestamp counts → one { date, clicks } row per day in `timeZone`. */
+function toClicksByDay(rows: { timestamp: Date; _count: number }[], timeZone: string) {
+  const clicksByDayMap = new Map<string, number>();
+  rows.forEach((c) => {
+    const dateStr = zonedDayKey(c.timestamp.getTime(), timeZone);
+    clicksByDayMap.set(dateStr, (clicksByDayMap.get(dateStr) || 0) + c._count);
+  });
+  return Array.from(clicksByDayMap.entries())
+    .map(([date, count]) => ({ date, clicks: count }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ token: string }> },
@@ -93,43 +137,60 @@ export async function POST(
       data: { viewCount: { increment: 1 } },
     });
 
-    const clickWhere = buildClickFilter(shareToken);
-
-    const [clicksByDayRaw, deviceStats, browserStats, countryStats, totalClicks] =
-      await Promise.all([
-        prisma.click.groupBy({
-          by: ["timestamp"],
-          where: clickWhere,
-          _count: true,
-        }),
-        prisma.click.groupBy({
-          by: ["device"],
-          where: clickWhere,
-          _count: true,
-        }),
-        prisma.click.groupBy({
-          by: ["browser"],
-          where: clickWhere,
-          _count: true,
-        }),
-        prisma.click.groupBy({
-          by: ["country"],
-          where: { ...clickWhere, country: { not: null } },
-          _count: true,
-          orderBy: { _count: { country: "desc" } },
-          take: 10,
-        }),
-        prisma.click.count({ where: clickWhere }),
-      ]);
-
-    const clicksByDayMap = new Map<string, number>();
-    clicksByDayRaw.forEach((c: { timestamp: Date; _count: number }) => {
-      const dateStr = c.timestamp.toISOString().split("T")[0];
-      clicksByDayMap.set(dateStr, (clicksByDayMap.get(dateStr) || 0) + c._count);
-    });
-    const clicksByDay = Array.from(clicksByDayMap.entries())
-      .map(([date, count]) => ({ date, clicks: count }))
-      .sort((a, b) => a.date.localeCompare(b.date));
+    // Shared reports read in the workspace's zone — there's no viewer
+    // account to take an override from.
+    const timeZone = await reportingTimeZone(
+      null,
+      shareToken.workspaceId ?? shareToken.shortLink?.workspaceId ?? null,
+    );
+    const scopeWhere = buildClickFilter(shareToken);
+    const range = await resolveShareRange(shareToken, timeZone);
+    const clickWhere = range ? inRange(scopeWhere, range) : scopeWhere;
+    const comparison =
+      range && isCompareMode(shareToken.compareMode)
+        ? { mode: shareToken.compareMode, ...comparisonRange(range, shareToken.compareMode) }
+        : null;
+    const comparisonWhere = comparison ? inRange(scopeWhere, comparison) : null;
+
+    const [
+      clicksByDayRaw,
+      deviceStats,
+      browserStats,
+      countryStats,
+      totalClicks,
+      comparisonByDayRaw,
+      comparisonTotal,
+    ] = await Promise.all([
+      prisma.click.groupBy({
+        by: ["timestamp"],
+        where: clickWhere,
+        _count: true,
+      }),
+      prisma.click.groupBy({
+        by: ["device"],
+        where: clickWhere,
+        _count: true,
+      }),
+      prisma.click.groupBy({
+        by: ["browser"],
+        where: clickWhere,
+        _count: true,
+      }),
+      prisma.click.groupBy({
+        by: ["country"],
+        where: { ...clickWhere, country: { not: null } },
+        _count: true,
+        orderBy: { _count: { country: "desc" } },
+        take: 10,
+      }),
+      prisma.click.count({ where: clickWhere }),
+      comparisonWhere
+        ? prisma.click.groupBy({ by: ["timestamp"], where: comparisonWhere, _count: true })
+        : [],
+      comparisonWhere ? prisma.click.count({ where: comparisonWhere }) : 0,
+    ]);
+
+    const clicksByDay = toClicksByDay(clicksByDayRaw, timeZone);
 
     // Build a scope descriptor so the client can render the right
     // title ("This link" vs "Campaign X" vs "Last 30 days").
@@ -144,6 +205,9 @@ export async function POST(
       shortLinkCreatedAt: shareToken.shortLink?.createdAt ?? null,
       campaignName: shareToken.campaignName,
       rangeWindow: shareToken.rangeWindow,
+      rangeStart: range?.start.toISOString() ?? null,
+      rangeEnd: range?.end.toISOString() ?? null,
+      timeZone,
     } as const;
 
     return NextResponse.json({
@@ -171,6 +235,16 @@ export async function POST(
           name: c.country || "Unknown",
           value: c._count,
         })),
+        comparison: comparison
+          ? {
+              mode: comparison.mode,
+              start: comparison.start.toISOString(),
+              end: comparison.end.toISOString(),
+              totalClicks: comparisonTotal,
+              clicksChange: percentChange(totalClicks, comparisonTotal),
+              clicksByDay: toClicksByDay(comparisonByDayRaw, timeZone),
+            }
+          : null,
       },
     });
   } catch (error) {
@@ -5,25 +5,42 @@ import { resolveWorkspaceScope, canUserActOnResource } from "@/lib/workspace";
 import { z } from "zod";
 import { randomBytes } from "crypto";
 import bcrypt from "bcryptjs";
+import { COMPARE_MODES, RANGE_PRESETS } from "@/lib/date-ranges";
 
 /**
  * Scope rules:
  *   - shortLinkId only  → single-link share (original behaviour)
  *   - campaignName only → whole-campaign share (scoped to workspace)
- *   - rangeWindow only  → workspace-wide rolling window dashboard
- *   - Any combination is allowed, but at least one of the three must be set.
+ *   - rangeWindow / rangeFrom only → workspace-wide date-range dashboard
+ *   - Any combination is allowed, but at least one must be set.
+ *
+ * rangeWindow is a date-ranges preset resolved at view time ("campaign"
+ * = the campaign's lifetime); rangeFrom / rangeTo pin a custom range.
+ * compare adds the previous period / same period last year.
  */
 const createShareSchema = z
   .object({
     shortLinkId: z.string().optional(),
     campaignName: z.string().min(1).optional(),
-    rangeWindow: z.enum(["7d", "14d", "30d", "90d"]).optional(),
+    rangeWindow: z.enum(RANGE_PRESETS).exclude(["custom"]).optional(),
+    rangeFrom: z.string().datetime().optional(),
+    rangeTo: z.string().datetime().optional(),
+    compare: z.enum(COMPARE_MODES).optional(),
     password: z.string().optional(),
     expiresAt: z.string().datetime().optional(),
     maxViews: z.number().int().positive().optional(),
   })
-  .refine((d) => d.shortLinkId || d.campaignName || d.rangeWindow, {
-    message: "At least one of shortLinkId / campaignName / rangeWindow is required.",
+  .refine((d) => d.shortLinkId || d.campaignName || d.rangeWindow || d.rangeFrom, {
+    message: "At least one of shortLinkId / campaignName / rangeWindow / rangeFrom is required.",
+  })
+  .refine((d) => !(d.rangeWindow && d.rangeFrom), {
+    message: "Pass either rangeWindow or rangeFrom / rangeTo, not both.",
+  })
+  .refine((d) => !d.rangeTo || (d.rangeFrom && new Date(d.rangeFrom) <= new Date(d.rangeTo)), {
+    message: "rangeTo needs a rangeFrom on or before it.",
+  })
+  .refine((d) => d.rangeWindow !== "campaign" || d.campaignName, {
+    message: "The campaign-lifetime range needs a campaignName.",
   });
 
 export async function POST(request: NextRequest) {
@@ -62,7 +79,7 @@ export async function POST(request: NextRequest) {
 
     // Campaign / range shares must be anchored to a verified workspace —
     // resolveWorkspaceScope() above already checked membership.
-    if ((validated.campaignName || validated.rangeWindow) && !workspaceId) {
+    if ((validated.campaignName || validated.rangeWindow || validated.rangeFrom) && !workspaceId) {
       return NextResponse.json(
         { error: "Campaign / date-range share requires an active workspace." },
         { status: 400 },
@@ -80,6 +97,9 @@ export async function POST(request: NextRequest) {
         shortLinkId: validated.shortLinkId ?? null,
         campaignName: validated.campaignName ?? null,
         rangeWindow: validated.rangeWindow ?? null,
+        rangeFrom: validated.rangeFrom ? new Date(validated.rangeFrom) : null,
+        rangeTo: validated.rangeTo ? new Date(validated.rangeTo) : null,
+        compareMode: validated.compare ?? null,
         workspaceId,
         password: hashedPassword,
         expiresAt: validated.expiresAt ? new Date(validated.expiresAt) : null,
@@ -99,6 +119,9 @@ export async function POST(request: NextRequest) {
             shortLinkId: shareToken.shortLinkId,
             campaignName: shareToken.campaignName,
             rangeWindow: shareToken.rangeWindow,
+            rangeFrom: shareToken.rangeFrom,
+            rangeTo: shareToken.rangeTo,
+            compareMode: shareToken.compareMode,
           },
         },
       },
@@ -0,0 +1,7 @@
+import { deleteTagHandler, patchTagHandler } from "@/lib/tag-route-handlers";
+
+// PATCH - Rename / recolor a link tag (workspace OWNER / ADMIN)
+export const PATCH = patchTagHandler("link");
+
+// DELETE - Delete a link tag; links carrying it are untagged
+export const DELETE = deleteTagHandler("link");
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { resolveWorkspaceScope } from "@/lib/workspace";
+import { findOrCreateTag, findTagByName } from "@/lib/tags";
 import { z } from "zod";
 
 const createTagSchema = z.object({
@@ -9,7 +10,7 @@ const createTagSchema = z.object({
   color: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional(),
 });
 
-// GET - List all tags
+// GET - List the workspace's tags with usage counts
 export async function GET(request: NextRequest) {
   try {
     const session = await auth();
@@ -19,13 +20,9 @@ export async function GET(request: NextRequest) {
 
     const scope = await resolveWorkspaceScope(request, session);
     if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    const where: Record<string, unknown> = {};
-    if (scope.workspaceId) {
-      where.workspaceId = scope.workspaceId;
-    }
 
     const tags = await prisma.tag.findMany({
-      where,
+      where: { workspaceId: scope.workspaceId },
       include: {
         _count: { select: { links: true } },
       },
@@ -47,7 +44,8 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST - Create a new tag
+// POST - Create a tag; returns the existing one when the workspace
+// already has a tag with that name
 export async function POST(request: NextRequest) {
   try {
     const session = await auth();
@@ -58,24 +56,15 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validated = createTagSchema.parse(body);
 
-    // Check if tag already exists
-    const existing = await prisma.tag.findUnique({
-      where: { name: validated.name },
-    });
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
 
+    const existing = await findTagByName("link", scope.workspaceId, validated.name);
     if (existing) {
       return NextResponse.json(existing);
     }
 
-    const scope = await resolveWorkspaceScope(request, session);
-    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    const tag = await prisma.tag.create({
-      data: {
-        name: validated.name,
-        color: validated.color,
-        workspaceId: scope.workspaceId || undefined,
-      },
-    });
+    const tag = await findOrCreateTag("link", scope.workspaceId, validated.name, validated.color);
 
     return NextResponse.json(tag, { status: 201 });
   } catch (error) {
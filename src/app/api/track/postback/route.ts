@@ -0,0 +1,216 @@
+/**
+ * POST /api/track/postback — signed server-to-server conversion endpoint.
+ *
+ * For backends (order systems, payment webhooks) rather than browsers:
+ * no CORS, and every call is HMAC-signed with one of the workspace's
+ * postback secrets (header scheme and replay protection in
+ * src/lib/postbacks.ts). Sessions from other workspaces are treated as
+ * unknown.
+ *
+ * Body: { events: [{ sessionId, eventName?, value?, currency?,
+ * externalId?, metadata? }, …] } — up to POSTBACK_MAX_EVENTS. Events are
+ * recorded independently (same rules and externalId idempotency as
+ * POST /api/track); the response lists a result per event in order.
+ *
+ * Every call naming a known key is logged as a PostbackDelivery for the
+ * settings screen, rejections included — after a per-IP rate limit, so
+ * the log can't be flooded. A correctly signed call's delivery row
+ * carries its signature, unique per key: the database refuses a replay
+ * even without Redis.
+ */
+
+import { NextRequest, NextResponse, after } from "next/server";
+import { Prisma, PostbackStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { allowPostback } from "@/lib/ratelimit";
+import { conversionEventSchema, recordConversion } from "@/lib/conversions";
+import {
+  POSTBACK_KEY_HEADER,
+  POSTBACK_LOG_DAYS,
+  POSTBACK_MAX_EVENTS,
+  POSTBACK_SIGNATURE_HEADER,
+  POSTBACK_TIMESTAMP_HEADER,
+  isFreshPostbackTimestamp,
+  isPostbackSecretActive,
+} from "@/lib/postbacks";
+import { verifyPostbackSignature } from "@/lib/postback-signing";
+import { z } from "zod";
+
+// 100 events with generous metadata fit comfortably.
+const MAX_BODY_BYTES = 512 * 1024;
+
+const batchSchema = z.object({
+  events: z.array(z.unknown()).min(1, "No events").max(POSTBACK_MAX_EVENTS),
+});
+
+type EventResult =
+  | { ok: true; conversionId: string; deduped?: true }
+  | { ok: false; error: string; details?: string[] };
+
+export async function POST(request: NextRequest) {
+  const keyId = request.headers.get(POSTBACK_KEY_HEADER);
+  const timestamp = request.headers.get(POSTBACK_TIMESTAMP_HEADER);
+  const signature = request.headers.get(POSTBACK_SIGNATURE_HEADER);
+  const ip =
+    request.headers.get("x-forwarded-for")?.split(",")[0] ||
+    request.headers.get("x-real-ip") ||
+    null;
+
+  if (!(await allowPostback(ip ?? "unknown"))) {
+    return NextResponse.json({ ok: false, error: "Rate limited" }, { status: 429 });
+  }
+
+  try {
+    if (!keyId || !timestamp || !signature) {
+      return NextResponse.json(
+        { ok: false, error: "Missing signature headers" },
+        { status: 401 },
+      );
+    }
+
+    const secret = await prisma.postbackSecret.findUnique({ where: { id: keyId } });
+    if (!secret) {
+      return NextResponse.json({ ok: false, error: "Unknown key" }, { status: 401 });
+    }
+
+    const reject = async (status: number, reason: string) => {
+      await logDelivery(secret, ip, { status: PostbackStatus.REJECTED, reason });
+      return NextResponse.json({ ok: false, error: reason }, { status });
+    };
+
+    if (!isPostbackSecretActive(secret)) {
+      return reject(401, "Key expired or revoked");
+    }
+    if (!isFreshPostbackTimestamp(timestamp)) {
+      return reject(401, "Timestamp outside tolerance");
+    }
+
+    // Turn oversized bodies away on the declared length before buffering
+    // them; the byte count after reading covers senders that lie or
+    // stream without a length.
+    const declaredLength = Number(request.headers.get("content-length"));
+    if (declaredLength > MAX_BODY_BYTES) {
+      return reject(413, "Payload too large");
+    }
+    const body = await request.text();
+    if (Buffer.byteLength(body) > MAX_BODY_BYTES) {
+      return reject(413, "Payload too large");
+    }
+    if (!verifyPostbackSignature(secret.secret, timestamp, body, signature)) {
+      return reject(401, "Invalid signature");
+    }
+    after(() =>
+      prisma.postbackSecret
+        .update({ where: { id: secret.id }, data: { lastUsedAt: new Date() } })
+        .catch((err) => console.error("[postback] lastUsedAt update failed:", err)),
+    );
+
+    // Claim the signature by logging the delivery now; the same signature
+    // again (inside the timestamp tolerance, or it wouldn't get here) is a
+    // replay. The row starts as a failure and is filled in at the end.
+    let deliveryId: string;
+    try {
+      deliveryId = await logDelivery(secret, ip, {
+        status: PostbackStatus.REJECTED,
+        reason: "Internal error",
+        signature: signature.replace(/^sha256=/, "").toLowerCase(),
+      });
+    } catch (err) {
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+        return reject(409, "Replayed request");
+      }
+      throw err;
+    }
+
+    let json: unknown = null;
+    try {
+      json = JSON.parse(body);
+    } catch {
+      // handled by the schema below
+    }
+    const batch = batchSchema.safeParse(json);
+    if (!batch.success) {
+      await prisma.postbackDelivery.update({
+        where: { id: deliveryId },
+        data: { reason: "Invalid payload" },
+      });
+      return NextResponse.json({ ok: false, error: "Invalid payload" }, { status: 400 });
+    }
+
+    // One at a time — two events for the same order (externalId) in one
+    // batch must see each other for the idempotency check.
+    const results: EventResult[] = [];
+    for (const raw of batch.data.events) {
+      const parsed = conversionEventSchema.safeParse(raw);
+      if (!parsed.success) {
+        results.push({
+          ok: false,
+          error: "Invalid event",
+          details: parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`),
+        });
+        continue;
+      }
+      // A failure on one event mustn't lose the rest: the signature is
+      // already spent, so the sender can't simply retry the batch.
+      try {
+        const result = await recordConversion(parsed.data, { workspaceId: secret.workspaceId });
+        results.push(result.ok ? result : { ok: false, error: result.error });
+      } catch (err) {
+        console.error("[postback] event failed:", err);
+        results.push({ ok: false, error: "Internal error" });
+      }
+    }
+
+    const accepted = results.filter((r) => r.ok).length;
+    const status =
+      accepted === results.length
+        ? PostbackStatus.ACCEPTED
+        : accepted === 0
+          ? PostbackStatus.REJECTED
+          : PostbackStatus.PARTIAL;
+    const firstError = results.find((r) => !r.ok);
+    await prisma.postbackDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status,
+        reason: firstError && !firstError.ok ? firstError.error : null,
+        events: results.length,
+        accepted,
+      },
+    });
+
+    return NextResponse.json({
+      ok: accepted > 0,
+      accepted,
+      rejected: results.length - accepted,
+      results,
+    });
+  } catch (err) {
+    console.error("[postback] failed:", err);
+    return NextResponse.json({ ok: false, error: "Internal error" }, { status: 500 });
+  }
+}
+
+async function logDelivery(
+  secret: { id: string; workspaceId: string },
+  ipAddress: string | null,
+  data: { status: PostbackStatus; reason: string | null; signature?: string },
+): Promise<string> {
+  const delivery = await prisma.postbackDelivery.create({
+    data: {
+      workspaceId: secret.workspaceId,
+      secretId: secret.id,
+      ipAddress,
+      ...data,
+    },
+    select: { id: true },
+  });
+
+  const cutoff = new Date(Date.now() - POSTBACK_LOG_DAYS * 24 * 60 * 60 * 1000);
+  after(() =>
+    prisma.postbackDelivery
+      .deleteMany({ where: { workspaceId: secret.workspaceId, createdAt: { lt: cutoff } } })
+      .catch((err) => console.error("[postback] log pruning failed:", err)),
+  );
+  return delivery.id;
+}
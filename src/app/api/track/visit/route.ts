@@ -0,0 +1,142 @@
+/**
+ * POST /api/track/visit — public endpoint the `/track.js` snippet calls
+ * to tie a click to a first-party visitor id (`Shortlink.identify()`, or
+ * automatically with `data-visitors` on the script tag).
+ *
+ * The id is hashed with the IP salt before it's stored on the click and
+ * added to the link's "visitor" sketch (src/lib/analytics/visitors.ts),
+ * which analytics estimates identified visitors from.
+ *
+ * Same abuse model as POST /api/track: open CORS, a valid recent
+ * sessionId required, 60/min per IP. A click keeps the first id it's
+ * given — repeats (page reloads, a later identify() call) are no-ops so
+ * one click can't land in the sketch twice.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { headers } from "next/headers";
+import { allowRedirect } from "@/lib/ratelimit";
+import { BOT_SCORE_THRESHOLD } from "@/lib/bot-score";
+import { hashVisitorId, visitorSketchOp } from "@/lib/analytics/visitors";
+import { workspaceAttribution } from "@/lib/analytics/attribution";
+import { attributionCutoff } from "@/lib/attribution";
+import { z } from "zod";
+
+const visitSchema = z.object({
+  sessionId: z.string().min(1, "sessionId required").max(64),
+  visitorId: z.string().min(1, "visitorId required").max(128),
+});
+
+function corsHeaders(origin: string | null): Record<string, string> {
+  return {
+    "Access-Control-Allow-Origin": origin ?? "*",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+    "Access-Control-Max-Age": "86400",
+    Vary: "Origin",
+  };
+}
+
+export async function OPTIONS(request: NextRequest) {
+  const origin = request.headers.get("origin");
+  return new NextResponse(null, { status: 204, headers: corsHeaders(origin) });
+}
+
+export async function POST(request: NextRequest) {
+  const origin = request.headers.get("origin");
+  const cors = corsHeaders(origin);
+
+  try {
+    const headersList = await headers();
+    const ip =
+      headersList.get("x-forwarded-for")?.split(",")[0] ||
+      headersList.get("x-real-ip") ||
+      "unknown";
+
+    if (!(await allowRedirect(ip))) {
+      return NextResponse.json(
+        { ok: false, error: "Rate limited" },
+        { status: 429, headers: cors },
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = visitSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "Invalid payload",
+          details: parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`),
+        },
+        { status: 400, headers: cors },
+      );
+    }
+    const data = parsed.data;
+
+    const click = await prisma.click.findUnique({
+      where: { sessionId: data.sessionId },
+      select: {
+        id: true,
+        shortLinkId: true,
+        timestamp: true,
+        isInternal: true,
+        botScore: true,
+        fallbackState: true,
+        visitorHash: true,
+        shortLink: { select: { workspaceId: true } },
+      },
+    });
+
+    if (!click) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown session" },
+        { status: 404, headers: cors },
+      );
+    }
+    // Same window as conversions — a visitor id on an expired click
+    // couldn't put it on any conversion's path.
+    const { windowDays } = await workspaceAttribution(click.shortLink.workspaceId);
+    if (click.timestamp < attributionCutoff(new Date(), windowDays)) {
+      return NextResponse.json(
+        { ok: false, error: "Session expired" },
+        { status: 410, headers: cors },
+      );
+    }
+    if (click.visitorHash) {
+      return NextResponse.json({ ok: true, deduped: true }, { headers: cors });
+    }
+
+    const visitorHash = hashVisitorId(data.visitorId);
+    // Conditional update so two concurrent reports can't both add the
+    // click to the sketch.
+    const claimed = await prisma.click.updateMany({
+      where: { id: click.id, visitorHash: null },
+      data: { visitorHash },
+    });
+    if (claimed.count === 0) {
+      return NextResponse.json({ ok: true, deduped: true }, { headers: cors });
+    }
+    // Fallback clicks stay out of the sketches, as on the redirect.
+    if (!click.fallbackState) {
+      await visitorSketchOp({
+        shortLinkId: click.shortLinkId,
+        workspaceId: click.shortLink.workspaceId,
+        timestamp: click.timestamp,
+        kind: "visitor",
+        key: visitorHash,
+        isInternal: click.isInternal,
+        isBot: click.botScore >= BOT_SCORE_THRESHOLD,
+      });
+    }
+
+    return NextResponse.json({ ok: true }, { headers: cors });
+  } catch (err) {
+    console.error("[track/visit] failed:", err);
+    return NextResponse.json(
+      { ok: false, error: "Internal error" },
+      { status: 500, headers: cors },
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { checkRateLimit } from "@/lib/rate-limit";
+import bcrypt from "bcryptjs";
+import { headers } from "next/headers";
+import { z } from "zod";
+import {
+  UNLOCK_TTL_SECONDS,
+  signUnlockToken,
+  unlockCookieName,
+} from "@/lib/link-password";
+
+const unlockSchema = z.object({
+  linkId: z.string().min(1),
+  password: z.string().min(1).max(200),
+});
+
+// POST /api/unlock - Check a password-protected link's password and set
+// the signed unlock cookie the redirect route looks for. Public endpoint
+// (the visitor is not logged in), so it is rate limited per IP.
+export async function POST(request: NextRequest) {
+  try {
+    const headersList = await headers();
+    const clientIp =
+      headersList.get("x-forwarded-for")?.split(",")[0] ||
+      headersList.get("x-real-ip") ||
+      "unknown";
+    const rateLimitResponse = checkRateLimit(clientIp, "link-unlock", {
+      limit: 5,
+      windowSeconds: 60,
+    });
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const body = await request.json().catch(() => ({}));
+    const { linkId, password } = unlockSchema.parse(body);
+
+    const shortLink = await prisma.shortLink.findFirst({
+      where: { id: linkId, deletedAt: null },
+      select: { id: true, workspaceId: true, password: true },
+    });
+
+    if (!shortLink) {
+      return NextResponse.json({ error: "Link not found" }, { status: 404 });
+    }
+    if (!shortLink.password) {
+      // Password was removed since the visitor landed here — nothing to unlock.
+      return NextResponse.json({ ok: true });
+    }
+
+    const isValid = await bcrypt.compare(password, shortLink.password);
+    if (!isValid) {
+      await prisma.linkUnlockFailure.create({
+        data: {
+          shortLinkId: shortLink.id,
+          workspaceId: shortLink.workspaceId,
+        },
+      });
+      return NextResponse.json({ error: "Invalid password" }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ ok: true });
+    response.cookies.set(
+      unlockCookieName(shortLink.id),
+      signUnlockToken(shortLink.id, shortLink.password),
+      {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        path: "/",
+        maxAge: UNLOCK_TTL_SECONDS,
+      },
+    );
+    return response;
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    console.error("Failed to unlock link:", error);
+    return NextResponse.json({ error: "Failed to unlock link" }, { status: 500 });
+  }
+}
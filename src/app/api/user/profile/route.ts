@@ -2,11 +2,45 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
+import { isValidTimeZone } from "@/lib/timezone";
+
+const PROFILE_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  image: true,
+  role: true,
+  timezone: true,
+} as const;
 
 const updateProfileSchema = z.object({
   name: z.string().min(1).max(100).optional(),
+  // Personal reporting time zone; null falls back to the workspace's.
+  timezone: z.string().refine(isValidTimeZone, "Unknown time zone").nullable().optional(),
 });
 
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: PROFILE_SELECT,
+    });
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(user);
+  } catch (error) {
+    console.error("Failed to fetch profile:", error);
+    return NextResponse.json({ error: "Failed to fetch profile" }, { status: 500 });
+  }
+}
+
 export async function PATCH(request: NextRequest) {
   try {
     const session = await auth();
@@ -20,7 +54,7 @@ export async function PATCH(request: NextRequest) {
     const updatedUser = await prisma.user.update({
       where: { id: session.user.id },
       data: validated,
-      select: { id: true, name: true, email: true, image: true, role: true },
+      select: PROFILE_SELECT,
     });
 
     return NextResponse.json(updatedUser);
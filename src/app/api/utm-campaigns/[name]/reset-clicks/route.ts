@@ -23,6 +23,8 @@
  *   - clickCount denormalized counter is rebuilt from a COUNT() of remaining
  *     real clicks per link rather than incremented/decremented, so any drift
  *     gets corrected as a side effect.
+ *   - Click rollups count internal clicks separately, so flipping the flag
+ *     means recounting the affected links' rollups (rebuildRollups).
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -30,6 +32,8 @@ import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { resolveWorkspaceScope } from "@/lib/workspace";
 import { bumpLinksCache } from "@/lib/cache-scopes";
+import { HUMAN_CLICK_FILTER } from "@/lib/bot-score";
+import { rebuildRollups } from "@/lib/analytics/rollups";
 import { randomBytes } from "crypto";
 import { z } from "zod";
 
@@ -148,6 +152,8 @@ export async function POST(
         }),
       ]);
 
+      if (updateResult.count > 0) await rebuildRollups(linkIds);
+
       // Bust list + analytics caches so the reset is immediately visible.
       // bumpLinksCache invalidates /api/links; the analytics endpoints
       // are TTL-cached (60s) so they self-heal — fine for this kind
@@ -223,6 +229,8 @@ export async function POST(
         where: {
           shortLinkId: { in: linkIds },
           isInternal: false,
+          // Mirrors the redirect: likely bots never bump clickCount.
+          ...HUMAN_CLICK_FILTER,
         },
         _count: { _all: true },
       });
@@ -235,6 +243,7 @@ export async function POST(
           }),
         ),
       );
+      await rebuildRollups(linkIds);
     }
 
     await bumpLinksCache(scope.workspaceId, session.user.id);
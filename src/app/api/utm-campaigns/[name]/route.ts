@@ -2,13 +2,28 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { resolveWorkspaceScope } from "@/lib/workspace";
+import { campaignNameWhere } from "@/lib/campaign-autolink";
+import { campaignConversionCredit, workspaceAttribution } from "@/lib/analytics/attribution";
+import { workspaceRevenueCurrency } from "@/lib/analytics/revenue";
+import { isCurrencyCode } from "@/lib/currency";
 import { z } from "zod";
 
+// Fields left out of the body are left as they are.
 const patchSchema = z.object({
-  goalClicks: z.number().int().min(1).nullable(),
+  goalClicks: z.number().int().min(1).nullable().optional(),
+  budget: z.number().finite().nonnegative().nullable().optional(),
+  budgetCurrency: z
+    .string()
+    .trim()
+    .transform((v) => v.toUpperCase())
+    .refine(isCurrencyCode, "Currency must be ISO 4217 (e.g. TWD, USD)")
+    .nullable()
+    .optional(),
 });
 
-// GET /api/utm-campaigns/[name] - get campaign stats + goal
+// GET /api/utm-campaigns/[name] - get campaign stats + goal, and all-time
+// conversions / revenue under the workspace's attribution model, in its
+// reporting currency
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ name: string }> }
@@ -27,19 +42,19 @@ export async function GET(
 
     // Find the Campaign DB record by name (matches utmCampaign)
     const campaign = await prisma.campaign.findFirst({
-      where: {
-        name: campaignName,
-        ...(workspaceId ? { workspaceId } : {}),
-      },
+      where: campaignNameWhere(campaignName, workspaceId, session.user.id),
       select: {
         id: true,
         name: true,
         displayName: true,
         description: true,
         goalClicks: true,
+        budget: true,
+        budgetCurrency: true,
         startDate: true,
         endDate: true,
         status: true,
+        createdAt: true,
       },
     });
 
@@ -67,11 +82,37 @@ export async function GET(
       0
     );
 
+    const [attribution, revenueCurrency] = await Promise.all([
+      workspaceAttribution(workspaceId),
+      workspaceRevenueCurrency(workspaceId),
+    ]);
+    const campaignLinkIds = linksWithCampaign.map((l) => l.id);
+    const credit = await campaignConversionCredit({
+      campaignLinkIds,
+      linkScope: ownerFilter,
+      attribution,
+      convert: revenueCurrency.convert,
+    });
+    let conversions = 0;
+    let revenue = 0;
+    for (const id of campaignLinkIds) {
+      conversions += credit.byLink.get(id)?.conversions ?? 0;
+      revenue += credit.byLink.get(id)?.revenue ?? 0;
+    }
+
     return NextResponse.json({
       campaignName,
-      campaignRecord: campaign,
+      campaignRecord: campaign && {
+        ...campaign,
+        budget: campaign.budget?.toNumber() ?? null,
+      },
       totalClicks,
       goalClicks: campaign?.goalClicks ?? null,
+      conversions,
+      revenue,
+      currency: revenueCurrency.currency,
+      attributionModel: attribution.model,
+      unconvertedCurrencies: credit.unconvertedCurrencies,
     });
   } catch (error) {
     console.error("Failed to fetch campaign detail:", error);
@@ -196,7 +237,7 @@ export async function DELETE(
   }
 }
 
-// PATCH /api/utm-campaigns/[name] - set/update goalClicks
+// PATCH /api/utm-campaigns/[name] - set/update goalClicks and the budget
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ name: string }> }
@@ -214,26 +255,28 @@ export async function PATCH(
     const workspaceId = scope.workspaceId;
 
     const body = await request.json();
-    const { goalClicks } = patchSchema.parse(body);
+    const { goalClicks, budget, budgetCurrency } = patchSchema.parse(body);
+    const data = {
+      ...(goalClicks !== undefined ? { goalClicks } : {}),
+      ...(budget !== undefined ? { budget } : {}),
+      ...(budgetCurrency !== undefined ? { budgetCurrency } : {}),
+    };
 
     // Find or create Campaign record
     let campaign = await prisma.campaign.findFirst({
-      where: {
-        name: campaignName,
-        ...(workspaceId ? { workspaceId } : {}),
-      },
+      where: campaignNameWhere(campaignName, workspaceId, session.user.id),
     });
 
     if (campaign) {
       campaign = await prisma.campaign.update({
         where: { id: campaign.id },
-        data: { goalClicks },
+        data,
       });
     } else {
       campaign = await prisma.campaign.create({
         data: {
           name: campaignName,
-          goalClicks,
+          ...data,
           status: "ACTIVE",
           createdById: session.user.id,
           workspaceId: workspaceId || undefined,
@@ -241,7 +284,12 @@ export async function PATCH(
       });
     }
 
-    return NextResponse.json({ success: true, goalClicks: campaign.goalClicks });
+    return NextResponse.json({
+      success: true,
+      goalClicks: campaign.goalClicks,
+      budget: campaign.budget?.toNumber() ?? null,
+      budgetCurrency: campaign.budgetCurrency,
+    });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 });
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import Papa from "papaparse";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { isWorkspaceAdmin, resolveWorkspaceScope } from "@/lib/workspace";
+import { upsertCampaignForUtm } from "@/lib/campaign-autolink";
+import { isCurrencyCode, isRateDate } from "@/lib/currency";
+import { workspaceRevenueCurrency } from "@/lib/analytics/revenue";
+import { saveSpendEntries, type SpendEntryInput } from "@/lib/analytics/spend";
+
+// Hard cap so one upload can't exhaust Lambda time / memory.
+const MAX_ROWS = 1000;
+
+type RowResult = { row: number; ok: true } | { row: number; ok: false; error: string };
+
+function parseRow(row: Record<string, string>, defaultCurrency: string): SpendEntryInput | string {
+  const date = row.date?.trim() ?? "";
+  const amount = Number((row.amount ?? row.spend ?? row.cost ?? "").trim().replace(/,/g, ""));
+  const currency = (row.currency ?? "").trim().toUpperCase() || defaultCurrency;
+  const source = (row.utm_source ?? row.source ?? "").trim();
+  const medium = (row.utm_medium ?? row.medium ?? "").trim();
+  const note = (row.note ?? "").trim();
+
+  if (!isRateDate(date)) return "date must be YYYY-MM-DD";
+  if (!Number.isFinite(amount) || amount <= 0) return "amount must be a positive number";
+  if (!isCurrencyCode(currency)) return "currency must be ISO 4217 (e.g. USD)";
+  if (source.length > 100 || medium.length > 100) return "utm_source / utm_medium too long (max 100)";
+  if (note.length > 500) return "note too long (max 500)";
+  return { date, amount, currency, source, medium, note };
+}
+
+// POST /api/utm-campaigns/[name]/spend/import - Upload spend as CSV
+// (multipart field `file`; columns date, amount, and optionally currency
+// — the reporting currency when blank — utm_source, utm_medium, note).
+// Valid rows are added as entries; the rest come back with the reason.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const campaignName = decodeURIComponent(name);
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    if (!(await isWorkspaceAdmin(scope.workspaceId, session.user.id))) {
+      return NextResponse.json({ error: "Forbidden — admin only" }, { status: 403 });
+    }
+
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No CSV file uploaded" }, { status: 400 });
+    }
+
+    const parsed = Papa.parse<Record<string, string>>(await file.text(), {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (h) => h.trim().toLowerCase(),
+    });
+    if (parsed.errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: "CSV parse error",
+          details: parsed.errors.slice(0, 5).map((e) => e.message),
+        },
+        { status: 400 },
+      );
+    }
+
+    const rows = parsed.data;
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "CSV is empty" }, { status: 400 });
+    }
+    if (rows.length > MAX_ROWS) {
+      return NextResponse.json(
+        { error: `Too many rows (max ${MAX_ROWS})` },
+        { status: 400 },
+      );
+    }
+
+    const { currency: reportingCurrency } = await workspaceRevenueCurrency(scope.workspaceId);
+    const results: RowResult[] = [];
+    const valid: SpendEntryInput[] = [];
+    rows.forEach((row, i) => {
+      const rowNumber = i + 2; // +2 because row 1 is the header for users
+      const entry = parseRow(row, reportingCurrency);
+      if (typeof entry === "string") {
+        results.push({ row: rowNumber, ok: false, error: entry });
+        return;
+      }
+      valid.push(entry);
+      results.push({ row: rowNumber, ok: true });
+    });
+
+    let saved = 0;
+    const campaignId =
+      valid.length > 0
+        ? await upsertCampaignForUtm({
+            utmCampaign: campaignName,
+            workspaceId: scope.workspaceId,
+            userId: session.user.id,
+          })
+        : null;
+    if (campaignId) {
+      saved = await saveSpendEntries(
+        { id: campaignId, workspaceId: scope.workspaceId },
+        session.user.id,
+        valid,
+      );
+      await prisma.auditLog.create({
+        data: {
+          userId: session.user.id,
+          action: "IMPORT_CAMPAIGN_SPEND",
+          targetId: campaignId,
+          metadata: { campaignName, fileName: file.name, saved },
+        },
+      });
+    }
+
+    return NextResponse.json({
+      total: rows.length,
+      saved,
+      failed: results.filter((r) => !r.ok).length,
+      results,
+    });
+  } catch (error) {
+    console.error("Campaign spend import failed:", error);
+    return NextResponse.json(
+      { error: "Campaign spend import failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * /api/utm-campaigns/[name]/spend
+ *
+ * Budget, spend entries and cost metrics for one campaign.
+ *
+ *   GET    → budget, all-time totals (spend, clicks, conversions, revenue,
+ *            CPC, cost per conversion, ROAS), the same per channel, and
+ *            the entries themselves
+ *   POST   { date, amount, currency?, source?, medium?, note? } → add an
+ *            entry; currency defaults to the reporting currency
+ *   DELETE ?spendId= → remove an entry
+ *
+ * Notes:
+ *   - Money is in the workspace's reporting currency (src/lib/currency.ts);
+ *     entries in a currency without a rate are left out and listed in
+ *     `unconvertedCurrencies`.
+ *   - Channels are the (source, medium) pairs entries were logged
+ *     against. A channel's clicks and conversions are those of the
+ *     campaign's links tagged with that utm_source / utm_medium; a null
+ *     side matches any value (src/lib/spend.ts).
+ *   - Clicks leave out internal and likely-bot traffic; conversions are
+ *     credited under the workspace's attribution model, as on the
+ *     campaign page's KPIs.
+ *   - Writes are OWNER/ADMIN only, like resetting clicks. The Campaign row
+ *     is created on first use for utm_campaign-only campaigns. Without a
+ *     workspace only the caller's own campaigns are reachable
+ *     (campaignNameWhere).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isWorkspaceAdmin, resolveWorkspaceScope } from "@/lib/workspace";
+import { campaignNameWhere, upsertCampaignForUtm } from "@/lib/campaign-autolink";
+import { HUMAN_CLICK_FILTER } from "@/lib/bot-score";
+import { campaignConversionCredit, workspaceAttribution } from "@/lib/analytics/attribution";
+import { workspaceRevenueCurrency } from "@/lib/analytics/revenue";
+import { saveSpendEntries } from "@/lib/analytics/spend";
+import { isCurrencyCode, isRateDate } from "@/lib/currency";
+import { costMetrics, inSpendChannel } from "@/lib/spend";
+import { z } from "zod";
+
+// Entries listed on the campaign page, newest first. Totals cover all.
+const MAX_LISTED_ENTRIES = 500;
+
+const addSpendSchema = z.object({
+  date: z.string().refine(isRateDate, "Date must be YYYY-MM-DD"),
+  amount: z.number().finite().positive(),
+  currency: z
+    .string()
+    .trim()
+    .transform((v) => v.toUpperCase())
+    .refine(isCurrencyCode, "Currency must be ISO 4217 (e.g. TWD, USD)")
+    .optional(),
+  source: z.string().trim().max(100).nullable().optional(),
+  medium: z.string().trim().max(100).nullable().optional(),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const campaignName = decodeURIComponent(name);
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const workspaceId = scope.workspaceId;
+
+    const campaign = await prisma.campaign.findFirst({
+      where: campaignNameWhere(campaignName, workspaceId, session.user.id),
+      select: { id: true, budget: true, budgetCurrency: true },
+    });
+
+    const [links, entries, attribution, revenueCurrency] = await Promise.all([
+      prisma.shortLink.findMany({
+        where: {
+          deletedAt: null,
+          ...scope.where,
+          OR: [
+            { utmCampaign: campaignName },
+            ...(campaign ? [{ campaignId: campaign.id }] : []),
+          ],
+        },
+        select: { id: true, utmSource: true, utmMedium: true },
+      }),
+      campaign
+        ? prisma.campaignSpend.findMany({
+            where: { campaignId: campaign.id },
+            orderBy: [{ date: "desc" }, { createdAt: "desc" }],
+          })
+        : [],
+      workspaceAttribution(workspaceId),
+      workspaceRevenueCurrency(workspaceId),
+    ]);
+    const { currency, convert } = revenueCurrency;
+    const linkIds = links.map((l) => l.id);
+
+    const [clickCounts, credit] = await Promise.all([
+      linkIds.length > 0
+        ? prisma.click.groupBy({
+            by: ["shortLinkId"],
+            where: { shortLinkId: { in: linkIds }, isInternal: false, ...HUMAN_CLICK_FILTER },
+            _count: { _all: true },
+          })
+        : [],
+      campaignConversionCredit({
+        campaignLinkIds: linkIds,
+        linkScope: scope.where,
+        attribution,
+        convert,
+      }),
+    ]);
+    const clicksByLink = new Map(clickCounts.map((r) => [r.shortLinkId, r._count._all]));
+
+    const unconverted = new Set(credit.unconvertedCurrencies);
+    let budget: number | null = null;
+    if (campaign?.budget) {
+      budget = convert(campaign.budget.toNumber(), campaign.budgetCurrency, new Date());
+      if (budget === null) unconverted.add(campaign.budgetCurrency!);
+    }
+
+    // Performance of the links a channel covers.
+    const linkTotals = (channel: { source: string | null; medium: string | null }) => {
+      let clicks = 0;
+      let conversions = 0;
+      let revenue = 0;
+      for (const link of links) {
+        if (!inSpendChannel(channel, link)) continue;
+        clicks += clicksByLink.get(link.id) ?? 0;
+        conversions += credit.byLink.get(link.id)?.conversions ?? 0;
+        revenue += credit.byLink.get(link.id)?.revenue ?? 0;
+      }
+      return { clicks, conversions, revenue };
+    };
+
+    const channelSpend = new Map<string, { source: string | null; medium: string | null; spend: number }>();
+    let totalSpend = 0;
+    for (const entry of entries) {
+      const amount = convert(entry.amount.toNumber(), entry.currency, entry.date);
+      if (amount === null) {
+        unconverted.add(entry.currency);
+        continue;
+      }
+      totalSpend += amount;
+      const key = `${entry.source ?? ""}\u0000${entry.medium ?? ""}`;
+      const channel = channelSpend.get(key) ?? { source: entry.source, medium: entry.medium, spend: 0 };
+      channel.spend += amount;
+      channelSpend.set(key, channel);
+    }
+
+    const channels = Array.from(channelSpend.values())
+      .map((c) => {
+        const totals = linkTotals(c);
+        return { ...c, ...totals, ...costMetrics({ spend: c.spend, ...totals }) };
+      })
+      .sort((a, b) => b.spend - a.spend);
+    const campaignTotals = linkTotals({ source: null, medium: null });
+
+    return NextResponse.json({
+      currency,
+      budget,
+      budgetAmount: campaign?.budget?.toNumber() ?? null,
+      budgetCurrency: campaign?.budgetCurrency ?? null,
+      totals: {
+        spend: totalSpend,
+        ...campaignTotals,
+        ...costMetrics({ spend: totalSpend, ...campaignTotals }),
+      },
+      channels,
+      entries: entries.slice(0, MAX_LISTED_ENTRIES).map((e) => ({
+        id: e.id,
+        date: e.date.toISOString().slice(0, 10),
+        amount: e.amount.toNumber(),
+        currency: e.currency,
+        source: e.source,
+        medium: e.medium,
+        note: e.note,
+        createdAt: e.createdAt,
+      })),
+      totalEntries: entries.length,
+      unconvertedCurrencies: Array.from(unconverted).sort(),
+    });
+  } catch (error) {
+    console.error("Failed to fetch campaign spend:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch campaign spend" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const campaignName = decodeURIComponent(name);
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    if (!(await isWorkspaceAdmin(scope.workspaceId, session.user.id))) {
+      return NextResponse.json({ error: "Forbidden — admin only" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const entry = addSpendSchema.parse(body);
+    const currency = entry.currency ?? (await workspaceRevenueCurrency(scope.workspaceId)).currency;
+
+    const campaignId = await upsertCampaignForUtm({
+      utmCampaign: campaignName,
+      workspaceId: scope.workspaceId,
+      userId: session.user.id,
+    });
+    if (!campaignId) {
+      return NextResponse.json({ error: "Campaign name required" }, { status: 400 });
+    }
+    await saveSpendEntries(
+      { id: campaignId, workspaceId: scope.workspaceId },
+      session.user.id,
+      [{ ...entry, currency }],
+    );
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "ADD_CAMPAIGN_SPEND",
+        targetId: campaignId,
+        metadata: {
+          campaignName,
+          date: entry.date,
+          amount: entry.amount,
+          currency,
+          source: entry.source ?? null,
+          medium: entry.medium ?? null,
+        },
+      },
+    });
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    console.error("Failed to add campaign spend:", error);
+    return NextResponse.json(
+      { error: "Failed to add campaign spend" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const campaignName = decodeURIComponent(name);
+    const spendId = new URL(request.url).searchParams.get("spendId");
+    if (!spendId) {
+      return NextResponse.json({ error: "Spend ID required" }, { status: 400 });
+    }
+
+    const scope = await resolveWorkspaceScope(request, session);
+    if (!scope) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    if (!(await isWorkspaceAdmin(scope.workspaceId, session.user.id))) {
+      return NextResponse.json({ error: "Forbidden — admin only" }, { status: 403 });
+    }
+
+    const entry = await prisma.campaignSpend.findUnique({
+      where: { id: spendId },
+      include: { campaign: { select: { name: true, workspaceId: true, createdById: true } } },
+    });
+    // Same scope as the campaign lookup: the workspace's campaign, or
+    // without one the caller's own.
+    if (
+      !entry ||
+      entry.campaign.name !== campaignName ||
+      entry.campaign.workspaceId !== scope.workspaceId ||
+      (!scope.workspaceId && entry.campaign.createdById !== session.user.id)
+    ) {
+      return NextResponse.json({ error: "Spend entry not found" }, { status: 404 });
+    }
+
+    await prisma.campaignSpend.delete({ where: { id: spendId } });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "DELETE_CAMPAIGN_SPEND",
+        targetId: spendId,
+        metadata: {
+          campaignName,
+          date: entry.date.toISOString().slice(0, 10),
+          amount: entry.amount.toNumber(),
+          currency: entry.currency,
+        },
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete campaign spend:", error);
+    return NextResponse.json(
+      { error: "Failed to delete campaign spend" },
+      { status: 500 },
+    );
+  }
+}
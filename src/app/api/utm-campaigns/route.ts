@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { resolveWorkspaceScope } from "@/lib/workspace";
+import { HUMAN_CLICK_FILTER } from "@/lib/bot-score";
 
 interface CampaignGroupByResult {
   utmCampaign: string | null;
@@ -77,6 +78,7 @@ export async function GET(request: NextRequest) {
     const clickCounts = (await (prisma.click.groupBy as Function)({
       by: ["shortLinkId"],
       where: {
+        ...HUMAN_CLICK_FILTER,
         shortLink: {
           utmCampaign: { in: campaignNames },
           deletedAt: null,
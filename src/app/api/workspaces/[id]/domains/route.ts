@@ -0,0 +1,314 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import {
+  invalidateDomainHost,
+  isDefaultShortHost,
+  normalizeHostname,
+} from "@/lib/domains";
+
+// Helper to check workspace access and role
+async function checkWorkspaceAccess(
+  workspaceId: string,
+  userId: string,
+  requiredRoles?: string[]
+) {
+  const member = await prisma.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: {
+        workspaceId,
+        userId,
+      },
+    },
+  });
+
+  if (!member) {
+    return { error: "Workspace not found or access denied", status: 404 };
+  }
+
+  if (requiredRoles && !requiredRoles.includes(member.role)) {
+    return { error: "Insufficient permissions", status: 403 };
+  }
+
+  return { member };
+}
+
+// GET /api/workspaces/[id]/domains - List custom short domains
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const access = await checkWorkspaceAccess(id, session.user.id);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const domains = await prisma.domain.findMany({
+      where: { workspaceId: id },
+      include: {
+        _count: { select: { links: { where: { deletedAt: null } } } },
+      },
+      orderBy: [{ isDefault: "desc" }, { hostname: "asc" }],
+    });
+
+    return NextResponse.json({ domains });
+  } catch (error) {
+    console.error("Failed to fetch domains:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch domains" },
+      { status: 500 }
+    );
+  }
+}
+
+const addDomainSchema = z.object({
+  hostname: z.string().min(1).max(253),
+  isDefault: z.boolean().optional(),
+});
+
+// POST /api/workspaces/[id]/domains - Add a custom short domain
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Only OWNER and ADMIN can manage domains
+    const access = await checkWorkspaceAccess(id, session.user.id, ["OWNER", "ADMIN"]);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const body = await request.json();
+    const validated = addDomainSchema.parse(body);
+
+    const hostname = normalizeHostname(validated.hostname);
+    if (!hostname) {
+      return NextResponse.json(
+        { error: "Enter a hostname like go.example.com" },
+        { status: 400 }
+      );
+    }
+    if (isDefaultShortHost(hostname)) {
+      return NextResponse.json(
+        { error: "This host is reserved by the app" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.domain.findUnique({ where: { hostname } });
+    if (existing) {
+      return NextResponse.json(
+        { error: "Domain is already registered" },
+        { status: 400 }
+      );
+    }
+
+    const domain = await prisma.$transaction(async (tx) => {
+      if (validated.isDefault) {
+        await tx.domain.updateMany({
+          where: { workspaceId: id, isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+      return tx.domain.create({
+        data: {
+          hostname,
+          workspaceId: id,
+          isDefault: validated.isDefault ?? false,
+          createdById: session.user.id,
+        },
+      });
+    });
+
+    // A previous lookup may have cached this host as "unknown".
+    await invalidateDomainHost(hostname);
+
+    // Log audit
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "ADD_DOMAIN",
+        targetId: domain.id,
+        metadata: {
+          workspaceId: id,
+          hostname,
+        },
+      },
+    });
+
+    return NextResponse.json({ domain }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error("Failed to add domain:", error);
+    return NextResponse.json(
+      { error: "Failed to add domain" },
+      { status: 500 }
+    );
+  }
+}
+
+const updateDomainSchema = z.object({
+  domainId: z.string(),
+  isDefault: z.boolean(),
+});
+
+// PATCH /api/workspaces/[id]/domains - Set or clear the default domain
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const access = await checkWorkspaceAccess(id, session.user.id, ["OWNER", "ADMIN"]);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const body = await request.json();
+    const validated = updateDomainSchema.parse(body);
+
+    const target = await prisma.domain.findUnique({
+      where: { id: validated.domainId },
+    });
+    if (!target || target.workspaceId !== id) {
+      return NextResponse.json({ error: "Domain not found" }, { status: 404 });
+    }
+
+    const domain = await prisma.$transaction(async (tx) => {
+      if (validated.isDefault) {
+        await tx.domain.updateMany({
+          where: { workspaceId: id, isDefault: true, NOT: { id: target.id } },
+          data: { isDefault: false },
+        });
+      }
+      return tx.domain.update({
+        where: { id: target.id },
+        data: { isDefault: validated.isDefault },
+      });
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "UPDATE_DOMAIN",
+        targetId: domain.id,
+        metadata: {
+          workspaceId: id,
+          hostname: domain.hostname,
+          isDefault: domain.isDefault,
+        },
+      },
+    });
+
+    return NextResponse.json({ domain });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error("Failed to update domain:", error);
+    return NextResponse.json(
+      { error: "Failed to update domain" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/workspaces/[id]/domains - Remove a custom short domain
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const domainId = searchParams.get("domainId");
+
+    if (!domainId) {
+      return NextResponse.json({ error: "Domain ID required" }, { status: 400 });
+    }
+
+    const access = await checkWorkspaceAccess(id, session.user.id, ["OWNER", "ADMIN"]);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const target = await prisma.domain.findUnique({
+      where: { id: domainId },
+      include: { _count: { select: { links: true } } },
+    });
+    if (!target || target.workspaceId !== id) {
+      return NextResponse.json({ error: "Domain not found" }, { status: 404 });
+    }
+
+    // Links keep their domain even in the trash — removing the host would
+    // silently re-home their codes onto the default host, where they may
+    // collide. Make the user clear them out (and purge them from Trash)
+    // first.
+    if (target._count.links > 0) {
+      return NextResponse.json(
+        {
+          error:
+            "Domain still has links. Delete them and purge them from Trash before removing the domain.",
+        },
+        { status: 400 }
+      );
+    }
+
+    await prisma.domain.delete({ where: { id: domainId } });
+    await invalidateDomainHost(target.hostname);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "REMOVE_DOMAIN",
+        targetId: domainId,
+        metadata: {
+          workspaceId: id,
+          hostname: target.hostname,
+        },
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to remove domain:", error);
+    return NextResponse.json(
+      { error: "Failed to remove domain" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import Papa from "papaparse";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { isCurrencyCode, isRateDate } from "@/lib/currency";
+import { saveExchangeRates, type ExchangeRateInput } from "@/lib/analytics/revenue";
+
+// Hard cap so one upload can't exhaust Lambda time / memory.
+const MAX_ROWS = 1000;
+
+type RowResult = { row: number; ok: true } | { row: number; ok: false; error: string };
+
+// Helper to check workspace access and role
+async function checkWorkspaceAccess(
+  workspaceId: string,
+  userId: string,
+  requiredRoles?: string[]
+) {
+  const member = await prisma.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: {
+        workspaceId,
+        userId,
+      },
+    },
+  });
+
+  if (!member) {
+    return { error: "Workspace not found or access denied", status: 404 };
+  }
+
+  if (requiredRoles && !requiredRoles.includes(member.role)) {
+    return { error: "Insufficient permissions", status: 403 };
+  }
+
+  return { member };
+}
+
+function parseRow(row: Record<string, string>): ExchangeRateInput | string {
+  const date = row.date?.trim() ?? "";
+  const baseCurrency = (row.base_currency ?? row.base ?? "").trim().toUpperCase();
+  const quoteCurrency = (row.quote_currency ?? row.quote ?? "").trim().toUpperCase();
+  const rate = Number((row.rate ?? "").trim().replace(/,/g, ""));
+
+  if (!isRateDate(date)) return "date must be YYYY-MM-DD";
+  if (!isCurrencyCode(baseCurrency)) return "base_currency must be ISO 4217 (e.g. USD)";
+  if (!isCurrencyCode(quoteCurrency)) return "quote_currency must be ISO 4217 (e.g. TWD)";
+  if (baseCurrency === quoteCurrency) return "base_currency and quote_currency must differ";
+  if (!Number.isFinite(rate) || rate <= 0) return "rate must be a positive number";
+  return { date, baseCurrency, quoteCurrency, rate };
+}
+
+// POST /api/workspaces/[id]/exchange-rates/import - Upload rates as CSV
+// (multipart field `file`; columns date, base_currency, quote_currency,
+// rate — 1 base = rate quote). Valid rows are saved, replacing any rate
+// for the same pair and date; the rest come back with the reason.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const access = await checkWorkspaceAccess(id, session.user.id, ["OWNER", "ADMIN"]);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No CSV file uploaded" }, { status: 400 });
+    }
+
+    const parsed = Papa.parse<Record<string, string>>(await file.text(), {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (h) => h.trim().toLowerCase(),
+    });
+    if (parsed.errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: "CSV parse error",
+          details: parsed.errors.slice(0, 5).map((e) => e.message),
+        },
+        { status: 400 }
+      );
+    }
+
+    const rows = parsed.data;
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "CSV is empty" }, { status: 400 });
+    }
+    if (rows.length > MAX_ROWS) {
+      return NextResponse.json(
+        { error: `Too many rows (max ${MAX_ROWS})` },
+        { status: 400 }
+      );
+    }
+
+    const results: RowResult[] = [];
+    // Last row wins when the sheet lists a pair and date twice.
+    const valid = new Map<string, ExchangeRateInput>();
+    rows.forEach((row, i) => {
+      const rowNumber = i + 2; // +2 because row 1 is the header for users
+      const rate = parseRow(row);
+      if (typeof rate === "string") {
+        results.push({ row: rowNumber, ok: false, error: rate });
+        return;
+      }
+      valid.set(`${rate.baseCurrency}/${rate.quoteCurrency}/${rate.date}`, rate);
+      results.push({ row: rowNumber, ok: true });
+    });
+
+    const saved =
+      valid.size > 0 ? await saveExchangeRates(id, session.user.id, Array.from(valid.values())) : 0;
+
+    if (saved > 0) {
+      await prisma.auditLog.create({
+        data: {
+          userId: session.user.id,
+          action: "UPDATE_EXCHANGE_RATES",
+          targetId: id,
+          metadata: { workspaceId: id, source: "csv", fileName: file.name, saved },
+        },
+      });
+    }
+
+    return NextResponse.json({
+      total: rows.length,
+      saved,
+      failed: results.filter((r) => !r.ok).length,
+      results,
+    });
+  } catch (error) {
+    console.error("Exchange rate import failed:", error);
+    return NextResponse.json(
+      { error: "Exchange rate import failed" },
+      { status: 500 }
+    );
+  }
+}
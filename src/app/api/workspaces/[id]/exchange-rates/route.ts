@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { isCurrencyCode, isRateDate } from "@/lib/currency";
+import { saveExchangeRates } from "@/lib/analytics/revenue";
+
+// Rates listed on the settings screen, newest first.
+const MAX_LISTED_RATES = 500;
+// Rates accepted per save.
+const MAX_RATES_PER_SAVE = 100;
+
+// Helper to check workspace access and role
+async function checkWorkspaceAccess(
+  workspaceId: string,
+  userId: string,
+  requiredRoles?: string[]
+) {
+  const member = await prisma.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: {
+        workspaceId,
+        userId,
+      },
+    },
+  });
+
+  if (!member) {
+    return { error: "Workspace not found or access denied", status: 404 };
+  }
+
+  if (requiredRoles && !requiredRoles.includes(member.role)) {
+    return { error: "Insufficient permissions", status: 403 };
+  }
+
+  return { member };
+}
+
+const currencyCode = z
+  .string()
+  .trim()
+  .transform((v) => v.toUpperCase())
+  .refine(isCurrencyCode, "Currency must be ISO 4217 (e.g. TWD, USD)");
+
+const saveRatesSchema = z.object({
+  rates: z
+    .array(
+      z
+        .object({
+          baseCurrency: currencyCode,
+          quoteCurrency: currencyCode,
+          rate: z.number().finite().positive(),
+          date: z.string().refine(isRateDate, "Date must be YYYY-MM-DD"),
+        })
+        .refine((r) => r.baseCurrency !== r.quoteCurrency, {
+          message: "Base and quote currency must differ",
+        })
+    )
+    .min(1)
+    .max(MAX_RATES_PER_SAVE),
+});
+
+// GET /api/workspaces/[id]/exchange-rates - Reporting currency and the
+// workspace's exchange rates
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const access = await checkWorkspaceAccess(id, session.user.id);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const [workspace, rates] = await Promise.all([
+      prisma.workspace.findUnique({
+        where: { id },
+        select: { reportingCurrency: true },
+      }),
+      prisma.exchangeRate.findMany({
+        where: { workspaceId: id },
+        orderBy: [{ date: "desc" }, { baseCurrency: "asc" }, { quoteCurrency: "asc" }],
+        take: MAX_LISTED_RATES,
+      }),
+    ]);
+
+    return NextResponse.json({
+      reportingCurrency: workspace?.reportingCurrency,
+      rates: rates.map((r) => ({
+        id: r.id,
+        baseCurrency: r.baseCurrency,
+        quoteCurrency: r.quoteCurrency,
+        rate: r.rate.toNumber(),
+        date: r.date.toISOString().slice(0, 10),
+        createdAt: r.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to fetch exchange rates:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch exchange rates" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/workspaces/[id]/exchange-rates - Add rates by hand. A rate for
+// a pair and date that already has one replaces it.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const access = await checkWorkspaceAccess(id, session.user.id, ["OWNER", "ADMIN"]);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const body = await request.json();
+    const { rates } = saveRatesSchema.parse(body);
+    const saved = await saveExchangeRates(id, session.user.id, rates);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "UPDATE_EXCHANGE_RATES",
+        targetId: id,
+        metadata: { workspaceId: id, source: "manual", saved },
+      },
+    });
+
+    return NextResponse.json({ saved }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error("Failed to save exchange rates:", error);
+    return NextResponse.json(
+      { error: "Failed to save exchange rates" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/workspaces/[id]/exchange-rates?rateId= - Remove a rate
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const rateId = searchParams.get("rateId");
+
+    if (!rateId) {
+      return NextResponse.json({ error: "Rate ID required" }, { status: 400 });
+    }
+
+    const access = await checkWorkspaceAccess(id, session.user.id, ["OWNER", "ADMIN"]);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const rate = await prisma.exchangeRate.findUnique({ where: { id: rateId } });
+    if (!rate || rate.workspaceId !== id) {
+      return NextResponse.json({ error: "Rate not found" }, { status: 404 });
+    }
+
+    await prisma.exchangeRate.delete({ where: { id: rateId } });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "DELETE_EXCHANGE_RATE",
+        targetId: rateId,
+        metadata: {
+          workspaceId: id,
+          pair: `${rate.baseCurrency}/${rate.quoteCurrency}`,
+          date: rate.date.toISOString().slice(0, 10),
+          rate: rate.rate.toNumber(),
+        },
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete exchange rate:", error);
+    return NextResponse.json(
+      { error: "Failed to delete exchange rate" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,222 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import {
+  MAX_POSTBACK_SECRETS,
+  POSTBACK_GRACE_HOURS,
+  isPostbackSecretActive,
+  maskPostbackSecret,
+} from "@/lib/postbacks";
+import { generatePostbackSecret } from "@/lib/postback-signing";
+
+// Deliveries shown on the settings screen.
+const RECENT_DELIVERIES = 50;
+
+// Helper to check workspace access and role
+async function checkWorkspaceAccess(
+  workspaceId: string,
+  userId: string,
+  requiredRoles?: string[]
+) {
+  const member = await prisma.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: {
+        workspaceId,
+        userId,
+      },
+    },
+  });
+
+  if (!member) {
+    return { error: "Workspace not found or access denied", status: 404 };
+  }
+
+  if (requiredRoles && !requiredRoles.includes(member.role)) {
+    return { error: "Insufficient permissions", status: 403 };
+  }
+
+  return { member };
+}
+
+function toPublicSecret(secret: {
+  id: string;
+  secret: string;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+}) {
+  return {
+    id: secret.id,
+    hint: maskPostbackSecret(secret.secret),
+    createdAt: secret.createdAt,
+    lastUsedAt: secret.lastUsedAt,
+    expiresAt: secret.expiresAt,
+    active: isPostbackSecretActive(secret),
+  };
+}
+
+// GET /api/workspaces/[id]/postback-secrets - Secrets (masked) and the
+// most recent postback deliveries
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const access = await checkWorkspaceAccess(id, session.user.id, ["OWNER", "ADMIN"]);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const [secrets, deliveries] = await Promise.all([
+      prisma.postbackSecret.findMany({
+        where: { workspaceId: id },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.postbackDelivery.findMany({
+        where: { workspaceId: id },
+        orderBy: { createdAt: "desc" },
+        take: RECENT_DELIVERIES,
+      }),
+    ]);
+
+    return NextResponse.json({
+      secrets: secrets.map(toPublicSecret),
+      deliveries,
+    });
+  } catch (error) {
+    console.error("Failed to fetch postback secrets:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch postback secrets" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/workspaces/[id]/postback-secrets - Rotate: issue a new secret
+// and put the current ones on a POSTBACK_GRACE_HOURS expiry. The full
+// secret is only ever returned here.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const access = await checkWorkspaceAccess(id, session.user.id, ["OWNER", "ADMIN"]);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const now = new Date();
+    const activeCount = await prisma.postbackSecret.count({
+      where: { workspaceId: id, OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+    });
+    if (activeCount >= MAX_POSTBACK_SECRETS) {
+      return NextResponse.json(
+        { error: "Too many active secrets. Revoke an old one first." },
+        { status: 400 }
+      );
+    }
+
+    const graceEnds = new Date(now.getTime() + POSTBACK_GRACE_HOURS * 60 * 60 * 1000);
+    const [rotated, secret] = await prisma.$transaction([
+      prisma.postbackSecret.updateMany({
+        where: { workspaceId: id, expiresAt: null },
+        data: { expiresAt: graceEnds },
+      }),
+      prisma.postbackSecret.create({
+        data: {
+          workspaceId: id,
+          secret: generatePostbackSecret(),
+          createdById: session.user.id,
+        },
+      }),
+    ]);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "ROTATE_POSTBACK_SECRET",
+        targetId: secret.id,
+        metadata: { workspaceId: id, rotatedOut: rotated.count },
+      },
+    });
+
+    return NextResponse.json(
+      { secret: { ...toPublicSecret(secret), secret: secret.secret } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Failed to rotate postback secret:", error);
+    return NextResponse.json(
+      { error: "Failed to rotate postback secret" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/workspaces/[id]/postback-secrets?secretId= - Revoke a secret
+// immediately. The row stays so its deliveries keep their key.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const secretId = searchParams.get("secretId");
+
+    if (!secretId) {
+      return NextResponse.json({ error: "Secret ID required" }, { status: 400 });
+    }
+
+    const access = await checkWorkspaceAccess(id, session.user.id, ["OWNER", "ADMIN"]);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const target = await prisma.postbackSecret.findUnique({ where: { id: secretId } });
+    if (!target || target.workspaceId !== id) {
+      return NextResponse.json({ error: "Secret not found" }, { status: 404 });
+    }
+
+    const secret = isPostbackSecretActive(target)
+      ? await prisma.postbackSecret.update({
+          where: { id: secretId },
+          data: { expiresAt: new Date() },
+        })
+      : target;
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "REVOKE_POSTBACK_SECRET",
+        targetId: secretId,
+        metadata: { workspaceId: id, hint: maskPostbackSecret(target.secret) },
+      },
+    });
+
+    return NextResponse.json({ secret: toPublicSecret(secret) });
+  } catch (error) {
+    console.error("Failed to revoke postback secret:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke postback secret" },
+      { status: 500 }
+    );
+  }
+}
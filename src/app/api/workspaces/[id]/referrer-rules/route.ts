@@ -0,0 +1,221 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import {
+  DEFAULT_REFERRER_RULES,
+  MAX_REFERRER_RULES,
+  REFERRER_CHANNELS,
+  RULE_HOST_PATTERN,
+  normalizeRuleHost,
+  parseReferrerRules,
+} from "@/lib/referrer-channels";
+import { reclassifyReferrersStep } from "@/lib/analytics/reclassify-referrers";
+
+// Helper to check workspace access and role
+async function checkWorkspaceAccess(
+  workspaceId: string,
+  userId: string,
+  requiredRoles?: string[]
+) {
+  const member = await prisma.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: {
+        workspaceId,
+        userId,
+      },
+    },
+    include: {
+      workspace: { select: { referrerRules: true } },
+    },
+  });
+
+  if (!member) {
+    return { error: "Workspace not found or access denied", status: 404 };
+  }
+
+  if (requiredRoles && !requiredRoles.includes(member.role)) {
+    return { error: "Insufficient permissions", status: 403 };
+  }
+
+  return { member, workspace: member.workspace };
+}
+
+// GET /api/workspaces/[id]/referrer-rules - Workspace mapping + built-in rules
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const access = await checkWorkspaceAccess(id, session.user.id);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    return NextResponse.json({
+      rules: parseReferrerRules(access.workspace.referrerRules),
+      defaults: DEFAULT_REFERRER_RULES,
+    });
+  } catch (error) {
+    console.error("Failed to fetch referrer rules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch referrer rules" },
+      { status: 500 }
+    );
+  }
+}
+
+const ruleSchema = z.object({
+  host: z
+    .string()
+    .transform(normalizeRuleHost)
+    .refine((host) => RULE_HOST_PATTERN.test(host), "Host must be a domain, e.g. news.example.com or google.*"),
+  source: z
+    .string()
+    .trim()
+    .min(1)
+    .max(60)
+    .transform((source) => source.toLowerCase()),
+  channel: z.enum(REFERRER_CHANNELS),
+});
+
+const updateRulesSchema = z.object({
+  rules: z.array(ruleSchema).max(MAX_REFERRER_RULES),
+});
+
+// PUT /api/workspaces/[id]/referrer-rules - Replace the workspace mapping.
+// Applies to clicks from now on; POST reclassifies recorded ones.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Same roles as the other workspace settings
+    const access = await checkWorkspaceAccess(id, session.user.id, ["OWNER", "ADMIN"]);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const body = await request.json();
+    const { rules } = updateRulesSchema.parse(body);
+
+    const hosts = new Set<string>();
+    for (const rule of rules) {
+      if (hosts.has(rule.host)) {
+        return NextResponse.json(
+          { error: `Duplicate host: ${rule.host}` },
+          { status: 400 }
+        );
+      }
+      hosts.add(rule.host);
+    }
+
+    await prisma.workspace.update({
+      where: { id },
+      data: { referrerRules: rules },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: "UPDATE_REFERRER_RULES",
+        targetId: id,
+        metadata: {
+          from: parseReferrerRules(access.workspace.referrerRules).length,
+          to: rules.length,
+        },
+      },
+    });
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error("Failed to update referrer rules:", error);
+    return NextResponse.json(
+      { error: "Failed to update referrer rules" },
+      { status: 500 }
+    );
+  }
+}
+
+const reclassifySchema = z.object({
+  cursor: z
+    .object({
+      phase: z.enum(["clicks", "rollups"]),
+      after: z.string().nullable(),
+      updated: z.number().int().nonnegative(),
+    })
+    .optional(),
+});
+
+// POST /api/workspaces/[id]/referrer-rules - Reclassify recorded clicks
+// with the current mapping (and rebuild their rollups), one bounded step
+// per call. Send back `next` as `cursor` until it comes back null.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const access = await checkWorkspaceAccess(id, session.user.id, ["OWNER", "ADMIN"]);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { cursor } = reclassifySchema.parse(body);
+    const { updated, next } = await reclassifyReferrersStep(
+      id,
+      parseReferrerRules(access.workspace.referrerRules),
+      cursor,
+    );
+
+    if (!next) {
+      await prisma.auditLog.create({
+        data: {
+          userId: session.user.id,
+          action: "RECLASSIFY_REFERRERS",
+          targetId: id,
+          metadata: { updated },
+        },
+      });
+    }
+
+    return NextResponse.json({ updated, next });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error("Failed to reclassify referrers:", error);
+    return NextResponse.json(
+      { error: "Failed to reclassify referrers" },
+      { status: 500 }
+    );
+  }
+}
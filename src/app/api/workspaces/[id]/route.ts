@@ -2,6 +2,15 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
+import { FALLBACK_STATES } from "@/lib/fallbacks";
+import { TRASH_RETENTION_MAX_DAYS, TRASH_RETENTION_MIN_DAYS } from "@/lib/link-trash";
+import { isValidTimeZone } from "@/lib/timezone";
+import {
+  ATTRIBUTION_MODELS,
+  ATTRIBUTION_WINDOW_MAX_DAYS,
+  ATTRIBUTION_WINDOW_MIN_DAYS,
+} from "@/lib/attribution";
+import { isCurrencyCode } from "@/lib/currency";
 
 // Helper to check workspace access and role
 async function checkWorkspaceAccess(
@@ -104,6 +113,30 @@ const updateWorkspaceSchema = z.object({
     .regex(/^[a-z0-9-]+$/, "Slug must be lowercase letters, numbers, and hyphens only")
     .optional(),
   description: z.string().max(500).optional().nullable(),
+  // Workspace-wide fallback destinations — see src/lib/fallbacks.ts.
+  fallbackUrls: z.partialRecord(z.enum(FALLBACK_STATES), z.string().url()).optional(),
+  // Days a deleted link stays in Trash — see src/lib/link-trash.ts.
+  trashRetentionDays: z
+    .number()
+    .int()
+    .min(TRASH_RETENTION_MIN_DAYS)
+    .max(TRASH_RETENTION_MAX_DAYS)
+    .optional(),
+  // IANA zone reports bucket days / hours in — see src/lib/timezone.ts.
+  timezone: z.string().refine(isValidTimeZone, "Unknown time zone").optional(),
+  // Conversion attribution — see src/lib/attribution.ts.
+  attributionWindowDays: z
+    .number()
+    .int()
+    .min(ATTRIBUTION_WINDOW_MIN_DAYS)
+    .max(ATTRIBUTION_WINDOW_MAX_DAYS)
+    .optional(),
+  attributionModel: z.enum(ATTRIBUTION_MODELS).optional(),
+  // Currency revenue is reported in — see src/lib/currency.ts.
+  reportingCurrency: z
+    .string()
+    .refine(isCurrencyCode, "Currency must be ISO 4217 (e.g. TWD, USD)")
+    .optional(),
 });
 
 // PATCH /api/workspaces/[id] - Update workspace
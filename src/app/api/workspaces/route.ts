@@ -8,6 +8,7 @@ type Workspace = {
   name: string;
   slug: string;
   description: string | null;
+  timezone: string;
   createdAt: Date;
   updatedAt: Date;
   members: { role: string }[];
@@ -58,6 +59,7 @@ export async function GET() {
       name: ws.name,
       slug: ws.slug,
       description: ws.description,
+      timezone: ws.timezone,
       createdAt: ws.createdAt,
       updatedAt: ws.updatedAt,
       role: ws.members[0]?.role || "VIEWER",
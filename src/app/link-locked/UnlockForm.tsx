@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import { Lock } from "lucide-react";
+
+export function UnlockForm({ linkId, next }: { linkId: string; next: string }) {
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/unlock", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ linkId, password }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(
+          typeof result.error === "string" ? result.error : "Failed to unlock link",
+        );
+      }
+
+      // Full navigation so the redirect route sees the new cookie.
+      window.location.assign(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to unlock link");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <div className="max-w-md w-full space-y-6 p-8 bg-white rounded-xl shadow-lg text-center">
+        <div className="w-16 h-16 mx-auto bg-blue-100 rounded-full flex items-center justify-center">
+          <Lock className="w-8 h-8 text-blue-600" />
+        </div>
+
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            Password Protected
+          </h1>
+          <p className="mt-2 text-gray-600">
+            Enter the password to continue to this link.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-100 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Enter password"
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={submitting || !password || !linkId}
+            className="w-full py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {submitting ? "Verifying..." : "Continue"}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { safeUnlockNext } from "@/lib/link-password";
+import { UnlockForm } from "./UnlockForm";
+
+export default async function LinkLockedPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ l?: string; next?: string }>;
+}) {
+  const { l, next } = await searchParams;
+
+  return <UnlockForm linkId={l ?? ""} next={safeUnlockNext(next) ?? "/"} />;
+}
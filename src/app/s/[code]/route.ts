@@ -4,11 +4,30 @@ import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { createHash, randomBytes } from "crypto";
 import { headers } from "next/headers";
-import { getGeoFromHeaders } from "@/lib/geoip";
+import { resolveGeo, type GeoLocation } from "@/lib/geoip";
 import { allowRedirect } from "@/lib/ratelimit";
-import { cacheEnabled, cacheSetIfAbsent } from "@/lib/cache";
-import { appendSessionParam, parseVariants, pickVariant } from "@/lib/variants";
+import { cacheEnabled, cacheSetIfAbsent, cached, cacheKey } from "@/lib/cache";
+import { appendSessionParam, parseVariants, pickVariant, type LinkVariant } from "@/lib/variants";
+import { pickAllocatedVariant } from "@/lib/bandit";
+import { loadVariantStats } from "@/lib/auto-promote";
+import { matchDeviceRule, parseDeviceRules } from "@/lib/routing-rules";
+import { matchGeoRoute, parseGeoRoutes } from "@/lib/geo-routes";
 import { auth } from "@/lib/auth";
+import { resolveDomainIdForHost } from "@/lib/domains";
+import { unlockCookieName, verifyUnlockToken } from "@/lib/link-password";
+import { resolveFallbackUrl, statusPagePath, type FallbackState } from "@/lib/fallbacks";
+import { applyDueSchedule, dueScheduledUrl } from "@/lib/link-revisions";
+import { parseUserAgent, type ParsedUserAgent } from "@/lib/user-agent";
+import { classifyReferrer, parseReferrerRules, type ReferrerClass } from "@/lib/referrer-channels";
+import { rollupClickOps } from "@/lib/analytics/rollups";
+import { visitorSketchOp } from "@/lib/analytics/visitors";
+import {
+  BOT_SCORE_THRESHOLD,
+  VELOCITY_WINDOW_SECONDS,
+  pickBotHeaders,
+  scoreBot,
+  type BotHeaders,
+} from "@/lib/bot-score";
 
 // Query param that flags a click as internal pre-launch testing. Stripped
 // before the redirect so it doesn't leak into the destination URL or
@@ -37,24 +56,6 @@ function hashIP(ip: string): string {
   return createHash("sha256").update(ip + salt).digest("hex");
 }
 
-// Known bot User-Agent patterns
-const BOT_PATTERNS = [
-  /bot/i, /crawl/i, /spider/i, /slurp/i, /mediapartners/i,
-  /facebookexternalhit/i, /linkedinbot/i, /twitterbot/i, /whatsapp/i,
-  /telegrambot/i, /discordbot/i, /slackbot/i, /applebot/i,
-  /bingpreview/i, /googlebot/i, /yandexbot/i, /baiduspider/i,
-  /duckduckbot/i, /seznambot/i, /ia_archiver/i, /semrushbot/i,
-  /ahrefsbot/i, /mj12bot/i, /dotbot/i, /petalbot/i,
-  /curl/i, /wget/i, /python-requests/i, /axios/i, /node-fetch/i,
-  /go-http-client/i, /java\//i, /libwww/i, /httpie/i,
-  /headlesschrome/i, /phantomjs/i, /prerender/i,
-];
-
-function isBot(ua: string | null): boolean {
-  if (!ua) return true;
-  return BOT_PATTERNS.some((pattern) => pattern.test(ua));
-}
-
 // Click deduplication window (in seconds).
 // 2s is tuned to catch obvious double-clicks / misfires without trapping
 // legitimate re-visits. A longer window (previously 10s) ate too many
@@ -62,36 +63,30 @@ function isBot(ua: string | null): boolean {
 // only the first of their taps recorded.
 const DEDUP_WINDOW_SECONDS = 2;
 
-// Helper to parse User Agent
-function parseUserAgent(ua: string | null): {
-  device: string;
-  os: string;
-  browser: string;
-} {
-  if (!ua) return { device: "unknown", os: "unknown", browser: "unknown" };
-
-  // Device detection
-  let device = "desktop";
-  if (/Mobile|Android|iPhone|iPad/i.test(ua)) {
-    device = /iPad|Tablet/i.test(ua) ? "tablet" : "mobile";
+// Authenticated workspace member clicking their own link from the same
+// browser as the dashboard. Only checked when the link belongs to a
+// workspace — a legacy null-workspace link can't be matched to a member.
+// auth() reads the NextAuth cookie; on cross-domain (go.engenius.ai) the
+// cookie may not be present, in which case session is null and we just
+// skip — the explicit ?_test=1 path still works.
+async function isWorkspaceMemberClick(workspaceId: string | null): Promise<boolean> {
+  if (!workspaceId) return false;
+  try {
+    const session = await auth();
+    if (!session?.user?.id) return false;
+    const membership = await prisma.workspaceMember.findFirst({
+      where: {
+        userId: session.user.id,
+        workspaceId,
+      },
+      select: { id: true },
+    });
+    return Boolean(membership);
+  } catch {
+    // Auth lookup failure shouldn't block the redirect; treat as
+    // anonymous (= public click).
+    return false;
   }
-
-  // OS detection
-  let os = "unknown";
-  if (/Windows/i.test(ua)) os = "Windows";
-  else if (/Mac OS X/i.test(ua)) os = "macOS";
-  else if (/Linux/i.test(ua)) os = "Linux";
-  else if (/Android/i.test(ua)) os = "Android";
-  else if (/iOS|iPhone|iPad/i.test(ua)) os = "iOS";
-
-  // Browser detection
-  let browser = "unknown";
-  if (/Chrome/i.test(ua) && !/Edge|Edg/i.test(ua)) browser = "Chrome";
-  else if (/Safari/i.test(ua) && !/Chrome/i.test(ua)) browser = "Safari";
-  else if (/Firefox/i.test(ua)) browser = "Firefox";
-  else if (/Edge|Edg/i.test(ua)) browser = "Edge";
-
-  return { device, os, browser };
 }
 
 export async function GET(
@@ -112,12 +107,25 @@ export async function GET(
   }
 
   try {
+    // Codes are unique per host — resolve the custom domain (if any) the
+    // request came in on, then look the code up inside that namespace.
+    // Middleware rewrites custom-domain paths to /s/<code> but leaves the
+    // Host header untouched. A host nobody registered serves nothing.
+    const namespace = await resolveDomainIdForHost(headersList.get("host"));
+    if (!namespace.ok) {
+      return new NextResponse("Not found", { status: 404 });
+    }
+    const domainId = namespace.domainId;
+
     // Find the short link
-    const shortLink = await prisma.shortLink.findUnique({
+    const shortLink = await prisma.shortLink.findFirst({
       where: {
         code,
+        domainId,
         deletedAt: null,
       },
+      omit: { password: false },
+      include: { workspace: { select: { fallbackUrls: true, referrerRules: true } } },
     });
 
     // 404 if not found
@@ -125,33 +133,104 @@ export async function GET(
       return NextResponse.redirect(new URL("/404", request.url));
     }
 
+    // Scheduled destination swap that has come due — serve the new URL
+    // from this request on and persist the swap after the response.
+    const scheduledUrl = dueScheduledUrl(shortLink);
+    if (scheduledUrl) {
+      after(() =>
+        applyDueSchedule(shortLink).catch((err) => console.error("Scheduled swap failed:", err)),
+      );
+    }
+    const primaryUrl = scheduledUrl ?? shortLink.originalUrl;
+
+    // Extract data before after() — headers are not available inside after()
+    const userAgent = headersList.get("user-agent");
+    const client = parseUserAgent(userAgent, {
+      mobile: headersList.get("sec-ch-ua-mobile"),
+      platform: headersList.get("sec-ch-ua-platform"),
+    });
+    const botHeaders = pickBotHeaders(headersList);
+    const referrer = headersList.get("referer") || headersList.get("referrer");
+    const referrerClass = classifyReferrer(
+      referrer,
+      client.inApp,
+      parseReferrerRules(shortLink.workspace?.referrerRules),
+    );
+    const geo = await resolveGeo(headersList, clientIp === "unknown" ? null : clientIp);
+
+    const requestUrl = new URL(request.url);
+    const explicitTestFlag =
+      requestUrl.searchParams.get(TEST_FLAG_PARAM) === "1";
+
+    // A link that can't serve its destination sends the visitor to its
+    // fallback URL for that state (link's own, then the workspace's) or
+    // to the generic /link-<state> page. Always a 302 even on PERMANENT
+    // links — browsers cache 301s and the state is usually temporary.
+    // Fallback clicks are recorded (stamped with fallbackState) so
+    // analytics can count "fallback served".
+    const serveFallback = async (state: FallbackState) => {
+      const fallbackUrl = resolveFallbackUrl(
+        state,
+        shortLink.fallbackUrls,
+        shortLink.workspace?.fallbackUrls,
+      );
+      if (!fallbackUrl) {
+        return NextResponse.redirect(new URL(statusPagePath(state), request.url));
+      }
+
+      const sessionId = createSessionId();
+      const response = NextResponse.redirect(appendSessionParam(fallbackUrl, sessionId), 302);
+      const isInternal =
+        explicitTestFlag || (await isWorkspaceMemberClick(shortLink.workspaceId));
+      after(async () => {
+        try {
+          await recordClick({
+            shortLinkId: shortLink.id,
+            workspaceId: shortLink.workspaceId,
+            sessionId,
+            variantId: null,
+            ruleId: null,
+            geoRouteId: null,
+            fallbackState: state,
+            ip: clientIp,
+            userAgent,
+            client,
+            botHeaders,
+            referrer,
+            referrerClass,
+            geo,
+            code,
+            isInternal,
+          });
+        } catch (err) {
+          console.error("Failed to record click:", err);
+        }
+      });
+      return response;
+    };
+
     // Check if link is active
     if (shortLink.status !== "ACTIVE") {
-      return NextResponse.redirect(new URL("/link-inactive", request.url));
+      return serveFallback("inactive");
     }
 
     // Scheduled activation — link hasn't gone live yet
     if (shortLink.startsAt && new Date() < shortLink.startsAt) {
-      return NextResponse.redirect(new URL("/link-not-yet-active", request.url));
+      return serveFallback("not-yet-active");
     }
 
     // Check expiration
     if (shortLink.expiresAt && new Date() > shortLink.expiresAt) {
-      return NextResponse.redirect(new URL("/link-expired", request.url));
+      return serveFallback("expired");
     }
 
     // Check max clicks — reads the denormalized counter on the row we just
     // fetched, so this is O(1) instead of SELECT COUNT(*) on the clicks
     // table. The counter is incremented atomically in recordClick().
     if (shortLink.maxClicks && shortLink.clickCount >= shortLink.maxClicks) {
-      return NextResponse.redirect(new URL("/link-limit-reached", request.url));
+      return serveFallback("limit-reached");
     }
 
-    // Extract data before after() — headers are not available inside after()
-    const userAgent = headersList.get("user-agent");
-    const referrer = headersList.get("referer") || headersList.get("referrer");
-    const geo = getGeoFromHeaders(headersList);
-
     // ---- Internal click detection (pre-launch testing filter) ----
     // Two paths set isInternal=true:
     //   (1) Inbound URL has ?_test=1 — explicit test flag (from "測試短
@@ -160,34 +239,8 @@ export async function GET(
     //   (2) Authenticated workspace member is clicking their own link from
     //       the same browser as the dashboard. Catches "tested by clicking
     //       in /links list" without requiring an explicit flag.
-    const requestUrl = new URL(request.url);
-    const explicitTestFlag =
-      requestUrl.searchParams.get(TEST_FLAG_PARAM) === "1";
-
-    let isInternalClick = explicitTestFlag;
-    if (!isInternalClick && shortLink.workspaceId) {
-      // Only check session when the link belongs to a workspace — a
-      // legacy null-workspace link can't be matched to a member anyway.
-      // auth() reads the NextAuth cookie; on cross-domain (go.engenius.ai)
-      // the cookie may not be present, in which case session is null and
-      // we just skip — the explicit ?_test=1 path still works.
-      try {
-        const session = await auth();
-        if (session?.user?.id) {
-          const membership = await prisma.workspaceMember.findFirst({
-            where: {
-              userId: session.user.id,
-              workspaceId: shortLink.workspaceId,
-            },
-            select: { id: true },
-          });
-          if (membership) isInternalClick = true;
-        }
-      } catch {
-        // Auth lookup failure shouldn't block the redirect; treat as
-        // anonymous (= public click).
-      }
-    }
+    const isInternalClick =
+      explicitTestFlag || (await isWorkspaceMemberClick(shortLink.workspaceId));
 
     // Geo restriction — only IPs from allowedCountries pass through.
     // Empty array / null means no restriction. Uses the same geo data we'd
@@ -195,15 +248,56 @@ export async function GET(
     // is treated as not-allowed when a whitelist is configured.
     if (shortLink.allowedCountries.length > 0) {
       if (!geo.country || !shortLink.allowedCountries.includes(geo.country)) {
-        return NextResponse.redirect(new URL("/link-geo-blocked", request.url));
+        return serveFallback("geo-blocked");
+      }
+    }
+
+    // Password gate — visitors without a valid unlock cookie go to the
+    // interstitial, which posts to /api/unlock and then comes back here
+    // via ?next=. Checked after every other gate so nobody is asked for a
+    // password on a link that would be blocked anyway.
+    if (shortLink.password) {
+      const unlockCookie = request.cookies.get(unlockCookieName(shortLink.id))?.value;
+      if (!verifyUnlockToken(unlockCookie, shortLink.id, shortLink.password)) {
+        const lockedUrl = new URL("/link-locked", request.url);
+        lockedUrl.searchParams.set("l", shortLink.id);
+        lockedUrl.searchParams.set("next", requestUrl.pathname + requestUrl.search);
+        return NextResponse.redirect(lockedUrl);
       }
     }
 
+    // Device / OS routing runs before the A/B pick — "iOS → App Store"
+    // is a hard requirement, not something to split-test. A matched rule
+    // skips the variants entirely; rule ID is stamped onto the Click.
+    const matchedRule = matchDeviceRule(parseDeviceRules(shortLink.deviceRules), client);
+
+    // Geo-routing — country → regional destination, same geo lookup as
+    // the allowedCountries check above. Unlisted countries fall through
+    // to the variants / originalUrl default.
+    const matchedGeoRoute = matchedRule
+      ? null
+      : matchGeoRoute(parseGeoRoutes(shortLink.geoRoutes), geo.country);
+
     // A/B variant pick. Empty variants → fall back to originalUrl.
     // Variant ID is stamped onto the Click for later breakdown reports.
+    // Bandit modes need the per-variant conversion counts; those are
+    // cached briefly so a busy link doesn't re-aggregate on every click.
     const variants = parseVariants(shortLink.variants);
-    const chosenVariant = pickVariant(variants);
-    let rawDestination = chosenVariant?.url ?? shortLink.originalUrl;
+    let chosenVariant: LinkVariant | null = null;
+    if (!matchedRule && !matchedGeoRoute) {
+      chosenVariant =
+        shortLink.allocationMode === "FIXED" || variants.length < 2
+          ? pickVariant(variants)
+          : pickAllocatedVariant(
+              shortLink.allocationMode,
+              variants,
+              await cached(cacheKey("variant-stats", shortLink.id), 60, () =>
+                loadVariantStats(shortLink.id),
+              ),
+            );
+    }
+    let rawDestination =
+      matchedRule?.url ?? matchedGeoRoute?.url ?? chosenVariant?.url ?? primaryUrl;
 
     // Strip the test flag from the outgoing destination if present —
     // we don't want it leaking into landing pages or downstream
@@ -233,26 +327,31 @@ export async function GET(
 
     // Record click AFTER the response is sent using Next.js after() API
     // This is guaranteed to complete on Vercel (unlike fire-and-forget)
-    if (!isBot(userAgent)) {
-      after(async () => {
-        try {
-          await recordClick({
-            shortLinkId: shortLink.id,
-            workspaceId: shortLink.workspaceId,
-            sessionId,
-            variantId: chosenVariant?.id ?? null,
-            ip: clientIp,
-            userAgent,
-            referrer,
-            geo,
-            code,
-            isInternal: isInternalClick,
-          });
-        } catch (err) {
-          console.error("Failed to record click:", err);
-        }
-      });
-    }
+    // Suspected bots are recorded too, with a bot score — see recordClick.
+    after(async () => {
+      try {
+        await recordClick({
+          shortLinkId: shortLink.id,
+          workspaceId: shortLink.workspaceId,
+          sessionId,
+          variantId: chosenVariant?.id ?? null,
+          ruleId: matchedRule?.id ?? null,
+          geoRouteId: matchedGeoRoute?.id ?? null,
+          fallbackState: null,
+          ip: clientIp,
+          userAgent,
+          client,
+          botHeaders,
+          referrer,
+          referrerClass,
+          geo,
+          code,
+          isInternal: isInternalClick,
+        });
+      } catch (err) {
+        console.error("Failed to record click:", err);
+      }
+    });
 
     return response;
   } catch (error) {
@@ -267,9 +366,15 @@ async function recordClick({
   workspaceId,
   sessionId,
   variantId,
+  ruleId,
+  geoRouteId,
+  fallbackState,
   ip,
   userAgent,
+  client,
+  botHeaders,
   referrer,
+  referrerClass,
   geo,
   code,
   isInternal,
@@ -278,10 +383,16 @@ async function recordClick({
   workspaceId: string | null;
   sessionId: string;
   variantId: string | null;
+  ruleId: string | null;
+  geoRouteId: string | null;
+  fallbackState: FallbackState | null;
   ip: string;
   userAgent: string | null;
+  client: ParsedUserAgent;
+  botHeaders: BotHeaders;
   referrer: string | null;
-  geo: { country: string | null; city: string | null };
+  referrerClass: ReferrerClass;
+  geo: GeoLocation;
   code: string;
   isInternal: boolean;
 }) {
@@ -312,36 +423,91 @@ async function recordClick({
     if (recentClick) return;
   }
 
-  const { device, os, browser } = parseUserAgent(userAgent);
-  if (!geo.country) {
+  // Velocity across all links — a crawler walking a list of short links
+  // is fast per IP but never trips the per-link dedup above.
+  const recentClicks = await prisma.click.count({
+    where: {
+      ipHash: ipHashed,
+      timestamp: { gte: new Date(Date.now() - VELOCITY_WINDOW_SECONDS * 1000) },
+    },
+  });
+  const bot = scoreBot({ userAgent, client, headers: botHeaders, recentClicks });
+  const likelyBot = bot.score >= BOT_SCORE_THRESHOLD;
+
+  if (!geo.country && !likelyBot) {
     console.warn(`[click] No geo data for code: ${code}`);
   }
 
-  // Insert the click + bump the denormalized counter in one transaction so
-  // they can't drift. Internal (test) clicks are recorded for forensic
-  // purposes but **don't** bump clickCount — that way the "Clicks" column
+  // Insert the click + bump the denormalized counter, the rollups and the
+  // visitor sketch in one transaction so they can't drift. Internal
+  // (test) clicks are recorded for forensic purposes but **don't** bump
+  // clickCount — that way the "Clicks" column
   // on /links matches what marketers actually care about (real traffic),
   // and maxClicks isn't burned through during pre-launch testing.
+  // Fallback clicks never reached the link's destination, and likely bots
+  // aren't real traffic, so neither counts. Fallback clicks stay out of
+  // the rollups and sketches too — analytics totals come from those.
+  const timestamp = new Date();
   const ops: Prisma.PrismaPromise<unknown>[] = [
     prisma.click.create({
       data: {
         shortLinkId,
+        timestamp,
         workspaceId: workspaceId ?? undefined,
         sessionId,
         variantId,
+        ruleId,
+        geoRouteId,
+        fallbackState,
         ipHash: ipHashed,
         userAgent,
         referrer: referrer || null,
-        device,
-        os,
-        browser,
+        referrerSource: referrerClass.source,
+        channel: referrerClass.channel,
+        device: client.device,
+        os: client.os,
+        osVersion: client.osVersion,
+        browser: client.browser,
+        browserVersion: client.browserVersion,
+        inApp: client.inApp,
         country: geo.country,
+        region: geo.region,
         city: geo.city,
+        asn: geo.asn,
+        asOrg: geo.asOrg,
         isInternal,
+        botScore: bot.score,
+        botSignals: bot.signals,
       },
     }),
   ];
-  if (!isInternal) {
+  if (!fallbackState) {
+    ops.push(
+      ...rollupClickOps({
+        shortLinkId,
+        workspaceId,
+        timestamp,
+        country: geo.country,
+        device: client.device,
+        referrer: referrer || null,
+        referrerSource: referrerClass.source,
+        channel: referrerClass.channel,
+        variantId,
+        isInternal,
+        isBot: likelyBot,
+      }),
+      visitorSketchOp({
+        shortLinkId,
+        workspaceId,
+        timestamp,
+        kind: "ip",
+        key: ipHashed,
+        isInternal,
+        isBot: likelyBot,
+      }),
+    );
+  }
+  if (!isInternal && !fallbackState && !likelyBot) {
     ops.push(
       prisma.shortLink.update({
         where: { id: shortLinkId },
@@ -15,6 +15,7 @@ import {
   Legend,
 } from "recharts";
 import { Lock, Loader2, AlertCircle, BarChart3 } from "lucide-react";
+import { overlayDailySeries } from "@/lib/date-ranges";
 
 interface ScopeDescriptor {
   type: "link" | "campaign" | "range";
@@ -23,6 +24,11 @@ interface ScopeDescriptor {
   shortLinkCreatedAt: string | null;
   campaignName: string | null;
   rangeWindow: string | null;
+  /** ISO — the range resolved at view time (null = all time) */
+  rangeStart?: string | null;
+  rangeEnd?: string | null;
+  /** IANA zone days are bucketed in (the workspace's) */
+  timeZone?: string;
 }
 
 interface AnalyticsData {
@@ -38,9 +44,41 @@ interface AnalyticsData {
     devices: { name: string; value: number }[];
     browsers: { name: string; value: number }[];
     countries: { name: string; value: number }[];
+    comparison?: {
+      mode: "previous" | "lastYear";
+      start: string;
+      end: string;
+      totalClicks: number;
+      clicksChange: number;
+      clicksByDay: { date: string; clicks: number }[];
+    } | null;
   };
 }
 
+const PRESET_LABELS: Record<string, string> = {
+  "24h": "Last 24 Hours",
+  thisMonth: "This Month",
+  lastMonth: "Last Month",
+  thisQuarter: "This Quarter",
+  lastQuarter: "Last Quarter",
+  thisYear: "This Year",
+  campaign: "Campaign Lifetime",
+};
+
+const COMPARE_LABELS = {
+  previous: "vs previous period",
+  lastYear: "vs same period last year",
+};
+
+function formatDay(iso: string, timeZone?: string) {
+  return new Date(iso).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone,
+  });
+}
+
 function describeScope(scope?: ScopeDescriptor, fallback?: AnalyticsData["link"]) {
   if (!scope) {
     return {
@@ -50,8 +88,10 @@ function describeScope(scope?: ScopeDescriptor, fallback?: AnalyticsData["link"]
   }
 
   const rangeLabel = scope.rangeWindow
-    ? `Last ${scope.rangeWindow.replace("d", " days")}`
-    : "All time";
+    ? (PRESET_LABELS[scope.rangeWindow] ?? `Last ${scope.rangeWindow.replace("d", " days")}`)
+    : scope.rangeStart && scope.rangeEnd
+      ? `${formatDay(scope.rangeStart, scope.timeZone)} – ${formatDay(scope.rangeEnd, scope.timeZone)}`
+      : "All time";
 
   if (scope.type === "link") {
     return {
@@ -185,13 +225,27 @@ export default function SharedReportPage({
 
   if (!data) return null;
 
-  const formattedClicksByDay = data.analytics.clicksByDay.map((d) => ({
-    ...d,
-    date: new Date(d.date).toLocaleDateString("en-US", {
+  const comparison = data.analytics.comparison ?? null;
+  // Day keys are already in the report's zone — read them as UTC so the
+  // viewer's own zone can't shift them.
+  const chartDate = (date: string) =>
+    new Date(date).toLocaleDateString("en-US", {
       month: "short",
       day: "numeric",
-    }),
-  }));
+      timeZone: "UTC",
+    });
+  // With a comparison, days line up by offset (zero-filled) so the
+  // dashed line sits under the day it's compared with.
+  const formattedClicksByDay =
+    comparison && data.scope?.rangeStart && data.scope.rangeEnd
+      ? overlayDailySeries(
+          data.analytics.clicksByDay,
+          comparison.clicksByDay,
+          { start: new Date(data.scope.rangeStart), end: new Date(data.scope.rangeEnd) },
+          { start: new Date(comparison.start), end: new Date(comparison.end) },
+          data.scope.timeZone,
+        ).map((d) => ({ ...d, date: chartDate(d.date) }))
+      : data.analytics.clicksByDay.map((d) => ({ ...d, date: chartDate(d.date) }));
 
   return (
     <div className="min-h-screen bg-gray-50 py-8 px-4">
@@ -207,6 +261,9 @@ export default function SharedReportPage({
                   <h1 className="text-2xl font-bold text-gray-900">{desc.title}</h1>
                 </div>
                 <p className="text-gray-500">{desc.subtitle}</p>
+                {data.scope?.timeZone && (
+                  <p className="text-xs text-gray-400 mt-1">Times in {data.scope.timeZone}</p>
+                )}
               </>
             );
           })()}
@@ -218,6 +275,14 @@ export default function SharedReportPage({
           <p className="text-4xl font-bold text-gray-900">
             {data.analytics.totalClicks.toLocaleString()}
           </p>
+          {comparison && (
+            <p
+              className={`text-sm mt-1 ${comparison.clicksChange >= 0 ? "text-green-600" : "text-red-600"}`}
+            >
+              {comparison.clicksChange >= 0 ? "▲" : "▼"} {Math.abs(comparison.clicksChange)}%{" "}
+              {COMPARE_LABELS[comparison.mode]} ({comparison.totalClicks.toLocaleString()})
+            </p>
+          )}
         </div>
 
         {/* Clicks Over Time */}
@@ -235,10 +300,22 @@ export default function SharedReportPage({
                 <Line
                   type="monotone"
                   dataKey="clicks"
+                  name="Clicks"
                   stroke="#3b82f6"
                   strokeWidth={2}
                   dot={{ fill: "#3b82f6" }}
                 />
+                {comparison && (
+                  <Line
+                    type="monotone"
+                    dataKey="compareClicks"
+                    name={COMPARE_LABELS[comparison.mode]}
+                    stroke="#94a3b8"
+                    strokeWidth={2}
+                    strokeDasharray="5 4"
+                    dot={false}
+                  />
+                )}
               </LineChart>
             </ResponsiveContainer>
           ) : (
@@ -8,6 +8,12 @@
  *       Shortlink.convert({ event: 'purchase', value: 1990, currency: 'TWD', externalId: 'order_123' });
  *     </script>
  *
+ * Unique visitors: add `data-visitors` to the script tag and the snippet
+ * reports a first-party visitor id (random, kept in localStorage) for
+ * the click, so analytics can count people rather than IPs. Pages with
+ * their own user ids call `Shortlink.identify('user_42')` instead — the
+ * id is hashed server-side before it's stored.
+ *
  * Design notes:
  *   - Reads the session token from ?_sl= on first load, persists to
  *     sessionStorage so follow-up page navigations still attribute
@@ -23,8 +29,10 @@ import { NextResponse } from "next/server";
 const SNIPPET = `(function(){
   var SID_KEY = "_sl_sid";
   var ENDPOINT_KEY = "_sl_endpoint";
+  var VID_KEY = "_sl_vid";
   var sid = null;
   var endpoint = null;
+  var autoVisitor = false;
 
   // Resolve the endpoint from this script's own URL so the snippet works
   // no matter what domain it's hosted on.
@@ -34,6 +42,7 @@ const SNIPPET = `(function(){
       var src = scripts[i].src || "";
       if (src.indexOf("/track.js") !== -1) {
         endpoint = new URL(src).origin + "/api/track";
+        autoVisitor = scripts[i].hasAttribute("data-visitors");
         break;
       }
     }
@@ -64,10 +73,24 @@ const SNIPPET = `(function(){
     try { endpoint = sessionStorage.getItem(ENDPOINT_KEY); } catch (e) {}
   }
 
+  function post(path, payload) {
+    return fetch(endpoint + path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      credentials: "omit",
+      keepalive: true
+    })
+      .then(function(r) { return r.json().catch(function() { return { ok: r.ok }; }); })
+      .catch(function() { return { ok: false, reason: "network" }; });
+  }
+
+  function unavailable() {
+    return Promise.resolve({ ok: false, reason: !sid ? "no_session" : "no_endpoint" });
+  }
+
   function convert(data) {
-    if (!sid || !endpoint) {
-      return Promise.resolve({ ok: false, reason: !sid ? "no_session" : "no_endpoint" });
-    }
+    if (!sid || !endpoint) return unavailable();
     var payload = { sessionId: sid };
     if (data && typeof data === "object") {
       if (data.event) payload.eventName = String(data.event);
@@ -76,19 +99,31 @@ const SNIPPET = `(function(){
       if (data.externalId) payload.externalId = String(data.externalId);
       if (data.metadata && typeof data.metadata === "object") payload.metadata = data.metadata;
     }
-    return fetch(endpoint, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
-      credentials: "omit",
-      keepalive: true
-    })
-      .then(function(r) { return r.json().catch(function() { return { ok: r.ok }; }); })
-      .catch(function() { return { ok: false, reason: "network" }; });
+    return post("", payload);
+  }
+
+  // The page's own id, else a random one persisted across visits.
+  function visitorId(own) {
+    if (own) return String(own);
+    var vid = null;
+    try { vid = localStorage.getItem(VID_KEY); } catch (e) {}
+    if (!vid) {
+      vid = Date.now().toString(36) + Math.random().toString(36).slice(2, 12);
+      try { localStorage.setItem(VID_KEY, vid); } catch (e) {}
+    }
+    return vid;
   }
 
+  function identify(id) {
+    if (!sid || !endpoint) return unavailable();
+    return post("/visit", { sessionId: sid, visitorId: visitorId(id) });
+  }
+
+  if (autoVisitor && sid && endpoint) identify();
+
   window.Shortlink = window.Shortlink || {};
   window.Shortlink.convert = convert;
+  window.Shortlink.identify = identify;
   window.Shortlink.sessionId = function() { return sid; };
 })();
 `;
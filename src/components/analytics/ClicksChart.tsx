@@ -8,18 +8,25 @@ import {
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
+  Legend,
 } from "recharts";
 
 interface ClicksChartProps {
-  data: { date: string; clicks: number }[];
+  /** compareClicks: the comparison period's day at the same offset (see overlayDailySeries) */
+  data: { date: string; clicks: number; compareClicks?: number | null }[];
+  /** Legend names — the comparison line is only drawn with compareLabel */
+  clicksLabel?: string;
+  compareLabel?: string;
 }
 
-export function ClicksChart({ data }: ClicksChartProps) {
+export function ClicksChart({ data, clicksLabel = "clicks", compareLabel }: ClicksChartProps) {
   const formattedData = data.map((d) => ({
     ...d,
+    // YYYY-MM-DD keys, already in the reporting zone
     date: new Date(d.date).toLocaleDateString("en-US", {
       month: "short",
       day: "numeric",
+      timeZone: "UTC",
     }),
   }));
 
@@ -53,11 +60,25 @@ export function ClicksChart({ data }: ClicksChartProps) {
         <Line
           type="monotone"
           dataKey="clicks"
+          name={clicksLabel}
           stroke="#3b82f6"
           strokeWidth={2}
           dot={{ fill: "#3b82f6", strokeWidth: 2, r: 4 }}
           activeDot={{ r: 6, strokeWidth: 0 }}
         />
+        {compareLabel && (
+          <Line
+            type="monotone"
+            dataKey="compareClicks"
+            name={compareLabel}
+            stroke="#94a3b8"
+            strokeWidth={2}
+            strokeDasharray="5 4"
+            dot={false}
+            activeDot={{ r: 4, strokeWidth: 0 }}
+          />
+        )}
+        {compareLabel && <Legend wrapperStyle={{ fontSize: 12 }} />}
       </LineChart>
     </ResponsiveContainer>
   );
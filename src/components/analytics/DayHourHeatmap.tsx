@@ -5,12 +5,10 @@
  * shaded by click count. Marketers use this to find best send time
  * for EDM / social posts based on historical click patterns.
  *
- * Pure CSS grid (no recharts). Bucketing happens in compute.ts via
- * `new Date(timestamp).getDay()/.getHours()`, which uses the JS
- * runtime's local timezone — i.e. the **viewer's browser timezone**.
- * Single-region teams (everyone in Taipei) see consistent buckets;
- * a teammate viewing from another TZ would see clicks bucketed in
- * their own local hours. Acceptable trade-off for an internal tool.
+ * Pure CSS grid (no recharts). Bucketing happens in compute.ts, in the
+ * reporting time zone (workspace setting or the viewer's override) —
+ * not the browser's, so teammates in different countries see the same
+ * grid.
  */
 
 const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
@@ -1,5 +1,6 @@
 "use client";
 
+import type { ReactNode } from "react";
 import {
   PieChart,
   Pie,
@@ -11,7 +12,7 @@ import {
 
 interface PieChartProps {
   data: { name: string; value: number }[];
-  title: string;
+  title: ReactNode;
 }
 
 const COLORS = [
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { X, Link2, Copy, Check, Eye, EyeOff, Loader2, Share2, AlertCircle } from "lucide-react";
+import type { CompareMode, DateRange, RangePreset } from "@/lib/date-ranges";
 
 interface ShareModalProps {
     isOpen: boolean;
@@ -9,14 +10,22 @@ interface ShareModalProps {
     /** Scope selectors — pass at least one. */
     linkId?: string;
     campaignFilter?: string;
-    /** Range window string like "7d" / "30d". */
-    dateRange?: string;
+    /** Range preset like "7d" / "lastMonth"; "custom" shares customRange as fixed dates. */
+    dateRange?: RangePreset;
+    customRange?: DateRange;
+    /** Comparison period shown on the shared report. */
+    compare?: CompareMode | null;
 }
 
-/** Whitelist accepted by the backend so typos don't silently 400. */
-const ALLOWED_RANGE_WINDOWS = new Set(["7d", "14d", "30d", "90d"]);
-
-export function ShareModal({ isOpen, onClose, linkId, campaignFilter, dateRange }: ShareModalProps) {
+export function ShareModal({
+    isOpen,
+    onClose,
+    linkId,
+    campaignFilter,
+    dateRange,
+    customRange,
+    compare,
+}: ShareModalProps) {
     const [password, setPassword] = useState("");
     const [showPassword, setShowPassword] = useState(false);
     const [expiresInDays, setExpiresInDays] = useState("7");
@@ -26,16 +35,28 @@ export function ShareModal({ isOpen, onClose, linkId, campaignFilter, dateRange
     const [copied, setCopied] = useState(false);
     const [errorMsg, setErrorMsg] = useState<string | null>(null);
 
-    const normalisedRange = dateRange && ALLOWED_RANGE_WINDOWS.has(dateRange) ? dateRange : undefined;
-    const hasScope = Boolean(linkId || campaignFilter || normalisedRange);
+    // The backend refuses a campaign-lifetime range without a campaign and a
+    // custom range is sent as dates, so only pass what it will accept.
+    const rangeParams: Record<string, string> =
+        dateRange === "custom"
+            ? customRange
+                ? { rangeFrom: customRange.start.toISOString(), rangeTo: customRange.end.toISOString() }
+                : {}
+            : dateRange && (dateRange !== "campaign" || campaignFilter)
+                ? { rangeWindow: dateRange }
+                : {};
+    const hasRange = Object.keys(rangeParams).length > 0;
+    const hasScope = Boolean(linkId || campaignFilter || hasRange);
 
     const scopeLabel = linkId
         ? "this specific link"
         : campaignFilter
             ? `campaign "${campaignFilter}"`
-            : normalisedRange
-                ? `last ${normalisedRange}`
-                : "—";
+            : rangeParams.rangeWindow
+                ? `range ${rangeParams.rangeWindow}`
+                : customRange && hasRange
+                    ? `${customRange.start.toLocaleDateString()} – ${customRange.end.toLocaleDateString()}`
+                    : "—";
 
     const handleCreate = async () => {
         if (!hasScope) {
@@ -52,7 +73,8 @@ export function ShareModal({ isOpen, onClose, linkId, campaignFilter, dateRange
                 expiresAt: expiresAt.toISOString(),
                 ...(linkId && { shortLinkId: linkId }),
                 ...(campaignFilter && { campaignName: campaignFilter }),
-                ...(normalisedRange && { rangeWindow: normalisedRange }),
+                ...rangeParams,
+                ...(hasRange && compare && { compare }),
                 ...(password && { password }),
                 ...(maxViews && { maxViews: parseInt(maxViews) }),
             };
@@ -13,16 +13,21 @@ export type TrendState = "up" | "down" | "flat" | "new" | "dead" | "none";
  *
  * Callers should compute sparkline + trendPct + trendState upstream (the
  * API does this for the leaderboard; the detail page does it client-side
- * from raw clicks).
+ * from raw clicks). When the trend compares another pair of periods
+ * (e.g. window vs same window last year), pass `compareLabel` so the
+ * tooltip says so.
  */
 export function TrendCell({
   sparkline,
   trendPct,
   trendState,
+  compareLabel,
 }: {
   sparkline: number[];
   trendPct: number | null;
   trendState: TrendState;
+  /** Tooltip suffix, default "vs prev 7d" */
+  compareLabel?: string;
 }) {
   const w = 60;
   const h = 20;
@@ -75,7 +80,11 @@ export function TrendCell({
       </svg>
       <span
         title={
-          trendPct !== null ? `${trendPct.toFixed(1)}% vs prev 7d` : "last 7d vs prev 7d"
+          compareLabel
+            ? `${trendPct !== null ? `${trendPct.toFixed(1)}% ` : ""}${compareLabel}`
+            : trendPct !== null
+              ? `${trendPct.toFixed(1)}% vs prev 7d`
+              : "last 7d vs prev 7d"
         }
         style={{
           display: "inline-flex",
@@ -95,8 +104,9 @@ export function TrendCell({
 }
 
 /**
- * Pure helper: given last 7d and previous 7d click sums, classify the trend
- * into a discrete state + compute the % change. Keep side-effect-free so it
+ * Pure helper: given last 7d and previous 7d click sums (or any current /
+ * comparison pair), classify the trend into a discrete state + compute
+ * the % change. Keep side-effect-free so it
  * can be used in both client (raw clicks in useMemo) and server (aggregated
  * SQL) code paths.
  */
@@ -0,0 +1,119 @@
+"use client";
+
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { isReferrerChannel, type ReferrerChannel } from "@/lib/referrer-channels";
+import type { UtmMismatchResult } from "@/lib/utm-mismatch";
+
+interface UtmMismatchLink extends UtmMismatchResult {
+  id: string;
+  code: string;
+  title: string | null;
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+}
+
+interface UtmMismatchResponse {
+  days: number;
+  checked: number;
+  links: UtmMismatchLink[];
+}
+
+/**
+ * Links whose traffic disagrees with their UTM tags
+ * (/api/analytics/utm-mismatch). Scoped to one campaign on its detail
+ * page, where it only shows up when something is flagged; workspace-wide
+ * in Settings > UTM Rules, with an empty state.
+ */
+export function UtmMismatchList({ campaign }: { campaign?: string }) {
+  const t = useTranslations("utmMismatch");
+  const tAnalytics = useTranslations("analytics");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["utm-mismatch", campaign ?? null],
+    queryFn: async (): Promise<UtmMismatchResponse> => {
+      const params = new URLSearchParams();
+      if (campaign) params.set("campaign", campaign);
+      const response = await fetch(`/api/analytics/utm-mismatch?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to load UTM mismatches");
+      return response.json();
+    },
+  });
+
+  const links = data?.links ?? [];
+  if (campaign && links.length === 0) return null;
+
+  const channelLabel = (channel: string) =>
+    isReferrerChannel(channel) ? tAnalytics(`channelNames.${channel as ReferrerChannel}`) : channel;
+  const pct = (n: number) => Math.round(n * 100);
+
+  return (
+    <div
+      className="card card-padded"
+      style={links.length > 0 ? { borderColor: "#F5D9A8", background: "var(--warn-bg)" } : undefined}
+    >
+      <div className="section-title" style={links.length > 0 ? { color: "var(--warn-fg)" } : undefined}>
+        <AlertTriangle size={14} /> {t("title")}
+        {links.length > 0 && (
+          <span className="muted" style={{ fontWeight: 400, fontSize: 12 }}>
+            {t("count", { n: links.length })}
+          </span>
+        )}
+      </div>
+      <p className="section-sub">
+        {t(campaign ? "campaignHint" : "workspaceHint", { days: data?.days ?? 30 })}
+      </p>
+
+      {isLoading ? (
+        <div style={{ padding: 24, display: "grid", placeItems: "center" }}>
+          <Loader2 size={18} className="animate-spin" style={{ color: "var(--ink-500)" }} />
+        </div>
+      ) : links.length === 0 ? (
+        <p className="placeholder" style={{ textAlign: "center", padding: "16px 0", margin: 0 }}>
+          {t("empty", { n: data?.checked ?? 0 })}
+        </p>
+      ) : (
+        <div className="stack" style={{ gap: 10 }}>
+          {links.map((link) => {
+            // Same dimension the match was measured on.
+            const expected = link.expected.source ?? channelLabel(link.expected.channel);
+            const top = link.expected.source ? link.topSource : link.topChannel;
+            const topLabel = !top ? "" : link.expected.source ? top.name : channelLabel(top.name);
+            return (
+              <div key={link.id} className="row-between" style={{ gap: 12, flexWrap: "wrap" }}>
+                <div className="row" style={{ gap: 8, minWidth: 0, flexWrap: "wrap" }}>
+                  <Link
+                    href={`/links/${link.id}`}
+                    style={{ color: "var(--ink-100)", fontSize: 13, fontWeight: 500 }}
+                  >
+                    {link.title || link.code}
+                  </Link>
+                  {link.utmSource && <span className="pill pill-source">{link.utmSource}</span>}
+                  {link.utmMedium && <span className="pill pill-medium">{link.utmMedium}</span>}
+                  {!campaign && link.utmCampaign && (
+                    <Link
+                      href={`/campaigns/${encodeURIComponent(link.utmCampaign)}`}
+                      className="pill pill-campaign"
+                    >
+                      {link.utmCampaign}
+                    </Link>
+                  )}
+                </div>
+                <span style={{ fontSize: 12.5, color: "var(--ink-200)" }}>
+                  {top && t("observed", { pct: pct(top.clicks / link.classifiedClicks), name: topLabel })}
+                  <span className="muted">
+                    {" · "}
+                    {t("matchShare", { pct: pct(link.matchShare), expected })}
+                  </span>
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,562 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Pencil, Plus, Trash2, Upload, Wallet, X } from "lucide-react";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
+import { useToast } from "@/components/ui/Toast";
+import { COMMON_CURRENCIES, formatMoney, isCurrencyCode } from "@/lib/currency";
+import { formatRoas, type CostMetrics } from "@/lib/spend";
+
+interface SpendEntry {
+  id: string;
+  date: string;
+  amount: number;
+  currency: string;
+  source: string | null;
+  medium: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+interface ChannelRow extends CostMetrics {
+  source: string | null;
+  medium: string | null;
+  spend: number;
+  clicks: number;
+  conversions: number;
+  revenue: number;
+}
+
+interface SpendResponse {
+  currency: string;
+  /** Budget in `currency`; null when unset or without a rate */
+  budget: number | null;
+  budgetAmount: number | null;
+  budgetCurrency: string | null;
+  totals: Omit<ChannelRow, "source" | "medium">;
+  channels: ChannelRow[];
+  entries: SpendEntry[];
+  totalEntries: number;
+  unconvertedCurrencies: string[];
+}
+
+interface ImportResult {
+  total: number;
+  saved: number;
+  failed: number;
+  results: ({ row: number; ok: true } | { row: number; ok: false; error: string })[];
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyEntry = () => ({ date: today(), amount: "", currency: "", source: "", medium: "", note: "" });
+
+/**
+ * Campaign page: budget, spend entries (added one at a time or uploaded
+ * as CSV) and the cost metrics they give — CPC, cost per conversion and
+ * ROAS, for the whole campaign and per channel (src/lib/spend.ts).
+ */
+export function CampaignSpendCard({ campaignName }: { campaignName: string }) {
+  const t = useTranslations("spend");
+  const qc = useQueryClient();
+  const { hasPermission } = useWorkspace();
+  const { success, error: toastError } = useToast();
+  const canManage = hasPermission("manage");
+  const fileInput = useRef<HTMLInputElement>(null);
+  const queryKey = ["campaign-spend", campaignName] as const;
+  const baseUrl = `/api/utm-campaigns/${encodeURIComponent(campaignName)}`;
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<SpendResponse> => {
+      const response = await fetch(`${baseUrl}/spend`);
+      if (!response.ok) throw new Error("Failed to load campaign spend");
+      return response.json();
+    },
+  });
+
+  const [editingBudget, setEditingBudget] = useState(false);
+  const [budgetDraft, setBudgetDraft] = useState({ amount: "", currency: "" });
+  const [isSavingBudget, setIsSavingBudget] = useState(false);
+  const [newEntry, setNewEntry] = useState(emptyEntry);
+  const [isAdding, setIsAdding] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const currency = data?.currency ?? "";
+  const money = (value: number | null) => (value !== null ? formatMoney(value, currency) : "—");
+
+  // Spend feeds the leaderboard and compare page too.
+  const refresh = async () => {
+    await qc.invalidateQueries({ queryKey });
+    qc.invalidateQueries({ queryKey: ["campaigns-summary"], refetchType: "all" });
+  };
+
+  const saveBudget = async (budget: number | null) => {
+    const budgetCurrency = budgetDraft.currency.trim().toUpperCase() || currency;
+    if (budget !== null && (!(budget >= 0) || !isCurrencyCode(budgetCurrency))) {
+      toastError(t("invalidBudget"));
+      return;
+    }
+    setIsSavingBudget(true);
+    try {
+      const response = await fetch(baseUrl, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ budget, budgetCurrency: budget === null ? null : budgetCurrency }),
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || "Failed to save budget");
+      setEditingBudget(false);
+      await refresh();
+      success(budget === null ? t("budgetRemoved") : t("budgetSaved"));
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : "Failed to save budget");
+    } finally {
+      setIsSavingBudget(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number(newEntry.amount);
+    const entryCurrency = newEntry.currency.trim().toUpperCase();
+    if (!(amount > 0) || (entryCurrency && !isCurrencyCode(entryCurrency))) {
+      toastError(t("invalidEntry"));
+      return;
+    }
+    setIsAdding(true);
+    try {
+      const response = await fetch(`${baseUrl}/spend`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          date: newEntry.date,
+          amount,
+          currency: entryCurrency || undefined,
+          source: newEntry.source.trim() || null,
+          medium: newEntry.medium.trim() || null,
+          note: newEntry.note.trim() || null,
+        }),
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || "Failed to add spend");
+      // Keep date and channel — entries usually come in runs.
+      setNewEntry({ ...newEntry, amount: "", note: "" });
+      await refresh();
+      success(t("entryAdded"));
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : "Failed to add spend");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    setImportResult(null);
+    try {
+      const fd = new FormData();
+      fd.append("file", file);
+      const response = await fetch(`${baseUrl}/spend/import`, { method: "POST", body: fd });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || "Import failed");
+      setImportResult(body as ImportResult);
+      if (body.saved > 0) await refresh();
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setIsImporting(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const handleDelete = async (entry: SpendEntry) => {
+    if (!confirm(t("deleteConfirm", { amount: formatMoney(entry.amount, entry.currency), date: entry.date }))) {
+      return;
+    }
+    setDeletingId(entry.id);
+    try {
+      const response = await fetch(`${baseUrl}/spend?spendId=${entry.id}`, { method: "DELETE" });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || "Failed to delete spend");
+      await refresh();
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : "Failed to delete spend");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const channelLabel = (c: { source: string | null; medium: string | null }) =>
+    c.source === null && c.medium === null
+      ? t("wholeCampaign")
+      : `${c.source ?? t("anySource")} / ${c.medium ?? t("anyMedium")}`;
+
+  if (isLoading || !data) {
+    return (
+      <div className="card card-padded" style={{ marginBottom: 14, display: "grid", placeItems: "center" }}>
+        <Loader2 size={18} className="animate-spin" style={{ color: "var(--ink-500)" }} />
+      </div>
+    );
+  }
+
+  const { totals } = data;
+  const budgetPct = data.budget ? (totals.spend / data.budget) * 100 : null;
+  const failedRows = importResult?.results.filter((r) => !r.ok) ?? [];
+
+  return (
+    <div className="card card-padded" style={{ marginBottom: 14 }}>
+      <datalist id="spend-currency-codes">
+        {COMMON_CURRENCIES.map((code) => (
+          <option key={code} value={code} />
+        ))}
+      </datalist>
+
+      <div className="row-between" style={{ marginBottom: 4 }}>
+        <div className="section-title">
+          <Wallet size={14} style={{ color: "var(--data-emerald)" }} />
+          {t("title")}
+        </div>
+        {canManage && (
+          <>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,text/csv"
+              style={{ display: "none" }}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+              }}
+            />
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => fileInput.current?.click()}
+              disabled={isImporting}
+            >
+              {isImporting ? <Loader2 size={12} className="animate-spin" /> : <Upload size={12} />}
+              {t("uploadCsv")}
+            </button>
+          </>
+        )}
+      </div>
+      <p className="section-sub">{t("description", { currency })}</p>
+
+      {/* Budget */}
+      <div className="row-between" style={{ marginBottom: 12, gap: 8 }}>
+        {editingBudget ? (
+          <div className="row" style={{ gap: 8 }}>
+            <input
+              className="input"
+              type="number"
+              step="any"
+              min="0"
+              value={budgetDraft.amount}
+              onChange={(e) => setBudgetDraft({ ...budgetDraft, amount: e.target.value })}
+              placeholder={t("budget")}
+              style={{ width: 140, height: 32 }}
+              autoFocus
+            />
+            <input
+              className="input"
+              list="spend-currency-codes"
+              value={budgetDraft.currency}
+              onChange={(e) =>
+                setBudgetDraft({ ...budgetDraft, currency: e.target.value.toUpperCase().slice(0, 3) })
+              }
+              placeholder={currency}
+              style={{ width: 80, height: 32, fontFamily: "var(--font-mono)" }}
+            />
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={() => saveBudget(Number(budgetDraft.amount))}
+              disabled={!budgetDraft.amount || isSavingBudget}
+            >
+              {isSavingBudget && <Loader2 size={12} className="animate-spin" />}
+              {t("save")}
+            </button>
+            <button type="button" className="btn btn-secondary" onClick={() => setEditingBudget(false)}>
+              {t("cancel")}
+            </button>
+          </div>
+        ) : (
+          <div style={{ fontSize: 12.5 }}>
+            <span className="muted">{t("budget")}: </span>
+            {data.budgetAmount !== null && data.budgetCurrency ? (
+              <span style={{ fontFamily: "var(--font-mono)" }}>
+                {formatMoney(data.budgetAmount, data.budgetCurrency)}
+                {data.budgetCurrency !== currency && data.budget !== null && (
+                  <span className="muted"> ≈ {money(data.budget)}</span>
+                )}
+              </span>
+            ) : (
+              <span className="muted">{t("noBudget")}</span>
+            )}
+          </div>
+        )}
+        {canManage && !editingBudget && (
+          <div className="row" style={{ gap: 4 }}>
+            {data.budgetAmount !== null && (
+              <button
+                type="button"
+                className="btn btn-ghost"
+                style={{ padding: "4px 6px" }}
+                onClick={() => saveBudget(null)}
+                disabled={isSavingBudget}
+                title={t("removeBudget")}
+              >
+                <X size={13} />
+              </button>
+            )}
+            <button
+              type="button"
+              className="btn btn-ghost"
+              style={{ padding: "4px 6px" }}
+              onClick={() => {
+                setBudgetDraft({
+                  amount: data.budgetAmount !== null ? String(data.budgetAmount) : "",
+                  currency: data.budgetCurrency ?? "",
+                });
+                setEditingBudget(true);
+              }}
+              title={t("editBudget")}
+            >
+              <Pencil size={13} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {budgetPct !== null && (
+        <div style={{ marginBottom: 14 }}>
+          <div className="goal-progress">
+            <div
+              style={{
+                width: `${Math.min(budgetPct, 100)}%`,
+                background: budgetPct > 100 ? "var(--warn-fg)" : undefined,
+              }}
+            />
+          </div>
+          <div className="row-between" style={{ marginTop: 4, fontSize: 11.5 }}>
+            <span style={{ color: budgetPct > 100 ? "var(--warn-fg)" : "var(--ink-500)" }}>
+              {t(budgetPct > 100 ? "overBudget" : "budgetUsed", { pct: budgetPct.toFixed(1) })}
+            </span>
+            <span className="muted">
+              {money(totals.spend)} / {money(data.budget)}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Totals */}
+      <div className="kpi-row" style={{ gridTemplateColumns: "repeat(4, 1fr)" }}>
+        <div className="kpi">
+          <div className="kpi-label">{t("spend")}</div>
+          <div className="kpi-value mono">{money(totals.spend)}</div>
+          <div className="kpi-sub">{t("entriesCount", { n: data.totalEntries })}</div>
+        </div>
+        <div className="kpi">
+          <div className="kpi-label">{t("cpc")}</div>
+          <div className="kpi-value mono">{money(totals.cpc)}</div>
+          <div className="kpi-sub">{t("clicksCount", { n: totals.clicks.toLocaleString() })}</div>
+        </div>
+        <div className="kpi">
+          <div className="kpi-label">{t("costPerConversion")}</div>
+          <div className="kpi-value mono">{money(totals.costPerConversion)}</div>
+          <div className="kpi-sub">
+            {t("conversionsCount", {
+              n: totals.conversions.toLocaleString(undefined, { maximumFractionDigits: 1 }),
+            })}
+          </div>
+        </div>
+        <div className="kpi">
+          <div className="kpi-label">{t("roas")}</div>
+          <div className="kpi-value mono">{totals.roas !== null ? formatRoas(totals.roas) : "—"}</div>
+          <div className="kpi-sub">{t("revenueValue", { value: money(totals.revenue) })}</div>
+        </div>
+      </div>
+
+      {data.unconvertedCurrencies.length > 0 && (
+        <p style={{ fontSize: 11.5, color: "var(--warn-fg)", margin: "0 0 12px" }}>
+          {t("unconvertedCurrencies", { currencies: data.unconvertedCurrencies.join(", "), currency })}
+        </p>
+      )}
+
+      {/* Per channel */}
+      {data.channels.length > 0 && (
+        <div className="table-scroll" style={{ marginBottom: 14 }}>
+          <table className="data">
+            <thead>
+              <tr>
+                <th title={t("channelTooltip")}>{t("channel")}</th>
+                <th className="num">{t("spend")}</th>
+                <th className="num">{t("clicks")}</th>
+                <th className="num">{t("conversions")}</th>
+                <th className="num">{t("revenue")}</th>
+                <th className="num">{t("cpc")}</th>
+                <th className="num">{t("costPerConversion")}</th>
+                <th className="num">{t("roas")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.channels.map((c) => (
+                <tr key={`${c.source ?? ""}/${c.medium ?? ""}`}>
+                  <td style={{ fontFamily: "var(--font-mono)", fontSize: 12 }}>{channelLabel(c)}</td>
+                  <td className="num">{money(c.spend)}</td>
+                  <td className="num">{c.clicks.toLocaleString()}</td>
+                  <td className="num">
+                    {c.conversions.toLocaleString(undefined, { maximumFractionDigits: 1 })}
+                  </td>
+                  <td className="num">{money(c.revenue)}</td>
+                  <td className="num">{money(c.cpc)}</td>
+                  <td className="num">{money(c.costPerConversion)}</td>
+                  <td className="num">{c.roas !== null ? formatRoas(c.roas) : "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {importResult && (
+        <div
+          className="card card-padded"
+          style={{
+            background: failedRows.length > 0 ? "var(--warn-bg)" : "var(--neutral-bg)",
+            color: failedRows.length > 0 ? "var(--warn-fg)" : undefined,
+            marginBottom: 12,
+            fontSize: 12.5,
+          }}
+        >
+          {t("importSummary", { saved: importResult.saved, failed: importResult.failed })}
+          {failedRows.length > 0 && (
+            <ul style={{ margin: "6px 0 0", paddingLeft: 18 }}>
+              {failedRows.slice(0, 10).map((r) => (
+                <li key={r.row}>
+                  {t("importRow", { row: r.row })}: {"error" in r ? r.error : ""}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {canManage && (
+        <form onSubmit={handleAdd} className="row" style={{ gap: 8, marginBottom: 12, flexWrap: "wrap" }}>
+          <input
+            className="input"
+            type="date"
+            value={newEntry.date}
+            onChange={(e) => setNewEntry({ ...newEntry, date: e.target.value })}
+            required
+          />
+          <input
+            className="input"
+            type="number"
+            step="any"
+            min="0"
+            value={newEntry.amount}
+            onChange={(e) => setNewEntry({ ...newEntry, amount: e.target.value })}
+            placeholder={t("amount")}
+            style={{ width: 120 }}
+            required
+          />
+          <input
+            className="input"
+            list="spend-currency-codes"
+            value={newEntry.currency}
+            onChange={(e) =>
+              setNewEntry({ ...newEntry, currency: e.target.value.toUpperCase().slice(0, 3) })
+            }
+            placeholder={currency}
+            style={{ width: 80, fontFamily: "var(--font-mono)" }}
+          />
+          <input
+            className="input"
+            value={newEntry.source}
+            onChange={(e) => setNewEntry({ ...newEntry, source: e.target.value })}
+            placeholder="utm_source"
+            style={{ width: 120 }}
+          />
+          <input
+            className="input"
+            value={newEntry.medium}
+            onChange={(e) => setNewEntry({ ...newEntry, medium: e.target.value })}
+            placeholder="utm_medium"
+            style={{ width: 120 }}
+          />
+          <input
+            className="input"
+            value={newEntry.note}
+            onChange={(e) => setNewEntry({ ...newEntry, note: e.target.value })}
+            placeholder={t("note")}
+            style={{ flex: 1, minWidth: 120 }}
+          />
+          <button type="submit" className="btn btn-secondary" disabled={isAdding}>
+            {isAdding ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />}
+            {t("addEntry")}
+          </button>
+        </form>
+      )}
+
+      {/* Entries */}
+      {data.entries.length === 0 ? (
+        <p className="placeholder" style={{ margin: 0 }}>
+          {t("empty")}
+        </p>
+      ) : (
+        <div className="table-scroll">
+          <table className="data">
+            <thead>
+              <tr>
+                <th>{t("date")}</th>
+                <th>{t("channel")}</th>
+                <th className="num">{t("amount")}</th>
+                <th>{t("note")}</th>
+                {canManage && <th />}
+              </tr>
+            </thead>
+            <tbody>
+              {data.entries.map((entry) => (
+                <tr key={entry.id}>
+                  <td>{entry.date}</td>
+                  <td style={{ fontFamily: "var(--font-mono)", fontSize: 12 }}>{channelLabel(entry)}</td>
+                  <td className="num">{formatMoney(entry.amount, entry.currency)}</td>
+                  <td className="muted" style={{ fontSize: 12 }}>
+                    {entry.note ?? ""}
+                  </td>
+                  {canManage && (
+                    <td style={{ width: 36 }}>
+                      <button
+                        type="button"
+                        className="btn btn-ghost"
+                        onClick={() => handleDelete(entry)}
+                        disabled={deletingId === entry.id}
+                        title={t("delete")}
+                      >
+                        {deletingId === entry.id ? (
+                          <Loader2 size={12} className="animate-spin" />
+                        ) : (
+                          <Trash2 size={12} />
+                        )}
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className="section-sub" style={{ marginTop: 10, marginBottom: 0 }}>
+        {t("csvHint")}
+      </p>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { useTranslations } from "next-intl";
 import { UTM_MEDIUMS, getSourcesForMedium } from "@/lib/utils/utm";
 import { Loader2, Download, Check, Copy, ChevronDown } from "lucide-react";
 import { QRCodeCanvas } from "qrcode.react";
+import { useWorkspaceDomains } from "@/lib/hooks/useWorkspaceDomains";
+import { DEFAULT_SHORT_HOST_ID, shortUrlBase } from "@/lib/utils/short-url";
 
 interface CreatedLink {
   id: string;
@@ -17,6 +19,7 @@ interface CreatedLink {
 export function BatchCreateForm() {
   const t = useTranslations("utm");
   const tLinks = useTranslations("links");
+  const tDomains = useTranslations("domains");
 
   const [originalUrl, setOriginalUrl] = useState("");
   const [utmSource, setUtmSource] = useState("");
@@ -28,6 +31,11 @@ export function BatchCreateForm() {
   const [createdLinks, setCreatedLinks] = useState<CreatedLink[]>([]);
   const [copiedId, setCopiedId] = useState<string | null>(null);
 
+  // `null` = not picked yet, follow the workspace default domain.
+  const { domains, defaultDomain } = useWorkspaceDomains();
+  const [pickedDomainId, setPickedDomainId] = useState<string | null>(null);
+  const domainId = pickedDomainId ?? defaultDomain?.id ?? DEFAULT_SHORT_HOST_ID;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -59,6 +67,7 @@ export function BatchCreateForm() {
           utmMedium: utmMedium || undefined,
           utmCampaign: utmCampaign || undefined,
           contents: contentList,
+          domainId: pickedDomainId ?? undefined,
         }),
       });
 
@@ -222,6 +231,32 @@ export function BatchCreateForm() {
         />
       </div>
 
+      {/* Short domain — only shown once the workspace has custom domains */}
+      {domains.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">
+            {tDomains("label")}
+          </label>
+          <div className="relative">
+            <select
+              value={domainId}
+              onChange={(e) => setPickedDomainId(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:ring-2 focus:ring-[#03A9F4] appearance-none bg-white"
+            >
+              <option value={DEFAULT_SHORT_HOST_ID}>
+                {tDomains("defaultHost")} ({shortUrlBase().replace(/^https?:\/\//, "")})
+              </option>
+              {domains.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.hostname}
+                </option>
+              ))}
+            </select>
+            <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" />
+          </div>
+        </div>
+      )}
+
       {/* UTM Parameters */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div>
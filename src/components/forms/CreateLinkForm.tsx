@@ -8,7 +8,11 @@ import { UTMBuilder } from "./UTMBuilder";
 import { Link2, ChevronDown, ChevronUp, Loader2, Settings2, Target, AlertCircle, CheckCircle, Tag, Check, X as XIcon } from "lucide-react";
 import { useDebounce } from "@/hooks/useDebounce";
 import { TagInput } from "@/components/tags/TagInput";
+import { GeoRoutesEditor, cleanGeoRoutes } from "./GeoRoutesEditor";
+import type { GeoRoute } from "@/lib/geo-routes";
 import { useToast } from "@/components/ui/Toast";
+import { useWorkspaceDomains } from "@/lib/hooks/useWorkspaceDomains";
+import { DEFAULT_SHORT_HOST_ID, shortUrlBase } from "@/lib/utils/short-url";
 
 interface TagOption {
   id: string;
@@ -23,6 +27,7 @@ interface FormData {
   redirectType: "PERMANENT" | "TEMPORARY";
   expiresAt: string;
   maxClicks: string;
+  password: string;
   utmSource: string;
   utmMedium: string;
   utmCampaign: string;
@@ -37,6 +42,7 @@ const initialFormData: FormData = {
   redirectType: "TEMPORARY",
   expiresAt: "",
   maxClicks: "",
+  password: "",
   utmSource: "",
   utmMedium: "",
   utmCampaign: "",
@@ -50,6 +56,7 @@ export function CreateLinkForm() {
   const tCommon = useTranslations("common");
   const tErrors = useTranslations("errors");
   const tUtm = useTranslations("utm");
+  const tDomains = useTranslations("domains");
   const toast = useToast();
   const qc = useQueryClient();
 
@@ -61,6 +68,14 @@ export function CreateLinkForm() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedTags, setSelectedTags] = useState<TagOption[]>([]);
+  const [geoRoutes, setGeoRoutes] = useState<GeoRoute[]>([]);
+
+  // Custom short domain. `null` until the user picks one, so the
+  // workspace default wins once the domains query lands and the request
+  // leaves domainId out; DEFAULT_SHORT_HOST_ID picks the default short host.
+  const { domains, defaultDomain } = useWorkspaceDomains();
+  const [pickedDomainId, setPickedDomainId] = useState<string | null>(null);
+  const domainId = pickedDomainId ?? defaultDomain?.id ?? DEFAULT_SHORT_HOST_ID;
 
   // Slug availability checker
   const debouncedCode = useDebounce(formData.customCode, 500);
@@ -72,7 +87,9 @@ export function CreateLinkForm() {
       return;
     }
     setCodeStatus("checking");
-    fetch(`/api/links/check-code?code=${encodeURIComponent(debouncedCode)}`)
+    const params = new URLSearchParams({ code: debouncedCode });
+    if (pickedDomainId) params.set("domainId", pickedDomainId);
+    fetch(`/api/links/check-code?${params}`)
       .then((r) => r.json())
       .then((data) => {
         if (data.available === true) setCodeStatus("available");
@@ -80,7 +97,7 @@ export function CreateLinkForm() {
         else setCodeStatus("taken");
       })
       .catch(() => setCodeStatus("idle"));
-  }, [debouncedCode]);
+  }, [debouncedCode, pickedDomainId]);
 
   // UTM governance — approved sources/mediums for the current workspace
   const [approvedSources, setApprovedSources] = useState<string[]>([]);
@@ -156,16 +173,19 @@ export function CreateLinkForm() {
       const payload = {
         originalUrl: formData.originalUrl,
         customCode: formData.customCode || undefined,
+        domainId: pickedDomainId ?? undefined,
         title: formData.title || undefined,
         redirectType: formData.redirectType,
         expiresAt: expiresAtISO,
         maxClicks: formData.maxClicks ? parseInt(formData.maxClicks) : undefined,
+        password: formData.password || undefined,
         utmSource: formData.utmSource || undefined,
         utmMedium: formData.utmMedium || undefined,
         utmCampaign: formData.utmCampaign || undefined,
         utmContent: formData.utmContent || undefined,
         utmTerm: formData.utmTerm || undefined,
         tags: selectedTags.length > 0 ? selectedTags.map((t) => t.id) : undefined,
+        geoRoutes: geoRoutes.length > 0 ? cleanGeoRoutes(geoRoutes) : undefined,
       };
 
       const response = await fetch("/api/links", {
@@ -237,9 +257,23 @@ export function CreateLinkForm() {
           {t("customCode")}
         </label>
         <div className="flex items-center gap-3">
-          <span className="text-slate-400 text-sm bg-slate-100 px-3 py-2 rounded-lg whitespace-nowrap">
-            {process.env.NEXT_PUBLIC_SHORT_URL || "domain.com"}/s/
-          </span>
+          {domains.length > 0 ? (
+            <select
+              value={domainId}
+              onChange={(e) => { setPickedDomainId(e.target.value); setCodeStatus("idle"); }}
+              aria-label={tDomains("label")}
+              className="text-slate-600 text-sm bg-slate-100 px-3 py-2 rounded-lg border-0 focus:ring-2 focus:ring-[#03A9F4]"
+            >
+              <option value={DEFAULT_SHORT_HOST_ID}>{shortUrlBase().replace(/^https?:\/\//, "")}/</option>
+              {domains.map((d) => (
+                <option key={d.id} value={d.id}>{d.hostname}/</option>
+              ))}
+            </select>
+          ) : (
+            <span className="text-slate-400 text-sm bg-slate-100 px-3 py-2 rounded-lg whitespace-nowrap">
+              {process.env.NEXT_PUBLIC_SHORT_URL || "domain.com"}/s/
+            </span>
+          )}
           <div className="flex-1 relative">
             <input
               type="text"
@@ -477,6 +511,33 @@ export function CreateLinkForm() {
                 className="w-full px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-[#03A9F4] focus:border-[#03A9F4] transition-all duration-200 placeholder:text-slate-400"
               />
             </div>
+
+            {/* Password */}
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-2">
+                {t("password")}
+              </label>
+              <input
+                type="password"
+                value={formData.password}
+                onChange={(e) => handleChange("password", e.target.value)}
+                placeholder={t("noPassword")}
+                autoComplete="new-password"
+                minLength={4}
+                maxLength={100}
+                className="w-full px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-[#03A9F4] focus:border-[#03A9F4] transition-all duration-200 placeholder:text-slate-400"
+              />
+              <p className="mt-2 text-xs text-slate-500">{t("passwordDesc")}</p>
+            </div>
+
+            {/* Geo routing */}
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-1">
+                {t("geoRoutes")}
+              </label>
+              <p className="mb-3 text-xs text-slate-500">{t("geoRoutesDesc")}</p>
+              <GeoRoutesEditor routes={geoRoutes} onChange={setGeoRoutes} />
+            </div>
           </div>
         )}
       </div>
@@ -0,0 +1,62 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { FALLBACK_STATES, type FallbackState, type FallbackUrls } from "@/lib/fallbacks";
+
+/** "links" namespace label key for each state — shared with analytics. */
+export const FALLBACK_STATE_LABEL_KEYS: Record<FallbackState, string> = {
+  inactive: "fallbackInactive",
+  "not-yet-active": "fallbackNotYetActive",
+  expired: "fallbackExpired",
+  "limit-reached": "fallbackLimitReached",
+  "geo-blocked": "fallbackGeoBlocked",
+};
+
+interface FallbackUrlsEditorProps {
+  value: FallbackUrls;
+  onChange: (value: FallbackUrls) => void;
+  /** Shown in empty fields — what happens when no URL is set. */
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Drop blank / malformed entries before sending — the API rejects the
+ * whole save on one bad URL.
+ */
+export function cleanFallbackUrls(value: FallbackUrls): FallbackUrls {
+  const out: FallbackUrls = {};
+  for (const state of FALLBACK_STATES) {
+    const url = value[state]?.trim();
+    if (!url) continue;
+    try {
+      new URL(url);
+      out[state] = url;
+    } catch {
+      // skip
+    }
+  }
+  return out;
+}
+
+export function FallbackUrlsEditor({ value, onChange, placeholder, disabled }: FallbackUrlsEditorProps) {
+  const t = useTranslations("links");
+
+  return (
+    <div className="space-y-2">
+      {FALLBACK_STATES.map((state) => (
+        <div key={state} className="flex items-center gap-3">
+          <label className="w-36 shrink-0 text-sm text-slate-600">{t(FALLBACK_STATE_LABEL_KEYS[state])}</label>
+          <input
+            type="url"
+            value={value[state] ?? ""}
+            onChange={(e) => onChange({ ...value, [state]: e.target.value })}
+            placeholder={placeholder ?? t("fallbackPlaceholder")}
+            disabled={disabled}
+            className="flex-1 min-w-0 px-3 py-2 text-sm border border-slate-200 rounded-lg bg-white focus:ring-1 focus:ring-[#03A9F4] focus:border-[#03A9F4] placeholder:text-slate-400 disabled:bg-slate-50 disabled:text-slate-500"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Trash2 } from "lucide-react";
+import type { GeoRoute } from "@/lib/geo-routes";
+
+interface GeoRoutesEditorProps {
+  routes: GeoRoute[];
+  onChange: (routes: GeoRoute[]) => void;
+}
+
+// Countries are edited as one comma-separated field. Keeping the empty
+// trailing entry while typing ("TW, ") lets the comma survive the
+// split → join round-trip; cleanGeoRoutes() drops it on submit.
+function parseCountries(text: string): string[] {
+  return text
+    .split(",")
+    .map((c) => c.toUpperCase().replace(/[^A-Z]/g, "").slice(0, 2));
+}
+
+/**
+ * Drop half-filled rows before sending — a route needs at least one
+ * two-letter country and a valid URL, otherwise the API rejects the save.
+ */
+export function cleanGeoRoutes(routes: GeoRoute[]): GeoRoute[] {
+  return routes
+    .map((r) => ({
+      id: r.id || `g_${Math.random().toString(36).slice(2, 8)}`,
+      countries: Array.from(new Set(r.countries.filter((c) => /^[A-Z]{2}$/.test(c)))),
+      url: r.url.trim(),
+      ...(r.label && r.label.trim() ? { label: r.label.trim() } : {}),
+    }))
+    .filter((r) => {
+      if (r.countries.length === 0) return false;
+      try {
+        new URL(r.url);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+}
+
+export function GeoRoutesEditor({ routes, onChange }: GeoRoutesEditorProps) {
+  const t = useTranslations("links");
+
+  const update = (idx: number, patch: Partial<GeoRoute>) =>
+    onChange(routes.map((r, i) => (i === idx ? { ...r, ...patch } : r)));
+
+  return (
+    <div className="space-y-3">
+      {routes.length === 0 ? (
+        <p className="text-xs text-slate-400 italic">{t("geoRoutesEmpty")}</p>
+      ) : (
+        <div className="space-y-2">
+          {routes.map((r, idx) => (
+            <div
+              key={r.id || idx}
+              className="flex items-center gap-2 p-3 bg-slate-50/70 border border-slate-200 rounded-lg"
+            >
+              <input
+                type="text"
+                value={r.countries.join(", ")}
+                onChange={(e) => update(idx, { countries: parseCountries(e.target.value) })}
+                placeholder="TW, HK"
+                aria-label={t("geoRouteCountries")}
+                className="w-28 px-2 py-1.5 text-sm font-mono uppercase border border-slate-200 rounded bg-white focus:ring-1 focus:ring-[#03A9F4] focus:border-[#03A9F4]"
+              />
+              <input
+                type="url"
+                value={r.url}
+                onChange={(e) => update(idx, { url: e.target.value })}
+                placeholder="https://example.com/tw/store"
+                aria-label={t("geoRouteUrl")}
+                className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-slate-200 rounded bg-white focus:ring-1 focus:ring-[#03A9F4] focus:border-[#03A9F4]"
+              />
+              <input
+                type="text"
+                value={r.label ?? ""}
+                onChange={(e) => update(idx, { label: e.target.value })}
+                placeholder={t("geoRouteLabel")}
+                className="w-32 px-2 py-1.5 text-sm border border-slate-200 rounded bg-white focus:ring-1 focus:ring-[#03A9F4] focus:border-[#03A9F4]"
+              />
+              <button
+                type="button"
+                onClick={() => onChange(routes.filter((_, i) => i !== idx))}
+                className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                aria-label={t("geoRouteRemove")}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={() =>
+          onChange([
+            ...routes,
+            { id: `g_${Math.random().toString(36).slice(2, 8)}`, countries: [], url: "", label: "" },
+          ])
+        }
+        className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors"
+      >
+        + {t("geoRouteAdd")}
+      </button>
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ import {
   BookOpen,
   ExternalLink,
   HelpCircle,
+  Filter,
 } from "lucide-react";
 import { useState } from "react";
 import { WorkspaceSwitcher } from "../workspace/WorkspaceSwitcher";
@@ -50,6 +51,7 @@ export function Sidebar({ userRole, userName, userImage }: SidebarProps) {
     { href: "/campaigns", labelKey: "campaigns", icon: <Megaphone size={15} /> },
     { href: "/links", labelKey: "links", icon: <Link2 size={15} /> },
     { href: "/analytics", labelKey: "analytics", icon: <BarChart3 size={15} /> },
+    { href: "/funnels", labelKey: "funnels", icon: <Filter size={15} /> },
     { href: "/templates", labelKey: "templates", icon: <FileText size={15} /> },
     {
       href: "/audit-log",
@@ -0,0 +1,188 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, Trophy } from "lucide-react";
+import {
+  CONFIDENCE_LEVELS,
+  type ExperimentReport as Report,
+  type ExperimentSettings,
+} from "@/lib/experiments";
+import type { AllocationMode } from "@prisma/client";
+
+export const ALLOCATION_MODE_LABELS: Record<AllocationMode, string> = {
+  FIXED: "Fixed weights",
+  THOMPSON: "Thompson sampling",
+  EPSILON_GREEDY: "Epsilon-greedy",
+};
+
+interface ExperimentResponse {
+  settings: ExperimentSettings;
+  report: Report;
+  allocationMode: AllocationMode;
+  /** Expected traffic share per variant ID under allocationMode. */
+  allocation: Record<string, number>;
+}
+
+interface ExperimentReportProps {
+  linkId: string;
+  settings: ExperimentSettings;
+  onSettingsChange: (settings: ExperimentSettings) => void;
+}
+
+export function experimentQueryKey(linkId: string) {
+  return ["link-experiment", linkId] as const;
+}
+
+const pct = (n: number, digits = 1) => `${(n * 100).toFixed(digits)}%`;
+
+/**
+ * Per-variant results for the link's A/B test, the current traffic
+ * allocation, and the auto-promote controls. Counts come from /api/links/[id]/experiment; settings are
+ * edited in place and saved with the rest of the link form.
+ */
+export function ExperimentReport({ linkId, settings, onSettingsChange }: ExperimentReportProps) {
+  const { data, isLoading, error } = useQuery<ExperimentResponse, Error>({
+    queryKey: experimentQueryKey(linkId),
+    queryFn: async () => {
+      const res = await fetch(`/api/links/${linkId}/experiment`);
+      if (!res.ok) throw new Error("Failed to load experiment report");
+      return res.json();
+    },
+  });
+
+  const report = data?.report;
+  const promoted = data?.settings.promotedVariantId
+    ? report?.rows.find((r) => r.id === data.settings.promotedVariantId)
+    : undefined;
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error.message}</p>
+      ) : report && report.rows.length > 0 ? (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-500 border-b border-slate-200">
+                  <th className="py-2 pr-3 font-medium">Variant</th>
+                  <th className="py-2 px-3 font-medium text-right">Allocation</th>
+                  <th className="py-2 px-3 font-medium text-right">Clicks</th>
+                  <th className="py-2 px-3 font-medium text-right">Conversions</th>
+                  <th className="py-2 px-3 font-medium text-right">CVR</th>
+                  <th className="py-2 px-3 font-medium text-right">95% CI</th>
+                  <th className="py-2 px-3 font-medium text-right">Lift vs control</th>
+                  <th className="py-2 pl-3 font-medium text-right">Confidence</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map((r, idx) => (
+                  <tr key={r.id} className={`border-b border-slate-100 ${r.weight === 0 ? "text-slate-400" : "text-slate-700"}`}>
+                    <td className="py-2 pr-3">
+                      <div className="flex items-center gap-1.5">
+                        {r.id === report.leaderId && r.weight > 0 && (
+                          <Trophy className="w-3.5 h-3.5 text-amber-500" />
+                        )}
+                        <span className="font-medium">{r.label}</span>
+                        {idx === 0 && <span className="text-xs text-slate-400">(control)</span>}
+                        {r.weight === 0 && <span className="text-xs text-slate-400">(paused)</span>}
+                      </div>
+                    </td>
+                    <td className="py-2 px-3 text-right tabular-nums">{pct(data?.allocation[r.id] ?? 0, 0)}</td>
+                    <td className="py-2 px-3 text-right tabular-nums">{r.clicks.toLocaleString()}</td>
+                    <td className="py-2 px-3 text-right tabular-nums">{r.conversions.toLocaleString()}</td>
+                    <td className="py-2 px-3 text-right tabular-nums">{r.clicks > 0 ? pct(r.cvr, 2) : "—"}</td>
+                    <td className="py-2 px-3 text-right tabular-nums text-xs text-slate-500">
+                      {r.clicks > 0 ? `${pct(r.ci[0])} – ${pct(r.ci[1])}` : "—"}
+                    </td>
+                    <td
+                      className={`py-2 px-3 text-right tabular-nums ${
+                        r.liftVsControl === null
+                          ? ""
+                          : r.liftVsControl >= 0
+                            ? "text-emerald-600"
+                            : "text-red-600"
+                      }`}
+                    >
+                      {r.liftVsControl === null
+                        ? "—"
+                        : `${r.liftVsControl >= 0 ? "+" : ""}${pct(r.liftVsControl)}`}
+                    </td>
+                    <td className="py-2 pl-3 text-right tabular-nums">
+                      {r.confidenceVsControl === null ? "—" : pct(r.confidenceVsControl)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-slate-500">
+            {data && `Allocation: ${ALLOCATION_MODE_LABELS[data.allocationMode]}. `}
+            {promoted
+              ? `"${promoted.label}" was auto-promoted${
+                  data?.settings.promotedAt
+                    ? ` on ${new Date(data.settings.promotedAt).toLocaleDateString()}`
+                    : ""
+                }; the other variants are paused (weight 0).`
+              : report.winnerId
+                ? `"${report.rows.find((r) => r.id === report.winnerId)?.label}" is the winner at ${pct(report.leaderConfidence ?? 0)} confidence.`
+                : !report.minSampleReached
+                  ? `Collecting data — every live variant needs ${settings.minClicksPerVariant.toLocaleString()} clicks before a winner can be called.`
+                  : `No significant difference yet${
+                      report.leaderConfidence !== null
+                        ? ` (leader at ${pct(report.leaderConfidence)} confidence)`
+                        : ""
+                    }.`}
+          </p>
+        </>
+      ) : (
+        <p className="text-xs text-slate-400 italic">No variant clicks recorded yet.</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 pt-3 border-t border-slate-100">
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={settings.autoPromote}
+            onChange={(e) => onSettingsChange({ ...settings, autoPromote: e.target.checked })}
+            className="rounded border-slate-300"
+          />
+          Auto-promote winner
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          at
+          <select
+            value={settings.confidence}
+            onChange={(e) => onSettingsChange({ ...settings, confidence: Number(e.target.value) })}
+            disabled={!settings.autoPromote}
+            className="px-2 py-1 text-sm border border-slate-200 rounded bg-white disabled:opacity-50"
+          >
+            {CONFIDENCE_LEVELS.map((c) => (
+              <option key={c} value={c}>{pct(c, 0)}</option>
+            ))}
+          </select>
+          confidence, min
+          <input
+            type="number"
+            min="10"
+            value={settings.minClicksPerVariant}
+            onChange={(e) =>
+              onSettingsChange({
+                ...settings,
+                minClicksPerVariant: Math.max(10, parseInt(e.target.value, 10) || 10),
+              })
+            }
+            disabled={!settings.autoPromote}
+            className="w-20 px-2 py-1 text-sm border border-slate-200 rounded bg-white text-center tabular-nums disabled:opacity-50"
+          />
+          clicks per variant
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useState, useMemo, type DragEvent } from "react";
+import { useTranslations } from "next-intl";
+import { Folder, FolderOpen, FolderPlus, Inbox, Layers, Pencil, Trash2 } from "lucide-react";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { useToast } from "@/components/ui/Toast";
+import { MAX_GROUP_DEPTH, flattenGroupTree } from "@/lib/link-groups";
+
+export interface LinkGroupOption {
+  id: string;
+  name: string;
+  color: string | null;
+  parentId: string | null;
+  _count: { links: number };
+}
+
+export const groupsQueryKey = ["link-groups"] as const;
+
+/** dataTransfer type carrying a JSON array of dragged link ids. */
+export const LINK_DRAG_TYPE = "application/x-shortlink-ids";
+
+/** Filter value for links that sit in no folder. */
+export const NO_GROUP = "__none__";
+
+interface LinkFolderPanelProps {
+  groups: LinkGroupOption[];
+  /** "" = all links, NO_GROUP = unfiled, otherwise a folder id. */
+  value: string;
+  onChange: (value: string) => void;
+  /** Links dropped on a folder (null = dropped on "Unfiled"). */
+  onMoveLinks: (ids: string[], groupId: string | null) => void;
+  /** Called after a folder was created, renamed or deleted. */
+  onChanged: () => void;
+}
+
+export function LinkFolderPanel({
+  groups,
+  value,
+  onChange,
+  onMoveLinks,
+  onChanged,
+}: LinkFolderPanelProps) {
+  const t = useTranslations("links");
+  const tCommon = useTranslations("common");
+  const { error: toastError } = useToast();
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<LinkGroupOption | null>(null);
+
+  const tree = useMemo(() => flattenGroupTree(groups), [groups]);
+
+  const request = async (url: string, init: RequestInit) => {
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        toastError(typeof body.error === "string" ? body.error : t("folderActionFailed"));
+        return null;
+      }
+      onChanged();
+      return await response.json();
+    } catch {
+      toastError(t("folderActionFailed"));
+      return null;
+    }
+  };
+
+  const createFolder = async (parentId: string | null) => {
+    const name = prompt(t(parentId ? "folderNewSub" : "folderNew"))?.trim();
+    if (!name) return;
+    const created = await request("/api/groups", {
+      method: "POST",
+      body: JSON.stringify({ name, parentId }),
+    });
+    if (created?.id) onChange(created.id);
+  };
+
+  const renameFolder = async (group: LinkGroupOption) => {
+    const name = prompt(t("folderRename"), group.name)?.trim();
+    if (!name || name === group.name) return;
+    await request(`/api/groups/${group.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ name }),
+    });
+  };
+
+  const executeDelete = async () => {
+    if (!deleteTarget) return;
+    const group = deleteTarget;
+    setDeleteTarget(null);
+    const result = await request(`/api/groups/${group.id}`, { method: "DELETE" });
+    if (result && value === group.id) onChange(group.parentId ?? "");
+  };
+
+  // Only link drags are accepted; anything else (text, files) falls through.
+  const dropProps = (target: string) => ({
+    onDragOver: (e: DragEvent) => {
+      if (!e.dataTransfer.types.includes(LINK_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+      if (dropTarget !== target) setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget((cur) => (cur === target ? null : cur)),
+    onDrop: (e: DragEvent) => {
+      setDropTarget(null);
+      const payload = e.dataTransfer.getData(LINK_DRAG_TYPE);
+      if (!payload) return;
+      e.preventDefault();
+      const ids = JSON.parse(payload) as string[];
+      if (ids.length > 0) onMoveLinks(ids, target === NO_GROUP ? null : target);
+    },
+  });
+
+  const itemStyle = (active: boolean, dropping: boolean, depth = 0) => ({
+    display: "flex",
+    alignItems: "center",
+    gap: 8,
+    width: "100%",
+    padding: "6px 8px",
+    paddingLeft: 8 + depth * 14,
+    fontSize: 12.5,
+    textAlign: "left" as const,
+    color: active ? "var(--brand-700)" : "var(--ink-300)",
+    fontWeight: active ? 600 : 400,
+    background: dropping ? "var(--brand-50)" : active ? "var(--bg-subtle)" : "transparent",
+    outline: dropping ? "1px dashed var(--brand-700)" : "none",
+    border: 0,
+    borderRadius: 6,
+    cursor: "pointer",
+  });
+
+  const countStyle = { marginLeft: "auto", fontSize: 11, color: "var(--ink-500)" };
+
+  return (
+    <div className="card" style={{ padding: 8 }}>
+      <ConfirmDialog
+        open={!!deleteTarget}
+        title={t("folderDeleteTitle", { name: deleteTarget?.name ?? "" })}
+        description={t("folderDeleteDescription")}
+        confirmLabel={tCommon("delete")}
+        cancelLabel={tCommon("cancel")}
+        onConfirm={executeDelete}
+        onCancel={() => setDeleteTarget(null)}
+        variant="danger"
+      />
+
+      <div
+        className="row"
+        style={{ justifyContent: "space-between", padding: "2px 4px 6px", alignItems: "center" }}
+      >
+        <span style={{ fontSize: 11, fontWeight: 600, color: "var(--ink-500)", textTransform: "uppercase" }}>
+          {t("folders")}
+        </span>
+        <button
+          className="btn btn-ghost"
+          onClick={() => createFolder(null)}
+          title={t("folderNew")}
+          aria-label={t("folderNew")}
+          style={{ height: 24, padding: "0 6px" }}
+        >
+          <FolderPlus size={13} />
+        </button>
+      </div>
+
+      <button style={itemStyle(value === "", false)} onClick={() => onChange("")}>
+        <Layers size={13} /> {t("folderAll")}
+      </button>
+      <button
+        style={itemStyle(value === NO_GROUP, dropTarget === NO_GROUP)}
+        onClick={() => onChange(NO_GROUP)}
+        {...dropProps(NO_GROUP)}
+      >
+        <Inbox size={13} /> {t("folderNone")}
+      </button>
+
+      {tree.map(({ group, depth }) => {
+        const active = value === group.id;
+        const Icon = active ? FolderOpen : Folder;
+        return (
+          <div key={group.id}>
+            <button
+              style={itemStyle(active, dropTarget === group.id, depth)}
+              onClick={() => onChange(group.id)}
+              {...dropProps(group.id)}
+            >
+              <Icon size={13} style={{ color: group.color || undefined, flexShrink: 0 }} />
+              <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                {group.name}
+              </span>
+              <span style={countStyle}>{group._count.links}</span>
+            </button>
+            {active && (
+              <div className="row" style={{ gap: 2, paddingLeft: 8 + depth * 14, paddingBottom: 4 }}>
+                {depth + 1 < MAX_GROUP_DEPTH && (
+                  <button
+                    className="btn btn-ghost"
+                    onClick={() => createFolder(group.id)}
+                    title={t("folderNewSub")}
+                    aria-label={t("folderNewSub")}
+                    style={{ height: 22, padding: "0 6px" }}
+                  >
+                    <FolderPlus size={12} />
+                  </button>
+                )}
+                <button
+                  className="btn btn-ghost"
+                  onClick={() => renameFolder(group)}
+                  title={t("folderRename")}
+                  aria-label={t("folderRename")}
+                  style={{ height: 22, padding: "0 6px" }}
+                >
+                  <Pencil size={12} />
+                </button>
+                <button
+                  className="btn btn-ghost"
+                  onClick={() => setDeleteTarget(group)}
+                  title={t("folderDelete")}
+                  aria-label={t("folderDelete")}
+                  style={{ height: 22, padding: "0 6px", color: "var(--err-fg)" }}
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {groups.length > 0 && (
+        <p className="muted" style={{ fontSize: 11, padding: "8px 6px 2px", margin: 0 }}>
+          {t("folderDropHint")}
+        </p>
+      )}
+    </div>
+  );
+}
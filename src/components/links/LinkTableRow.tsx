@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, type DragEvent } from "react";
 import { useTranslations } from "next-intl";
 import { QRCodeCanvas } from "qrcode.react";
 import {
@@ -55,6 +55,8 @@ interface LinkTableRowProps {
   onDelete?: (id: string) => void;
   onStatusChange?: (id: string, status: string) => void;
   onClone?: (id: string) => void;
+  /** Makes the row draggable (e.g. onto a link folder). */
+  onDragStart?: (id: string, e: DragEvent) => void;
 }
 
 export function LinkTableRow({
@@ -65,6 +67,7 @@ export function LinkTableRow({
   onDelete,
   onStatusChange,
   onClone,
+  onDragStart,
 }: LinkTableRowProps) {
   const t = useTranslations("links");
   const { success } = useToast();
@@ -143,7 +146,11 @@ export function LinkTableRow({
 
   return (
     <>
-      <tr className="group border-b border-slate-50 hover:bg-slate-50/50 transition-colors">
+      <tr
+        className="group border-b border-slate-50 hover:bg-slate-50/50 transition-colors"
+        draggable={!!onDragStart}
+        onDragStart={onDragStart ? (e) => onDragStart(link.id, e) : undefined}
+      >
         {/* Checkbox */}
         <td className="pl-4 pr-2 py-2 w-8">
           <button
@@ -0,0 +1,220 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowRight, History, Loader2, RotateCcw } from "lucide-react";
+import type { RevisionSource } from "@prisma/client";
+import type { RevisionChanges, RevisionField } from "@/lib/link-revisions";
+import type { LinkVariant } from "@/lib/variants";
+import { describeDeviceRule, type DeviceRule } from "@/lib/routing-rules";
+import { describeGeoRoute, type GeoRoute } from "@/lib/geo-routes";
+
+interface Revision {
+  id: string;
+  source: RevisionSource;
+  changes: RevisionChanges;
+  createdAt: string;
+  user: { id: string; name: string | null; email: string; image: string | null } | null;
+}
+
+interface RevisionHistoryProps {
+  linkId: string;
+  /** Called with the updated link after a successful rollback. */
+  onRolledBack: (link: unknown) => void;
+}
+
+export function revisionsQueryKey(linkId: string) {
+  return ["link-revisions", linkId] as const;
+}
+
+const FIELD_LABEL_KEYS: Record<RevisionField, string> = {
+  originalUrl: "originalUrl",
+  utmSource: "revisionFieldUtmSource",
+  utmMedium: "revisionFieldUtmMedium",
+  utmCampaign: "revisionFieldUtmCampaign",
+  utmContent: "revisionFieldUtmContent",
+  utmTerm: "revisionFieldUtmTerm",
+  variants: "revisionFieldVariants",
+  deviceRules: "revisionFieldDeviceRules",
+  geoRoutes: "geoRoutes",
+  allowedCountries: "revisionFieldAllowedCountries",
+  fallbackUrls: "fallbackUrls",
+  startsAt: "revisionFieldStartsAt",
+  expiresAt: "revisionFieldExpiresAt",
+  maxClicks: "revisionFieldMaxClicks",
+  scheduledUrl: "scheduledUrl",
+  scheduledUrlAt: "scheduledUrlAt",
+};
+
+const SOURCE_LABEL_KEYS: Record<RevisionSource, string> = {
+  INITIAL: "revisionInitial",
+  EDIT: "revisionEdit",
+  ROLLBACK: "revisionRollback",
+  SCHEDULED: "revisionScheduled",
+  AUTO_PROMOTE: "revisionAutoPromote",
+};
+
+const DATE_FIELDS: RevisionField[] = ["startsAt", "expiresAt", "scheduledUrlAt"];
+
+function formatValue(field: RevisionField, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "variants") {
+    const variants = value as LinkVariant[];
+    if (variants.length === 0) return "—";
+    return variants.map((v) => `${v.label || v.url} ×${v.weight}`).join(", ");
+  }
+  if (field === "deviceRules") {
+    const rules = value as DeviceRule[];
+    if (rules.length === 0) return "—";
+    return rules.map((r) => `${describeDeviceRule(r)} → ${r.url}`).join(", ");
+  }
+  if (field === "geoRoutes") {
+    const routes = value as GeoRoute[];
+    if (routes.length === 0) return "—";
+    return routes.map((r) => `${describeGeoRoute(r)} → ${r.url}`).join(", ");
+  }
+  if (field === "allowedCountries") {
+    const countries = value as string[];
+    return countries.length === 0 ? "—" : countries.join(", ");
+  }
+  if (field === "fallbackUrls") {
+    const entries = Object.entries(value as Record<string, string>);
+    if (entries.length === 0) return "—";
+    return entries.map(([state, url]) => `${state} → ${url}`).join(", ");
+  }
+  if (DATE_FIELDS.includes(field) && typeof value === "string") {
+    return new Date(value).toLocaleString();
+  }
+  return String(value);
+}
+
+/**
+ * Change history for a link's destination, UTM, variants, routing,
+ * fallbacks and limits, with a field-level diff per revision and
+ * one-click rollback. The newest row is the current state, so it has no
+ * rollback button.
+ */
+export function RevisionHistory({ linkId, onRolledBack }: RevisionHistoryProps) {
+  const t = useTranslations("links");
+  const qc = useQueryClient();
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<{ revisions: Revision[] }>({
+    queryKey: revisionsQueryKey(linkId),
+    queryFn: async () => {
+      const res = await fetch(`/api/links/${linkId}/revisions`);
+      if (!res.ok) throw new Error("Failed to load revisions");
+      return res.json();
+    },
+  });
+
+  const handleRollback = async (revision: Revision) => {
+    if (!confirm(t("revisionRollbackConfirm", { date: new Date(revision.createdAt).toLocaleString() }))) {
+      return;
+    }
+    setRollingBack(revision.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/links/${linkId}/revisions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ revisionId: revision.id }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(typeof body.error === "string" ? body.error : t("revisionRollbackFailed"));
+      }
+      onRolledBack(await res.json());
+      qc.invalidateQueries({ queryKey: revisionsQueryKey(linkId) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("revisionRollbackFailed"));
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  const revisions = data?.revisions ?? [];
+  if (revisions.length === 0) {
+    return <p className="text-xs text-slate-400 italic">{t("revisionsEmpty")}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <ol className="space-y-3">
+        {revisions.map((revision, idx) => {
+          const changed = Object.entries(revision.changes ?? {}) as [
+            RevisionField,
+            { from: unknown; to: unknown },
+          ][];
+          return (
+            <li key={revision.id} className="p-3 bg-slate-50/70 border border-slate-200 rounded-lg">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex items-center gap-2 text-sm">
+                  <History className="w-4 h-4 text-slate-400 shrink-0" />
+                  <span className="font-medium text-slate-700">{t(SOURCE_LABEL_KEYS[revision.source])}</span>
+                  <span className="text-slate-400">·</span>
+                  <span className="text-slate-500">
+                    {revision.user?.name || revision.user?.email || t("revisionSystem")}
+                  </span>
+                  <span className="text-slate-400">·</span>
+                  <span className="text-slate-500 tabular-nums">
+                    {new Date(revision.createdAt).toLocaleString()}
+                  </span>
+                  {idx === 0 && (
+                    <span className="px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wider bg-emerald-50 text-emerald-700 rounded">
+                      {t("revisionCurrent")}
+                    </span>
+                  )}
+                </div>
+                {idx > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => handleRollback(revision)}
+                    disabled={rollingBack !== null}
+                    className="shrink-0 inline-flex items-center gap-1.5 px-2.5 py-1 text-xs text-slate-600 border border-slate-200 rounded-lg bg-white hover:bg-slate-50 transition-colors disabled:opacity-50"
+                  >
+                    {rollingBack === revision.id ? (
+                      <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                    ) : (
+                      <RotateCcw className="w-3.5 h-3.5" />
+                    )}
+                    {t("revisionRollbackTo")}
+                  </button>
+                )}
+              </div>
+              {changed.length > 0 && (
+                <dl className="mt-2 space-y-1 text-xs">
+                  {changed.map(([field, { from, to }]) => (
+                    <div key={field} className="grid grid-cols-[8rem_1fr] gap-2">
+                      <dt className="text-slate-500">{t(FIELD_LABEL_KEYS[field])}</dt>
+                      <dd className="flex flex-wrap items-center gap-1.5 min-w-0">
+                        <span className="px-1.5 py-0.5 bg-red-50 text-red-700 rounded line-through break-all">
+                          {formatValue(field, from)}
+                        </span>
+                        <ArrowRight className="w-3 h-3 text-slate-400 shrink-0" />
+                        <span className="px-1.5 py-0.5 bg-emerald-50 text-emerald-700 rounded break-all">
+                          {formatValue(field, to)}
+                        </span>
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Coins, Loader2, Plus, Trash2, Upload } from "lucide-react";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
+import { useToast } from "@/components/ui/Toast";
+import { COMMON_CURRENCIES, isCurrencyCode } from "@/lib/currency";
+
+interface ExchangeRate {
+  id: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  date: string;
+  createdAt: string;
+}
+
+interface ExchangeRatesResponse {
+  reportingCurrency: string;
+  rates: ExchangeRate[];
+}
+
+interface ImportResult {
+  total: number;
+  saved: number;
+  failed: number;
+  results: ({ row: number; ok: true } | { row: number; ok: false; error: string })[];
+}
+
+const exchangeRatesQueryKey = (workspaceId: string | undefined) =>
+  ["exchange-rates", workspaceId ?? null] as const;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Settings > Currency: the reporting currency revenue is summed in and
+ * the exchange rates used to get there (src/lib/currency.ts), entered
+ * one at a time or uploaded as CSV.
+ */
+export function CurrencyTab() {
+  const { currentWorkspace, hasPermission } = useWorkspace();
+  const workspaceId = currentWorkspace?.id;
+  const t = useTranslations("currency");
+  const qc = useQueryClient();
+  const { success, error: toastError } = useToast();
+  const queryKey = exchangeRatesQueryKey(workspaceId);
+  const canManage = hasPermission("manage");
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<ExchangeRatesResponse> => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/exchange-rates`);
+      if (!response.ok) throw new Error("Failed to load exchange rates");
+      return response.json();
+    },
+    enabled: !!workspaceId,
+  });
+
+  // null = unchanged from the saved setting
+  const [currencyDraft, setCurrencyDraft] = useState<string | null>(null);
+  const [isSavingCurrency, setIsSavingCurrency] = useState(false);
+  const [newRate, setNewRate] = useState({ date: today(), baseCurrency: "", rate: "" });
+  const [isAdding, setIsAdding] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const reportingCurrency = data?.reportingCurrency ?? "";
+  const currency = currencyDraft ?? reportingCurrency;
+
+  // Revenue and spend everywhere depend on the currency and the rates.
+  const invalidateReports = () => {
+    qc.invalidateQueries({ queryKey: ["campaigns-summary"], refetchType: "all" });
+    qc.invalidateQueries({ queryKey: ["campaign-goal"], refetchType: "all" });
+    qc.invalidateQueries({ queryKey: ["campaign-spend"], refetchType: "all" });
+  };
+
+  const handleSaveCurrency = async () => {
+    if (!isCurrencyCode(currency)) {
+      toastError(t("invalidCurrency"));
+      return;
+    }
+    setIsSavingCurrency(true);
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reportingCurrency: currency }),
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || "Failed to save currency");
+      qc.setQueryData<ExchangeRatesResponse>(queryKey, (prev) =>
+        prev ? { ...prev, reportingCurrency: currency } : prev,
+      );
+      setCurrencyDraft(null);
+      invalidateReports();
+      success(t("currencySaved"));
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : "Failed to save currency");
+    } finally {
+      setIsSavingCurrency(false);
+    }
+  };
+
+  const handleAddRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const rate = Number(newRate.rate);
+    const baseCurrency = newRate.baseCurrency.trim().toUpperCase();
+    if (!isCurrencyCode(baseCurrency) || !(rate > 0)) {
+      toastError(t("invalidRate"));
+      return;
+    }
+    setIsAdding(true);
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/exchange-rates`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rates: [{ date: newRate.date, baseCurrency, quoteCurrency: reportingCurrency, rate }],
+        }),
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || "Failed to save rate");
+      setNewRate({ date: newRate.date, baseCurrency: "", rate: "" });
+      await qc.invalidateQueries({ queryKey });
+      invalidateReports();
+      success(t("rateSaved"));
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : "Failed to save rate");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    setImportResult(null);
+    try {
+      const fd = new FormData();
+      fd.append("file", file);
+      const response = await fetch(`/api/workspaces/${workspaceId}/exchange-rates/import`, {
+        method: "POST",
+        body: fd,
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || "Import failed");
+      setImportResult(body as ImportResult);
+      if (body.saved > 0) {
+        await qc.invalidateQueries({ queryKey });
+        invalidateReports();
+      }
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setIsImporting(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (!confirm(t("deleteConfirm", { pair: `${rate.baseCurrency}/${rate.quoteCurrency}`, date: rate.date }))) {
+      return;
+    }
+    setDeletingId(rate.id);
+    try {
+      const response = await fetch(
+        `/api/workspaces/${workspaceId}/exchange-rates?rateId=${rate.id}`,
+        { method: "DELETE" },
+      );
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || "Failed to delete rate");
+      qc.setQueryData<ExchangeRatesResponse>(queryKey, (prev) =>
+        prev ? { ...prev, rates: prev.rates.filter((r) => r.id !== rate.id) } : prev,
+      );
+      invalidateReports();
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : "Failed to delete rate");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (!currentWorkspace) {
+    return (
+      <div className="text-center py-12 text-slate-500">
+        <Coins className="w-12 h-12 mx-auto mb-3 text-slate-300" />
+        <p>No workspace selected</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-50 border border-red-100 rounded-xl text-red-700">
+        {error.message}
+      </div>
+    );
+  }
+
+  const rates = data?.rates ?? [];
+  const failedRows = importResult?.results.filter((r) => !r.ok) ?? [];
+
+  return (
+    <>
+      <datalist id="currency-codes">
+        {COMMON_CURRENCIES.map((code) => (
+          <option key={code} value={code} />
+        ))}
+      </datalist>
+
+      <div className="card card-padded" style={{ marginBottom: 12 }}>
+        <div className="section-title">
+          <Coins size={14} style={{ color: "var(--data-blue)" }} /> {t("reportingTitle")}
+        </div>
+        <p className="section-sub">{t("reportingDescription")}</p>
+        <div className="row" style={{ gap: 8 }}>
+          <input
+            className="input"
+            list="currency-codes"
+            value={currency}
+            onChange={(e) => setCurrencyDraft(e.target.value.toUpperCase().slice(0, 3))}
+            disabled={!canManage}
+            style={{ width: 100, fontFamily: "var(--font-mono)" }}
+          />
+          {canManage && currencyDraft !== null && currencyDraft !== reportingCurrency && (
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={handleSaveCurrency}
+              disabled={isSavingCurrency}
+            >
+              {isSavingCurrency && <Loader2 size={12} className="animate-spin" />}
+              {t("save")}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="card card-padded" style={{ marginBottom: 12 }}>
+        <div className="row-between" style={{ marginBottom: 4 }}>
+          <div className="section-title">{t("ratesTitle")}</div>
+          {canManage && (
+            <>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".csv,text/csv"
+                style={{ display: "none" }}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                }}
+              />
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={() => fileInput.current?.click()}
+                disabled={isImporting}
+              >
+                {isImporting ? <Loader2 size={12} className="animate-spin" /> : <Upload size={12} />}
+                {t("uploadCsv")}
+              </button>
+            </>
+          )}
+        </div>
+        <p className="section-sub">{t("ratesDescription", { currency: reportingCurrency })}</p>
+
+        {importResult && (
+          <div
+            className="card card-padded"
+            style={{
+              background: failedRows.length > 0 ? "var(--warn-bg)" : "var(--neutral-bg)",
+              color: failedRows.length > 0 ? "var(--warn-fg)" : undefined,
+              marginBottom: 12,
+              fontSize: 12.5,
+            }}
+          >
+            {t("importSummary", { saved: importResult.saved, failed: importResult.failed })}
+            {failedRows.length > 0 && (
+              <ul style={{ margin: "6px 0 0", paddingLeft: 18 }}>
+                {failedRows.slice(0, 10).map((r) => (
+                  <li key={r.row}>
+                    {t("importRow", { row: r.row })}: {"error" in r ? r.error : ""}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {canManage && (
+          <form onSubmit={handleAddRate} className="row" style={{ gap: 8, marginBottom: 12 }}>
+            <input
+              className="input"
+              type="date"
+              value={newRate.date}
+              onChange={(e) => setNewRate({ ...newRate, date: e.target.value })}
+              required
+            />
+            <span className="muted">1</span>
+            <input
+              className="input"
+              list="currency-codes"
+              value={newRate.baseCurrency}
+              onChange={(e) =>
+                setNewRate({ ...newRate, baseCurrency: e.target.value.toUpperCase().slice(0, 3) })
+              }
+              placeholder="TWD"
+              style={{ width: 80, fontFamily: "var(--font-mono)" }}
+              required
+            />
+            <span className="muted">=</span>
+            <input
+              className="input"
+              type="number"
+              step="any"
+              min="0"
+              value={newRate.rate}
+              onChange={(e) => setNewRate({ ...newRate, rate: e.target.value })}
+              placeholder="0.031"
+              style={{ width: 120 }}
+              required
+            />
+            <span style={{ fontFamily: "var(--font-mono)" }}>{reportingCurrency}</span>
+            <button type="submit" className="btn btn-secondary" disabled={isAdding}>
+              {isAdding ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />}
+              {t("addRate")}
+            </button>
+          </form>
+        )}
+
+        {rates.length === 0 ? (
+          <p className="text-sm text-slate-500 py-6 text-center">{t("empty")}</p>
+        ) : (
+          <div className="table-scroll">
+            <table className="data">
+              <thead>
+                <tr>
+                  <th>{t("date")}</th>
+                  <th>{t("pair")}</th>
+                  <th className="num">{t("rate")}</th>
+                  {canManage && <th />}
+                </tr>
+              </thead>
+              <tbody>
+                {rates.map((rate) => (
+                  <tr key={rate.id}>
+                    <td>{rate.date}</td>
+                    <td style={{ fontFamily: "var(--font-mono)", fontSize: 12 }}>
+                      1 {rate.baseCurrency} → {rate.quoteCurrency}
+                    </td>
+                    <td className="num">{rate.rate.toLocaleString(undefined, { maximumFractionDigits: 8 })}</td>
+                    {canManage && (
+                      <td style={{ width: 36 }}>
+                        <button
+                          type="button"
+                          className="btn btn-ghost"
+                          onClick={() => handleDelete(rate)}
+                          disabled={deletingId === rate.id}
+                          title={t("delete")}
+                        >
+                          {deletingId === rate.id ? (
+                            <Loader2 size={12} className="animate-spin" />
+                          ) : (
+                            <Trash2 size={12} />
+                          )}
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="section-sub" style={{ marginTop: 10, marginBottom: 0 }}>
+          {t("csvHint")}
+        </p>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { useQueryClient } from "@tanstack/react-query";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
+import { useToast } from "@/components/ui/Toast";
+import {
+  domainsQueryKey,
+  useWorkspaceDomains,
+  type WorkspaceDomain,
+} from "@/lib/hooks/useWorkspaceDomains";
+import {
+  Loader2,
+  Globe,
+  Plus,
+  Star,
+  Trash2,
+} from "lucide-react";
+
+export function DomainsTab() {
+  const { currentWorkspace, hasPermission } = useWorkspace();
+  const workspaceId = currentWorkspace?.id;
+  const t = useTranslations("domains");
+  const qc = useQueryClient();
+  const { success, error: toastError } = useToast();
+
+  const { domains, isLoading, error } = useWorkspaceDomains();
+  const domainsKey = domainsQueryKey(workspaceId);
+  const canManage = hasPermission("manage");
+
+  const [hostname, setHostname] = useState("");
+  const [makeDefault, setMakeDefault] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [addError, setAddError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const invalidateDomains = () =>
+    qc.invalidateQueries({ queryKey: domainsKey, refetchType: "all" });
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setAddError(null);
+    if (!hostname.trim()) return;
+
+    setIsAdding(true);
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/domains`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ hostname: hostname.trim(), isDefault: makeDefault }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add domain");
+      }
+
+      setHostname("");
+      setMakeDefault(false);
+      invalidateDomains();
+      success(t("added", { hostname: data.domain.hostname }));
+    } catch (err) {
+      setAddError(err instanceof Error ? err.message : "Failed to add domain");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleToggleDefault = async (domain: WorkspaceDomain) => {
+    setBusyId(domain.id);
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/domains`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ domainId: domain.id, isDefault: !domain.isDefault }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update domain");
+      }
+      invalidateDomains();
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : "Failed to update domain");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemove = async (domain: WorkspaceDomain) => {
+    if (!confirm(t("removeConfirm", { hostname: domain.hostname }))) return;
+
+    setBusyId(domain.id);
+    try {
+      const response = await fetch(
+        `/api/workspaces/${workspaceId}/domains?domainId=${domain.id}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to remove domain");
+      }
+
+      qc.setQueryData<{ domains: WorkspaceDomain[] }>(domainsKey, (prev) =>
+        prev ? { domains: prev.domains.filter((d) => d.id !== domain.id) } : prev,
+      );
+      invalidateDomains();
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : "Failed to remove domain");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!currentWorkspace) {
+    return (
+      <div className="text-center py-12 text-slate-500">
+        <Globe className="w-12 h-12 mx-auto mb-3 text-slate-300" />
+        <p>No workspace selected</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-50 border border-red-100 rounded-xl text-red-700">
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h3 className="text-base font-semibold text-slate-900 mb-1 flex items-center gap-2">
+          <Globe className="w-5 h-5 text-slate-400" />
+          {t("title")}
+        </h3>
+        <p className="text-sm text-slate-500 mb-4">{t("description")}</p>
+
+        {domains.length === 0 ? (
+          <p className="text-sm text-slate-500 py-6 text-center">{t("empty")}</p>
+        ) : (
+          <div className="space-y-3">
+            {domains.map((domain) => (
+              <div
+                key={domain.id}
+                className="flex items-center justify-between p-3 border border-slate-200 rounded-lg"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sm text-slate-900 truncate">
+                      {domain.hostname}
+                    </span>
+                    {domain.isDefault && (
+                      <span className="px-2 py-0.5 text-xs font-medium text-amber-600 bg-amber-50 rounded-full">
+                        {t("default")}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-slate-500 mt-0.5">
+                    {t("linkCount", { n: domain._count?.links ?? 0 })}
+                  </div>
+                </div>
+
+                {canManage && (
+                  <div className="flex items-center gap-1">
+                    {busyId === domain.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+                    ) : (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => handleToggleDefault(domain)}
+                          title={domain.isDefault ? t("unsetDefault") : t("setDefault")}
+                          className={`p-2 rounded-lg hover:bg-slate-100 transition-colors ${
+                            domain.isDefault ? "text-amber-500" : "text-slate-400"
+                          }`}
+                        >
+                          <Star className="w-4 h-4" fill={domain.isDefault ? "currentColor" : "none"} />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleRemove(domain)}
+                          title={t("remove")}
+                          className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {canManage && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <form onSubmit={handleAdd} className="space-y-4">
+            {addError && (
+              <div className="p-3 bg-red-50 border border-red-100 rounded-lg text-red-700 text-sm">
+                {addError}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                {t("hostname")}
+              </label>
+              <input
+                type="text"
+                value={hostname}
+                onChange={(e) => setHostname(e.target.value)}
+                placeholder="go.example.com"
+                className="w-full px-4 py-2.5 border border-slate-200 rounded-lg focus:ring-2 focus:ring-[#03A9F4] focus:border-[#03A9F4] transition-all font-mono"
+                maxLength={253}
+              />
+              <p className="mt-1 text-xs text-slate-500">{t("dnsHint")}</p>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={makeDefault}
+                onChange={(e) => setMakeDefault(e.target.checked)}
+                className="rounded border-slate-300"
+              />
+              {t("makeDefault")}
+            </label>
+
+            <button
+              type="submit"
+              disabled={isAdding || !hostname.trim()}
+              className="flex items-center gap-2 px-4 py-2 bg-[#03A9F4] text-white rounded-lg hover:bg-[#0288D1] transition-colors disabled:opacity-50 text-sm"
+            >
+              {isAdding ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Plus className="w-4 h-4" />
+              )}
+              {t("add")}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
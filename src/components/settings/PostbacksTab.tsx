@@ -0,0 +1,362 @@
+"use client";
+
+import { useState, type CSSProperties } from "react";
+import { useTranslations } from "next-intl";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Check, Copy, KeyRound, Loader2, RefreshCw, Send } from "lucide-react";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
+import { useToast } from "@/components/ui/Toast";
+import { formatRelativeTime } from "@/lib/utils/format";
+import {
+  POSTBACK_GRACE_HOURS,
+  POSTBACK_KEY_HEADER,
+  POSTBACK_LOG_DAYS,
+  POSTBACK_MAX_EVENTS,
+  POSTBACK_SIGNATURE_HEADER,
+  POSTBACK_TIMESTAMP_HEADER,
+  POSTBACK_TOLERANCE_SECONDS,
+} from "@/lib/postbacks";
+
+interface PostbackSecret {
+  id: string;
+  hint: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  active: boolean;
+}
+
+interface PostbackDelivery {
+  id: string;
+  secretId: string | null;
+  status: "ACCEPTED" | "PARTIAL" | "REJECTED";
+  reason: string | null;
+  events: number;
+  accepted: number;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+interface PostbacksResponse {
+  secrets: PostbackSecret[];
+  deliveries: PostbackDelivery[];
+}
+
+const postbacksQueryKey = (workspaceId: string | undefined) =>
+  ["postback-secrets", workspaceId ?? null] as const;
+
+const statusStyles: Record<PostbackDelivery["status"], { className: string; style?: CSSProperties }> = {
+  ACCEPTED: { className: "badge active" },
+  PARTIAL: { className: "badge draft" },
+  REJECTED: { className: "badge", style: { background: "var(--err-bg)", color: "var(--err-fg)" } },
+};
+
+/**
+ * Settings > Postbacks: signing secrets for server-to-server conversion
+ * postbacks (src/lib/postbacks.ts) and the log of recent calls. A new
+ * secret is shown once, right after rotation; the list only has hints.
+ */
+export function PostbacksTab() {
+  const { currentWorkspace } = useWorkspace();
+  const workspaceId = currentWorkspace?.id;
+  const t = useTranslations("postbacks");
+  const tCommon = useTranslations("common");
+  const qc = useQueryClient();
+  const { success, error: toastError } = useToast();
+  const queryKey = postbacksQueryKey(workspaceId);
+
+  const { data, isLoading, error, isFetching, refetch } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<PostbacksResponse> => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/postback-secrets`);
+      if (!response.ok) throw new Error("Failed to load postback secrets");
+      return response.json();
+    },
+    enabled: !!workspaceId,
+  });
+
+  const [revealed, setRevealed] = useState<{ id: string; secret: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const handleRotate = async () => {
+    const hasActive = data?.secrets.some((s) => s.active && !s.expiresAt);
+    if (hasActive && !confirm(t("rotateConfirm", { hours: POSTBACK_GRACE_HOURS }))) return;
+    setIsRotating(true);
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/postback-secrets`, {
+        method: "POST",
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || "Failed to rotate secret");
+      setRevealed({ id: body.secret.id, secret: body.secret.secret });
+      setCopied(false);
+      await qc.invalidateQueries({ queryKey });
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : "Failed to rotate secret");
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  const handleRevoke = async (secret: PostbackSecret) => {
+    if (!confirm(t("revokeConfirm", { hint: secret.hint }))) return;
+    setRevokingId(secret.id);
+    try {
+      const response = await fetch(
+        `/api/workspaces/${workspaceId}/postback-secrets?secretId=${secret.id}`,
+        { method: "DELETE" },
+      );
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || "Failed to revoke secret");
+      qc.setQueryData<PostbacksResponse>(queryKey, (prev) =>
+        prev
+          ? { ...prev, secrets: prev.secrets.map((s) => (s.id === secret.id ? body.secret : s)) }
+          : prev,
+      );
+      if (revealed?.id === secret.id) setRevealed(null);
+      success(t("revoked"));
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : "Failed to revoke secret");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!revealed) return;
+    await navigator.clipboard.writeText(revealed.secret);
+    setCopied(true);
+  };
+
+  if (!currentWorkspace) {
+    return (
+      <div className="text-center py-12 text-slate-500">
+        <KeyRound className="w-12 h-12 mx-auto mb-3 text-slate-300" />
+        <p>No workspace selected</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-50 border border-red-100 rounded-xl text-red-700">
+        {error.message}
+      </div>
+    );
+  }
+
+  const secrets = data?.secrets ?? [];
+  const deliveries = data?.deliveries ?? [];
+  const hintFor = new Map(secrets.map((s) => [s.id, s.hint]));
+  const relative = (iso: string) => formatRelativeTime(new Date(iso), tCommon);
+
+  const secretStatus = (secret: PostbackSecret) => {
+    if (!secret.active) return <span className="badge archived">{t("statusRevoked")}</span>;
+    if (secret.expiresAt) {
+      return (
+        <span className="badge draft">
+          {t("statusExpires", { time: new Date(secret.expiresAt).toLocaleString() })}
+        </span>
+      );
+    }
+    return <span className="badge active">{t("statusActive")}</span>;
+  };
+
+  return (
+    <>
+      <div className="card card-padded" style={{ marginBottom: 12 }}>
+        <div className="row-between" style={{ marginBottom: 4 }}>
+          <div className="section-title">
+            <KeyRound size={14} style={{ color: "var(--data-blue)" }} /> {t("title")}
+          </div>
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={handleRotate}
+            disabled={isRotating}
+          >
+            {isRotating ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+            {secrets.some((s) => s.active) ? t("rotate") : t("create")}
+          </button>
+        </div>
+        <p className="section-sub">{t("description", { hours: POSTBACK_GRACE_HOURS })}</p>
+
+        {revealed && (
+          <div
+            className="card card-padded"
+            style={{ background: "var(--warn-bg)", color: "var(--warn-fg)", marginBottom: 12 }}
+          >
+            <div style={{ fontWeight: 600, marginBottom: 6 }}>{t("revealTitle")}</div>
+            <p style={{ fontSize: 12.5, marginBottom: 10 }}>{t("revealHint")}</p>
+            <div className="row" style={{ gap: 8 }}>
+              <code
+                style={{
+                  flex: 1,
+                  fontFamily: "var(--font-mono)",
+                  fontSize: 12,
+                  wordBreak: "break-all",
+                  background: "white",
+                  padding: "6px 8px",
+                  borderRadius: 6,
+                }}
+              >
+                {revealed.secret}
+              </code>
+              <button type="button" className="btn btn-secondary" onClick={handleCopy}>
+                {copied ? <Check size={12} /> : <Copy size={12} />}
+                {copied ? tCommon("copied") : tCommon("copy")}
+              </button>
+            </div>
+            <p style={{ fontSize: 12.5, marginTop: 10, marginBottom: 0 }}>
+              {t("keyIdLabel")}{" "}
+              <code style={{ fontFamily: "var(--font-mono)" }}>{revealed.id}</code>
+            </p>
+          </div>
+        )}
+
+        {secrets.length === 0 ? (
+          <p className="text-sm text-slate-500 py-6 text-center">{t("empty")}</p>
+        ) : (
+          <table className="data">
+            <thead>
+              <tr>
+                <th>{t("keyId")}</th>
+                <th>{t("secret")}</th>
+                <th>{t("created")}</th>
+                <th>{t("lastUsed")}</th>
+                <th>{t("status")}</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {secrets.map((secret) => (
+                <tr key={secret.id}>
+                  <td style={{ fontFamily: "var(--font-mono)", fontSize: 12 }}>{secret.id}</td>
+                  <td style={{ fontFamily: "var(--font-mono)", fontSize: 12 }}>{secret.hint}</td>
+                  <td>{relative(secret.createdAt)}</td>
+                  <td>{secret.lastUsedAt ? relative(secret.lastUsedAt) : t("never")}</td>
+                  <td>{secretStatus(secret)}</td>
+                  <td style={{ width: 80 }}>
+                    {secret.active && (
+                      <button
+                        type="button"
+                        className="btn btn-ghost"
+                        onClick={() => handleRevoke(secret)}
+                        disabled={revokingId === secret.id}
+                      >
+                        {revokingId === secret.id && <Loader2 size={12} className="animate-spin" />}
+                        {t("revoke")}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="card card-padded" style={{ marginBottom: 12 }}>
+        <div className="section-title">
+          <Send size={14} style={{ color: "var(--data-violet)" }} /> {t("howTitle")}
+        </div>
+        <p className="section-sub">
+          {t("howDescription", {
+            max: POSTBACK_MAX_EVENTS,
+            minutes: POSTBACK_TOLERANCE_SECONDS / 60,
+          })}
+        </p>
+        <pre
+          style={{
+            fontFamily: "var(--font-mono)",
+            fontSize: 12,
+            background: "var(--neutral-bg)",
+            padding: "10px 12px",
+            borderRadius: 6,
+            overflowX: "auto",
+            margin: 0,
+          }}
+        >
+          {[
+            "POST /api/track/postback",
+            `${POSTBACK_KEY_HEADER}: <key id>`,
+            `${POSTBACK_TIMESTAMP_HEADER}: <unix seconds>`,
+            `${POSTBACK_SIGNATURE_HEADER}: hex(hmac_sha256(secret, timestamp + "." + body))`,
+            "",
+            '{ "events": [{ "sessionId": "…", "eventName": "purchase", "value": 1200, "currency": "TWD", "externalId": "order-123" }] }',
+          ].join("\n")}
+        </pre>
+      </div>
+
+      <div className="card card-padded" style={{ marginBottom: 12 }}>
+        <div className="row-between" style={{ marginBottom: 4 }}>
+          <div className="section-title">{t("deliveriesTitle")}</div>
+          <button
+            type="button"
+            className="btn btn-ghost"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            title={t("refresh")}
+          >
+            <RefreshCw size={12} className={isFetching ? "animate-spin" : undefined} />
+          </button>
+        </div>
+        <p className="section-sub">{t("deliveriesDescription", { days: POSTBACK_LOG_DAYS })}</p>
+
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-slate-500 py-6 text-center">{t("deliveriesEmpty")}</p>
+        ) : (
+          <table className="data">
+            <thead>
+              <tr>
+                <th>{t("time")}</th>
+                <th>{t("secret")}</th>
+                <th>{t("status")}</th>
+                <th className="num">{t("events")}</th>
+                <th>{t("reason")}</th>
+                <th>{t("ip")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map((delivery) => {
+                const badge = statusStyles[delivery.status];
+                return (
+                  <tr key={delivery.id}>
+                    <td title={new Date(delivery.createdAt).toLocaleString()}>
+                      {relative(delivery.createdAt)}
+                    </td>
+                    <td style={{ fontFamily: "var(--font-mono)", fontSize: 12 }}>
+                      {(delivery.secretId && hintFor.get(delivery.secretId)) ?? "—"}
+                    </td>
+                    <td>
+                      <span className={badge.className} style={badge.style}>
+                        {t(`deliveryStatus.${delivery.status}`)}
+                      </span>
+                    </td>
+                    <td className="num">
+                      {delivery.accepted} / {delivery.events}
+                    </td>
+                    <td className="muted">{delivery.reason ?? ""}</td>
+                    <td className="muted" style={{ fontFamily: "var(--font-mono)", fontSize: 12 }}>
+                      {delivery.ipAddress ?? "—"}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </>
+  );
+}
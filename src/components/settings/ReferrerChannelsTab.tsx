@@ -0,0 +1,283 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Plus, RefreshCw, Share2, Trash2 } from "lucide-react";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
+import { useToast } from "@/components/ui/Toast";
+import {
+  MAX_REFERRER_RULES,
+  REFERRER_CHANNELS,
+  type ReferrerChannel,
+  type ReferrerRule,
+} from "@/lib/referrer-channels";
+
+interface ReferrerRulesResponse {
+  rules: ReferrerRule[];
+  defaults: ReferrerRule[];
+}
+
+const referrerRulesQueryKey = (workspaceId: string | undefined) =>
+  ["referrer-rules", workspaceId ?? null] as const;
+
+/**
+ * Settings > Channels: the workspace's referrer → source / channel
+ * mapping (src/lib/referrer-channels.ts). Rules are edited locally and
+ * saved as a whole; the built-in list underneath applies after them.
+ */
+export function ReferrerChannelsTab() {
+  const { currentWorkspace, hasPermission } = useWorkspace();
+  const workspaceId = currentWorkspace?.id;
+  const t = useTranslations("channels");
+  const tAnalytics = useTranslations("analytics");
+  const qc = useQueryClient();
+  const { success, error: toastError } = useToast();
+  const canManage = hasPermission("manage");
+  const queryKey = referrerRulesQueryKey(workspaceId);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<ReferrerRulesResponse> => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/referrer-rules`);
+      if (!response.ok) throw new Error("Failed to load referrer rules");
+      return response.json();
+    },
+    enabled: !!workspaceId,
+  });
+
+  // null = showing the saved rules; an array = unsaved edits.
+  const [draft, setDraft] = useState<ReferrerRule[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isReclassifying, setIsReclassifying] = useState(false);
+
+  const rules = draft ?? data?.rules ?? [];
+
+  const updateRule = (index: number, patch: Partial<ReferrerRule>) =>
+    setDraft(rules.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/referrer-rules`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rules }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.details?.[0]?.message || body.error || "Failed to save rules");
+      }
+      qc.setQueryData<ReferrerRulesResponse>(queryKey, (prev) =>
+        prev ? { ...prev, rules: body.rules } : prev,
+      );
+      setDraft(null);
+      success(t("saved"));
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : "Failed to save rules");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReclassify = async () => {
+    if (!confirm(t("reclassifyConfirm"))) return;
+    setIsReclassifying(true);
+    try {
+      // The server works in bounded steps; keep going until it's done.
+      let cursor: unknown = undefined;
+      let body: { updated: number; next: unknown; error?: string };
+      do {
+        const response = await fetch(`/api/workspaces/${workspaceId}/referrer-rules`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ cursor }),
+        });
+        body = await response.json();
+        if (!response.ok) throw new Error(body.error || "Failed to reclassify clicks");
+        cursor = body.next;
+      } while (cursor);
+      qc.invalidateQueries({ queryKey: ["analytics"], refetchType: "all" });
+      success(t("reclassified", { n: body.updated }));
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : "Failed to reclassify clicks");
+    } finally {
+      setIsReclassifying(false);
+    }
+  };
+
+  if (!currentWorkspace) {
+    return (
+      <div className="text-center py-12 text-slate-500">
+        <Share2 className="w-12 h-12 mx-auto mb-3 text-slate-300" />
+        <p>No workspace selected</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-50 border border-red-100 rounded-xl text-red-700">
+        {error.message}
+      </div>
+    );
+  }
+
+  const channelLabel = (channel: ReferrerChannel) => tAnalytics(`channelNames.${channel}`);
+
+  return (
+    <>
+      <div className="card card-padded" style={{ marginBottom: 12 }}>
+        <div className="row-between" style={{ marginBottom: 4 }}>
+          <div className="section-title">
+            <Share2 size={14} style={{ color: "var(--data-blue)" }} /> {t("title")}
+          </div>
+          {canManage && (
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={handleReclassify}
+              disabled={isReclassifying || draft !== null}
+              title={draft !== null ? t("saveFirst") : undefined}
+            >
+              {isReclassifying ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+              {t("reclassify")}
+            </button>
+          )}
+        </div>
+        <p className="section-sub">{t("description")}</p>
+
+        {rules.length === 0 ? (
+          <p className="text-sm text-slate-500 py-6 text-center">{t("empty")}</p>
+        ) : (
+          <table className="data">
+            <thead>
+              <tr>
+                <th>{t("host")}</th>
+                <th>{t("source")}</th>
+                <th>{t("channel")}</th>
+                {canManage && <th />}
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule, index) => (
+                <tr key={index}>
+                  <td>
+                    <input
+                      className="input"
+                      value={rule.host}
+                      onChange={(e) => updateRule(index, { host: e.target.value })}
+                      placeholder="news.example.com"
+                      disabled={!canManage}
+                      maxLength={253}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      className="input"
+                      value={rule.source}
+                      onChange={(e) => updateRule(index, { source: e.target.value })}
+                      placeholder="newsletter"
+                      disabled={!canManage}
+                      maxLength={60}
+                    />
+                  </td>
+                  <td>
+                    <select
+                      className="input"
+                      value={rule.channel}
+                      onChange={(e) => updateRule(index, { channel: e.target.value as ReferrerChannel })}
+                      disabled={!canManage}
+                      style={{ cursor: "pointer" }}
+                    >
+                      {REFERRER_CHANNELS.map((channel) => (
+                        <option key={channel} value={channel}>
+                          {channelLabel(channel)}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  {canManage && (
+                    <td style={{ width: 36 }}>
+                      <button
+                        type="button"
+                        className="btn btn-ghost"
+                        onClick={() => setDraft(rules.filter((_, i) => i !== index))}
+                        title={t("remove")}
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {canManage && (
+          <div className="row" style={{ gap: 8, marginTop: 12 }}>
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => setDraft([...rules, { host: "", source: "", channel: "referral" }])}
+              disabled={rules.length >= MAX_REFERRER_RULES}
+            >
+              <Plus size={12} /> {t("addRule")}
+            </button>
+            {draft !== null && (
+              <>
+                <button
+                  type="button"
+                  className="btn btn-primary"
+                  onClick={handleSave}
+                  disabled={isSaving}
+                >
+                  {isSaving && <Loader2 size={12} className="animate-spin" />}
+                  {t("save")}
+                </button>
+                <button type="button" className="btn btn-ghost" onClick={() => setDraft(null)}>
+                  {t("discard")}
+                </button>
+              </>
+            )}
+          </div>
+        )}
+        <p className="section-sub" style={{ marginTop: 10, marginBottom: 0 }}>
+          {t("hostHint")}
+        </p>
+      </div>
+
+      <div className="card card-padded" style={{ marginBottom: 12 }}>
+        <div className="section-title">{t("defaultsTitle")}</div>
+        <p className="section-sub">{t("defaultsDescription")}</p>
+        <table className="data">
+          <thead>
+            <tr>
+              <th>{t("host")}</th>
+              <th>{t("source")}</th>
+              <th>{t("channel")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(data?.defaults ?? []).map((rule) => (
+              <tr key={rule.host}>
+                <td style={{ fontFamily: "var(--font-mono)" }}>{rule.host}</td>
+                <td>{rule.source}</td>
+                <td>{channelLabel(rule.channel)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import { useQueryClient } from "@tanstack/react-query";
+import { Clock, Loader2 } from "lucide-react";
+import { useToast } from "@/components/ui/Toast";
+import {
+  profileQueryKey,
+  useReportingTimeZone,
+  type UserProfile,
+} from "@/lib/hooks/useReportingTimeZone";
+import { DEFAULT_TIME_ZONE, timeZoneOptions } from "@/lib/timezone";
+
+/**
+ * Personal override of the workspace's reporting time zone (profile
+ * tab). Saves on change; "workspace default" clears the override.
+ */
+export function ReportingTimeZoneCard() {
+  const t = useTranslations("settings");
+  const qc = useQueryClient();
+  const { success, error: toastError } = useToast();
+  const { userTimeZone, workspaceTimeZone, isLoading } = useReportingTimeZone();
+  const [isSaving, setIsSaving] = useState(false);
+  const zones = useMemo(timeZoneOptions, []);
+
+  const save = async (timezone: string | null) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/user/profile", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ timezone }),
+      });
+      if (!response.ok) throw new Error("Failed to update time zone");
+      const profile = (await response.json()) as UserProfile;
+      qc.setQueryData(profileQueryKey, profile);
+      // Server-bucketed series (campaign overlay) follow the zone.
+      qc.invalidateQueries({ queryKey: ["campaigns-summary"], refetchType: "all" });
+      success(t("timezoneSaved"));
+    } catch {
+      toastError(t("timezoneSaveFailed"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="card card-padded" style={{ marginBottom: 12 }}>
+      <div className="section-title">
+        <Clock size={14} style={{ color: "var(--ink-400)" }} /> {t("reportingTimezone")}
+      </div>
+      <p className="section-sub">{t("reportingTimezoneDesc")}</p>
+      <div className="row" style={{ gap: 8 }}>
+        <select
+          value={userTimeZone ?? ""}
+          onChange={(e) => save(e.target.value || null)}
+          disabled={isLoading || isSaving}
+          className="input"
+          style={{ cursor: "pointer" }}
+        >
+          <option value="">
+            {t("timezoneWorkspaceDefault", { zone: workspaceTimeZone ?? DEFAULT_TIME_ZONE })}
+          </option>
+          {userTimeZone && !zones.includes(userTimeZone) && (
+            <option value={userTimeZone}>{userTimeZone}</option>
+          )}
+          {zones.map((zone) => (
+            <option key={zone} value={zone}>
+              {zone}
+            </option>
+          ))}
+        </select>
+        {isSaving && <Loader2 size={14} className="animate-spin" style={{ color: "var(--ink-400)" }} />}
+      </div>
+    </div>
+  );
+}
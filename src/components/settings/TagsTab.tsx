@@ -0,0 +1,16 @@
+"use client";
+
+import { useWorkspace } from "@/contexts/WorkspaceContext";
+import { TagManager } from "@/components/tags/TagManager";
+
+export function TagsTab() {
+  const { hasPermission } = useWorkspace();
+  const canManage = hasPermission("manage");
+
+  return (
+    <div className="space-y-6">
+      <TagManager kind="link" canManage={canManage} />
+      <TagManager kind="campaign" canManage={canManage} />
+    </div>
+  );
+}
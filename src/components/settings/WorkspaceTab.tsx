@@ -4,6 +4,23 @@ import { useState, useEffect, useMemo } from "react";
 import { useTranslations } from "next-intl";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useWorkspace } from "@/contexts/WorkspaceContext";
+import { FallbackUrlsEditor, cleanFallbackUrls } from "@/components/forms/FallbackUrlsEditor";
+import { parseFallbackUrls, type FallbackUrls } from "@/lib/fallbacks";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  TRASH_RETENTION_MAX_DAYS,
+  TRASH_RETENTION_MIN_DAYS,
+} from "@/lib/link-trash";
+import { DEFAULT_TIME_ZONE, timeZoneOptions } from "@/lib/timezone";
+import {
+  ATTRIBUTION_MODELS,
+  ATTRIBUTION_WINDOW_MAX_DAYS,
+  ATTRIBUTION_WINDOW_MIN_DAYS,
+  DEFAULT_ATTRIBUTION_MODEL,
+  DEFAULT_ATTRIBUTION_WINDOW_DAYS,
+  isAttributionModel,
+  type AttributionModel,
+} from "@/lib/attribution";
 import {
   Loader2,
   Building2,
@@ -16,6 +33,11 @@ interface WorkspaceData {
   name: string;
   slug: string;
   description: string | null;
+  fallbackUrls: FallbackUrls | null;
+  trashRetentionDays: number;
+  timezone: string;
+  attributionWindowDays: number;
+  attributionModel: AttributionModel;
   createdAt: string;
   currentUserRole: string;
   _count: {
@@ -30,6 +52,7 @@ export function WorkspaceTab() {
   const { currentWorkspace, hasPermission, refreshWorkspaces } = useWorkspace();
   const workspaceId = currentWorkspace?.id;
   const t = useTranslations("workspace");
+  const tLinks = useTranslations("links");
   const tCommon = useTranslations("common");
   const qc = useQueryClient();
 
@@ -57,6 +80,11 @@ export function WorkspaceTab() {
   const [name, setName] = useState("");
   const [slug, setSlug] = useState("");
   const [description, setDescription] = useState("");
+  const [fallbackUrls, setFallbackUrls] = useState<FallbackUrls>({});
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [timezone, setTimezone] = useState(DEFAULT_TIME_ZONE);
+  const [attributionWindowDays, setAttributionWindowDays] = useState(DEFAULT_ATTRIBUTION_WINDOW_DAYS);
+  const [attributionModel, setAttributionModel] = useState<AttributionModel>(DEFAULT_ATTRIBUTION_MODEL);
   const [isSaving, setIsSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [saveSuccess, setSaveSuccess] = useState(false);
@@ -66,10 +94,16 @@ export function WorkspaceTab() {
       setName(workspace.name);
       setSlug(workspace.slug);
       setDescription(workspace.description || "");
+      setFallbackUrls(parseFallbackUrls(workspace.fallbackUrls));
+      setTrashRetentionDays(workspace.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS);
+      setTimezone(workspace.timezone ?? DEFAULT_TIME_ZONE);
+      setAttributionWindowDays(workspace.attributionWindowDays ?? DEFAULT_ATTRIBUTION_WINDOW_DAYS);
+      setAttributionModel(workspace.attributionModel ?? DEFAULT_ATTRIBUTION_MODEL);
     }
   }, [workspace]);
 
   const canEdit = hasPermission("manage");
+  const zones = useMemo(timeZoneOptions, []);
 
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -96,6 +130,20 @@ export function WorkspaceTab() {
           name: name.trim(),
           slug: slug.trim(),
           description: description.trim() || null,
+          fallbackUrls: cleanFallbackUrls(fallbackUrls),
+          trashRetentionDays: Math.min(
+            Math.max(Math.round(trashRetentionDays) || DEFAULT_TRASH_RETENTION_DAYS, TRASH_RETENTION_MIN_DAYS),
+            TRASH_RETENTION_MAX_DAYS,
+          ),
+          timezone,
+          attributionWindowDays: Math.min(
+            Math.max(
+              Math.round(attributionWindowDays) || DEFAULT_ATTRIBUTION_WINDOW_DAYS,
+              ATTRIBUTION_WINDOW_MIN_DAYS,
+            ),
+            ATTRIBUTION_WINDOW_MAX_DAYS,
+          ),
+          attributionModel,
         }),
       });
 
@@ -112,6 +160,15 @@ export function WorkspaceTab() {
         prev ? { workspace: { ...prev.workspace, ...data.workspace } } : prev,
       );
       qc.invalidateQueries({ queryKey: workspaceKey, refetchType: "all" });
+      // Server-bucketed series (campaign overlay) follow the zone, and
+      // conversion credit follows the attribution settings.
+      if (
+        data.workspace.timezone !== workspace?.timezone ||
+        data.workspace.attributionWindowDays !== workspace?.attributionWindowDays ||
+        data.workspace.attributionModel !== workspace?.attributionModel
+      ) {
+        qc.invalidateQueries({ queryKey: ["campaigns-summary"], refetchType: "all" });
+      }
       setSaveSuccess(true);
       await refreshWorkspaces();
 
@@ -216,6 +273,102 @@ export function WorkspaceTab() {
             />
           </div>
 
+          {/* Fallback destinations */}
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1">
+              {tLinks("fallbackUrls")}
+            </label>
+            <p className="mb-3 text-xs text-slate-500">{t("fallbackUrlsHint")}</p>
+            <FallbackUrlsEditor
+              value={fallbackUrls}
+              onChange={setFallbackUrls}
+              placeholder={tLinks("fallbackStatusPage")}
+              disabled={!canEdit}
+            />
+          </div>
+
+          {/* Trash retention */}
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-2">
+              {t("trashRetentionDays")}
+            </label>
+            <div className="flex items-center gap-3">
+              <input
+                type="number"
+                value={trashRetentionDays}
+                onChange={(e) => setTrashRetentionDays(parseInt(e.target.value, 10) || 0)}
+                min={TRASH_RETENTION_MIN_DAYS}
+                max={TRASH_RETENTION_MAX_DAYS}
+                disabled={!canEdit}
+                className="w-28 px-4 py-3 border border-slate-200 rounded-xl focus:ring-2 focus:ring-[#03A9F4] focus:border-[#03A9F4] transition-all tabular-nums disabled:bg-slate-50 disabled:text-slate-500"
+              />
+              <span className="text-sm text-slate-500">{t("days")}</span>
+            </div>
+            <p className="mt-2 text-xs text-slate-500">{t("trashRetentionHint")}</p>
+          </div>
+
+          {/* Reporting time zone */}
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-2">
+              {t("timezone")}
+            </label>
+            <select
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              disabled={!canEdit}
+              className="w-full px-4 py-3 border border-slate-200 rounded-xl focus:ring-2 focus:ring-[#03A9F4] focus:border-[#03A9F4] transition-all bg-white disabled:bg-slate-50 disabled:text-slate-500"
+            >
+              {!zones.includes(timezone) && <option value={timezone}>{timezone}</option>}
+              {zones.map((zone) => (
+                <option key={zone} value={zone}>
+                  {zone}
+                </option>
+              ))}
+            </select>
+            <p className="mt-2 text-xs text-slate-500">{t("timezoneHint")}</p>
+          </div>
+
+          {/* Conversion attribution */}
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-2">
+              {t("attributionWindowDays")}
+            </label>
+            <div className="flex items-center gap-3">
+              <input
+                type="number"
+                value={attributionWindowDays}
+                onChange={(e) => setAttributionWindowDays(parseInt(e.target.value, 10) || 0)}
+                min={ATTRIBUTION_WINDOW_MIN_DAYS}
+                max={ATTRIBUTION_WINDOW_MAX_DAYS}
+                disabled={!canEdit}
+                className="w-28 px-4 py-3 border border-slate-200 rounded-xl focus:ring-2 focus:ring-[#03A9F4] focus:border-[#03A9F4] transition-all tabular-nums disabled:bg-slate-50 disabled:text-slate-500"
+              />
+              <span className="text-sm text-slate-500">{t("days")}</span>
+            </div>
+            <p className="mt-2 text-xs text-slate-500">{t("attributionWindowHint")}</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-2">
+              {t("attributionModel")}
+            </label>
+            <select
+              value={attributionModel}
+              onChange={(e) => {
+                if (isAttributionModel(e.target.value)) setAttributionModel(e.target.value);
+              }}
+              disabled={!canEdit}
+              className="w-full px-4 py-3 border border-slate-200 rounded-xl focus:ring-2 focus:ring-[#03A9F4] focus:border-[#03A9F4] transition-all bg-white disabled:bg-slate-50 disabled:text-slate-500"
+            >
+              {ATTRIBUTION_MODELS.map((model) => (
+                <option key={model} value={model}>
+                  {t(`attributionModels.${model}`)}
+                </option>
+              ))}
+            </select>
+            <p className="mt-2 text-xs text-slate-500">{t("attributionModelHint")}</p>
+          </div>
+
           {/* Stats */}
           {workspace?._count && (
             <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 pt-4 border-t border-slate-100">
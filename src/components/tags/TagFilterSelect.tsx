@@ -0,0 +1,181 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { ChevronDown, Tag as TagIcon } from "lucide-react";
+import type { TagFilter, TagMatch } from "@/lib/tag-filter";
+
+interface TagOption {
+  id: string;
+  name: string;
+  color?: string | null;
+  _count: { links: number };
+}
+
+interface TagFilterSelectProps {
+  tags: TagOption[];
+  value: TagFilter | null;
+  onChange: (value: TagFilter | null) => void;
+}
+
+/**
+ * Multi-tag filter dropdown: tick any number of tags and choose whether
+ * items need any of them (OR) or all of them (AND).
+ */
+export function TagFilterSelect({ tags, value, onChange }: TagFilterSelectProps) {
+  const t = useTranslations("tags");
+  const [open, setOpen] = useState(false);
+  // Remembered while no tag is ticked, so picking "All" first sticks.
+  const [pendingMatch, setPendingMatch] = useState<TagMatch>("any");
+
+  const selected = new Set(value?.tagIds ?? []);
+  const match: TagMatch = value?.match ?? pendingMatch;
+  const active = selected.size > 0;
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    onChange(next.size > 0 ? { tagIds: Array.from(next), match } : null);
+  };
+
+  const setMatch = (next: TagMatch) => {
+    setPendingMatch(next);
+    if (active) onChange({ tagIds: Array.from(selected), match: next });
+  };
+
+  const label = !active
+    ? t("filterAll")
+    : selected.size === 1
+      ? (tags.find((tag) => selected.has(tag.id))?.name ?? t("filterCount", { n: 1 }))
+      : t(match === "all" ? "filterCountAll" : "filterCountAny", { n: selected.size });
+
+  return (
+    <div style={{ position: "relative" }}>
+      <button
+        type="button"
+        className={`input ${active ? "filter-active" : ""}`}
+        onClick={() => setOpen(!open)}
+        style={{
+          height: 32,
+          paddingLeft: 32,
+          paddingRight: 28,
+          cursor: "pointer",
+          fontSize: 12.5,
+          textAlign: "left",
+          whiteSpace: "nowrap",
+        }}
+      >
+        {label}
+      </button>
+      <TagIcon
+        size={13}
+        style={{
+          position: "absolute",
+          left: 10,
+          top: "50%",
+          transform: "translateY(-50%)",
+          color: active ? "var(--brand-700)" : "var(--ink-500)",
+          pointerEvents: "none",
+        }}
+      />
+      <ChevronDown
+        size={12}
+        style={{
+          position: "absolute",
+          right: 8,
+          top: "50%",
+          transform: "translateY(-50%)",
+          color: active ? "var(--brand-700)" : "var(--ink-500)",
+          pointerEvents: "none",
+        }}
+      />
+      {open && (
+        <>
+          <div style={{ position: "fixed", inset: 0, zIndex: 40 }} onClick={() => setOpen(false)} />
+          <div
+            style={{
+              position: "absolute",
+              top: "100%",
+              right: 0,
+              marginTop: 4,
+              background: "#fff",
+              border: "1px solid var(--border)",
+              borderRadius: 8,
+              boxShadow: "var(--shadow-pop)",
+              minWidth: 220,
+              maxHeight: 320,
+              overflowY: "auto",
+              zIndex: 50,
+              padding: 4,
+            }}
+          >
+            <div className="segmented" style={{ display: "flex", padding: 2, margin: 4 }}>
+              {(["any", "all"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  className={match === mode ? "active" : ""}
+                  onClick={() => setMatch(mode)}
+                  style={{ flex: 1, fontSize: 11.5 }}
+                  title={t(mode === "any" ? "matchAnyHint" : "matchAllHint")}
+                >
+                  {t(mode === "any" ? "matchAny" : "matchAll")}
+                </button>
+              ))}
+            </div>
+            {tags.map((tag) => (
+              <button
+                key={tag.id}
+                type="button"
+                onClick={() => toggle(tag.id)}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 8,
+                  width: "100%",
+                  padding: "6px 8px",
+                  fontSize: 12,
+                  color: "var(--ink-300)",
+                  background: "transparent",
+                  border: 0,
+                  borderRadius: 5,
+                  cursor: "pointer",
+                }}
+                onMouseEnter={(e) => (e.currentTarget.style.background = "var(--bg-subtle)")}
+                onMouseLeave={(e) => (e.currentTarget.style.background = "transparent")}
+              >
+                <span className={`cbx ${selected.has(tag.id) ? "checked" : ""}`} />
+                <span
+                  style={{
+                    width: 8,
+                    height: 8,
+                    borderRadius: "50%",
+                    background: tag.color || "#94a3b8",
+                    flexShrink: 0,
+                  }}
+                />
+                <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                  {tag.name}
+                </span>
+                <span style={{ marginLeft: "auto", fontSize: 11, color: "var(--ink-500)" }}>
+                  {tag._count.links}
+                </span>
+              </button>
+            ))}
+            {active && (
+              <button
+                type="button"
+                className="btn btn-ghost"
+                onClick={() => onChange(null)}
+                style={{ width: "100%", height: 28, fontSize: 11.5, marginTop: 4 }}
+              >
+                {t("filterClear")}
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
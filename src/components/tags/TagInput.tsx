@@ -7,6 +7,7 @@ interface Tag {
   id: string;
   name: string;
   color?: string | null;
+  _count?: { links: number };
 }
 
 interface TagInputProps {
@@ -192,6 +193,9 @@ export function TagInput({ selectedTags, onChange, placeholder = "Add tag..." }:
                 style={{ backgroundColor: tag.color || "#94a3b8" }}
               />
               {tag.name}
+              {tag._count && (
+                <span className="ml-auto text-xs text-slate-400">{tag._count.links}</span>
+              )}
             </button>
           ))}
           {inputValue.trim() && !exactMatch && (
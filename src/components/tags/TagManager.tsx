@@ -0,0 +1,306 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Check, GitMerge, Loader2, Pencil, Tag as TagIcon, Trash2, X } from "lucide-react";
+import { useToast } from "@/components/ui/Toast";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+
+type TagKind = "link" | "campaign";
+
+interface ManagedTag {
+  id: string;
+  name: string;
+  color: string | null;
+  _count: { links?: number; campaigns?: number };
+}
+
+interface TagManagerProps {
+  kind: TagKind;
+  /** OWNER / ADMIN — everyone else gets a read-only list. */
+  canManage: boolean;
+}
+
+const ENDPOINTS: Record<TagKind, string> = {
+  link: "/api/tags",
+  campaign: "/api/campaign-tags",
+};
+
+// Query keys other screens read the same lists under.
+const QUERY_KEYS: Record<TagKind, readonly string[]> = {
+  link: ["tags"],
+  campaign: ["campaign-tags"],
+};
+
+const DEFAULT_COLOR = "#94a3b8";
+
+/**
+ * Rename, recolor, merge and delete a workspace's link tags or campaign
+ * tags. Usage counts come with the list so a delete / merge shows what
+ * it touches.
+ */
+export function TagManager({ kind, canManage }: TagManagerProps) {
+  const t = useTranslations("tags");
+  const tCommon = useTranslations("common");
+  const qc = useQueryClient();
+  const { success, error: toastError } = useToast();
+  const queryKey = QUERY_KEYS[kind];
+  const endpoint = ENDPOINTS[kind];
+
+  const { data: tags = [], isLoading } = useQuery<ManagedTag[]>({
+    queryKey,
+    queryFn: async () => {
+      // Bypass the browser cache /api/tags sets, or an edit wouldn't show.
+      const response = await fetch(endpoint, { cache: "no-store" });
+      if (!response.ok) throw new Error("Failed to load tags");
+      return ((await response.json()).tags || []) as ManagedTag[];
+    },
+  });
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<ManagedTag | null>(null);
+  const [mergePlan, setMergePlan] = useState<{ source: ManagedTag; target: ManagedTag } | null>(null);
+
+  const usageOf = (tag: ManagedTag) => tag._count.links ?? tag._count.campaigns ?? 0;
+
+  const refresh = () => {
+    qc.invalidateQueries({ queryKey, refetchType: "all" });
+    if (kind === "link") {
+      qc.invalidateQueries({ queryKey: ["links"], refetchType: "all" });
+      qc.invalidateQueries({ queryKey: ["analytics-raw"], refetchType: "all" });
+    } else {
+      qc.invalidateQueries({ queryKey: ["campaigns"], refetchType: "all" });
+    }
+  };
+
+  const send = async (tag: ManagedTag, url: string, init: RequestInit) => {
+    setBusyId(tag.id);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) return { ok: false as const, status: response.status, body };
+      refresh();
+      return { ok: true as const, status: response.status, body };
+    } catch {
+      return { ok: false as const, status: 0, body: {} };
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const saveName = async (tag: ManagedTag) => {
+    const name = editName.trim();
+    setEditingId(null);
+    if (!name || name === tag.name) return;
+    const result = await send(tag, `${endpoint}/${tag.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ name }),
+    });
+    if (result.ok) {
+      success(t("renamed"));
+      return;
+    }
+    // Name already taken — offer to merge into that tag instead.
+    const conflict = result.status === 409 && tags.find((x) => x.id === result.body.conflictId);
+    if (conflict) setMergePlan({ source: tag, target: conflict });
+    else toastError(typeof result.body.error === "string" ? result.body.error : t("actionFailed"));
+  };
+
+  const saveColor = async (tag: ManagedTag, color: string) => {
+    if (color === tag.color) return;
+    const result = await send(tag, `${endpoint}/${tag.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ color }),
+    });
+    if (!result.ok) toastError(t("actionFailed"));
+  };
+
+  const executeMerge = async () => {
+    if (!mergePlan) return;
+    const { source, target } = mergePlan;
+    setMergePlan(null);
+    const result = await send(source, `${endpoint}/merge`, {
+      method: "POST",
+      body: JSON.stringify({ targetId: target.id, sourceIds: [source.id] }),
+    });
+    if (result.ok) success(t("merged", { source: source.name, target: target.name }));
+    else toastError(t("actionFailed"));
+  };
+
+  const executeDelete = async () => {
+    if (!deleteTarget) return;
+    const tag = deleteTarget;
+    setDeleteTarget(null);
+    const result = await send(tag, `${endpoint}/${tag.id}`, { method: "DELETE" });
+    if (result.ok) success(t("deleted", { name: tag.name }));
+    else toastError(t("actionFailed"));
+  };
+
+  const usageKey = kind === "link" ? "usageLinks" : "usageCampaigns";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <ConfirmDialog
+        open={!!deleteTarget}
+        title={t("deleteTitle", { name: deleteTarget?.name ?? "" })}
+        description={deleteTarget ? t(`${usageKey}Delete`, { n: usageOf(deleteTarget) }) : undefined}
+        confirmLabel={tCommon("delete")}
+        cancelLabel={tCommon("cancel")}
+        onConfirm={executeDelete}
+        onCancel={() => setDeleteTarget(null)}
+        variant="danger"
+      />
+      <ConfirmDialog
+        open={!!mergePlan}
+        title={t("mergeTitle", {
+          source: mergePlan?.source.name ?? "",
+          target: mergePlan?.target.name ?? "",
+        })}
+        description={t("mergeDescription")}
+        confirmLabel={t("merge")}
+        cancelLabel={tCommon("cancel")}
+        onConfirm={executeMerge}
+        onCancel={() => setMergePlan(null)}
+        variant="warning"
+      />
+
+      <h3 className="text-base font-semibold text-slate-900 mb-1 flex items-center gap-2">
+        <TagIcon className="w-5 h-5 text-slate-400" />
+        {t(kind === "link" ? "linkTags" : "campaignTags")}
+      </h3>
+      <p className="text-sm text-slate-500 mb-4">
+        {t(kind === "link" ? "linkTagsDesc" : "campaignTagsDesc")}
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+        </div>
+      ) : tags.length === 0 ? (
+        <p className="text-sm text-slate-500 py-6 text-center">{t("empty")}</p>
+      ) : (
+        <div className="space-y-2">
+          {tags.map((tag) => (
+            <div
+              key={tag.id}
+              className="flex items-center gap-3 p-2.5 border border-slate-200 rounded-lg"
+            >
+              {canManage ? (
+                <input
+                  type="color"
+                  value={tag.color || DEFAULT_COLOR}
+                  onChange={(e) => saveColor(tag, e.target.value)}
+                  title={t("recolor")}
+                  className="w-6 h-6 rounded cursor-pointer border-0 p-0 bg-transparent"
+                />
+              ) : (
+                <span
+                  className="w-3 h-3 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: tag.color || DEFAULT_COLOR }}
+                />
+              )}
+
+              {editingId === tag.id ? (
+                <input
+                  autoFocus
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") saveName(tag);
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  maxLength={50}
+                  className="flex-1 min-w-0 px-2 py-1 text-sm border border-slate-200 rounded-md focus:ring-2 focus:ring-[#03A9F4] focus:border-[#03A9F4]"
+                />
+              ) : (
+                <span className="flex-1 min-w-0 truncate text-sm text-slate-900">{tag.name}</span>
+              )}
+
+              <span className="text-xs text-slate-500 whitespace-nowrap">
+                {t(usageKey, { n: usageOf(tag) })}
+              </span>
+
+              {canManage && (
+                <div className="flex items-center gap-1">
+                  {busyId === tag.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+                  ) : editingId === tag.id ? (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => saveName(tag)}
+                        title={tCommon("save")}
+                        className="p-1.5 text-slate-400 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                      >
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(null)}
+                        title={tCommon("cancel")}
+                        className="p-1.5 text-slate-400 hover:bg-slate-100 rounded-lg transition-colors"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingId(tag.id);
+                          setEditName(tag.name);
+                        }}
+                        title={t("rename")}
+                        className="p-1.5 text-slate-400 hover:bg-slate-100 rounded-lg transition-colors"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      {tags.length > 1 && (
+                        <div className="relative" title={t("mergeInto")}>
+                          <GitMerge className="w-4 h-4 text-slate-400 absolute left-1.5 top-1.5 pointer-events-none" />
+                          <select
+                            value=""
+                            onChange={(e) => {
+                              const target = tags.find((x) => x.id === e.target.value);
+                              if (target) setMergePlan({ source: tag, target });
+                            }}
+                            aria-label={t("mergeInto")}
+                            className="w-7 h-7 opacity-0 cursor-pointer"
+                          >
+                            <option value="">{t("mergeInto")}</option>
+                            {tags
+                              .filter((x) => x.id !== tag.id)
+                              .map((x) => (
+                                <option key={x.id} value={x.id}>
+                                  {x.name}
+                                </option>
+                              ))}
+                          </select>
+                        </div>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => setDeleteTarget(tag)}
+                        title={tCommon("delete")}
+                        className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
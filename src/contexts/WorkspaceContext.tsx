@@ -14,6 +14,8 @@ export interface Workspace {
   name: string;
   slug: string;
   description: string | null;
+  /** IANA zone reports bucket days / hours in */
+  timezone: string;
   role: "OWNER" | "ADMIN" | "MEMBER" | "VIEWER";
   memberCount: number;
   linkCount: number;
@@ -0,0 +1,179 @@
+/**
+ * Server side of conversion attribution (src/lib/attribution.ts): the
+ * workspace's settings, and conversion and revenue credit per link under
+ * a model.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  DEFAULT_ATTRIBUTION_MODEL,
+  DEFAULT_ATTRIBUTION_WINDOW_DAYS,
+  attributionCutoff,
+  splitCredit,
+  type AttributionModel,
+} from "@/lib/attribution";
+import type { CurrencyConverter } from "@/lib/currency";
+import { HUMAN_CLICK_FILTER } from "@/lib/bot-score";
+
+export interface AttributionSettings {
+  windowDays: number;
+  model: AttributionModel;
+}
+
+/** The workspace's window and default model; the defaults without one. */
+export async function workspaceAttribution(
+  workspaceId: string | null,
+): Promise<AttributionSettings> {
+  const workspace = workspaceId
+    ? await prisma.workspace.findUnique({
+        where: { id: workspaceId },
+        select: { attributionWindowDays: true, attributionModel: true },
+      })
+    : null;
+  return {
+    windowDays: workspace?.attributionWindowDays ?? DEFAULT_ATTRIBUTION_WINDOW_DAYS,
+    model: workspace?.attributionModel ?? DEFAULT_ATTRIBUTION_MODEL,
+  };
+}
+
+export interface ConversionCredit {
+  conversions: number;
+  /** In the reporting currency of `convert` */
+  revenue: number;
+}
+
+/**
+ * Conversions since `since` on `linkIds`, credited to those links under
+ * `model`, with their value converted by `convert` and split the same
+ * way. Paths only run through `linkIds` and through clicks matching
+ * `clickFilter` (the report's internal / bot rules) — the converting
+ * click always counts, as it does for LAST_CLICK. Credit is fractional
+ * under LINEAR. Currencies `convert` has no rate for are returned in
+ * `unconvertedCurrencies`; those values stay out of revenue.
+ */
+export async function attributedConversions({
+  linkIds,
+  since,
+  model,
+  windowDays,
+  convert,
+  clickFilter = {},
+}: {
+  linkIds: string[];
+  since: Date;
+  model: AttributionModel;
+  windowDays: number;
+  convert: CurrencyConverter;
+  clickFilter?: Prisma.ClickWhereInput;
+}): Promise<{ byLink: Map<string, ConversionCredit>; unconvertedCurrencies: string[] }> {
+  const byLink = new Map<string, ConversionCredit>();
+  const unconverted = new Set<string>();
+  if (linkIds.length === 0) return { byLink, unconvertedCurrencies: [] };
+
+  const conversions = await prisma.conversion.findMany({
+    where: { shortLinkId: { in: linkIds }, timestamp: { gte: since } },
+    select: {
+      shortLinkId: true,
+      timestamp: true,
+      value: true,
+      currency: true,
+      click: { select: { id: true, timestamp: true, visitorHash: true } },
+    },
+  });
+
+  // LAST_CLICK is the stored attribution — no path needed.
+  const visitorHashes = new Set<string>();
+  let earliest = since;
+  if (model !== "LAST_CLICK") {
+    for (const conversion of conversions) {
+      if (!conversion.click.visitorHash) continue;
+      visitorHashes.add(conversion.click.visitorHash);
+      const cutoff = attributionCutoff(conversion.timestamp, windowDays);
+      if (cutoff < earliest) earliest = cutoff;
+    }
+  }
+
+  // Every identified visitor's clicks in one query, oldest first.
+  const touches =
+    visitorHashes.size > 0
+      ? await prisma.click.findMany({
+          where: {
+            visitorHash: { in: Array.from(visitorHashes) },
+            shortLinkId: { in: linkIds },
+            timestamp: { gte: earliest },
+            ...clickFilter,
+          },
+          select: { id: true, shortLinkId: true, timestamp: true, visitorHash: true },
+          orderBy: { timestamp: "asc" },
+        })
+      : [];
+  const touchesByVisitor = new Map<string, typeof touches>();
+  for (const touch of touches) {
+    const list = touchesByVisitor.get(touch.visitorHash!) ?? [];
+    list.push(touch);
+    touchesByVisitor.set(touch.visitorHash!, list);
+  }
+
+  for (const conversion of conversions) {
+    const { click } = conversion;
+    const cutoff = attributionCutoff(conversion.timestamp, windowDays);
+    const earlier = click.visitorHash
+      ? (touchesByVisitor.get(click.visitorHash) ?? []).filter(
+          (t) => t.id !== click.id && t.timestamp >= cutoff && t.timestamp <= click.timestamp,
+        )
+      : [];
+    const path = [...earlier.map((t) => t.shortLinkId), conversion.shortLinkId];
+
+    let revenue = 0;
+    if (conversion.value !== null) {
+      const converted = convert(conversion.value.toNumber(), conversion.currency, conversion.timestamp);
+      if (converted === null) unconverted.add(conversion.currency!);
+      else revenue = converted;
+    }
+
+    for (const [linkId, share] of splitCredit(path, model)) {
+      const credit = byLink.get(linkId) ?? { conversions: 0, revenue: 0 };
+      credit.conversions += share;
+      credit.revenue += revenue * share;
+      byLink.set(linkId, credit);
+    }
+  }
+  return { byLink, unconvertedCurrencies: Array.from(unconverted).sort() };
+}
+
+/**
+ * All-time credit for one campaign's links under the workspace's
+ * settings. Non-last-click models credit along paths through any of the
+ * workspace's links (`linkScope`), so those are all loaded, not just the
+ * campaign's. Internal and likely-bot clicks stay off the paths.
+ */
+export async function campaignConversionCredit({
+  campaignLinkIds,
+  linkScope,
+  attribution,
+  convert,
+}: {
+  campaignLinkIds: string[];
+  linkScope: Prisma.ShortLinkWhereInput;
+  attribution: AttributionSettings;
+  convert: CurrencyConverter;
+}): Promise<{ byLink: Map<string, ConversionCredit>; unconvertedCurrencies: string[] }> {
+  const pathLinkIds =
+    attribution.model === "LAST_CLICK"
+      ? campaignLinkIds
+      : (
+          await prisma.shortLink.findMany({
+            where: { deletedAt: null, ...linkScope },
+            select: { id: true },
+          })
+        ).map((l) => l.id);
+  return attributedConversions({
+    linkIds: pathLinkIds,
+    since: new Date(0),
+    model: attribution.model,
+    windowDays: attribution.windowDays,
+    convert,
+    clickFilter: { isInternal: false, ...HUMAN_CLICK_FILTER },
+  });
+}
@@ -1,15 +1,25 @@
 /**
  * Client-side analytics aggregation.
  *
- * Mirrors the computation in /api/analytics/route.ts but operates on raw
- * click rows + link metadata delivered once by /api/analytics/raw. Runs in
- * the browser via useMemo so filter switches are zero-latency.
+ * Mirrors the computation in /api/analytics/route.ts but operates on
+ * click rollups, raw click rows + link metadata delivered once by
+ * /api/analytics/raw. Runs in the browser via useMemo so filter switches
+ * are zero-latency.
  *
- * Scale envelope (Free tier):
- *   - up to 10,000 clicks × ~200 bytes = ~2 MB payload — fine
- *   - past that we truncate and show a banner
+ * Counted metrics (totals, time series, devices, countries, referrers,
+ * referrer sources / channels, top links, UTM) come from the rollups when the payload has them, so
+ * they're exact for any range. Breakdowns the rollups don't carry
+ * (browser, OS, city, routing, unique visitors) come from the raw clicks,
+ * capped at the most recent 10,000 — meta.truncated marks them sampled.
+ *
+ * Days and hours are bucketed in the reporting time zone passed in
+ * (ComputeFilters.timeZone), not the browser's.
  */
 
+import { matchesTagFilter, type TagFilter } from "@/lib/tag-filter";
+import { percentChange } from "@/lib/date-ranges";
+import { DEFAULT_TIME_ZONE, timeZoneOffsetMs, zonedDayKey, zonedFields } from "@/lib/timezone";
+
 export interface RawClick {
   shortLinkId: string;
   timestamp: string; // ISO
@@ -20,6 +30,15 @@ export interface RawClick {
   city: string | null;
   ipHash: string | null;
   referrer: string | null;
+  /** Normalised referrer source / channel — see lib/referrer-channels */
+  referrerSource?: string | null;
+  channel?: string | null;
+  /** Device / OS routing rule that picked the destination, if any */
+  ruleId?: string | null;
+  /** Geo route that picked the destination, if any */
+  geoRouteId?: string | null;
+  /** Set when a fallback URL was served instead (FallbackState) */
+  fallbackState?: string | null;
 }
 
 export interface LinkMeta {
@@ -32,27 +51,94 @@ export interface LinkMeta {
   utmMedium: string | null;
   utmContent: string | null;
   tagIds: string[];
+  /** Folder (LinkGroup) the link sits in */
+  groupId?: string | null;
+  /** Routing rules configured on the link (id → display label) */
+  rules?: { id: string; label: string }[];
+  /** Geo routes configured on the link (id → display label) */
+  geoRoutes?: { id: string; label: string }[];
+}
+
+export type RollupGranularity = "hour" | "day";
+
+/**
+ * total | country | device | referrer (host) | source / channel (see
+ * lib/referrer-channels) | variant
+ */
+export type RollupDimension =
+  | "total"
+  | "country"
+  | "device"
+  | "referrer"
+  | "source"
+  | "channel"
+  | "variant";
+
+/**
+ * Clicks on one link in one hour / day bucket — all of them for the
+ * "total" dimension, else those with one dimension value (null = unknown).
+ */
+export interface RollupRow {
+  shortLinkId: string;
+  bucket: string; // ISO, start of the UTC hour / day
+  dimension: RollupDimension;
+  value: string | null;
+  clicks: number;
+}
+
+/** Clicks on one link on one day of the reporting time zone. */
+export interface ZonedDayRow {
+  shortLinkId: string;
+  date: string; // YYYY-MM-DD
+  clicks: number;
+}
+
+/** A wrong password entered on a protected link's unlock page. */
+export interface RawUnlockFailure {
+  shortLinkId: string;
+  timestamp: string; // ISO
 }
 
 export interface RawAnalyticsData {
   clicks: RawClick[];
   links: LinkMeta[];
+  unlockFailures?: RawUnlockFailure[];
+  /** Pre-aggregated counts covering meta.since onwards */
+  rollups?: {
+    granularity: RollupGranularity;
+    rows: RollupRow[];
+  };
+  /** Exact by-day counts in the time zone the payload was asked for */
+  days?: {
+    timeZone: string;
+    rows: ZonedDayRow[];
+  };
   meta: {
     totalClicks: number;
-    /** True when the backend had to cut at the cap */
+    /** True when the backend had to cut raw clicks at the cap */
     truncated: boolean;
     /** ISO date; clicks older than this are NOT in `clicks` */
     since: string;
+    /** ISO date; end of the range the payload covers */
+    until?: string;
     /** True when test/internal clicks are mixed into the payload */
     includeInternal?: boolean;
     /** Count of clicks excluded by the test-click filter (0 when off) */
     excludedInternal?: number;
+    /** True when likely-bot clicks are mixed into the payload */
+    includeBots?: boolean;
+    /** Count of likely-bot clicks excluded by the bot filter (0 when off) */
+    excludedBots?: number;
   };
 }
 
 export interface ComputedAnalytics {
   summary: {
     totalClicks: number;
+    /**
+     * Distinct ipHash among the payload's clicks — capped, so pages show
+     * /api/analytics/visitors' sketch estimate when they can.
+     */
     uniqueVisitors: number;
     clicksChange: number;
   };
@@ -62,8 +148,24 @@ export interface ComputedAnalytics {
   browsers: { name: string; value: number }[];
   operatingSystems: { name: string; value: number }[];
   referrers: { name: string; value: number }[];
+  /** Normalised referrer sources ("facebook", "google", bare hosts) */
+  referrerSources: { name: string; value: number }[];
+  /** Clicks per channel; clicks from before classification under UNCLASSIFIED_CHANNEL. */
+  channels: { name: string; value: number }[];
   countries: { name: string; value: number }[];
   cities: { name: string; country: string | null; value: number }[];
+  /** "Rule matched" breakdown — only clicks on links that have routing
+   *  rules. Clicks no rule caught are grouped under NO_RULE_MATCHED. */
+  routingRules: { name: string; value: number }[];
+  /** Same shape for geo routes; unmatched clicks under NO_RULE_MATCHED. */
+  geoRouting: { name: string; value: number }[];
+  /** Wrong-password attempts per protected link ("/code" → attempts).
+   *  Not clicks — these visitors never reached the destination. */
+  failedUnlocks: { name: string; value: number }[];
+  /** Clicks sent to a fallback destination, by link state (FallbackState
+   *  name, e.g. "expired"). Kept out of totals and every other breakdown,
+   *  like the rollups — they never reached the destination. */
+  fallbackServed: { name: string; value: number }[];
   /** Hour-by-hour curve from the first click in the window. Useful to
    *  see how fast a campaign decays — typical EDM has 60% in first 24h. */
   decay: {
@@ -71,8 +173,9 @@ export interface ComputedAnalytics {
     clicks: number;
     cumClicks: number;
   }[];
-  /** 7×24 grid of click counts. heatmap[dayOfWeek][hour]. dayOfWeek
-   *  follows JS Date convention: 0 = Sunday, 6 = Saturday. */
+  /** 7×24 grid of click counts. heatmap[dayOfWeek][hour], in the
+   *  reporting time zone. dayOfWeek follows JS Date convention:
+   *  0 = Sunday, 6 = Saturday. */
   dayHourHeatmap: number[][];
   topLinks: {
     id: string;
@@ -103,8 +206,31 @@ export interface ComputeFilters {
    * Any other string = exact match.
    */
   campaign?: string | null;
-  /** Filter to links that carry this tag */
-  tagId?: string;
+  /** Filter to links carrying any / all of these tags */
+  tags?: TagFilter | null;
+  /**
+   * Filter to links in these folders — the selected folder plus its
+   * subfolders. `["__none__"]` = only links in no folder.
+   */
+  groupIds?: string[];
+  /** IANA zone days / hours are bucketed in; defaults to UTC */
+  timeZone?: string;
+}
+
+/** Bucket name for clicks on a rule-routed link that matched no rule. */
+export const NO_RULE_MATCHED = "__no_rule__";
+
+/** Channel bucket for clicks recorded before referrer classification. */
+export const UNCLASSIFIED_CHANNEL = "__unclassified__";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** `clicks` clicks on one link at `t` (ms) — a raw click or a rollup bucket. */
+interface CountedClicks {
+  shortLinkId: string;
+  t: number;
+  clicks: number;
 }
 
 function sortAndSlice(map: Map<string, number>, limit = 10) {
@@ -122,7 +248,9 @@ export function computeAnalytics(
   raw: RawAnalyticsData,
   filters: ComputeFilters,
 ): ComputedAnalytics {
-  const { rangeStart, rangeEnd, linkId, campaign, tagId } = filters;
+  const { rangeStart, rangeEnd, linkId, campaign, tags, groupIds } = filters;
+  const timeZone = filters.timeZone ?? DEFAULT_TIME_ZONE;
+  const groupSet = groupIds?.length ? new Set(groupIds) : null;
 
   // --- 1. Determine the set of link IDs this view cares about ---
   const linksById = new Map<string, LinkMeta>();
@@ -141,7 +269,8 @@ export function computeAnalytics(
           continue;
         }
       }
-      if (tagId && !l.tagIds.includes(tagId)) continue;
+      if (!matchesTagFilter(l.tagIds, tags ?? null)) continue;
+      if (groupSet && !groupSet.has(l.groupId ?? "__none__")) continue;
       eligibleLinkIds.add(l.id);
     }
   }
@@ -154,10 +283,19 @@ export function computeAnalytics(
 
   const inRange: RawClick[] = [];
   let prevPeriodCount = 0;
+  // Fallback clicks never reached the destination (or the routing step):
+  // tallied on their own, left out of everything else as in the rollups.
+  const fallbackMap = new Map<string, number>();
 
   for (const c of raw.clicks) {
     if (!eligibleLinkIds.has(c.shortLinkId)) continue;
     const t = new Date(c.timestamp).getTime();
+    if (c.fallbackState) {
+      if (t >= startMs && t <= endMs) {
+        fallbackMap.set(c.fallbackState, (fallbackMap.get(c.fallbackState) || 0) + 1);
+      }
+      continue;
+    }
     if (t >= startMs && t <= endMs) {
       inRange.push(c);
     } else if (t >= prevStartMs && t < startMs) {
@@ -165,30 +303,105 @@ export function computeAnalytics(
     }
   }
 
+  // --- 2b. Counted clicks: rollup buckets, or one entry per raw click ---
+  const deviceMap = new Map<string, number>();
+  const referrerMap = new Map<string, number>();
+  const referrerSourceMap = new Map<string, number>();
+  const channelMap = new Map<string, number>();
+  const countryMap = new Map<string, number>();
+  const counted: CountedClicks[] = [];
+  const rollups = raw.rollups;
+  // Daily buckets can't place clicks in an hour of the day, and hourly
+  // ones straddle the hours of half- / quarter-hour zones — the hourly
+  // charts fall back to the raw clicks then.
+  const wholeHourZone = [startMs, endMs].every((t) => timeZoneOffsetMs(t, timeZone) % HOUR_MS === 0);
+  const hourly = !rollups || (rollups.granularity === "hour" && wholeHourZone);
+
+  if (rollups) {
+    const bucketMs = rollups.granularity === "hour" ? HOUR_MS : DAY_MS;
+    prevPeriodCount = 0;
+    for (const r of rollups.rows) {
+      if (!eligibleLinkIds.has(r.shortLinkId)) continue;
+      const t = new Date(r.bucket).getTime();
+      // A bucket belongs to the range it starts in, or overlaps the start of.
+      if (t > startMs - bucketMs && t <= endMs) {
+        if (r.dimension === "total") {
+          counted.push({ shortLinkId: r.shortLinkId, t, clicks: r.clicks });
+        } else if (r.dimension === "device") {
+          const dev = r.value || "Unknown";
+          deviceMap.set(dev, (deviceMap.get(dev) || 0) + r.clicks);
+        } else if (r.dimension === "referrer" && r.value) {
+          referrerMap.set(r.value, (referrerMap.get(r.value) || 0) + r.clicks);
+        } else if (r.dimension === "source" && r.value) {
+          referrerSourceMap.set(r.value, (referrerSourceMap.get(r.value) || 0) + r.clicks);
+        } else if (r.dimension === "channel") {
+          const channel = r.value || UNCLASSIFIED_CHANNEL;
+          channelMap.set(channel, (channelMap.get(channel) || 0) + r.clicks);
+        } else if (r.dimension === "country" && r.value) {
+          countryMap.set(r.value, (countryMap.get(r.value) || 0) + r.clicks);
+        }
+      } else if (r.dimension === "total" && t > prevStartMs - bucketMs && t <= startMs - bucketMs) {
+        prevPeriodCount += r.clicks;
+      }
+    }
+  } else {
+    for (const c of inRange) {
+      counted.push({ shortLinkId: c.shortLinkId, t: new Date(c.timestamp).getTime(), clicks: 1 });
+      const dev = c.device || "Unknown";
+      deviceMap.set(dev, (deviceMap.get(dev) || 0) + 1);
+      if (c.referrer) {
+        referrerMap.set(c.referrer, (referrerMap.get(c.referrer) || 0) + 1);
+      }
+      if (c.referrerSource) {
+        referrerSourceMap.set(
+          c.referrerSource,
+          (referrerSourceMap.get(c.referrerSource) || 0) + 1,
+        );
+      }
+      const channel = c.channel || UNCLASSIFIED_CHANNEL;
+      channelMap.set(channel, (channelMap.get(channel) || 0) + 1);
+      if (c.country) {
+        countryMap.set(c.country, (countryMap.get(c.country) || 0) + 1);
+      }
+    }
+  }
+
+  const timed: CountedClicks[] = hourly
+    ? counted
+    : inRange.map((c) => ({ shortLinkId: c.shortLinkId, t: new Date(c.timestamp).getTime(), clicks: 1 }));
+
   // --- 3. Summary ---
-  const totalClicks = inRange.length;
+  let totalClicks = 0;
+  for (const c of counted) totalClicks += c.clicks;
   const uniqueIps = new Set<string>();
   for (const c of inRange) if (c.ipHash) uniqueIps.add(c.ipHash);
   const uniqueVisitors = uniqueIps.size;
-  let clicksChange = 0;
-  if (prevPeriodCount > 0) {
-    clicksChange = Math.round(
-      ((totalClicks - prevPeriodCount) / prevPeriodCount) * 100,
-    );
-  } else if (totalClicks > 0) {
-    clicksChange = 100;
-  }
+  const clicksChange = percentChange(totalClicks, prevPeriodCount);
 
   // --- 4. By day / by hour ---
   const dayMap = new Map<string, number>();
   const hourMap = new Map<number, number>();
   for (let h = 0; h < 24; h++) hourMap.set(h, 0);
 
-  for (const c of inRange) {
-    const d = new Date(c.timestamp);
-    const dayKey = d.toISOString().slice(0, 10);
-    dayMap.set(dayKey, (dayMap.get(dayKey) || 0) + 1);
-    hourMap.set(d.getHours(), (hourMap.get(d.getHours()) || 0) + 1);
+  // UTC rollup buckets don't split into local days, so the payload's
+  // zoned day counts win when they're in this time zone.
+  const zonedDays = raw.days?.timeZone === timeZone ? raw.days.rows : null;
+  if (zonedDays) {
+    const firstDay = zonedDayKey(startMs, timeZone);
+    const lastDay = zonedDayKey(endMs, timeZone);
+    for (const d of zonedDays) {
+      if (!eligibleLinkIds.has(d.shortLinkId) || d.date < firstDay || d.date > lastDay) continue;
+      dayMap.set(d.date, (dayMap.get(d.date) || 0) + d.clicks);
+    }
+  } else {
+    for (const c of timed) {
+      const dayKey = zonedDayKey(c.t, timeZone);
+      dayMap.set(dayKey, (dayMap.get(dayKey) || 0) + c.clicks);
+    }
+  }
+  for (const c of timed) {
+    const { hour } = zonedFields(c.t, timeZone);
+    hourMap.set(hour, (hourMap.get(hour) || 0) + c.clicks);
   }
 
   const clicksByDay = Array.from(dayMap.entries())
@@ -199,35 +412,31 @@ export function computeAnalytics(
     .sort((a, b) => a[0] - b[0])
     .map(([hour, clicks]) => ({ hour, clicks }));
 
-  // --- 5. Dimensions: devices / browsers / os / referrer / country / city ---
-  const deviceMap = new Map<string, number>();
+  // --- 5. Dimensions: browsers / os / city / routing (raw clicks) ---
   const browserMap = new Map<string, number>();
   const osMap = new Map<string, number>();
-  const referrerMap = new Map<string, number>();
-  const countryMap = new Map<string, number>();
   // Key by "country|city" so two cities with the same name in
   // different countries don't collapse together.
   const cityMap = new Map<string, { country: string | null; count: number }>();
-
-  // 7×24 click heatmap (dayOfWeek × hour). Built in the same loop as
-  // the per-click dimensional aggregation to keep one pass over data.
-  const dayHourHeatmap: number[][] = Array.from({ length: 7 }, () =>
-    new Array(24).fill(0),
-  );
+  // Rule labels are per-link, so resolve them once up front.
+  const ruleLabels = new Map<string, Map<string, string>>();
+  const geoRouteLabels = new Map<string, Map<string, string>>();
+  for (const l of raw.links) {
+    if (l.rules && l.rules.length > 0) {
+      ruleLabels.set(l.id, new Map(l.rules.map((r) => [r.id, r.label])));
+    }
+    if (l.geoRoutes && l.geoRoutes.length > 0) {
+      geoRouteLabels.set(l.id, new Map(l.geoRoutes.map((r) => [r.id, r.label])));
+    }
+  }
+  const ruleMap = new Map<string, number>();
+  const geoRouteMap = new Map<string, number>();
 
   for (const c of inRange) {
-    const dev = c.device || "Unknown";
-    deviceMap.set(dev, (deviceMap.get(dev) || 0) + 1);
     const br = c.browser || "Unknown";
     browserMap.set(br, (browserMap.get(br) || 0) + 1);
     const osn = c.os || "Unknown";
     osMap.set(osn, (osMap.get(osn) || 0) + 1);
-    if (c.referrer) {
-      referrerMap.set(c.referrer, (referrerMap.get(c.referrer) || 0) + 1);
-    }
-    if (c.country) {
-      countryMap.set(c.country, (countryMap.get(c.country) || 0) + 1);
-    }
     if (c.city) {
       const key = `${c.country ?? ""}|${c.city}`;
       const prev = cityMap.get(key);
@@ -237,8 +446,29 @@ export function computeAnalytics(
         cityMap.set(key, { country: c.country, count: 1 });
       }
     }
-    const t = new Date(c.timestamp);
-    dayHourHeatmap[t.getDay()][t.getHours()] += 1;
+    const labels = ruleLabels.get(c.shortLinkId);
+    if (labels || c.ruleId) {
+      const rule = c.ruleId
+        ? labels?.get(c.ruleId) ?? c.ruleId
+        : NO_RULE_MATCHED;
+      ruleMap.set(rule, (ruleMap.get(rule) || 0) + 1);
+    }
+    const geoLabels = geoRouteLabels.get(c.shortLinkId);
+    if (geoLabels || c.geoRouteId) {
+      const route = c.geoRouteId
+        ? geoLabels?.get(c.geoRouteId) ?? c.geoRouteId
+        : NO_RULE_MATCHED;
+      geoRouteMap.set(route, (geoRouteMap.get(route) || 0) + 1);
+    }
+  }
+
+  // 7×24 click heatmap (dayOfWeek × hour).
+  const dayHourHeatmap: number[][] = Array.from({ length: 7 }, () =>
+    new Array(24).fill(0),
+  );
+  for (const c of timed) {
+    const { weekday, hour } = zonedFields(c.t, timeZone);
+    dayHourHeatmap[weekday][hour] += c.clicks;
   }
 
   const toNameValue = (m: Map<string, number>) =>
@@ -246,6 +476,16 @@ export function computeAnalytics(
       .map(([name, value]) => ({ name, value }))
       .sort((a, b) => b.value - a.value);
 
+  const unlockFailureMap = new Map<string, number>();
+  for (const f of raw.unlockFailures ?? []) {
+    if (!eligibleLinkIds.has(f.shortLinkId)) continue;
+    const t = new Date(f.timestamp).getTime();
+    if (t < startMs || t > endMs) continue;
+    const meta = linksById.get(f.shortLinkId);
+    const name = meta ? `/${meta.code}` : f.shortLinkId;
+    unlockFailureMap.set(name, (unlockFailureMap.get(name) || 0) + 1);
+  }
+
   const cities = Array.from(cityMap.entries())
     .map(([key, v]) => ({
       name: key.split("|", 2)[1],
@@ -261,20 +501,17 @@ export function computeAnalytics(
   // — most marketing campaigns peak inside that window anyway.
   const DECAY_HORIZON_HOURS = 72;
   const decay: { hourFromFirst: number; clicks: number; cumClicks: number }[] = [];
-  if (inRange.length > 0) {
-    // inRange is reverse-chronological from upstream; find true earliest
+  if (timed.length > 0) {
+    // Neither source is guaranteed chronological; find the true earliest
     let firstTs = Number.POSITIVE_INFINITY;
-    for (const c of inRange) {
-      const t = new Date(c.timestamp).getTime();
-      if (t < firstTs) firstTs = t;
+    for (const c of timed) {
+      if (c.t < firstTs) firstTs = c.t;
     }
     const hourBuckets = new Array(DECAY_HORIZON_HOURS + 1).fill(0);
-    for (const c of inRange) {
-      const dh = Math.floor(
-        (new Date(c.timestamp).getTime() - firstTs) / (60 * 60 * 1000),
-      );
+    for (const c of timed) {
+      const dh = Math.floor((c.t - firstTs) / HOUR_MS);
       const idx = dh >= DECAY_HORIZON_HOURS ? DECAY_HORIZON_HOURS : dh;
-      hourBuckets[idx] += 1;
+      hourBuckets[idx] += c.clicks;
     }
     let cum = 0;
     for (let i = 0; i < hourBuckets.length; i++) {
@@ -289,10 +526,10 @@ export function computeAnalytics(
 
   // --- 6. Top links ---
   const linkClickCount = new Map<string, number>();
-  for (const c of inRange) {
+  for (const c of counted) {
     linkClickCount.set(
       c.shortLinkId,
-      (linkClickCount.get(c.shortLinkId) || 0) + 1,
+      (linkClickCount.get(c.shortLinkId) || 0) + c.clicks,
     );
   }
 
@@ -380,8 +617,14 @@ export function computeAnalytics(
     browsers: toNameValue(browserMap),
     operatingSystems: toNameValue(osMap),
     referrers: toNameValue(referrerMap).slice(0, 10),
+    referrerSources: toNameValue(referrerSourceMap).slice(0, 10),
+    channels: toNameValue(channelMap),
     countries: toNameValue(countryMap).slice(0, 10),
     cities,
+    routingRules: toNameValue(ruleMap),
+    geoRouting: toNameValue(geoRouteMap),
+    failedUnlocks: toNameValue(unlockFailureMap),
+    fallbackServed: toNameValue(fallbackMap),
     decay,
     dayHourHeatmap,
     topLinks,
@@ -0,0 +1,141 @@
+/**
+ * Funnel reports — how a cohort of clicks moved through a Funnel's event
+ * steps (src/lib/funnels.ts), overall and per link / campaign / A/B
+ * variant.
+ *
+ * The cohort is the clicks in [start, end]; the click counts come from
+ * the rollups (widened to the start of their bucket, as everywhere else)
+ * and the step events from the Conversion table, joined to their click
+ * so internal / bot clicks drop out the same way. Only each session's
+ * first 20 firings of an event are looked at.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { BOT_SCORE_THRESHOLD } from "@/lib/bot-score";
+import { bucketStart, queryRollups, rollupGranularity } from "@/lib/analytics/rollups";
+import {
+  funnelPath,
+  summarizeFunnel,
+  type FunnelGroupBy,
+  type FunnelReport,
+} from "@/lib/funnels";
+
+const EVENTS_PER_SESSION = 20;
+
+export interface FunnelQuery {
+  steps: string[];
+  windowDays: number;
+  linkIds: string[];
+  start: Date;
+  end: Date;
+  includeInternal: boolean;
+  groupBy: FunnelGroupBy | null;
+  /** utm_campaign per link, for groupBy "campaign" */
+  linkCampaigns: Map<string, string | null>;
+}
+
+export interface FunnelGroupReport extends FunnelReport {
+  /** Link id, campaign name or variant id; null = no campaign / primary URL */
+  key: string | null;
+}
+
+export async function computeFunnel(
+  query: FunnelQuery,
+): Promise<{ total: FunnelReport; groups: FunnelGroupReport[] }> {
+  const { steps, linkIds, groupBy } = query;
+  if (linkIds.length === 0 || steps.length === 0) {
+    return { total: summarizeFunnel(steps, 0, []), groups: [] };
+  }
+
+  const granularity = rollupGranularity(query.start, query.end);
+  const cohortStart = bucketStart(query.start, granularity);
+
+  const [{ rows: clickRows }, eventRows] = await Promise.all([
+    queryRollups({
+      linkIds,
+      start: query.start,
+      end: query.end,
+      includeInternal: query.includeInternal,
+      includeBots: false,
+      dimensions: [groupBy === "variant" ? "variant" : "total"],
+      granularity,
+    }),
+    prisma.$queryRaw<
+      {
+        click_id: string;
+        short_link_id: string;
+        variant_id: string | null;
+        clicked_at: Date;
+        event_name: string;
+        times: Date[];
+      }[]
+    >(Prisma.sql`
+      SELECT cv.click_id, c.short_link_id, c.variant_id, c.timestamp AS clicked_at, cv.event_name,
+             (array_agg(cv.timestamp ORDER BY cv.timestamp))[1:${EVENTS_PER_SESSION}::int] AS times
+      FROM conversions cv
+      JOIN clicks c ON c.id = cv.click_id
+      WHERE c.short_link_id = ANY(${linkIds}::text[])
+        AND c.timestamp >= ${cohortStart}
+        AND c.timestamp <= ${query.end}
+        AND cv.event_name IN (${Prisma.join(steps)})
+        AND cv.timestamp <= c.timestamp + make_interval(days => ${query.windowDays}::int)
+        AND c.bot_score < ${BOT_SCORE_THRESHOLD}
+        ${query.includeInternal ? Prisma.empty : Prisma.sql`AND c.is_internal = false`}
+      GROUP BY cv.click_id, c.short_link_id, c.variant_id, c.timestamp, cv.event_name
+    `),
+  ]);
+
+  const groupKey = (shortLinkId: string, variantId: string | null): string | null => {
+    if (groupBy === "link") return shortLinkId;
+    if (groupBy === "campaign") return query.linkCampaigns.get(shortLinkId) ?? null;
+    return variantId;
+  };
+
+  let totalClicks = 0;
+  const groupClicks = new Map<string | null, number>();
+  for (const row of clickRows) {
+    totalClicks += row.clicks;
+    if (!groupBy) continue;
+    const key = groupKey(row.shortLinkId, row.value);
+    groupClicks.set(key, (groupClicks.get(key) ?? 0) + row.clicks);
+  }
+
+  const sessions = new Map<
+    string,
+    { key: string | null; clickedAt: Date; events: Record<string, Date[]> }
+  >();
+  for (const row of eventRows) {
+    let session = sessions.get(row.click_id);
+    if (!session) {
+      session = {
+        key: groupBy ? groupKey(row.short_link_id, row.variant_id) : null,
+        clickedAt: row.clicked_at,
+        events: {},
+      };
+      sessions.set(row.click_id, session);
+    }
+    session.events[row.event_name] = row.times;
+  }
+
+  const allPaths: Date[][] = [];
+  const groupPaths = new Map<string | null, Date[][]>();
+  for (const session of sessions.values()) {
+    const path = funnelPath(steps, session.clickedAt, session.events);
+    allPaths.push(path);
+    if (!groupBy) continue;
+    const list = groupPaths.get(session.key) ?? [];
+    list.push(path);
+    groupPaths.set(session.key, list);
+  }
+
+  const groupKeys = new Set([...groupClicks.keys(), ...groupPaths.keys()]);
+  const groups = [...groupKeys]
+    .map((key) => ({
+      key,
+      ...summarizeFunnel(steps, groupClicks.get(key) ?? 0, groupPaths.get(key) ?? []),
+    }))
+    .sort((a, b) => b.clicks - a.clicks);
+
+  return { total: summarizeFunnel(steps, totalClicks, allPaths), groups };
+}
@@ -0,0 +1,99 @@
+/**
+ * Re-run the referrer classifier (src/lib/referrer-channels.ts) over a
+ * workspace's recorded clicks — after its mapping rules change, and to
+ * classify clicks recorded before channels existed. Then rebuilds the
+ * rollups so the source / channel dimensions follow.
+ *
+ * A workspace can hold millions of clicks, so the work is split into
+ * bounded steps the caller drives with a cursor: first the clicks in id
+ * order, CLICK_BATCH at a time, then (only if any click changed) the
+ * rollups, LINK_BATCH links at a time. Each step is one short request.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { classifyHost, type ReferrerClass, type ReferrerRule } from "@/lib/referrer-channels";
+import { REFERRER_HOST_SQL, rebuildRollups } from "@/lib/analytics/rollups";
+
+const CLICK_BATCH = 5000;
+const UPDATE_BATCH = 1000;
+const LINK_BATCH = 100;
+
+/** Where the next step picks up; `updated` is the running total. */
+export interface ReclassifyCursor {
+  phase: "clicks" | "rollups";
+  /** Last click / link id handled; null = from the start of the phase. */
+  after: string | null;
+  updated: number;
+}
+
+export interface ReclassifyStep {
+  /** Clicks that changed source or channel so far. */
+  updated: number;
+  /** Null once everything is reclassified and rebuilt. */
+  next: ReclassifyCursor | null;
+}
+
+export async function reclassifyReferrersStep(
+  workspaceId: string,
+  rules: ReferrerRule[],
+  cursor: ReclassifyCursor = { phase: "clicks", after: null, updated: 0 },
+): Promise<ReclassifyStep> {
+  if (cursor.phase === "rollups") {
+    const links = await prisma.shortLink.findMany({
+      where: { workspaceId, ...(cursor.after && { id: { gt: cursor.after } }) },
+      select: { id: true },
+      orderBy: { id: "asc" },
+      take: LINK_BATCH,
+    });
+    await rebuildRollups(links.map((l) => l.id));
+    return {
+      updated: cursor.updated,
+      next:
+        links.length < LINK_BATCH
+          ? null
+          : { phase: "rollups", after: links[links.length - 1].id, updated: cursor.updated },
+    };
+  }
+
+  const clicks = await prisma.$queryRaw<
+    { id: string; host: string; in_app: string | null; source: string | null; channel: string | null }[]
+  >`
+    SELECT c.id, ${REFERRER_HOST_SQL} AS host, c.in_app, c.referrer_source AS source, c.channel
+    FROM clicks c
+    JOIN short_links s ON s.id = c.short_link_id
+    WHERE s.workspace_id = ${workspaceId}
+      ${cursor.after ? Prisma.sql`AND c.id > ${cursor.after}` : Prisma.empty}
+    ORDER BY c.id
+    LIMIT ${CLICK_BATCH}
+  `;
+
+  // Classify each distinct (host, in-app webview) pair once.
+  const classified = new Map<string, ReferrerClass>();
+  const changed = clicks.flatMap((click) => {
+    const key = `${click.host}\n${click.in_app ?? ""}`;
+    let result = classified.get(key);
+    if (!result) {
+      result = classifyHost(click.host, click.in_app, rules);
+      classified.set(key, result);
+    }
+    return result.source === click.source && result.channel === click.channel
+      ? []
+      : [Prisma.sql`(${click.id}, ${result.source}, ${result.channel})`];
+  });
+
+  for (let i = 0; i < changed.length; i += UPDATE_BATCH) {
+    await prisma.$executeRaw`
+      UPDATE clicks c
+      SET referrer_source = m.source, channel = m.channel
+      FROM (VALUES ${Prisma.join(changed.slice(i, i + UPDATE_BATCH))}) AS m(id, source, channel)
+      WHERE c.id = m.id
+    `;
+  }
+
+  const updated = cursor.updated + changed.length;
+  if (clicks.length === CLICK_BATCH) {
+    return { updated, next: { phase: "clicks", after: clicks[clicks.length - 1].id, updated } };
+  }
+  return { updated, next: updated > 0 ? { phase: "rollups", after: null, updated } : null };
+}
@@ -0,0 +1,48 @@
+/**
+ * Server side of lib/date-ranges — resolves a requested range, loading
+ * the campaign's schedule when the preset is its lifetime, and the
+ * reporting time zone it's taken in.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { resolveDateRange, type DateRange, type RangeSpec } from "@/lib/date-ranges";
+import { resolveTimeZone } from "@/lib/timezone";
+
+/**
+ * The zone a user's reports bucket days / hours in: their own override,
+ * else the workspace's setting, else UTC. Without a user (share links)
+ * only the workspace counts.
+ */
+export async function reportingTimeZone(
+  userId: string | null,
+  workspaceId: string | null,
+): Promise<string> {
+  const [user, workspace] = await Promise.all([
+    userId
+      ? prisma.user.findUnique({ where: { id: userId }, select: { timezone: true } })
+      : null,
+    workspaceId
+      ? prisma.workspace.findUnique({ where: { id: workspaceId }, select: { timezone: true } })
+      : null,
+  ]);
+  return resolveTimeZone(user?.timezone, workspace?.timezone);
+}
+
+/**
+ * `spec`'s window, or null when it can't be resolved (see
+ * resolveDateRange). The "campaign" preset reads the Campaign named
+ * `campaignName` in `workspaceId`; without one it resolves to null.
+ */
+export async function resolveRequestedRange(
+  spec: Omit<RangeSpec, "campaign">,
+  workspaceId: string | null,
+  campaignName: string | null,
+): Promise<DateRange | null> {
+  if (spec.preset !== "campaign") return resolveDateRange(spec);
+  if (!campaignName || campaignName === "__none__") return null;
+  const campaign = await prisma.campaign.findFirst({
+    where: { name: campaignName, ...(workspaceId ? { workspaceId } : {}) },
+    select: { startDate: true, endDate: true, createdAt: true },
+  });
+  return resolveDateRange({ ...spec, campaign });
+}
@@ -0,0 +1,92 @@
+/**
+ * Server side of revenue normalisation (src/lib/currency.ts): the
+ * workspace's reporting currency and a converter over its exchange rates,
+ * and saving rates from the settings screen / CSV upload.
+ */
+
+import { prisma } from "@/lib/prisma";
+import {
+  DEFAULT_REPORTING_CURRENCY,
+  createCurrencyConverter,
+  type CurrencyConverter,
+} from "@/lib/currency";
+
+export interface RevenueCurrency {
+  currency: string;
+  convert: CurrencyConverter;
+}
+
+/** Reporting currency + converter; USD with no rates without a workspace. */
+export async function workspaceRevenueCurrency(
+  workspaceId: string | null,
+): Promise<RevenueCurrency> {
+  if (!workspaceId) {
+    return {
+      currency: DEFAULT_REPORTING_CURRENCY,
+      convert: createCurrencyConverter([], DEFAULT_REPORTING_CURRENCY),
+    };
+  }
+  const [workspace, rates] = await Promise.all([
+    prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { reportingCurrency: true },
+    }),
+    prisma.exchangeRate.findMany({
+      where: { workspaceId },
+      select: { baseCurrency: true, quoteCurrency: true, rate: true, date: true },
+    }),
+  ]);
+  const currency = workspace?.reportingCurrency ?? DEFAULT_REPORTING_CURRENCY;
+  return {
+    currency,
+    convert: createCurrencyConverter(
+      rates.map((r) => ({ ...r, rate: r.rate.toNumber() })),
+      currency,
+    ),
+  };
+}
+
+export interface ExchangeRateInput {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  /** YYYY-MM-DD */
+  date: string;
+}
+
+/**
+ * Insert or replace rates — one per pair and date, so re-uploading a
+ * corrected sheet overwrites instead of duplicating. Sequential upserts
+ * in one transaction; callers cap the batch size.
+ */
+export async function saveExchangeRates(
+  workspaceId: string,
+  userId: string,
+  rates: ExchangeRateInput[],
+): Promise<number> {
+  const saved = await prisma.$transaction(
+    rates.map((r) => {
+      const date = new Date(`${r.date}T00:00:00Z`);
+      return prisma.exchangeRate.upsert({
+        where: {
+          workspaceId_baseCurrency_quoteCurrency_date: {
+            workspaceId,
+            baseCurrency: r.baseCurrency,
+            quoteCurrency: r.quoteCurrency,
+            date,
+          },
+        },
+        create: {
+          workspaceId,
+          baseCurrency: r.baseCurrency,
+          quoteCurrency: r.quoteCurrency,
+          rate: r.rate,
+          date,
+          createdById: userId,
+        },
+        update: { rate: r.rate, createdById: userId },
+      });
+    }),
+  );
+  return saved.length;
+}
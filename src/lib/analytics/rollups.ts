@@ -0,0 +1,287 @@
+/**
+ * Click rollups — hourly / daily pre-aggregated click counts per link ×
+ * dimension (see ClickRollupHourly in prisma/schema.prisma).
+ *
+ * Write side: recordClick() adds rollupClickOps() to the transaction that
+ * inserts the click, so counts and rows can't drift. Fallback clicks
+ * (Click.fallbackState set) never reached the destination and aren't
+ * rolled up; every rebuild below skips them the same way. Bulk changes to
+ * existing clicks (campaign click reset) call rebuildRollups() for the
+ * affected links, which also rebuilds their visitor sketches
+ * (src/lib/analytics/visitors.ts).
+ *
+ * Read side: queryRollups() serves /api/analytics/raw and
+ * campaigns-summary for any range — hourly rows for short ranges, daily
+ * rows past HOURLY_MAX_DAYS — without the raw-click cap. UTC days don't
+ * line up with the reporting time zone's, so the by-day series comes
+ * from queryZonedDays() instead.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { BOT_SCORE_THRESHOLD } from "@/lib/bot-score";
+import type {
+  RollupDimension,
+  RollupGranularity,
+  RollupRow,
+  ZonedDayRow,
+} from "@/lib/analytics/compute";
+import { referrerHost } from "@/lib/referrer-channels";
+import { rebuildVisitorSketchesSql } from "@/lib/analytics/visitors";
+import { timeZoneOffsetMs } from "@/lib/timezone";
+
+/** Longest range (in days) still served from the hourly table. */
+export const HOURLY_MAX_DAYS = 62;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const TABLES: Record<RollupGranularity, Prisma.Sql> = {
+  hour: Prisma.raw("click_rollups_hourly"),
+  day: Prisma.raw("click_rollups_daily"),
+};
+
+const BUCKET_SQL: Record<RollupGranularity, Prisma.Sql> = {
+  hour: Prisma.raw("'hour'"),
+  day: Prisma.raw("'day'"),
+};
+
+// SQL twin of referrerHost() (src/lib/referrer-channels.ts), so live and
+// rebuilt rows land on the same value. Kept in step with the backfill
+// script too.
+export const REFERRER_HOST_SQL = Prisma.raw(
+  `COALESCE(lower(substring(c.referrer from '^[a-zA-Z][a-zA-Z0-9+.-]*://([^/?#:]+)')), '')`,
+);
+
+/** Start of the UTC hour / day `date` falls in. */
+export function bucketStart(date: Date, granularity: RollupGranularity): Date {
+  const size = granularity === "hour" ? HOUR_MS : DAY_MS;
+  return new Date(Math.floor(date.getTime() / size) * size);
+}
+
+/** Hourly rows while the range fits in HOURLY_MAX_DAYS, daily beyond. */
+export function rollupGranularity(start: Date, end: Date): RollupGranularity {
+  return end.getTime() - start.getTime() <= HOURLY_MAX_DAYS * DAY_MS ? "hour" : "day";
+}
+
+export interface RollupClick {
+  shortLinkId: string;
+  workspaceId: string | null;
+  timestamp: Date;
+  country: string | null;
+  device: string | null;
+  referrer: string | null;
+  /** Click.referrerSource / Click.channel */
+  referrerSource: string | null;
+  channel: string | null;
+  variantId: string | null;
+  isInternal: boolean;
+  isBot: boolean;
+}
+
+function dimensionValues(click: RollupClick): [RollupDimension, string][] {
+  return [
+    ["total", ""],
+    ["country", click.country ?? ""],
+    ["device", click.device ?? ""],
+    ["referrer", referrerHost(click.referrer)],
+    ["source", click.referrerSource ?? ""],
+    ["channel", click.channel ?? ""],
+    ["variant", click.variantId ?? ""],
+  ];
+}
+
+/**
+ * Upserts bumping the hourly and daily rollups for one click — meant to
+ * run in the same $transaction as the click insert.
+ */
+export function rollupClickOps(click: RollupClick): Prisma.PrismaPromise<number>[] {
+  return (["hour", "day"] as const).map((granularity) => {
+    const table = TABLES[granularity];
+    const bucket = bucketStart(click.timestamp, granularity);
+    const rows = dimensionValues(click).map(
+      ([dimension, value]) => Prisma.sql`(
+        ${click.shortLinkId}, ${click.workspaceId}, ${bucket}, ${dimension}, ${value},
+        ${click.isInternal}, ${click.isBot}, 1
+      )`,
+    );
+    return prisma.$executeRaw`
+      INSERT INTO ${table}
+        (short_link_id, workspace_id, bucket, dimension, value, is_internal, is_bot, clicks)
+      VALUES ${Prisma.join(rows)}
+      ON CONFLICT (short_link_id, bucket, dimension, value, is_internal, is_bot)
+      DO UPDATE SET clicks = ${table}.clicks + 1
+    `;
+  });
+}
+
+/**
+ * Recount the rollups of `linkIds` from their clicks — for bulk updates
+ * that change a click's flags after the fact. A click recorded while the
+ * rebuild runs can be missed; same trade-off as the redirect's dedup
+ * fallback, and the backfill script fixes it.
+ */
+export async function rebuildRollups(linkIds: string[]): Promise<void> {
+  if (linkIds.length === 0) return;
+  await prisma.$transaction([
+    ...(["hour", "day"] as const).flatMap((granularity) => {
+      const table = TABLES[granularity];
+      return [
+        prisma.$executeRaw`DELETE FROM ${table} WHERE short_link_id = ANY(${linkIds}::text[])`,
+        prisma.$executeRaw`
+          INSERT INTO ${table}
+            (short_link_id, workspace_id, bucket, dimension, value, is_internal, is_bot, clicks)
+          SELECT c.short_link_id, s.workspace_id, date_trunc(${BUCKET_SQL[granularity]}, c.timestamp),
+                 d.dimension, d.value, c.is_internal, c.bot_score >= ${BOT_SCORE_THRESHOLD}, COUNT(*)::int
+          FROM clicks c
+          JOIN short_links s ON s.id = c.short_link_id
+          CROSS JOIN LATERAL (VALUES
+            ('total', ''),
+            ('country', COALESCE(c.country, '')),
+            ('device', COALESCE(c.device, '')),
+            ('referrer', ${REFERRER_HOST_SQL}),
+            ('source', COALESCE(c.referrer_source, '')),
+            ('channel', COALESCE(c.channel, '')),
+            ('variant', COALESCE(c.variant_id, ''))
+          ) AS d(dimension, value)
+          WHERE c.short_link_id = ANY(${linkIds}::text[]) AND c.fallback_state IS NULL
+          GROUP BY 1, 2, 3, 4, 5, 6, 7
+        `,
+      ];
+    }),
+    prisma.$executeRaw`DELETE FROM visitor_sketches WHERE short_link_id = ANY(${linkIds}::text[])`,
+    prisma.$executeRaw(rebuildVisitorSketchesSql(Prisma.sql`c.short_link_id = ANY(${linkIds}::text[])`)),
+  ]);
+}
+
+export interface RollupQuery {
+  linkIds: string[];
+  /** inclusive — widened to the start of its bucket */
+  start: Date;
+  /** inclusive */
+  end: Date;
+  includeInternal: boolean;
+  includeBots: boolean;
+  dimensions: RollupDimension[];
+  /** Defaults to rollupGranularity(start, end) */
+  granularity?: RollupGranularity;
+}
+
+function flagFilter(includeInternal: boolean, includeBots: boolean): Prisma.Sql {
+  return Prisma.sql`
+    ${includeInternal ? Prisma.empty : Prisma.sql`AND is_internal = false`}
+    ${includeBots ? Prisma.empty : Prisma.sql`AND is_bot = false`}
+  `;
+}
+
+/**
+ * Rollup rows for `linkIds` in [start, end], internal / bot rows folded
+ * in or left out per the flags.
+ */
+export async function queryRollups(
+  query: RollupQuery,
+): Promise<{ granularity: RollupGranularity; rows: RollupRow[] }> {
+  const granularity = query.granularity ?? rollupGranularity(query.start, query.end);
+  if (query.linkIds.length === 0 || query.dimensions.length === 0) {
+    return { granularity, rows: [] };
+  }
+
+  const rows = await prisma.$queryRaw<
+    { short_link_id: string; bucket: Date; dimension: string; value: string; clicks: bigint }[]
+  >(Prisma.sql`
+    SELECT short_link_id, bucket, dimension, value, SUM(clicks)::bigint AS clicks
+    FROM ${TABLES[granularity]}
+    WHERE short_link_id = ANY(${query.linkIds}::text[])
+      AND bucket >= ${bucketStart(query.start, granularity)}
+      AND bucket <= ${query.end}
+      AND dimension IN (${Prisma.join(query.dimensions)})
+      ${flagFilter(query.includeInternal, query.includeBots)}
+    GROUP BY short_link_id, bucket, dimension, value
+    ORDER BY bucket
+  `);
+
+  return {
+    granularity,
+    rows: rows.map((r) => ({
+      shortLinkId: r.short_link_id,
+      bucket: r.bucket.toISOString(),
+      dimension: r.dimension as RollupDimension,
+      value: r.value || null,
+      clicks: Number(r.clicks),
+    })),
+  };
+}
+
+/**
+ * Clicks the includeInternal / includeBots filters hide in [start, end] —
+ * the "N test clicks filtered" banners. While internal clicks are hidden
+ * they aren't counted again as bots.
+ */
+export async function countExcludedClicks(
+  query: Omit<RollupQuery, "dimensions">,
+): Promise<{ internal: number; bots: number }> {
+  const granularity = query.granularity ?? rollupGranularity(query.start, query.end);
+  if (query.linkIds.length === 0) return { internal: 0, bots: 0 };
+
+  const [row] = await prisma.$queryRaw<{ internal: bigint | null; bots: bigint | null }[]>(
+    Prisma.sql`
+      SELECT SUM(clicks) FILTER (WHERE is_internal) AS internal,
+             SUM(clicks) FILTER (
+               WHERE is_bot ${query.includeInternal ? Prisma.empty : Prisma.sql`AND NOT is_internal`}
+             ) AS bots
+      FROM ${TABLES[granularity]}
+      WHERE short_link_id = ANY(${query.linkIds}::text[])
+        AND bucket >= ${bucketStart(query.start, granularity)}
+        AND bucket <= ${query.end}
+        AND dimension = 'total'
+    `,
+  );
+  return {
+    internal: query.includeInternal ? 0 : Number(row?.internal ?? 0),
+    bots: query.includeBots ? 0 : Number(row?.bots ?? 0),
+  };
+}
+
+/**
+ * Clicks per link per day of `timeZone` in [start, end]. Hourly rows
+ * split cleanly into the zone's days when it sits a whole number of hours
+ * from UTC over the range; zones with half- or quarter-hour offsets
+ * (India, Nepal, Chatham…) are counted from the clicks instead.
+ */
+export async function queryZonedDays(
+  query: Omit<RollupQuery, "dimensions" | "granularity"> & { timeZone: string },
+): Promise<ZonedDayRow[]> {
+  if (query.linkIds.length === 0) return [];
+  const wholeHours = [query.start, query.end].every(
+    (d) => timeZoneOffsetMs(d.getTime(), query.timeZone) % HOUR_MS === 0,
+  );
+
+  const rows = wholeHours
+    ? await prisma.$queryRaw<{ short_link_id: string; date: string; clicks: bigint }[]>(Prisma.sql`
+        SELECT short_link_id,
+               to_char((bucket AT TIME ZONE 'UTC') AT TIME ZONE ${query.timeZone}, 'YYYY-MM-DD') AS date,
+               SUM(clicks)::bigint AS clicks
+        FROM click_rollups_hourly
+        WHERE short_link_id = ANY(${query.linkIds}::text[])
+          AND bucket >= ${bucketStart(query.start, "hour")}
+          AND bucket <= ${query.end}
+          AND dimension = 'total'
+          ${flagFilter(query.includeInternal, query.includeBots)}
+        GROUP BY 1, 2
+      `)
+    : await prisma.$queryRaw<{ short_link_id: string; date: string; clicks: bigint }[]>(Prisma.sql`
+        SELECT c.short_link_id,
+               to_char((c.timestamp AT TIME ZONE 'UTC') AT TIME ZONE ${query.timeZone}, 'YYYY-MM-DD') AS date,
+               COUNT(*)::bigint AS clicks
+        FROM clicks c
+        WHERE c.short_link_id = ANY(${query.linkIds}::text[])
+          AND c.timestamp >= ${query.start}
+          AND c.timestamp <= ${query.end}
+          AND c.fallback_state IS NULL
+          ${query.includeInternal ? Prisma.empty : Prisma.sql`AND c.is_internal = false`}
+          ${query.includeBots ? Prisma.empty : Prisma.sql`AND c.bot_score < ${BOT_SCORE_THRESHOLD}`}
+        GROUP BY 1, 2
+      `);
+
+  return rows.map((r) => ({ shortLinkId: r.short_link_id, date: r.date, clicks: Number(r.clicks) }));
+}
@@ -0,0 +1,102 @@
+/**
+ * Server side of campaign spend (src/lib/spend.ts): budgets and spend
+ * totals in the reporting currency, and saving entries from the
+ * campaign page / CSV upload.
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { CurrencyConverter } from "@/lib/currency";
+
+export interface SpendTotals {
+  /** Spend dated on or after `since`, in the reporting currency */
+  spend: number;
+  /** The whole budget in the reporting currency; null when unset or unconvertible */
+  budget: number | null;
+}
+
+/**
+ * Spend and budget per campaign. Entries are valued at the rate of their
+ * own date, budgets at today's rate. Currencies `convert` has no rate for
+ * are returned in `unconvertedCurrencies` and left out, like revenue.
+ */
+export async function campaignSpendTotals({
+  campaignIds,
+  since,
+  convert,
+}: {
+  campaignIds: string[];
+  since?: Date;
+  convert: CurrencyConverter;
+}): Promise<{ byCampaign: Map<string, SpendTotals>; unconvertedCurrencies: string[] }> {
+  const byCampaign = new Map<string, SpendTotals>();
+  const unconverted = new Set<string>();
+  if (campaignIds.length === 0) return { byCampaign, unconvertedCurrencies: [] };
+
+  const [campaigns, entries] = await Promise.all([
+    prisma.campaign.findMany({
+      where: { id: { in: campaignIds } },
+      select: { id: true, budget: true, budgetCurrency: true },
+    }),
+    prisma.campaignSpend.findMany({
+      where: {
+        campaignId: { in: campaignIds },
+        // Entries are whole days — compare against the day `since` falls on.
+        ...(since ? { date: { gte: new Date(since.toISOString().slice(0, 10)) } } : {}),
+      },
+      select: { campaignId: true, date: true, amount: true, currency: true },
+    }),
+  ]);
+
+  const now = new Date();
+  for (const campaign of campaigns) {
+    let budget: number | null = null;
+    if (campaign.budget !== null) {
+      budget = convert(campaign.budget.toNumber(), campaign.budgetCurrency, now);
+      if (budget === null) unconverted.add(campaign.budgetCurrency!);
+    }
+    byCampaign.set(campaign.id, { spend: 0, budget });
+  }
+  for (const entry of entries) {
+    const amount = convert(entry.amount.toNumber(), entry.currency, entry.date);
+    if (amount === null) {
+      unconverted.add(entry.currency);
+      continue;
+    }
+    const totals = byCampaign.get(entry.campaignId) ?? { spend: 0, budget: null };
+    totals.spend += amount;
+    byCampaign.set(entry.campaignId, totals);
+  }
+  return { byCampaign, unconvertedCurrencies: Array.from(unconverted).sort() };
+}
+
+export interface SpendEntryInput {
+  /** YYYY-MM-DD */
+  date: string;
+  amount: number;
+  currency: string;
+  source?: string | null;
+  medium?: string | null;
+  note?: string | null;
+}
+
+/** Insert spend entries in one batch; callers cap the batch size. */
+export async function saveSpendEntries(
+  campaign: { id: string; workspaceId: string | null },
+  userId: string,
+  entries: SpendEntryInput[],
+): Promise<number> {
+  const { count } = await prisma.campaignSpend.createMany({
+    data: entries.map((e) => ({
+      campaignId: campaign.id,
+      workspaceId: campaign.workspaceId,
+      date: new Date(`${e.date}T00:00:00Z`),
+      amount: e.amount,
+      currency: e.currency,
+      source: e.source || null,
+      medium: e.medium || null,
+      note: e.note || null,
+      createdById: userId,
+    })),
+  });
+  return count;
+}
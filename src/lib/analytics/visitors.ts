@@ -0,0 +1,263 @@
+/**
+ * Unique visitors — HyperLogLog sketches per link × UTC day (see
+ * VisitorSketch in prisma/schema.prisma), so "how many people clicked"
+ * is estimated over any range and any set of links server-side instead
+ * of counting distinct ipHash values in a capped browser payload.
+ *
+ * Two kinds of sketch, estimated side by side:
+ *   - "ip": every click, keyed by its ipHash. Covers all traffic but
+ *     overcounts visitors whose mobile IP changes.
+ *   - "visitor": clicks whose landing page reported a first-party
+ *     visitor id through track.js (POST /api/track/visit).
+ *
+ * Write side: recordClick() adds visitorSketchOp() to the click's
+ * transaction, like rollupClickOps(); /api/track/visit adds the
+ * "visitor" entry. rebuildRollups() recounts the sketches along with the
+ * rollups (rebuildVisitorSketchesSql).
+ *
+ * Read side: estimateVisitors() pages through the day sketches and merges
+ * their registers here (a register-wise max) before estimating. Ranges
+ * are widened to whole UTC days.
+ *
+ * Precision 11 → 2048 one-byte registers per sketch, ~2.3% standard
+ * error. The hash is md5 so the SQL rebuild (and the backfill script)
+ * place a visitor in the same register as the live path.
+ */
+
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { BOT_SCORE_THRESHOLD } from "@/lib/bot-score";
+
+export const HLL_PRECISION = 11;
+export const HLL_REGISTERS = 1 << HLL_PRECISION;
+// Rank when none of the hash bits after the index is set.
+const MAX_RANK = 64 - HLL_PRECISION + 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Sketch rows (2 KB each) read per query in estimateVisitors().
+const SKETCH_PAGE = 1000;
+
+export type VisitorKind = "ip" | "visitor";
+
+/** UTC midnight opening the day `date` falls on. */
+function utcDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+/** Register index and rank (position of the first 1 bit) for a key. */
+export function hllPosition(key: string): { index: number; rank: number } {
+  const digest = createHash("md5").update(key).digest();
+  const hi = digest.readUInt32BE(0);
+  const lo = digest.readUInt32BE(4);
+  const index = hi >>> (32 - HLL_PRECISION);
+  const rest = hi & ((1 << (32 - HLL_PRECISION)) - 1);
+  const rank = rest
+    ? Math.clz32(rest) - HLL_PRECISION + 1
+    : lo
+      ? 32 - HLL_PRECISION + Math.clz32(lo) + 1
+      : MAX_RANK;
+  return { index, rank };
+}
+
+/**
+ * Cardinality from merged registers: Σ 2^-rank over all registers and
+ * how many are still 0. Small counts use linear counting.
+ */
+export function hllEstimate(harmonicSum: number, zeroRegisters: number): number {
+  if (harmonicSum <= 0) return 0;
+  const m = HLL_REGISTERS;
+  const alpha = 0.7213 / (1 + 1.079 / m);
+  const raw = (alpha * m * m) / harmonicSum;
+  if (raw <= 2.5 * m && zeroRegisters > 0) {
+    return Math.round(m * Math.log(m / zeroRegisters));
+  }
+  return Math.round(raw);
+}
+
+/**
+ * Salted hash of a first-party visitor id before it's stored or
+ * sketched — pages may report their own user ids. Same salt, and same
+ * missing-salt policy, as the redirect's IP hash: required in production.
+ */
+export function hashVisitorId(visitorId: string): string {
+  let salt = process.env.IP_HASH_SALT;
+  if (!salt) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("IP_HASH_SALT environment variable is required in production");
+    }
+    console.warn("WARNING: IP_HASH_SALT not set, using fallback for development");
+    salt = "dev-fallback-salt";
+  }
+  return createHash("sha256").update(`visitor:${visitorId}${salt}`).digest("hex");
+}
+
+export interface SketchEntry {
+  shortLinkId: string;
+  workspaceId: string | null;
+  /** When the click happened — picks the day sketch */
+  timestamp: Date;
+  kind: VisitorKind;
+  /** ipHash for "ip", hashVisitorId() for "visitor" */
+  key: string;
+  isInternal: boolean;
+  isBot: boolean;
+}
+
+/** Upsert adding one visitor to its day sketch — meant for a $transaction. */
+export function visitorSketchOp(entry: SketchEntry): Prisma.PrismaPromise<number> {
+  const { index, rank } = hllPosition(entry.key);
+  const registers = new Uint8Array(HLL_REGISTERS);
+  registers[index] = rank;
+  return prisma.$executeRaw`
+    INSERT INTO visitor_sketches
+      (short_link_id, workspace_id, day, kind, is_internal, is_bot, registers)
+    VALUES (
+      ${entry.shortLinkId}, ${entry.workspaceId}, ${utcDay(entry.timestamp)},
+      ${entry.kind}, ${entry.isInternal}, ${entry.isBot}, ${registers}
+    )
+    ON CONFLICT (short_link_id, day, kind, is_internal, is_bot)
+    DO UPDATE SET registers = set_byte(
+      visitor_sketches.registers,
+      ${index}::int,
+      GREATEST(get_byte(visitor_sketches.registers, ${index}::int), ${rank}::int)
+    )
+  `;
+}
+
+/**
+ * Rebuild the sketches of the clicks matching `clickWhere` (SQL over
+ * clicks `c`) from scratch — the caller deletes the old rows first.
+ * Kept in step with hllPosition() and scripts/backfill-click-rollups.mjs.
+ */
+export function rebuildVisitorSketchesSql(clickWhere: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`
+    WITH keyed AS (
+      SELECT c.short_link_id, s.workspace_id, date_trunc('day', c.timestamp) AS day, v.kind,
+             c.is_internal, c.bot_score >= ${BOT_SCORE_THRESHOLD} AS is_bot,
+             ('x' || substr(md5(v.key), 1, 16))::bit(64) AS bits
+      FROM clicks c
+      JOIN short_links s ON s.id = c.short_link_id
+      CROSS JOIN LATERAL (VALUES ('ip', c.ip_hash), ('visitor', c.visitor_hash)) AS v(kind, key)
+      WHERE v.key IS NOT NULL AND c.fallback_state IS NULL AND ${clickWhere}
+    ), positions AS (
+      SELECT short_link_id, workspace_id, day, kind, is_internal, is_bot,
+             substring(bits from 1 for ${HLL_PRECISION}::int)::bit(${Prisma.raw(String(HLL_PRECISION))})::int AS idx,
+             MAX(COALESCE(NULLIF(position(B'1' in substring(bits from ${HLL_PRECISION + 1}::int)), 0), ${MAX_RANK}::int)) AS rank
+      FROM keyed
+      GROUP BY 1, 2, 3, 4, 5, 6, 7
+    ), sketches AS (
+      SELECT DISTINCT short_link_id, workspace_id, day, kind, is_internal, is_bot FROM positions
+    )
+    INSERT INTO visitor_sketches
+      (short_link_id, workspace_id, day, kind, is_internal, is_bot, registers)
+    SELECT k.short_link_id, k.workspace_id, k.day, k.kind, k.is_internal, k.is_bot,
+           decode(string_agg(lpad(to_hex(COALESCE(p.rank, 0)), 2, '0'), '' ORDER BY i), 'hex')
+    FROM sketches k
+    CROSS JOIN generate_series(0, ${HLL_REGISTERS - 1}::int) AS i
+    LEFT JOIN positions p
+      ON p.short_link_id = k.short_link_id AND p.day = k.day AND p.kind = k.kind
+     AND p.is_internal = k.is_internal AND p.is_bot = k.is_bot AND p.idx = i
+    GROUP BY 1, 2, 3, 4, 5, 6
+  `;
+}
+
+export interface VisitorEstimate {
+  /** From the "ip" sketches — every click */
+  uniqueVisitors: number;
+  /** From the "visitor" sketches — 0 when no landing page reports ids */
+  identifiedVisitors: number;
+}
+
+export interface VisitorQuery {
+  linkIds: string[];
+  /**
+   * Group key per link (same order as linkIds) — one estimate per key,
+   * e.g. the campaign name. Omitted = everything in one group, "".
+   */
+  groupKeys?: string[];
+  /** inclusive — widened to the start of its UTC day */
+  start: Date;
+  /** inclusive */
+  end: Date;
+  includeInternal: boolean;
+  includeBots: boolean;
+}
+
+/** Merged-sketch estimates per group key; groups without clicks are absent. */
+export async function estimateVisitors(query: VisitorQuery): Promise<Map<string, VisitorEstimate>> {
+  const out = new Map<string, VisitorEstimate>();
+  if (query.linkIds.length === 0) return out;
+  const groupKeys = query.groupKeys ?? query.linkIds.map(() => "");
+  const keysByLink = new Map<string, string[]>();
+  query.linkIds.forEach((id, i) => keysByLink.set(id, [...(keysByLink.get(id) ?? []), groupKeys[i]]));
+
+  // Registers merged per group key and kind, filled a page at a time in
+  // primary-key order.
+  const merged = new Map<string, { key: string; kind: VisitorKind; registers: Uint8Array }>();
+  let after = Prisma.empty;
+  for (;;) {
+    const page = await prisma.$queryRaw<
+      {
+        short_link_id: string;
+        day: Date;
+        kind: VisitorKind;
+        is_internal: boolean;
+        is_bot: boolean;
+        registers: Uint8Array;
+      }[]
+    >(Prisma.sql`
+      SELECT short_link_id, day, kind, is_internal, is_bot, registers
+      FROM visitor_sketches
+      WHERE short_link_id = ANY(${[...keysByLink.keys()]}::text[])
+        AND day >= ${utcDay(query.start)}
+        AND day <= ${query.end}
+        ${query.includeInternal ? Prisma.empty : Prisma.sql`AND is_internal = false`}
+        ${query.includeBots ? Prisma.empty : Prisma.sql`AND is_bot = false`}
+        ${after}
+      ORDER BY short_link_id, day, kind, is_internal, is_bot
+      LIMIT ${SKETCH_PAGE}
+    `);
+
+    for (const row of page) {
+      for (const key of keysByLink.get(row.short_link_id) ?? []) {
+        const id = `${key}\n${row.kind}`;
+        let target = merged.get(id);
+        if (!target) {
+          target = { key, kind: row.kind, registers: new Uint8Array(HLL_REGISTERS) };
+          merged.set(id, target);
+        }
+        for (let i = 0; i < HLL_REGISTERS; i++) {
+          if (row.registers[i] > target.registers[i]) target.registers[i] = row.registers[i];
+        }
+      }
+    }
+
+    if (page.length < SKETCH_PAGE) break;
+    const last = page[page.length - 1];
+    after = Prisma.sql`AND (short_link_id, day, kind, is_internal, is_bot) >
+      (${last.short_link_id}, ${last.day}, ${last.kind}, ${last.is_internal}, ${last.is_bot})`;
+  }
+
+  for (const { key, kind, registers } of merged.values()) {
+    let harmonic = 0;
+    let zeros = 0;
+    for (const rank of registers) {
+      harmonic += 2 ** -rank;
+      if (rank === 0) zeros++;
+    }
+    const estimate = out.get(key) ?? { uniqueVisitors: 0, identifiedVisitors: 0 };
+    const count = hllEstimate(harmonic, zeros);
+    if (kind === "visitor") estimate.identifiedVisitors = count;
+    else estimate.uniqueVisitors = count;
+    out.set(key, estimate);
+  }
+  return out;
+}
+
+/** estimateVisitors() for one set of links as a whole. */
+export async function estimateVisitorTotals(
+  query: Omit<VisitorQuery, "groupKeys">,
+): Promise<VisitorEstimate> {
+  const estimates = await estimateVisitors(query);
+  return estimates.get("") ?? { uniqueVisitors: 0, identifiedVisitors: 0 };
+}
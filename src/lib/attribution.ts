@@ -0,0 +1,59 @@
+/**
+ * Conversion attribution — which clicks a conversion is credited to.
+ *
+ * A conversion is stored against the click that handed out its session
+ * ID (src/lib/conversions.ts). When the landing page also reported a
+ * first-party visitor id through track.js, that visitor's earlier clicks
+ * on the workspace's links form the path that led to it: every click
+ * sharing the converting click's visitorHash, from the start of the
+ * attribution window up to the converting click itself.
+ *
+ * Reports split each conversion across its path with one of the models:
+ *   - LAST_CLICK: all credit to the converting click — the stored
+ *     attribution, and the default.
+ *   - FIRST_CLICK: all credit to the oldest click in the window.
+ *   - LINEAR: an equal share to every click on the path.
+ *
+ * The window and default model are workspace settings
+ * (Workspace.attributionWindowDays / attributionModel); campaign reports
+ * take ?model= to look at the same conversions another way.
+ */
+
+export const ATTRIBUTION_MODELS = ["LAST_CLICK", "FIRST_CLICK", "LINEAR"] as const;
+export type AttributionModel = (typeof ATTRIBUTION_MODELS)[number];
+
+export const DEFAULT_ATTRIBUTION_MODEL: AttributionModel = "LAST_CLICK";
+export const DEFAULT_ATTRIBUTION_WINDOW_DAYS = 30;
+export const ATTRIBUTION_WINDOW_MIN_DAYS = 1;
+export const ATTRIBUTION_WINDOW_MAX_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isAttributionModel(value: unknown): value is AttributionModel {
+  return typeof value === "string" && (ATTRIBUTION_MODELS as readonly string[]).includes(value);
+}
+
+/** Oldest click time that can still be credited for something at `at`. */
+export function attributionCutoff(at: Date, windowDays: number): Date {
+  return new Date(at.getTime() - windowDays * DAY_MS);
+}
+
+/**
+ * Credit per link for one conversion. `path` holds the link id of each
+ * click on the way, oldest first, ending with the converting click. The
+ * shares always add up to 1; a link clicked twice gets both its shares.
+ */
+export function splitCredit(path: string[], model: AttributionModel): Map<string, number> {
+  const credit = new Map<string, number>();
+  if (path.length === 0) return credit;
+  if (model === "FIRST_CLICK") {
+    credit.set(path[0], 1);
+  } else if (model === "LINEAR") {
+    for (const linkId of path) {
+      credit.set(linkId, (credit.get(linkId) ?? 0) + 1 / path.length);
+    }
+  } else {
+    credit.set(path[path.length - 1], 1);
+  }
+  return credit;
+}
@@ -3,6 +3,7 @@ import Google from "next-auth/providers/google";
 import { PrismaAdapter } from "@auth/prisma-adapter";
 import { prisma } from "@/lib/prisma";
 import type { Adapter } from "next-auth/adapters";
+import type { PrismaClient } from "@prisma/client";
 
 type UserRole = "ADMIN" | "MANAGER" | "MEMBER" | "VIEWER";
 
@@ -74,7 +75,9 @@ async function isAllowedToSignIn(email: string): Promise<boolean> {
 }
 
 export const { handlers, signIn, signOut, auth } = NextAuth({
-  adapter: PrismaAdapter(prisma) as Adapter,
+  // The adapter only touches User/Account/Session, so the client's global
+  // `omit` config (ShortLink.password) doesn't matter to it.
+  adapter: PrismaAdapter(prisma as unknown as PrismaClient) as Adapter,
   providers: [
     Google({
       clientId: process.env.GOOGLE_CLIENT_ID!,
@@ -0,0 +1,150 @@
+/**
+ * Server side of A/B experiments: per-variant click / conversion counts
+ * for a link, and the "auto-promote winner" job.
+ *
+ * Auto-promote runs after each attributed conversion (/api/track) and
+ * whenever experiment settings are saved. Once the leader clears the
+ * link's confidence and minimum-sample thresholds, every other variant
+ * is paused (weight 0) and the promotion is written to the audit log and
+ * the link's revision history.
+ * Statistics live in src/lib/experiments.ts.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { bumpLinksCache } from "@/lib/cache-scopes";
+import { parseVariants } from "@/lib/variants";
+import { TRACKED_LINK_SELECT, recordRevision } from "@/lib/link-revisions";
+import { HUMAN_CLICK_FILTER } from "@/lib/bot-score";
+import {
+  evaluateExperiment,
+  parseExperimentSettings,
+  type VariantStats,
+} from "@/lib/experiments";
+
+/**
+ * Real (non-internal, non-bot) clicks and converting clicks per variant. Clicks
+ * routed by a device rule / geo route or served a fallback carry no
+ * variantId and so never enter the experiment.
+ */
+export async function loadVariantStats(
+  shortLinkId: string,
+): Promise<Record<string, VariantStats>> {
+  const [clicks, convertingClicks] = await Promise.all([
+    prisma.click.groupBy({
+      by: ["variantId"],
+      where: { shortLinkId, isInternal: false, ...HUMAN_CLICK_FILTER, variantId: { not: null } },
+      _count: { _all: true },
+    }),
+    prisma.conversion.findMany({
+      where: {
+        shortLinkId,
+        variantId: { not: null },
+        click: { isInternal: false, ...HUMAN_CLICK_FILTER },
+      },
+      distinct: ["clickId"],
+      select: { variantId: true },
+    }),
+  ]);
+
+  const stats: Record<string, VariantStats> = {};
+  for (const row of clicks) {
+    if (!row.variantId) continue;
+    stats[row.variantId] = { clicks: row._count._all, conversions: 0 };
+  }
+  for (const c of convertingClicks) {
+    if (!c.variantId) continue;
+    const s = (stats[c.variantId] ??= { clicks: 0, conversions: 0 });
+    s.conversions += 1;
+  }
+  return stats;
+}
+
+/**
+ * Promote the winning variant if the link has auto-promote on and the
+ * thresholds are met. Returns the promoted variant ID, or null.
+ */
+export async function maybeAutoPromote(shortLinkId: string): Promise<string | null> {
+  const link = await prisma.shortLink.findUnique({
+    where: { id: shortLinkId },
+    select: {
+      ...TRACKED_LINK_SELECT,
+      id: true,
+      code: true,
+      experiment: true,
+      workspaceId: true,
+      createdById: true,
+      userId: true,
+      updatedAt: true,
+      deletedAt: true,
+    },
+  });
+  if (!link || link.deletedAt) return null;
+
+  const settings = parseExperimentSettings(link.experiment);
+  if (!settings.autoPromote || settings.promotedVariantId) return null;
+
+  const variants = parseVariants(link.variants);
+  if (variants.filter((v) => v.weight > 0).length < 2) return null;
+
+  const report = evaluateExperiment(variants, await loadVariantStats(link.id), settings);
+  if (!report.winnerId) return null;
+  const winner = report.rows.find((r) => r.id === report.winnerId)!;
+
+  const promotedAt = new Date().toISOString();
+  const newVariants = variants.map((v) => ({
+    ...v,
+    weight: v.id === winner.id ? v.weight : 0,
+  }));
+
+  // Guard on updatedAt so two concurrent conversions can't both promote
+  // (or promote over an edit the user saved in between).
+  const { count } = await prisma.shortLink.updateMany({
+    where: { id: link.id, updatedAt: link.updatedAt },
+    data: {
+      variants: newVariants as unknown as Prisma.InputJsonValue,
+      experiment: {
+        ...settings,
+        promotedVariantId: winner.id,
+        promotedAt,
+      } as unknown as Prisma.InputJsonValue,
+    },
+  });
+  if (count === 0) return null;
+
+  await recordRevision({
+    shortLinkId: link.id,
+    before: link,
+    after: { ...link, variants: newVariants as unknown as Prisma.JsonValue },
+    userId: null,
+    source: "AUTO_PROMOTE",
+  });
+
+  // Audit rows need a user — attribute the system action to the link's
+  // owner. Legacy links without one are promoted but not logged.
+  const ownerId = link.createdById ?? link.userId;
+  if (ownerId) {
+    await prisma.auditLog.create({
+      data: {
+        userId: ownerId,
+        action: "PROMOTE_VARIANT",
+        targetId: link.id,
+        metadata: {
+          code: link.code,
+          variantId: winner.id,
+          label: winner.label,
+          url: winner.url,
+          cvr: winner.cvr,
+          clicks: winner.clicks,
+          conversions: winner.conversions,
+          confidence: report.leaderConfidence,
+          requiredConfidence: settings.confidence,
+          minClicksPerVariant: settings.minClicksPerVariant,
+        },
+      },
+    });
+    await bumpLinksCache(link.workspaceId, ownerId);
+  }
+
+  return winner.id;
+}
@@ -0,0 +1,156 @@
+/**
+ * Multi-armed bandit allocation for A/B variants. Instead of fixed
+ * weights, traffic shifts toward variants that convert better, using the
+ * per-variant clicks / converting clicks from src/lib/auto-promote.ts.
+ *
+ *   FIXED           — pickVariant() on the configured weights.
+ *   THOMPSON        — draw from each variant's Beta(1 + conversions,
+ *                     1 + non-converting clicks) posterior, serve the max.
+ *   EPSILON_GREEDY  — explore uniformly with probability EPSILON, else
+ *                     serve the best observed CVR.
+ *
+ * Paused variants (weight 0) are never served in any mode. Every function
+ * takes an injectable `rand` so allocations are reproducible with
+ * seededRandom().
+ */
+
+import type { AllocationMode } from "@prisma/client";
+import { pickVariant, type LinkVariant } from "@/lib/variants";
+import type { VariantStats } from "@/lib/experiments";
+
+export const ALLOCATION_MODES = ["FIXED", "THOMPSON", "EPSILON_GREEDY"] as const satisfies readonly AllocationMode[];
+
+/** Share of epsilon-greedy traffic spread evenly for exploration. */
+export const EPSILON = 0.1;
+
+/** Monte Carlo draws used to estimate Thompson allocation for display. */
+const ALLOCATION_DRAWS = 2000;
+
+/** mulberry32 — tiny deterministic PRNG returning [0, 1). */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleNormal(rand: () => number): number {
+  // Box–Muller; 1 - rand() keeps log() away from 0.
+  const u = 1 - rand();
+  const v = rand();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Marsaglia & Tsang (2000). Shape >= 1 here since alpha/beta = 1 + count.
+function sampleGamma(shape: number, rand: () => number): number {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(rand);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = rand();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+export function sampleBeta(alpha: number, beta: number, rand: () => number): number {
+  const x = sampleGamma(alpha, rand);
+  const y = sampleGamma(beta, rand);
+  return x / (x + y);
+}
+
+function posterior(stats: VariantStats | undefined): { alpha: number; beta: number } {
+  const clicks = stats?.clicks ?? 0;
+  const conversions = Math.min(stats?.conversions ?? 0, clicks);
+  return { alpha: 1 + conversions, beta: 1 + clicks - conversions };
+}
+
+function observedCvr(stats: VariantStats | undefined): number {
+  return stats && stats.clicks > 0 ? stats.conversions / stats.clicks : 0;
+}
+
+function thompsonPick(
+  live: LinkVariant[],
+  stats: Record<string, VariantStats>,
+  rand: () => number,
+): LinkVariant {
+  let best = live[0];
+  let bestDraw = -1;
+  for (const v of live) {
+    const { alpha, beta } = posterior(stats[v.id]);
+    const draw = sampleBeta(alpha, beta, rand);
+    if (draw > bestDraw) {
+      best = v;
+      bestDraw = draw;
+    }
+  }
+  return best;
+}
+
+/** Best observed CVR; ties go to the earlier variant. */
+function greedyBest(live: LinkVariant[], stats: Record<string, VariantStats>): LinkVariant {
+  return live.reduce((best, v) => (observedCvr(stats[v.id]) > observedCvr(stats[best.id]) ? v : best));
+}
+
+/**
+ * Variant for this visitor under the link's allocation mode. Returns null
+ * when there is nothing to serve so callers fall back to originalUrl.
+ */
+export function pickAllocatedVariant(
+  mode: AllocationMode,
+  variants: LinkVariant[],
+  stats: Record<string, VariantStats>,
+  rand: () => number = Math.random,
+): LinkVariant | null {
+  const live = variants.filter((v) => v.weight > 0);
+  if (mode === "FIXED" || live.length < 2) return pickVariant(variants, rand);
+
+  if (mode === "THOMPSON") return thompsonPick(live, stats, rand);
+
+  if (rand() < EPSILON) return live[Math.floor(rand() * live.length)];
+  return greedyBest(live, stats);
+}
+
+/**
+ * Expected share of traffic per variant ID under the mode — what the UI
+ * shows as "current allocation". Thompson has no closed form for k arms,
+ * so it is estimated by simulation.
+ */
+export function currentAllocation(
+  mode: AllocationMode,
+  variants: LinkVariant[],
+  stats: Record<string, VariantStats>,
+  rand: () => number = Math.random,
+): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const v of variants) out[v.id] = 0;
+  const live = variants.filter((v) => v.weight > 0);
+  if (live.length === 0) return out;
+
+  if (mode === "FIXED" || live.length < 2) {
+    const total = live.reduce((s, v) => s + v.weight, 0);
+    for (const v of live) out[v.id] = v.weight / total;
+    return out;
+  }
+
+  if (mode === "THOMPSON") {
+    for (let i = 0; i < ALLOCATION_DRAWS; i++) {
+      out[thompsonPick(live, stats, rand).id] += 1 / ALLOCATION_DRAWS;
+    }
+    return out;
+  }
+
+  for (const v of live) out[v.id] = EPSILON / live.length;
+  out[greedyBest(live, stats).id] += 1 - EPSILON;
+  return out;
+}
@@ -0,0 +1,126 @@
+/**
+ * Bot-confidence scoring for redirect clicks. Instead of dropping
+ * suspected bots at the door, every click is recorded with a 0–100 score
+ * and the signals behind it; analytics exclude clicks at or above
+ * BOT_SCORE_THRESHOLD by default and can opt back in.
+ *
+ * Signals:
+ *   known-bot           crawler / link-preview UA (Googlebot, Slackbot, …) — 100
+ *   automation-client   scripted HTTP client or headless browser — 90
+ *   no-user-agent       no UA header at all — 60
+ *   no-accept-language  real browsers always send one — 25
+ *   no-accept           — 10
+ *   no-sec-fetch        modern Chromium / Firefox without Sec-Fetch-Mode — 15
+ *   high-velocity       same ipHash clicking many links in the last minute — 20–60
+ */
+
+import type { ParsedUserAgent } from "@/lib/user-agent";
+
+/** Clicks scoring at or above this are "likely bots". */
+export const BOT_SCORE_THRESHOLD = 70;
+
+/** Prisma Click filter for human (below-threshold) traffic. */
+export const HUMAN_CLICK_FILTER = { botScore: { lt: BOT_SCORE_THRESHOLD } };
+
+/** Window for the per-ipHash velocity signal. */
+export const VELOCITY_WINDOW_SECONDS = 60;
+
+// Crawlers and link-preview fetchers (chat apps unfurling a pasted link).
+const KNOWN_BOT_PATTERNS = [
+  /bot/i, /crawl/i, /spider/i, /slurp/i, /mediapartners/i,
+  /facebookexternalhit/i, /linkedinbot/i, /twitterbot/i, /whatsapp/i,
+  /telegrambot/i, /discordbot/i, /slackbot/i, /applebot/i,
+  /bingpreview/i, /googlebot/i, /yandexbot/i, /baiduspider/i,
+  /duckduckbot/i, /seznambot/i, /ia_archiver/i, /semrushbot/i,
+  /ahrefsbot/i, /mj12bot/i, /dotbot/i, /petalbot/i, /prerender/i,
+];
+
+const AUTOMATION_PATTERNS = [
+  /curl/i, /wget/i, /python-requests/i, /python-urllib/i, /aiohttp/i,
+  /axios/i, /node-fetch/i, /undici/i, /go-http-client/i, /java\//i,
+  /okhttp/i, /libwww/i, /httpie/i, /postmanruntime/i,
+  /headlesschrome/i, /phantomjs/i, /puppeteer/i, /playwright/i, /selenium/i,
+];
+
+// [clicks in the window above which, score] — checked highest first.
+const VELOCITY_STEPS: [above: number, score: number][] = [
+  [100, 60],
+  [30, 40],
+  [10, 20],
+];
+
+// Browsers that send Sec-Fetch-* on every navigation, from these majors.
+const SEC_FETCH_SINCE: Record<string, number> = {
+  Chrome: 76,
+  Edge: 79,
+  Opera: 63,
+  "Samsung Internet": 12,
+  Firefox: 90,
+};
+
+/** Request headers the score looks at — read before after() runs. */
+export interface BotHeaders {
+  accept: string | null;
+  acceptLanguage: string | null;
+  secFetchMode: string | null;
+}
+
+export function pickBotHeaders(headers: Headers): BotHeaders {
+  return {
+    accept: headers.get("accept"),
+    acceptLanguage: headers.get("accept-language"),
+    secFetchMode: headers.get("sec-fetch-mode"),
+  };
+}
+
+export interface BotScore {
+  score: number;
+  signals: string[];
+}
+
+export function scoreBot({
+  userAgent,
+  client,
+  headers,
+  recentClicks,
+}: {
+  userAgent: string | null;
+  client: ParsedUserAgent;
+  headers: BotHeaders;
+  /** Clicks from the same ipHash in the last VELOCITY_WINDOW_SECONDS. */
+  recentClicks: number;
+}): BotScore {
+  const signals: string[] = [];
+  let score = 0;
+  const add = (signal: string, points: number) => {
+    signals.push(signal);
+    score += points;
+  };
+
+  if (!userAgent) {
+    add("no-user-agent", 60);
+  } else if (KNOWN_BOT_PATTERNS.some((p) => p.test(userAgent))) {
+    add("known-bot", 100);
+  } else if (AUTOMATION_PATTERNS.some((p) => p.test(userAgent))) {
+    add("automation-client", 90);
+  }
+
+  if (!headers.acceptLanguage) add("no-accept-language", 25);
+  if (!headers.accept) add("no-accept", 10);
+
+  // In-app webviews vary too much in what they forward — only hold real
+  // browsers to the Sec-Fetch standard.
+  const secFetchSince = client.inApp ? undefined : SEC_FETCH_SINCE[client.browser];
+  if (
+    secFetchSince !== undefined &&
+    parseInt(client.browserVersion ?? "", 10) >= secFetchSince &&
+    !headers.secFetchMode
+  ) {
+    add("no-sec-fetch", 15);
+  }
+
+  const step = VELOCITY_STEPS.find(([above]) => recentClicks > above);
+  if (step) add("high-velocity", step[1]);
+
+  return { score: Math.min(score, 100), signals };
+}
@@ -17,6 +17,18 @@
 
 import { prisma } from "@/lib/prisma";
 
+/**
+ * Where-clause for the campaign called `name` in a scope: the workspace's
+ * when there is one, else the user's own workspace-less campaigns — never
+ * another tenant's campaign of the same name.
+ */
+export function campaignNameWhere(name: string, workspaceId: string | null, userId: string) {
+  return {
+    name,
+    ...(workspaceId ? { workspaceId } : { createdById: userId, workspaceId: null }),
+  };
+}
+
 /**
  * Ensure a Campaign row exists for the given utm-campaign string within
  * the supplied workspace scope. Returns the Campaign id to assign to
@@ -45,10 +57,7 @@ export async function upsertCampaignForUtm({
   const name = utmCampaign.trim();
 
   const existing = await prisma.campaign.findFirst({
-    where: {
-      name,
-      ...(workspaceId ? { workspaceId } : { createdById: userId, workspaceId: null }),
-    },
+    where: campaignNameWhere(name, workspaceId, userId),
     select: { id: true },
   });
   if (existing) return existing.id;
@@ -68,10 +77,7 @@ export async function upsertCampaignForUtm({
     // Unique violation means a concurrent create won — look it up again.
     // Any other error we bubble up so the caller sees it.
     const fallback = await prisma.campaign.findFirst({
-      where: {
-        name,
-        ...(workspaceId ? { workspaceId } : { createdById: userId, workspaceId: null }),
-      },
+      where: campaignNameWhere(name, workspaceId, userId),
       select: { id: true },
     });
     if (fallback) return fallback.id;
@@ -0,0 +1,145 @@
+/**
+ * Recording a conversion against the click that handed out its session
+ * ID — shared by the browser endpoint (POST /api/track), signed
+ * server-to-server postbacks (POST /api/track/postback) and offline CSV
+ * imports (POST /api/conversions/import).
+ */
+
+import { after } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { maybeAutoPromote } from "@/lib/auto-promote";
+import { attributionCutoff } from "@/lib/attribution";
+import { workspaceAttribution } from "@/lib/analytics/attribution";
+import { z } from "zod";
+
+export const conversionEventSchema = z.object({
+  sessionId: z.string().min(1, "sessionId required").max(64),
+  eventName: z.string().max(60).optional(),
+  value: z.number().finite().nonnegative().optional(),
+  currency: z
+    .string()
+    .regex(/^[A-Z]{3}$/, "Currency must be ISO 4217 (e.g. TWD, USD)")
+    .optional(),
+  externalId: z.string().max(120).optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+export type ConversionEvent = z.infer<typeof conversionEventSchema>;
+
+export type RecordConversionResult =
+  | { ok: true; conversionId: string; deduped?: true }
+  | {
+      ok: false;
+      status: 404 | 410 | 422;
+      error: "Unknown session" | "Session expired" | "Conversion precedes the click";
+    };
+
+export interface RecordConversionOptions {
+  /** Sessions from other workspaces count as unknown — a postback secret
+   * or an import only vouches for its own workspace's clicks. */
+  workspaceId?: string;
+  /** When it happened, for events recorded after the fact (offline
+   * imports). The workspace's attribution window runs from the click to
+   * this. */
+  timestamp?: Date;
+  importBatchId?: string;
+  /** Re-evaluate A/B auto-promote after an A/B conversion (default true).
+   * Batch callers turn it off and run it once per link themselves. */
+  autoPromote?: boolean;
+}
+
+/**
+ * Attribute `event` to its click and store it.
+ *
+ * Idempotent on (shortLinkId, externalId): a retry with the same
+ * externalId returns the stored conversion instead of duplicating it —
+ * also when two deliveries race past the lookup and the unique index
+ * rejects the second insert.
+ */
+export async function recordConversion(
+  event: ConversionEvent,
+  options: RecordConversionOptions = {},
+): Promise<RecordConversionResult> {
+  const click = await prisma.click.findUnique({
+    where: { sessionId: event.sessionId },
+    select: {
+      id: true,
+      shortLinkId: true,
+      workspaceId: true,
+      variantId: true,
+      timestamp: true,
+    },
+  });
+
+  if (!click || (options.workspaceId && click.workspaceId !== options.workspaceId)) {
+    return { ok: false, status: 404, error: "Unknown session" };
+  }
+  // Clicks older than the workspace's window don't match by sessionId.
+  const { windowDays } = await workspaceAttribution(click.workspaceId);
+  if (click.timestamp < attributionCutoff(options.timestamp ?? new Date(), windowDays)) {
+    return { ok: false, status: 410, error: "Session expired" };
+  }
+  if (options.timestamp && options.timestamp < click.timestamp) {
+    return { ok: false, status: 422, error: "Conversion precedes the click" };
+  }
+
+  // Lets retries from flaky networks / shopify webhooks be safe.
+  const findExisting = (externalId: string) =>
+    prisma.conversion.findUnique({
+      where: {
+        shortLinkId_externalId: { shortLinkId: click.shortLinkId, externalId },
+      },
+      select: { id: true },
+    });
+  if (event.externalId) {
+    const existing = await findExisting(event.externalId);
+    if (existing) {
+      return { ok: true, conversionId: existing.id, deduped: true };
+    }
+  }
+
+  let conversion: { id: string };
+  try {
+    conversion = await prisma.conversion.create({
+      data: {
+        clickId: click.id,
+        shortLinkId: click.shortLinkId,
+        workspaceId: click.workspaceId ?? undefined,
+        variantId: click.variantId,
+        eventName: event.eventName ?? "conversion",
+        value: event.value !== undefined ? event.value : null,
+        currency: event.currency ?? null,
+        externalId: event.externalId ?? null,
+        // zod already guarantees a plain object of JSON-serialisable values.
+        metadata: (event.metadata ?? undefined) as Prisma.InputJsonValue | undefined,
+        ...(options.timestamp && { timestamp: options.timestamp }),
+        importBatchId: options.importBatchId ?? null,
+      },
+      select: { id: true },
+    });
+  } catch (error) {
+    // A concurrent delivery of the same externalId won the insert.
+    if (
+      event.externalId &&
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      const existing = await findExisting(event.externalId);
+      if (existing) return { ok: true, conversionId: existing.id, deduped: true };
+    }
+    throw error;
+  }
+
+  // A/B links with auto-promote on re-evaluate on every conversion —
+  // after the response so the caller isn't kept waiting.
+  if (click.variantId && options.autoPromote !== false) {
+    after(() =>
+      maybeAutoPromote(click.shortLinkId).catch((err) =>
+        console.error("[conversions] auto-promote failed:", err),
+      ),
+    );
+  }
+
+  return { ok: true, conversionId: conversion.id };
+}
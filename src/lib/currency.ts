@@ -0,0 +1,100 @@
+/**
+ * Revenue normalisation. Conversions keep the amount and ISO 4217
+ * currency they were reported in; reports add them up in the workspace's
+ * reporting currency (Workspace.reportingCurrency) using the exchange
+ * rates the workspace maintains itself (ExchangeRate rows, entered by
+ * hand or uploaded as CSV from Settings → Currency).
+ *
+ * A rate applies from its date until the next one for the same pair, so
+ * each conversion is valued at the rate of its own day. Conversions older
+ * than a pair's first rate use that first rate. A pair can be entered in
+ * either direction — USD→TWD 32.1 also converts TWD to USD. Conversions
+ * without a currency are taken to be in the reporting currency already;
+ * ones in a currency with no rate are left out of revenue and reported
+ * as unconverted instead of being added at face value.
+ */
+
+export const DEFAULT_REPORTING_CURRENCY = "USD";
+
+// Offered in the pickers; any ISO 4217 code is accepted.
+export const COMMON_CURRENCIES = [
+  "USD",
+  "TWD",
+  "EUR",
+  "JPY",
+  "CNY",
+  "HKD",
+  "SGD",
+  "GBP",
+  "KRW",
+  "AUD",
+] as const;
+
+export function isCurrencyCode(value: unknown): value is string {
+  return typeof value === "string" && /^[A-Z]{3}$/.test(value);
+}
+
+export interface ExchangeRateEntry {
+  baseCurrency: string;
+  quoteCurrency: string;
+  /** quoteCurrency units per 1 baseCurrency */
+  rate: number;
+  date: Date;
+}
+
+/** `amount` in the reporting currency, or null when there's no rate. */
+export type CurrencyConverter = (amount: number, currency: string | null, at: Date) => number | null;
+
+export function createCurrencyConverter(
+  rates: ExchangeRateEntry[],
+  reportingCurrency: string,
+): CurrencyConverter {
+  const series = new Map<string, { time: number; rate: number }[]>();
+  for (const entry of rates) {
+    if (!(entry.rate > 0)) continue;
+    const key = `${entry.baseCurrency}>${entry.quoteCurrency}`;
+    const list = series.get(key) ?? [];
+    list.push({ time: entry.date.getTime(), rate: entry.rate });
+    series.set(key, list);
+  }
+  for (const list of series.values()) list.sort((a, b) => a.time - b.time);
+
+  // The latest rate dated on or before `time`, else the pair's first one.
+  const rateAt = (list: { time: number; rate: number }[], time: number): number => {
+    let found = list[0];
+    for (const entry of list) {
+      if (entry.time > time) break;
+      found = entry;
+    }
+    return found.rate;
+  };
+
+  return (amount, currency, at) => {
+    const from = currency ?? reportingCurrency;
+    if (from === reportingCurrency) return amount;
+    const direct = series.get(`${from}>${reportingCurrency}`);
+    if (direct) return amount * rateAt(direct, at.getTime());
+    const inverse = series.get(`${reportingCurrency}>${from}`);
+    if (inverse) return amount / rateAt(inverse, at.getTime());
+    return null;
+  };
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency,
+      maximumFractionDigits: Math.abs(amount) >= 1000 ? 0 : 2,
+    }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+/** YYYY-MM-DD that is a real calendar date. */
+export function isRateDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
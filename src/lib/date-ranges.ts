@@ -0,0 +1,265 @@
+/**
+ * Analytics date ranges: rolling windows ("7d"), calendar presets
+ * ("thisMonth", "lastQuarter"), a campaign's lifetime and custom start /
+ * end dates, plus the period a range is compared against. Shared by the
+ * /analytics page, /api/analytics, the CSV export and share links so a
+ * preset resolves to the same window everywhere.
+ *
+ * Calendar presets and custom day bounds follow the reporting time zone
+ * passed in (see lib/timezone), so the browser and the server agree on
+ * where "lastMonth" starts.
+ *
+ * Query string: `?range=lastMonth`, `?range=custom&from=2026-01-01&to=2026-01-31`,
+ * plus `&compare=previous|lastYear`. A bare `?from=` implies custom.
+ */
+
+import { DEFAULT_TIME_ZONE, zonedDayKey, zonedFields, zonedMidnight } from "@/lib/timezone";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ROLLING_RANGES = ["24h", "7d", "14d", "30d", "90d"] as const;
+export type RollingRange = (typeof ROLLING_RANGES)[number];
+
+const ROLLING_DAYS: Record<RollingRange, number> = {
+  "24h": 1,
+  "7d": 7,
+  "14d": 14,
+  "30d": 30,
+  "90d": 90,
+};
+
+export const CALENDAR_RANGES = [
+  "thisMonth",
+  "lastMonth",
+  "thisQuarter",
+  "lastQuarter",
+  "thisYear",
+] as const;
+export type CalendarRange = (typeof CALENDAR_RANGES)[number];
+
+export const RANGE_PRESETS = [...ROLLING_RANGES, ...CALENDAR_RANGES, "campaign", "custom"] as const;
+export type RangePreset = (typeof RANGE_PRESETS)[number];
+
+export const DEFAULT_RANGE: RangePreset = "7d";
+
+export const COMPARE_MODES = ["previous", "lastYear"] as const;
+export type CompareMode = (typeof COMPARE_MODES)[number];
+
+/** Both ends inclusive. */
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+/** The schedule fields of a Campaign row. */
+export interface CampaignDates {
+  startDate: Date | string | null;
+  endDate: Date | string | null;
+  /** Stands in for a missing startDate */
+  createdAt?: Date | string | null;
+}
+
+export interface RangeSpec {
+  preset: RangePreset;
+  /** custom only — ISO date-time, or a YYYY-MM-DD day */
+  from?: string | null;
+  /** custom only — a YYYY-MM-DD day runs to its end; defaults to now */
+  to?: string | null;
+  /** campaign only */
+  campaign?: CampaignDates | null;
+  /** IANA zone calendar days are taken in; defaults to UTC */
+  timeZone?: string;
+}
+
+export function isRangePreset(value: unknown): value is RangePreset {
+  return (RANGE_PRESETS as readonly unknown[]).includes(value);
+}
+
+export function isRollingRange(value: unknown): value is RollingRange {
+  return (ROLLING_RANGES as readonly unknown[]).includes(value);
+}
+
+export function isCompareMode(value: unknown): value is CompareMode {
+  return (COMPARE_MODES as readonly unknown[]).includes(value);
+}
+
+const DAY_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function parseBound(value: string, endOfDay: boolean, timeZone: string): Date | null {
+  const day = value.match(DAY_ONLY);
+  if (day) {
+    const [y, m, d] = [Number(day[1]), Number(day[2]) - 1, Number(day[3])];
+    return endOfDay
+      ? new Date(zonedMidnight(y, m, d + 1, timeZone).getTime() - 1)
+      : zonedMidnight(y, m, d, timeZone);
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toDate(value: Date | string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function validRange(start: Date, end: Date): DateRange | null {
+  return start.getTime() <= end.getTime() ? { start, end } : null;
+}
+
+/**
+ * The [start, end] window a preset stands for as of `now`. Null when it
+ * can't be resolved: a custom range without a valid start or ending
+ * before it, or a campaign with no dates / not started yet.
+ */
+export function resolveDateRange(spec: RangeSpec, now: Date = new Date()): DateRange | null {
+  const { preset } = spec;
+  const timeZone = spec.timeZone ?? DEFAULT_TIME_ZONE;
+  if (isRollingRange(preset)) {
+    return { start: new Date(now.getTime() - ROLLING_DAYS[preset] * DAY_MS), end: now };
+  }
+
+  const { year, month } = zonedFields(now.getTime(), timeZone);
+  const quarter = month - (month % 3);
+  const firstOf = (y: number, m: number) => zonedMidnight(y, m, 1, timeZone);
+  // Last millisecond before the midnight opening (y, m, 1).
+  const endBefore = (y: number, m: number) => new Date(firstOf(y, m).getTime() - 1);
+
+  switch (preset) {
+    case "thisMonth":
+      return { start: firstOf(year, month), end: now };
+    case "lastMonth":
+      return { start: firstOf(year, month - 1), end: endBefore(year, month) };
+    case "thisQuarter":
+      return { start: firstOf(year, quarter), end: now };
+    case "lastQuarter":
+      return { start: firstOf(year, quarter - 3), end: endBefore(year, quarter) };
+    case "thisYear":
+      return { start: firstOf(year, 0), end: now };
+    case "campaign": {
+      const start = toDate(spec.campaign?.startDate) ?? toDate(spec.campaign?.createdAt);
+      if (!start) return null;
+      const end = toDate(spec.campaign?.endDate);
+      return validRange(start, end && end < now ? end : now);
+    }
+    case "custom": {
+      const start = spec.from ? parseBound(spec.from, false, timeZone) : null;
+      const end = spec.to ? parseBound(spec.to, true, timeZone) : now;
+      return start && end ? validRange(start, end) : null;
+    }
+  }
+}
+
+/**
+ * The window `range` is compared against: the same length right before
+ * it ("previous"), or the same dates one year earlier ("lastYear").
+ */
+export function comparisonRange(range: DateRange, mode: CompareMode): DateRange {
+  if (mode === "previous") {
+    const length = range.end.getTime() - range.start.getTime();
+    return {
+      start: new Date(range.start.getTime() - length),
+      end: new Date(range.start.getTime() - 1),
+    };
+  }
+  const shift = (date: Date) => {
+    const shifted = new Date(date);
+    shifted.setFullYear(shifted.getFullYear() - 1);
+    return shifted;
+  };
+  return { start: shift(range.start), end: shift(range.end) };
+}
+
+/**
+ * % change from `previous` to `current`, rounded. A period coming from
+ * zero counts as +100% (0 when both are zero).
+ */
+export function percentChange(current: number, previous: number): number {
+  if (previous > 0) return Math.round(((current - previous) / previous) * 100);
+  return current > 0 ? 100 : 0;
+}
+
+export interface DateRangeParams {
+  preset: RangePreset;
+  from: string | null;
+  to: string | null;
+  /** null = no comparison asked for */
+  compare: CompareMode | null;
+}
+
+/** Read a range selection from query params (default: last 7 days). */
+export function parseDateRangeParams(searchParams: URLSearchParams): DateRangeParams {
+  const range = searchParams.get("range");
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+  const compare = searchParams.get("compare");
+  const preset = isRangePreset(range) ? range : !range && from ? "custom" : DEFAULT_RANGE;
+  return { preset, from, to, compare: isCompareMode(compare) ? compare : null };
+}
+
+/** Query-string form of a range selection, for building request URLs. */
+export function dateRangeParams(
+  preset: RangePreset,
+  custom: { from?: string | null; to?: string | null } = {},
+  compare: CompareMode | null = null,
+): Record<string, string> {
+  return {
+    range: preset,
+    ...(preset === "custom" && custom.from && { from: custom.from }),
+    ...(preset === "custom" && custom.to && { to: custom.to }),
+    ...(compare && { compare }),
+  };
+}
+
+/**
+ * Days (YYYY-MM-DD) in `timeZone` from the day `range` starts through
+ * the day it ends.
+ */
+export function calendarDays(range: DateRange, timeZone: string = DEFAULT_TIME_ZONE): string[] {
+  const days: string[] = [];
+  const last = zonedDayKey(range.end.getTime(), timeZone);
+  const { year, month, day } = zonedFields(range.start.getTime(), timeZone);
+  // Walk the keys on a UTC calendar; only the labels matter here.
+  const cursor = new Date(Date.UTC(year, month, day));
+  for (let key = cursor.toISOString().slice(0, 10); key <= last; ) {
+    days.push(key);
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+    key = cursor.toISOString().slice(0, 10);
+  }
+  return days;
+}
+
+export interface OverlayPoint {
+  date: string;
+  clicks: number;
+  /** Day at the same offset in the comparison period; null past its end */
+  compareDate: string | null;
+  compareClicks: number | null;
+}
+
+/**
+ * Line up a daily series with its comparison period day by day (first
+ * day against first day, …), zero-filling days without clicks — the rows
+ * behind ClicksChart's dashed comparison line. Pass the time zone the
+ * series' days were bucketed in.
+ */
+export function overlayDailySeries(
+  current: { date: string; clicks: number }[],
+  comparison: { date: string; clicks: number }[],
+  range: DateRange,
+  compareRange: DateRange,
+  timeZone: string = DEFAULT_TIME_ZONE,
+): OverlayPoint[] {
+  const currentByDay = new Map(current.map((d) => [d.date, d.clicks]));
+  const comparisonByDay = new Map(comparison.map((d) => [d.date, d.clicks]));
+  const compareAxis = calendarDays(compareRange, timeZone);
+  return calendarDays(range, timeZone).map((date, i) => {
+    const compareDate = compareAxis[i] ?? null;
+    return {
+      date,
+      clicks: currentByDay.get(date) ?? 0,
+      compareDate,
+      compareClicks: compareDate ? (comparisonByDay.get(compareDate) ?? 0) : null,
+    };
+  });
+}
@@ -0,0 +1,141 @@
+/**
+ * Custom short domain helpers.
+ *
+ * Every ShortLink lives on exactly one host: either a workspace-owned
+ * `Domain` row (domainId set) or the default short host from
+ * NEXT_PUBLIC_SHORT_URL (domainId null). Codes are unique per host, so
+ * every collision check / lookup must carry the domainId alongside the
+ * code — never look a link up by code alone.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { cached, cacheDel, cacheKey } from "@/lib/cache";
+import { createShortCode } from "@/lib/utils/shortcode";
+import { DEFAULT_SHORT_HOST_ID, isPlatformOrLocalHost } from "@/lib/utils/short-url";
+
+// RFC 1123 hostname with at least one dot. Ports, schemes and paths are
+// stripped by normalizeHostname() before this runs.
+const HOSTNAME_PATTERN = /^(?=.{4,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+/**
+ * Lower-case and strip scheme / path / port so "https://Go.Example.com/"
+ * and "go.example.com:443" both become "go.example.com". Returns null
+ * when what's left isn't a plausible hostname.
+ */
+export function normalizeHostname(input: string): string | null {
+  let host = input.trim().toLowerCase();
+  host = host.replace(/^[a-z]+:\/\//, "");
+  host = host.split("/")[0].split(":")[0];
+  if (host.endsWith(".")) host = host.slice(0, -1);
+  return HOSTNAME_PATTERN.test(host) ? host : null;
+}
+
+function hostOf(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hosts that always map to the default (domainId = null) namespace —
+ * the configured short host, the dashboard host, and local / platform
+ * preview hosts. Used to skip the Domain lookup on the hot redirect path
+ * and to stop a workspace from claiming one of them as a custom domain.
+ */
+export function isDefaultShortHost(host: string): boolean {
+  const h = host.toLowerCase();
+  return (
+    h === hostOf(process.env.NEXT_PUBLIC_SHORT_URL) ||
+    h === hostOf(process.env.NEXT_PUBLIC_APP_URL) ||
+    isPlatformOrLocalHost(h)
+  );
+}
+
+/** Cache key for the host → domain lookup. Deleted on domain writes. */
+export function domainHostCacheKey(hostname: string): string {
+  return cacheKey("domain-host", hostname);
+}
+
+/**
+ * Resolve the Host header of an inbound redirect to the namespace its
+ * codes live in: `domainId: null` for the default hosts
+ * (isDefaultShortHost), the Domain id for a registered custom domain.
+ * Any other host — or none — is `{ ok: false }`: it must not fall back
+ * to the default host's codes, so the redirect answers 404.
+ */
+export async function resolveDomainIdForHost(
+  host: string | null,
+): Promise<{ ok: true; domainId: string | null } | { ok: false }> {
+  if (!host) return { ok: false };
+  const hostname = host.split(":")[0].toLowerCase();
+  if (isDefaultShortHost(hostname) || isDefaultShortHost(host)) return { ok: true, domainId: null };
+
+  // Cached as an object so a miss ({ id: null }) is cached too — unknown
+  // hosts would otherwise hit the DB on every request.
+  const hit = await cached(domainHostCacheKey(hostname), 300, async () => {
+    const domain = await prisma.domain.findUnique({
+      where: { hostname },
+      select: { id: true },
+    });
+    return { id: domain?.id ?? null };
+  });
+  return hit.id ? { ok: true, domainId: hit.id } : { ok: false };
+}
+
+export async function invalidateDomainHost(hostname: string): Promise<void> {
+  await cacheDel(domainHostCacheKey(hostname));
+}
+
+/**
+ * Pick the domain a new link should live on. An explicit domainId must
+ * belong to the link's workspace; DEFAULT_SHORT_HOST_ID (or null) is the
+ * default short host; no domainId (undefined) means "the workspace
+ * default domain, else the default short host".
+ *
+ * Returns `{ ok: false }` when the caller passed a domain that isn't
+ * theirs — the route should answer 400 rather than silently falling back.
+ */
+export async function resolveLinkDomain(
+  domainId: string | null | undefined,
+  workspaceId: string | null,
+): Promise<{ ok: true; domainId: string | null } | { ok: false }> {
+  if (domainId === null || domainId === DEFAULT_SHORT_HOST_ID) return { ok: true, domainId: null };
+  if (domainId) {
+    if (!workspaceId) return { ok: false };
+    const domain = await prisma.domain.findFirst({
+      where: { id: domainId, workspaceId },
+      select: { id: true },
+    });
+    return domain ? { ok: true, domainId: domain.id } : { ok: false };
+  }
+  if (!workspaceId) return { ok: true, domainId: null };
+  const fallback = await prisma.domain.findFirst({
+    where: { workspaceId, isDefault: true },
+    select: { id: true },
+  });
+  return { ok: true, domainId: fallback?.id ?? null };
+}
+
+/** True when `code` is already used on the given domain (null = default host). */
+export async function isCodeTaken(code: string, domainId: string | null): Promise<boolean> {
+  const existing = await prisma.shortLink.findFirst({
+    where: { code, domainId },
+    select: { id: true },
+  });
+  return existing !== null;
+}
+
+/**
+ * Generate a random code that is free on `domainId`. Returns null after
+ * 10 collisions — callers surface that as a retryable error.
+ */
+export async function allocateShortCode(domainId: string | null): Promise<string | null> {
+  for (let attempts = 0; attempts < 10; attempts++) {
+    const code = createShortCode();
+    if (!(await isCodeTaken(code, domainId))) return code;
+  }
+  return null;
+}
@@ -0,0 +1,195 @@
+/**
+ * A/B experiment statistics for `ShortLink.variants`. Pure functions —
+ * shared by the report API, the auto-promote job and the link detail page.
+ *
+ * Conversion rate = converting clicks / clicks, where a converting click
+ * has at least one Conversion row (repeat events on one click count once).
+ * Significance is a two-sided two-proportion z-test; intervals are Wilson
+ * score intervals, which behave at low counts where the normal
+ * approximation doesn't.
+ */
+
+import type { LinkVariant } from "@/lib/variants";
+
+export const CONFIDENCE_LEVELS = [0.9, 0.95, 0.99] as const;
+
+export interface ExperimentSettings {
+  /** Rewrite variant weights to the winner once it is significant. */
+  autoPromote: boolean;
+  /** Required confidence (1 − p) that the leader beats the runner-up. */
+  confidence: number;
+  /** Every live variant needs at least this many clicks first. */
+  minClicksPerVariant: number;
+  /** Set by auto-promote; further evaluation is skipped until cleared. */
+  promotedVariantId?: string;
+  promotedAt?: string;
+}
+
+export const DEFAULT_EXPERIMENT_SETTINGS: ExperimentSettings = {
+  autoPromote: false,
+  confidence: 0.95,
+  minClicksPerVariant: 100,
+};
+
+/** Best-effort parse of the `ShortLink.experiment` JSON column. */
+export function parseExperimentSettings(raw: unknown): ExperimentSettings {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { ...DEFAULT_EXPERIMENT_SETTINGS };
+  }
+  const obj = raw as Record<string, unknown>;
+  const confidence = CONFIDENCE_LEVELS.find((c) => c === obj.confidence);
+  const minClicks = Number(obj.minClicksPerVariant);
+  return {
+    autoPromote: obj.autoPromote === true,
+    confidence: confidence ?? DEFAULT_EXPERIMENT_SETTINGS.confidence,
+    minClicksPerVariant:
+      Number.isInteger(minClicks) && minClicks > 0
+        ? minClicks
+        : DEFAULT_EXPERIMENT_SETTINGS.minClicksPerVariant,
+    promotedVariantId:
+      typeof obj.promotedVariantId === "string" ? obj.promotedVariantId : undefined,
+    promotedAt: typeof obj.promotedAt === "string" ? obj.promotedAt : undefined,
+  };
+}
+
+// Abramowitz & Stegun 7.1.26 — max error 1.5e-7, plenty for p-values.
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const ax = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * ax);
+  const y =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t +
+      0.254829592) *
+      t *
+      Math.exp(-ax * ax);
+  return sign * y;
+}
+
+function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+/** 95% Wilson score interval for a conversion rate. */
+export function wilsonInterval(successes: number, trials: number, z = 1.96): [number, number] {
+  if (trials === 0) return [0, 0];
+  const p = successes / trials;
+  const z2 = z * z;
+  const denom = 1 + z2 / trials;
+  const centre = (p + z2 / (2 * trials)) / denom;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denom;
+  return [Math.max(0, centre - margin), Math.min(1, centre + margin)];
+}
+
+/**
+ * Two-sided pooled two-proportion z-test. Returns p = 1 when either arm
+ * is empty or nothing converted at all (no evidence either way).
+ */
+export function twoProportionTest(
+  successesA: number,
+  trialsA: number,
+  successesB: number,
+  trialsB: number,
+): { z: number; pValue: number } {
+  if (trialsA === 0 || trialsB === 0) return { z: 0, pValue: 1 };
+  const pooled = (successesA + successesB) / (trialsA + trialsB);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB));
+  if (se === 0) return { z: 0, pValue: 1 };
+  const z = (successesA / trialsA - successesB / trialsB) / se;
+  return { z, pValue: 2 * (1 - normalCdf(Math.abs(z))) };
+}
+
+export interface VariantStats {
+  clicks: number;
+  conversions: number;
+}
+
+export interface ExperimentRow {
+  id: string;
+  label: string;
+  url: string;
+  weight: number;
+  clicks: number;
+  /** Converting clicks, not conversion events. */
+  conversions: number;
+  cvr: number;
+  ci: [number, number];
+  /** Relative CVR lift vs the control (first variant); null for control. */
+  liftVsControl: number | null;
+  /** 1 − p of the test vs control; null for control. */
+  confidenceVsControl: number | null;
+}
+
+export interface ExperimentReport {
+  rows: ExperimentRow[];
+  /** Live (weight > 0) variant with the highest CVR. */
+  leaderId: string | null;
+  /** 1 − p of leader vs the next-best live variant. */
+  leaderConfidence: number | null;
+  /** Every live variant has reached minClicksPerVariant. */
+  minSampleReached: boolean;
+  /** Leader, once both the sample and confidence thresholds are met. */
+  winnerId: string | null;
+}
+
+export function evaluateExperiment(
+  variants: LinkVariant[],
+  stats: Record<string, VariantStats>,
+  settings: ExperimentSettings,
+): ExperimentReport {
+  const control = variants[0];
+  const controlStats = control ? stats[control.id] ?? { clicks: 0, conversions: 0 } : null;
+  const controlCvr =
+    controlStats && controlStats.clicks > 0 ? controlStats.conversions / controlStats.clicks : 0;
+
+  const rows: ExperimentRow[] = variants.map((v, idx) => {
+    const s = stats[v.id] ?? { clicks: 0, conversions: 0 };
+    const cvr = s.clicks > 0 ? s.conversions / s.clicks : 0;
+    const row: ExperimentRow = {
+      id: v.id,
+      label: v.label || `Variant ${String.fromCharCode(65 + idx)}`,
+      url: v.url,
+      weight: v.weight,
+      clicks: s.clicks,
+      conversions: s.conversions,
+      cvr,
+      ci: wilsonInterval(s.conversions, s.clicks),
+      liftVsControl: null,
+      confidenceVsControl: null,
+    };
+    if (idx > 0 && controlStats) {
+      row.liftVsControl = controlCvr > 0 ? (cvr - controlCvr) / controlCvr : null;
+      row.confidenceVsControl =
+        1 -
+        twoProportionTest(s.conversions, s.clicks, controlStats.conversions, controlStats.clicks)
+          .pValue;
+    }
+    return row;
+  });
+
+  // Paused variants (weight 0, e.g. losers of an earlier promotion) keep
+  // their row in the report but don't compete for the win.
+  const live = rows.filter((r) => r.weight > 0).sort((a, b) => b.cvr - a.cvr);
+  if (live.length < 2) {
+    return {
+      rows,
+      leaderId: live[0]?.id ?? null,
+      leaderConfidence: null,
+      minSampleReached: false,
+      winnerId: null,
+    };
+  }
+
+  const [leader, runnerUp] = live;
+  const leaderConfidence =
+    1 -
+    twoProportionTest(leader.conversions, leader.clicks, runnerUp.conversions, runnerUp.clicks)
+      .pValue;
+  const minSampleReached = live.every((r) => r.clicks >= settings.minClicksPerVariant);
+  const winnerId =
+    minSampleReached && leader.cvr > runnerUp.cvr && leaderConfidence >= settings.confidence
+      ? leader.id
+      : null;
+
+  return { rows, leaderId: leader.id, leaderConfidence, minSampleReached, winnerId };
+}
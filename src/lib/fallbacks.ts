@@ -0,0 +1,52 @@
+/**
+ * Fallback destinations — where a link that can't serve its destination
+ * sends visitors instead of the dead-end /link-* status page. Printed QR
+ * codes outlive campaigns; an expired promo should land on the evergreen
+ * product page, not "Link Expired".
+ *
+ * Resolution order: the link's own fallback for the state, then the
+ * workspace default for the state, then the generic status page.
+ */
+
+/** Link states that would otherwise end on a /link-<state> page. */
+export const FALLBACK_STATES = [
+  "inactive",
+  "not-yet-active",
+  "expired",
+  "limit-reached",
+  "geo-blocked",
+] as const;
+
+export type FallbackState = (typeof FALLBACK_STATES)[number];
+
+/** Stored as JSON on ShortLink.fallbackUrls and Workspace.fallbackUrls. */
+export type FallbackUrls = Partial<Record<FallbackState, string>>;
+
+/** The generic page served when no fallback is configured. */
+export function statusPagePath(state: FallbackState): string {
+  return `/link-${state}`;
+}
+
+/** Best-effort parse of a fallbackUrls JSON column; junk keys are dropped. */
+export function parseFallbackUrls(raw: unknown): FallbackUrls {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  const obj = raw as Record<string, unknown>;
+  const out: FallbackUrls = {};
+  for (const state of FALLBACK_STATES) {
+    const url = obj[state];
+    if (typeof url === "string" && url) out[state] = url;
+  }
+  return out;
+}
+
+export function resolveFallbackUrl(
+  state: FallbackState,
+  linkFallbacks: unknown,
+  workspaceFallbacks: unknown,
+): string | null {
+  return (
+    parseFallbackUrls(linkFallbacks)[state] ??
+    parseFallbackUrls(workspaceFallbacks)[state] ??
+    null
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * Conversion funnels — ordered Conversion.eventName steps a click's
+ * session goes through (Funnel.steps, e.g. add_to_cart → purchase).
+ *
+ * A session reaches step N when it fired step N's event at or after the
+ * time it reached step N-1 (the click itself for the first step), within
+ * the funnel's window. Events fired out of order don't count until they
+ * happen again in order, and each firing counts for one step only — a
+ * funnel repeating an event (view → view → purchase) needs it twice.
+ *
+ * The step walk and summary live here so the report route
+ * (src/lib/analytics/funnels.ts) and the UI share the types; no server
+ * imports.
+ */
+
+export const MAX_FUNNEL_STEPS = 8;
+export const MAX_FUNNEL_WINDOW_DAYS = 90;
+
+/** Same shape /api/track accepts for eventName. */
+export const FUNNEL_EVENT_PATTERN = /^[A-Za-z0-9_.:-]{1,60}$/;
+
+export const FUNNEL_GROUP_BYS = ["link", "campaign", "variant"] as const;
+export type FunnelGroupBy = (typeof FUNNEL_GROUP_BYS)[number];
+
+export function isFunnelGroupBy(value: unknown): value is FunnelGroupBy {
+  return (FUNNEL_GROUP_BYS as readonly unknown[]).includes(value);
+}
+
+export interface FunnelStepStats {
+  event: string;
+  sessions: number;
+  /** sessions / clicks */
+  rate: number;
+  /** sessions / the previous step's sessions (clicks for the first step) */
+  stepRate: number;
+  /** Median seconds from the previous step (the click for the first); null = nobody got here */
+  medianSeconds: number | null;
+}
+
+export interface FunnelReport {
+  clicks: number;
+  steps: FunnelStepStats[];
+}
+
+/**
+ * When a session reached each step: [click, step 1, step 2, …], cut at
+ * the first step it never reached. `events` maps event name → the
+ * session's times for it, ascending.
+ */
+export function funnelPath(
+  steps: string[],
+  clickedAt: Date,
+  events: Record<string, Date[]>,
+): Date[] {
+  const path = [clickedAt];
+  // Per event, how many of its firings earlier steps already used up.
+  const used: Record<string, number> = {};
+  for (const step of steps) {
+    const previous = path[path.length - 1];
+    const times = events[step] ?? [];
+    const index = times.findIndex((t, i) => i >= (used[step] ?? 0) && t >= previous);
+    if (index === -1) break;
+    used[step] = index + 1;
+    path.push(times[index]);
+  }
+  return path;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Step counts, rates and median step times from the sessions' paths. */
+export function summarizeFunnel(steps: string[], clicks: number, paths: Date[][]): FunnelReport {
+  let previous = clicks;
+  return {
+    clicks,
+    steps: steps.map((event, i) => {
+      const reached = paths.filter((p) => p.length > i + 1);
+      const sessions = reached.length;
+      const stats: FunnelStepStats = {
+        event,
+        sessions,
+        rate: clicks > 0 ? sessions / clicks : 0,
+        stepRate: previous > 0 ? sessions / previous : 0,
+        medianSeconds: median(
+          reached.map((p) => (p[i + 1].getTime() - p[i].getTime()) / 1000),
+        ),
+      };
+      previous = sessions;
+      return stats;
+    }),
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Geo-routing — per-link country → destination map. One QR on global
+ * packaging can send TW visitors to the TW store and US visitors to the
+ * US store; countries not listed fall through to the link's default
+ * destination (variants / originalUrl). Complements `allowedCountries`,
+ * which blocks instead of routing.
+ */
+
+export interface GeoRoute {
+  /** Stable ID — kept in sync with Click.geoRouteId for breakdown reports. */
+  id: string;
+  /** ISO 3166-1 alpha-2 codes, upper-case. */
+  countries: string[];
+  url: string;
+  /** Optional human label (e.g. "TW store"). */
+  label?: string;
+}
+
+const COUNTRY_CODE = /^[A-Z]{2}$/;
+
+/**
+ * Best-effort parse of the `ShortLink.geoRoutes` JSON column. Routes
+ * without a URL or without any valid country are dropped.
+ */
+export function parseGeoRoutes(raw: unknown): GeoRoute[] {
+  if (!Array.isArray(raw)) return [];
+  const out: GeoRoute[] = [];
+  for (const r of raw) {
+    if (!r || typeof r !== "object") continue;
+    const obj = r as Record<string, unknown>;
+    const url = typeof obj.url === "string" ? obj.url : "";
+    const countries = Array.isArray(obj.countries)
+      ? obj.countries.filter((c): c is string => typeof c === "string" && COUNTRY_CODE.test(c))
+      : [];
+    if (!url || countries.length === 0) continue;
+    const id = typeof obj.id === "string" && obj.id ? obj.id : `g_${out.length}`;
+    const label = typeof obj.label === "string" ? obj.label : undefined;
+    out.push({ id, countries, url, label });
+  }
+  return out;
+}
+
+/**
+ * Route for the visitor's country, first match in list order. Unknown
+ * country (no geo headers) never matches — the visitor gets the default
+ * destination rather than someone else's regional store.
+ */
+export function matchGeoRoute(routes: GeoRoute[], country: string | null): GeoRoute | null {
+  if (!country) return null;
+  return routes.find((r) => r.countries.includes(country)) ?? null;
+}
+
+/** Display name for reports — the label if set, else "TW, HK". */
+export function describeGeoRoute(route: GeoRoute): string {
+  return route.label || route.countries.join(", ");
+}
@@ -1,28 +1,181 @@
-interface GeoLocation {
+import { readFile } from "fs/promises";
+import {
+  Reader,
+  type AsnResponse,
+  type CityResponse,
+  type Response as MmdbResponse,
+} from "mmdb-lib";
+
+export interface GeoLocation {
+  /** ISO 3166-1 alpha-2 (e.g. "TW"). */
   country: string | null;
+  /** ISO 3166-2 subdivision code without the country prefix (e.g. "TPE"). */
+  region: string | null;
   city: string | null;
+  /** Autonomous system number of the visitor's network (e.g. 3462). */
+  asn: number | null;
+  /** AS organisation (e.g. "Chunghwa Telecom Co., Ltd."). */
+  asOrg: string | null;
 }
 
-const NULL_GEO: GeoLocation = { country: null, city: null };
+const NULL_GEO: GeoLocation = { country: null, region: null, city: null, asn: null, asOrg: null };
 
 /**
- * Extract geolocation from Vercel's automatic geo headers.
- * These headers are injected by Vercel's edge network on every request:
- *   x-vercel-ip-country  → ISO 3166-1 alpha-2 (e.g., "TW")
- *   x-vercel-ip-city     → City name (e.g., "Taipei")
- *
- * Falls back to NULL_GEO in local development or non-Vercel environments.
+ * A source of geo data. Returns whatever subset it knows, or null when it
+ * has no answer for this request so the next provider in the chain runs.
+ */
+export interface GeoProvider {
+  name: string;
+  lookup(ip: string | null, headers: Headers): Promise<Partial<GeoLocation> | null>;
+}
+
+/**
+ * Geo headers injected by the edge network in front of the app:
+ *   Vercel      x-vercel-ip-country / -country-region / -city
+ *   Cloudflare  cf-ipcountry (+ cf-region-code / cf-ipcity with the
+ *               "Add visitor location headers" managed transform)
+ * Empty on self-hosted deploys without such a proxy.
+ */
+const headersProvider: GeoProvider = {
+  name: "headers",
+  async lookup(_ip, headers) {
+    const vercelCountry = headers.get("x-vercel-ip-country");
+    if (vercelCountry) {
+      const city = headers.get("x-vercel-ip-city");
+      return {
+        country: vercelCountry,
+        region: headers.get("x-vercel-ip-country-region"),
+        city: city ? decodeURIComponent(city) : null,
+      };
+    }
+
+    // Cloudflare reports "XX" for unknown and "T1" for Tor exits.
+    const cfCountry = headers.get("cf-ipcountry");
+    if (cfCountry && cfCountry !== "XX" && cfCountry !== "T1") {
+      return {
+        country: cfCountry,
+        region: headers.get("cf-region-code"),
+        city: headers.get("cf-ipcity"),
+      };
+    }
+
+    return null;
+  },
+};
+
+// Readers are loaded once per server instance. A missing / unreadable
+// file logs once and disables that database rather than failing clicks.
+const readers = new Map<string, Promise<Reader<MmdbResponse> | null>>();
+
+function loadReader<T extends MmdbResponse>(path: string | undefined): Promise<Reader<T> | null> {
+  if (!path) return Promise.resolve(null);
+  let reader = readers.get(path);
+  if (!reader) {
+    reader = readFile(path)
+      .then((db) => new Reader<MmdbResponse>(db))
+      .catch((err) => {
+        console.error(`[geoip] Failed to load ${path}:`, err);
+        return null;
+      });
+    readers.set(path, reader);
+  }
+  return reader as Promise<Reader<T> | null>;
+}
+
+function safeGet<T extends MmdbResponse>(reader: Reader<T> | null, ip: string): T | null {
+  if (!reader) return null;
+  try {
+    return reader.get(ip);
+  } catch {
+    // Not a valid IPv4 / IPv6 address.
+    return null;
+  }
+}
+
+/**
+ * Local MaxMind (GeoLite2 / GeoIP2) or DB-IP "lite" .mmdb files — both
+ * use the same record layout. Paths come from GEOIP_CITY_DB (city or
+ * country database) and GEOIP_ASN_DB; either may be left unset.
  */
-export function getGeoFromHeaders(headers: Headers): GeoLocation {
-  const country = headers.get("x-vercel-ip-country");
-  const city = headers.get("x-vercel-ip-city");
+const mmdbProvider: GeoProvider = {
+  name: "mmdb",
+  async lookup(ip) {
+    if (!ip) return null;
+    const [cityReader, asnReader] = await Promise.all([
+      loadReader<CityResponse>(process.env.GEOIP_CITY_DB),
+      loadReader<AsnResponse>(process.env.GEOIP_ASN_DB),
+    ]);
+    const city = safeGet(cityReader, ip);
+    const asn = safeGet(asnReader, ip);
+    if (!city?.country && !asn) return null;
 
-  if (!country) {
-    return NULL_GEO;
+    return {
+      ...(city?.country && {
+        country: city.country.iso_code,
+        region: city.subdivisions?.[0]?.iso_code ?? null,
+        city: city.city?.names.en ?? null,
+      }),
+      ...(asn && {
+        asn: asn.autonomous_system_number,
+        asOrg: asn.autonomous_system_organization ?? null,
+      }),
+    };
+  },
+};
+
+const PROVIDERS: Record<string, GeoProvider> = {
+  headers: headersProvider,
+  mmdb: mmdbProvider,
+};
+
+/**
+ * Provider chain from GEOIP_PROVIDERS, e.g. "headers,mmdb" (the default)
+ * or "mmdb". "none" disables geo lookup entirely. Unknown names are
+ * ignored with a warning.
+ */
+function providerChain(): GeoProvider[] {
+  const raw = process.env.GEOIP_PROVIDERS ?? "headers,mmdb";
+  const chain: GeoProvider[] = [];
+  for (const name of raw.split(",").map((s) => s.trim().toLowerCase())) {
+    if (!name || name === "none") continue;
+    const provider = PROVIDERS[name];
+    if (provider) chain.push(provider);
+    else console.warn(`[geoip] Unknown provider "${name}" in GEOIP_PROVIDERS`);
   }
+  return chain;
+}
 
-  return {
-    country,
-    city: city ? decodeURIComponent(city) : null,
-  };
+/**
+ * Resolve the visitor's location by walking the provider chain. Location
+ * (country / region / city) comes as a unit from the first provider that
+ * knows the country, so a city is never paired with another source's
+ * country; network (ASN) fields from the first provider that has them.
+ *
+ * Falls back to all-null when nothing answers — callers treat an unknown
+ * country as "not in allowedCountries".
+ */
+export async function resolveGeo(headers: Headers, ip: string | null): Promise<GeoLocation> {
+  const geo: GeoLocation = { ...NULL_GEO };
+  for (const provider of providerChain()) {
+    let result: Partial<GeoLocation> | null;
+    try {
+      result = await provider.lookup(ip, headers);
+    } catch (err) {
+      console.error(`[geoip] Provider "${provider.name}" failed:`, err);
+      continue;
+    }
+    if (!result) continue;
+
+    if (!geo.country && result.country) {
+      geo.country = result.country.toUpperCase();
+      geo.region = result.region ?? null;
+      geo.city = result.city ?? null;
+    }
+    if (geo.asn === null && result.asn != null) {
+      geo.asn = result.asn;
+      geo.asOrg = result.asOrg ?? null;
+    }
+    if (geo.country && geo.asn !== null) break;
+  }
+  return geo;
 }
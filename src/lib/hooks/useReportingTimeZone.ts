@@ -0,0 +1,44 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
+import { resolveTimeZone } from "@/lib/timezone";
+
+export interface UserProfile {
+  id: string;
+  name: string | null;
+  email: string;
+  image: string | null;
+  role: string;
+  /** Personal reporting time zone; null = the workspace's */
+  timezone: string | null;
+}
+
+export const profileQueryKey = ["user-profile"] as const;
+
+/**
+ * The zone the signed-in user's reports bucket days / hours in — their
+ * own override, else the current workspace's setting, else UTC. Same
+ * rule as reportingTimeZone() on the server.
+ */
+export function useReportingTimeZone() {
+  const { currentWorkspace } = useWorkspace();
+
+  const query = useQuery<UserProfile, Error>({
+    queryKey: profileQueryKey,
+    queryFn: async () => {
+      const res = await fetch("/api/user/profile");
+      if (!res.ok) throw new Error("Failed to load profile");
+      return res.json();
+    },
+  });
+
+  const userTimeZone = query.data?.timezone ?? null;
+  const workspaceTimeZone = currentWorkspace?.timezone ?? null;
+  return {
+    timeZone: resolveTimeZone(userTimeZone, workspaceTimeZone),
+    userTimeZone,
+    workspaceTimeZone,
+    isLoading: query.isLoading,
+  };
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
+
+export interface WorkspaceDomain {
+  id: string;
+  hostname: string;
+  isDefault: boolean;
+  createdAt: string;
+  _count?: { links: number };
+}
+
+export function domainsQueryKey(workspaceId: string | undefined) {
+  return ["domains", workspaceId] as const;
+}
+
+/**
+ * Custom short domains of the current workspace. Empty when no workspace
+ * is selected — the link forms then only offer the default short host.
+ */
+export function useWorkspaceDomains() {
+  const { currentWorkspace } = useWorkspace();
+  const workspaceId = currentWorkspace?.id;
+
+  const query = useQuery<{ domains: WorkspaceDomain[] }, Error>({
+    queryKey: domainsQueryKey(workspaceId),
+    enabled: Boolean(workspaceId),
+    queryFn: async () => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/domains`);
+      if (!res.ok) throw new Error("Failed to load domains");
+      return res.json();
+    },
+  });
+
+  const domains = query.data?.domains ?? [];
+  return {
+    domains,
+    defaultDomain: domains.find((d) => d.isDefault) ?? null,
+    isLoading: query.isLoading,
+    error: query.error?.message ?? null,
+  };
+}
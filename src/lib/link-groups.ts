@@ -0,0 +1,110 @@
+/**
+ * Link folders (LinkGroup). Folders nest via parentId; a link sits in at
+ * most one folder, and filtering by a folder includes its subfolders.
+ *
+ * Pure tree helpers only — shared by the API routes and the client
+ * (links list, analytics filter), so nothing here touches Prisma.
+ */
+
+/** Deepest allowed nesting, counting the top level as 1. */
+export const MAX_GROUP_DEPTH = 4;
+
+export interface GroupNode {
+  id: string;
+  name: string;
+  parentId: string | null;
+}
+
+function childrenByParent<T extends GroupNode>(groups: T[]): Map<string | null, T[]> {
+  const byParent = new Map<string | null, T[]>();
+  for (const g of groups) {
+    const list = byParent.get(g.parentId) ?? [];
+    list.push(g);
+    byParent.set(g.parentId, list);
+  }
+  return byParent;
+}
+
+/** `rootId` plus every folder below it. */
+export function descendantGroupIds(groups: GroupNode[], rootId: string): string[] {
+  const byParent = childrenByParent(groups);
+  const out: string[] = [];
+  const stack = [rootId];
+  const seen = new Set<string>();
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    out.push(id);
+    for (const child of byParent.get(id) ?? []) stack.push(child.id);
+  }
+  return out;
+}
+
+/** Nesting level of a folder: 1 for top level. */
+export function groupDepth(groups: GroupNode[], id: string): number {
+  const byId = new Map(groups.map((g) => [g.id, g]));
+  let depth = 0;
+  let current = byId.get(id);
+  const seen = new Set<string>();
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    depth++;
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return depth;
+}
+
+/** Levels in the subtree rooted at `id`: 1 for a folder without subfolders. */
+export function subtreeHeight(groups: GroupNode[], id: string): number {
+  const byParent = childrenByParent(groups);
+  const walk = (nodeId: string, seen: Set<string>): number => {
+    if (seen.has(nodeId)) return 0;
+    seen.add(nodeId);
+    let max = 0;
+    for (const child of byParent.get(nodeId) ?? []) max = Math.max(max, walk(child.id, seen));
+    return max + 1;
+  };
+  return walk(id, new Set());
+}
+
+/** "Parent / Child" path for every folder, for exports and labels. */
+export function groupPaths(groups: GroupNode[]): Map<string, string> {
+  const byId = new Map(groups.map((g) => [g.id, g]));
+  const paths = new Map<string, string>();
+  for (const g of groups) {
+    const parts: string[] = [];
+    let current: GroupNode | undefined = g;
+    const seen = new Set<string>();
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      parts.unshift(current.name);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    paths.set(g.id, parts.join(" / "));
+  }
+  return paths;
+}
+
+/**
+ * Folders in display order — depth-first, siblings by name — with their
+ * depth (0 = top level), ready to render as an indented tree.
+ */
+export function flattenGroupTree<T extends GroupNode>(groups: T[]): { group: T; depth: number }[] {
+  const byParent = childrenByParent(groups);
+  const ids = new Set(groups.map((g) => g.id));
+  const out: { group: T; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    const children = [...(byParent.get(parentId) ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+    for (const child of children) {
+      out.push({ group: child, depth });
+      visit(child.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  // Folders whose parent is out of scope render at the top level.
+  for (const [parentId] of byParent) {
+    if (parentId && !ids.has(parentId)) visit(parentId, 0);
+  }
+  return out;
+}
@@ -0,0 +1,80 @@
+/**
+ * Password-protected short links. The redirect route sends visitors
+ * without a valid unlock cookie to /link-locked; POST /api/unlock checks
+ * the password and sets the cookie. The cookie is an HMAC over the link
+ * ID, the current password hash and an expiry — changing or removing the
+ * password invalidates every cookie issued for the old one.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+/** How long one successful unlock lasts on a browser. */
+export const UNLOCK_TTL_SECONDS = 12 * 60 * 60;
+
+export const LINK_PASSWORD_MIN = 4;
+export const LINK_PASSWORD_MAX = 100;
+
+export function unlockCookieName(linkId: string): string {
+  return `sl_unlock_${linkId}`;
+}
+
+function unlockSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("AUTH_SECRET environment variable is required in production");
+    }
+    return "dev-fallback-unlock-secret";
+  }
+  return secret;
+}
+
+function sign(linkId: string, passwordHash: string, expiresAt: number): string {
+  return createHmac("sha256", unlockSecret())
+    .update(`${linkId}:${passwordHash}:${expiresAt}`)
+    .digest("base64url");
+}
+
+/** Cookie value for a freshly unlocked link: `<expiresAt>.<signature>`. */
+export function signUnlockToken(linkId: string, passwordHash: string): string {
+  const expiresAt = Math.floor(Date.now() / 1000) + UNLOCK_TTL_SECONDS;
+  return `${expiresAt}.${sign(linkId, passwordHash, expiresAt)}`;
+}
+
+export function verifyUnlockToken(
+  token: string | undefined,
+  linkId: string,
+  passwordHash: string,
+): boolean {
+  if (!token) return false;
+  const [expiresRaw, signature] = token.split(".");
+  const expiresAt = Number(expiresRaw);
+  if (!signature || !Number.isFinite(expiresAt)) return false;
+  if (expiresAt < Math.floor(Date.now() / 1000)) return false;
+
+  const expected = Buffer.from(sign(linkId, passwordHash, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Only same-origin paths are accepted as the post-unlock destination so
+ * the interstitial can't be used as an open redirect.
+ */
+export function safeUnlockNext(next: string | null | undefined): string | null {
+  if (!next || !next.startsWith("/")) return null;
+  // "//host" and "/\host" are protocol-relative to browsers.
+  if (next.startsWith("//") || next.startsWith("/\\")) return null;
+  return next;
+}
+
+/**
+ * Swap the hash for a boolean before a link goes out in an API response.
+ * Used by the routes that opt back in with `omit: { password: false }`.
+ */
+export function withHasPassword<T extends { password: string | null }>(
+  link: T,
+): Omit<T, "password"> & { hasPassword: boolean } {
+  const { password, ...rest } = link;
+  return { ...rest, hasPassword: Boolean(password) };
+}
@@ -0,0 +1,263 @@
+/**
+ * Link revision history and scheduled destination swaps.
+ *
+ * Every change to a link's destination, UTM params, variants, routing
+ * (device rules, geo routes, allowed countries), fallbacks or limits
+ * writes a ShortLinkRevision holding the full tracked state afterwards
+ * (`snapshot`) and a field-level diff against the state before
+ * (`changes`). The first recorded change of a link also writes an INITIAL
+ * row with the state before it, so the original configuration can always
+ * be rolled back to.
+ *
+ * Scheduled swaps need no cron: the redirect serves `scheduledUrl` as
+ * soon as `scheduledUrlAt` has passed (dueScheduledUrl) and persists the
+ * swap in the background (applyDueSchedule). The detail API does the same
+ * so the dashboard never shows a stale destination.
+ */
+
+import type { Prisma, RevisionSource, ShortLink } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { bumpLinksCache } from "@/lib/cache-scopes";
+import { parseVariants, type LinkVariant } from "@/lib/variants";
+import { parseDeviceRules, type DeviceRule } from "@/lib/routing-rules";
+import { parseGeoRoutes, type GeoRoute } from "@/lib/geo-routes";
+import { parseFallbackUrls, type FallbackUrls } from "@/lib/fallbacks";
+
+export interface RevisionSnapshot {
+  originalUrl: string;
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  utmContent: string | null;
+  utmTerm: string | null;
+  variants: LinkVariant[];
+  // Missing from snapshots written before routing and fallbacks were
+  // tracked; restoring one of those leaves them as they are.
+  deviceRules?: DeviceRule[];
+  geoRoutes?: GeoRoute[];
+  allowedCountries?: string[];
+  fallbackUrls?: FallbackUrls;
+  startsAt: string | null;
+  expiresAt: string | null;
+  maxClicks: number | null;
+  scheduledUrl: string | null;
+  scheduledUrlAt: string | null;
+}
+
+export type RevisionField = keyof RevisionSnapshot;
+
+export type RevisionChanges = Partial<Record<RevisionField, { from: unknown; to: unknown }>>;
+
+export type TrackedLink = Pick<
+  ShortLink,
+  | "originalUrl"
+  | "utmSource"
+  | "utmMedium"
+  | "utmCampaign"
+  | "utmContent"
+  | "utmTerm"
+  | "variants"
+  | "deviceRules"
+  | "geoRoutes"
+  | "allowedCountries"
+  | "fallbackUrls"
+  | "startsAt"
+  | "expiresAt"
+  | "maxClicks"
+  | "scheduledUrl"
+  | "scheduledUrlAt"
+>;
+
+/** Selects the fields a revision tracks. */
+export const TRACKED_LINK_SELECT = {
+  originalUrl: true,
+  utmSource: true,
+  utmMedium: true,
+  utmCampaign: true,
+  utmContent: true,
+  utmTerm: true,
+  variants: true,
+  deviceRules: true,
+  geoRoutes: true,
+  allowedCountries: true,
+  fallbackUrls: true,
+  startsAt: true,
+  expiresAt: true,
+  maxClicks: true,
+  scheduledUrl: true,
+  scheduledUrlAt: true,
+} as const;
+
+export function snapshotLink(link: TrackedLink): RevisionSnapshot {
+  return {
+    originalUrl: link.originalUrl,
+    utmSource: link.utmSource,
+    utmMedium: link.utmMedium,
+    utmCampaign: link.utmCampaign,
+    utmContent: link.utmContent,
+    utmTerm: link.utmTerm,
+    variants: parseVariants(link.variants),
+    deviceRules: parseDeviceRules(link.deviceRules),
+    geoRoutes: parseGeoRoutes(link.geoRoutes),
+    allowedCountries: link.allowedCountries,
+    fallbackUrls: parseFallbackUrls(link.fallbackUrls),
+    startsAt: link.startsAt?.toISOString() ?? null,
+    expiresAt: link.expiresAt?.toISOString() ?? null,
+    maxClicks: link.maxClicks,
+    scheduledUrl: link.scheduledUrl,
+    scheduledUrlAt: link.scheduledUrlAt?.toISOString() ?? null,
+  };
+}
+
+export function diffSnapshots(before: RevisionSnapshot, after: RevisionSnapshot): RevisionChanges {
+  const changes: RevisionChanges = {};
+  for (const field of Object.keys(after) as RevisionField[]) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes[field] = { from: before[field], to: after[field] };
+    }
+  }
+  return changes;
+}
+
+/** Best-effort parse of `ShortLinkRevision.snapshot`; null if unusable. */
+export function parseSnapshot(raw: unknown): RevisionSnapshot | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const obj = raw as Record<string, unknown>;
+  if (typeof obj.originalUrl !== "string" || !obj.originalUrl) return null;
+  const str = (v: unknown) => (typeof v === "string" ? v : null);
+  return {
+    originalUrl: obj.originalUrl,
+    utmSource: str(obj.utmSource),
+    utmMedium: str(obj.utmMedium),
+    utmCampaign: str(obj.utmCampaign),
+    utmContent: str(obj.utmContent),
+    utmTerm: str(obj.utmTerm),
+    variants: parseVariants(obj.variants),
+    ...("deviceRules" in obj && { deviceRules: parseDeviceRules(obj.deviceRules) }),
+    ...("geoRoutes" in obj && { geoRoutes: parseGeoRoutes(obj.geoRoutes) }),
+    ...(Array.isArray(obj.allowedCountries) && {
+      allowedCountries: obj.allowedCountries.filter((c): c is string => typeof c === "string"),
+    }),
+    ...("fallbackUrls" in obj && { fallbackUrls: parseFallbackUrls(obj.fallbackUrls) }),
+    startsAt: str(obj.startsAt),
+    expiresAt: str(obj.expiresAt),
+    maxClicks: typeof obj.maxClicks === "number" ? obj.maxClicks : null,
+    scheduledUrl: str(obj.scheduledUrl),
+    scheduledUrlAt: str(obj.scheduledUrlAt),
+  };
+}
+
+/** ShortLink update data that restores a snapshot. */
+export function snapshotToUpdate(snapshot: RevisionSnapshot): Prisma.ShortLinkUpdateInput {
+  return {
+    originalUrl: snapshot.originalUrl,
+    utmSource: snapshot.utmSource,
+    utmMedium: snapshot.utmMedium,
+    utmCampaign: snapshot.utmCampaign,
+    utmContent: snapshot.utmContent,
+    utmTerm: snapshot.utmTerm,
+    variants: snapshot.variants as unknown as Prisma.InputJsonValue,
+    ...(snapshot.deviceRules && {
+      deviceRules: snapshot.deviceRules as unknown as Prisma.InputJsonValue,
+    }),
+    ...(snapshot.geoRoutes && {
+      geoRoutes: snapshot.geoRoutes as unknown as Prisma.InputJsonValue,
+    }),
+    ...(snapshot.allowedCountries && { allowedCountries: snapshot.allowedCountries }),
+    ...(snapshot.fallbackUrls && { fallbackUrls: snapshot.fallbackUrls as Prisma.InputJsonValue }),
+    startsAt: snapshot.startsAt ? new Date(snapshot.startsAt) : null,
+    expiresAt: snapshot.expiresAt ? new Date(snapshot.expiresAt) : null,
+    maxClicks: snapshot.maxClicks,
+    scheduledUrl: snapshot.scheduledUrl,
+    scheduledUrlAt: snapshot.scheduledUrlAt ? new Date(snapshot.scheduledUrlAt) : null,
+  };
+}
+
+/**
+ * Write a revision for a change from `before` to `after`. No-op (returns
+ * null) when none of the tracked fields changed.
+ */
+export async function recordRevision({
+  shortLinkId,
+  before,
+  after,
+  userId,
+  source,
+}: {
+  shortLinkId: string;
+  before: TrackedLink;
+  after: TrackedLink;
+  userId: string | null;
+  source: RevisionSource;
+}): Promise<{ id: string; changes: RevisionChanges } | null> {
+  const beforeSnapshot = snapshotLink(before);
+  const afterSnapshot = snapshotLink(after);
+  const changes = diffSnapshots(beforeSnapshot, afterSnapshot);
+  if (Object.keys(changes).length === 0) return null;
+
+  const existing = await prisma.shortLinkRevision.count({ where: { shortLinkId } });
+  if (existing === 0) {
+    // Links created before revisions existed (or never edited) have no
+    // baseline — record the pre-change state so it can be restored.
+    await prisma.shortLinkRevision.create({
+      data: {
+        shortLinkId,
+        userId: null,
+        source: "INITIAL",
+        snapshot: beforeSnapshot as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  const revision = await prisma.shortLinkRevision.create({
+    data: {
+      shortLinkId,
+      userId,
+      source,
+      snapshot: afterSnapshot as unknown as Prisma.InputJsonValue,
+      changes: changes as unknown as Prisma.InputJsonValue,
+    },
+    select: { id: true },
+  });
+  return { id: revision.id, changes };
+}
+
+/** The scheduled destination if its time has come, else null. */
+export function dueScheduledUrl(
+  link: Pick<ShortLink, "scheduledUrl" | "scheduledUrlAt">,
+  now: Date = new Date(),
+): string | null {
+  if (!link.scheduledUrl || !link.scheduledUrlAt) return null;
+  return link.scheduledUrlAt <= now ? link.scheduledUrl : null;
+}
+
+/**
+ * Promote a due scheduled URL to originalUrl and record it as a SCHEDULED
+ * revision. Guarded on the schedule columns so concurrent redirects (or a
+ * reschedule saved in between) apply it at most once. Returns whether
+ * this call applied the swap.
+ */
+export async function applyDueSchedule(
+  link: TrackedLink & Pick<ShortLink, "id" | "workspaceId" | "createdById" | "userId">,
+): Promise<boolean> {
+  const url = dueScheduledUrl(link);
+  if (!url) return false;
+
+  const { count } = await prisma.shortLink.updateMany({
+    where: { id: link.id, scheduledUrl: url, scheduledUrlAt: link.scheduledUrlAt },
+    data: { originalUrl: url, scheduledUrl: null, scheduledUrlAt: null },
+  });
+  if (count === 0) return false;
+
+  await recordRevision({
+    shortLinkId: link.id,
+    before: link,
+    after: { ...link, originalUrl: url, scheduledUrl: null, scheduledUrlAt: null },
+    userId: null,
+    source: "SCHEDULED",
+  });
+
+  const ownerId = link.createdById ?? link.userId;
+  if (ownerId) await bumpLinksCache(link.workspaceId, ownerId);
+  return true;
+}
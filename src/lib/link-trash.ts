@@ -0,0 +1,153 @@
+/**
+ * Link Trash. Deleting a link only stamps deletedAt / deletedById: it
+ * stops redirecting and drops out of every list and report, but keeps its
+ * code, clicks and conversions so it can be restored from /links/trash.
+ *
+ * After the workspace's trashRetentionDays the link is purged — the row
+ * is hard-deleted and its clicks, conversions, revisions and share tokens
+ * go with it (FK cascades). Purging runs lazily whenever the Trash is
+ * listed and from GET /api/cron/purge-trash for deploys with a scheduler.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { isReservedCode } from "@/lib/utils/shortcode";
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_MIN_DAYS = 1;
+export const TRASH_RETENTION_MAX_DAYS = 365;
+
+// One purge pass handles at most this many links; the rest wait for the
+// next Trash view / cron run.
+const PURGE_BATCH = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** When a link deleted at `deletedAt` becomes due for purging. */
+export function purgeDueAt(deletedAt: Date, retentionDays: number): Date {
+  return new Date(deletedAt.getTime() + retentionDays * DAY_MS);
+}
+
+export type RestoreConflict = "reserved" | "taken";
+
+/**
+ * Why `code` can't be used to restore the link, or null if it can. The
+ * trashed link keeps its code, so "taken" only happens when restoring
+ * under a new code or when a default-host duplicate slipped in (NULL
+ * domainIds aren't covered by the unique index). Reserved codes are
+ * re-checked because the reserved list can grow after a link was made.
+ */
+export async function findRestoreConflict(
+  link: { id: string; code: string; domainId: string | null },
+  code: string = link.code,
+): Promise<RestoreConflict | null> {
+  if (isReservedCode(code)) return "reserved";
+  const other = await prisma.shortLink.findFirst({
+    where: { code, domainId: link.domainId, id: { not: link.id } },
+    select: { id: true },
+  });
+  return other ? "taken" : null;
+}
+
+export interface PurgeableLink {
+  id: string;
+  code: string;
+  workspaceId: string | null;
+  createdById: string | null;
+  userId: string | null;
+  deletedById: string | null;
+  deletedAt: Date | null;
+}
+
+export const PURGEABLE_LINK_SELECT = {
+  id: true,
+  code: true,
+  workspaceId: true,
+  createdById: true,
+  userId: true,
+  deletedById: true,
+  deletedAt: true,
+} as const;
+
+/**
+ * Hard-delete trashed links and write one PURGE_LINK audit entry each,
+ * with the click count that went with it. `actorId` is the user who
+ * emptied the Trash; automatic purges are attributed to whoever trashed
+ * the link (falling back to its owner) and flagged `automatic`. Links
+ * with nobody to attribute to are purged but not logged.
+ */
+export async function purgeLinks(
+  links: PurgeableLink[],
+  actorId: string | null,
+): Promise<number> {
+  if (links.length === 0) return 0;
+  const ids = links.map((l) => l.id);
+
+  const clickCounts = await prisma.click.groupBy({
+    by: ["shortLinkId"],
+    where: { shortLinkId: { in: ids } },
+    _count: { _all: true },
+  });
+  const clicksById = new Map(clickCounts.map((c) => [c.shortLinkId, c._count._all]));
+
+  const logs = links.flatMap((link) => {
+    const userId = actorId ?? link.deletedById ?? link.createdById ?? link.userId;
+    if (!userId) return [];
+    return [
+      {
+        userId,
+        action: "PURGE_LINK" as const,
+        targetId: link.id,
+        metadata: {
+          code: link.code,
+          workspaceId: link.workspaceId,
+          deletedAt: link.deletedAt?.toISOString() ?? null,
+          clicks: clicksById.get(link.id) ?? 0,
+          automatic: actorId === null,
+        },
+      },
+    ];
+  });
+
+  // Only rows still in Trash — a concurrent restore wins.
+  const [result] = await prisma.$transaction([
+    prisma.shortLink.deleteMany({ where: { id: { in: ids }, deletedAt: { not: null } } }),
+    prisma.auditLog.createMany({ data: logs }),
+  ]);
+  return result.count;
+}
+
+/**
+ * Purge every trashed link past its workspace's retention, optionally
+ * limited by an extra ShortLink filter (a workspace scope). Legacy links
+ * without a workspace use DEFAULT_TRASH_RETENTION_DAYS.
+ *
+ * Due-ness is part of the query — one cutoff per retention setting in
+ * use — so links still inside a long retention never fill the batch and
+ * hold back ones that are due.
+ */
+export async function purgeExpiredTrash(
+  scopeWhere: Record<string, unknown> = {},
+): Promise<number> {
+  const now = Date.now();
+  const cutoff = (days: number) => ({ not: null, lte: new Date(now - days * DAY_MS) });
+  const retentions = await prisma.workspace.groupBy({ by: ["trashRetentionDays"] });
+
+  const due = await prisma.shortLink.findMany({
+    where: {
+      ...scopeWhere,
+      AND: {
+        OR: [
+          { workspaceId: null, deletedAt: cutoff(DEFAULT_TRASH_RETENTION_DAYS) },
+          ...retentions.map(({ trashRetentionDays: days }) => ({
+            workspace: { trashRetentionDays: days },
+            deletedAt: cutoff(days),
+          })),
+        ],
+      },
+    },
+    select: PURGEABLE_LINK_SELECT,
+    orderBy: { deletedAt: "asc" },
+    take: PURGE_BATCH,
+  });
+  return purgeLinks(due, null);
+}
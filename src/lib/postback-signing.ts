@@ -0,0 +1,26 @@
+/**
+ * Server-side half of src/lib/postbacks.ts: minting postback secrets and
+ * checking request signatures.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { POSTBACK_SECRET_PREFIX } from "@/lib/postbacks";
+
+export function generatePostbackSecret(): string {
+  return POSTBACK_SECRET_PREFIX + randomBytes(32).toString("base64url");
+}
+
+export function signPostback(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+export function verifyPostbackSignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string,
+): boolean {
+  const expected = Buffer.from(signPostback(secret, timestamp, body));
+  const actual = Buffer.from(signature.replace(/^sha256=/, "").toLowerCase());
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,59 @@
+/**
+ * Signed server-to-server conversion postbacks (POST /api/track/postback).
+ *
+ * A backend sends a batch of conversion events with three headers:
+ *
+ *   X-Shortlink-Key        id of one of the workspace's PostbackSecrets
+ *   X-Shortlink-Timestamp  unix seconds when the request was signed
+ *   X-Shortlink-Signature  hex HMAC-SHA256 of `${timestamp}.${rawBody}`
+ *                          under the secret (a "sha256=" prefix is fine)
+ *
+ * Requests more than POSTBACK_TOLERANCE_SECONDS away from our clock are
+ * refused, and so is a second request with the same signature inside
+ * that window (the delivery log keeps signatures unique per key), so a
+ * captured request can't be replayed.
+ *
+ * Constants and helpers here are shared with the settings screen; the
+ * crypto (secret generation, signing) is server-only, in
+ * src/lib/postback-signing.ts.
+ */
+
+export const POSTBACK_KEY_HEADER = "x-shortlink-key";
+export const POSTBACK_TIMESTAMP_HEADER = "x-shortlink-timestamp";
+export const POSTBACK_SIGNATURE_HEADER = "x-shortlink-signature";
+
+/** Events per postback call. */
+export const POSTBACK_MAX_EVENTS = 100;
+
+/** How far a request's timestamp may be from ours, either way. */
+export const POSTBACK_TOLERANCE_SECONDS = 5 * 60;
+
+/** How long a secret keeps working after it's rotated out. */
+export const POSTBACK_GRACE_HOURS = 24;
+
+/** Active secrets per workspace (the current one plus ones in grace). */
+export const MAX_POSTBACK_SECRETS = 5;
+
+/** Deliveries older than this are pruned from the log. */
+export const POSTBACK_LOG_DAYS = 30;
+
+export const POSTBACK_SECRET_PREFIX = "pbs_";
+
+/** `pbs_…x9Qa` — enough to tell secrets apart without revealing them. */
+export function maskPostbackSecret(secret: string): string {
+  return `${POSTBACK_SECRET_PREFIX}…${secret.slice(-4)}`;
+}
+
+/** True when `timestamp` (unix seconds) is within the tolerance of `now`. */
+export function isFreshPostbackTimestamp(timestamp: string, now = Date.now()): boolean {
+  if (!/^\d{1,12}$/.test(timestamp)) return false;
+  return Math.abs(now / 1000 - Number(timestamp)) <= POSTBACK_TOLERANCE_SECONDS;
+}
+
+/** A secret is usable until its expiresAt (null = no expiry). */
+export function isPostbackSecretActive(
+  secret: { expiresAt: Date | null },
+  now = new Date(),
+): boolean {
+  return secret.expiresAt === null || secret.expiresAt > now;
+}
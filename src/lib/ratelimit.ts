@@ -1,5 +1,5 @@
 /**
- * Rate limiting for the redirect endpoint.
+ * Rate limiting for the redirect and postback endpoints.
  *
  * Uses Upstash's sliding-window algorithm keyed on client IP. When Upstash
  * env vars are missing we fall through to "always allowed" so local dev
@@ -9,42 +9,62 @@
 import { Ratelimit } from "@upstash/ratelimit";
 import { Redis } from "@upstash/redis";
 
-let limiter: Ratelimit | null = null;
+let redis: Redis | null = null;
 let initialised = false;
+const limiters = new Map<string, Ratelimit>();
 
-function getLimiter(): Ratelimit | null {
-  if (initialised) return limiter;
-  initialised = true;
-
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-  if (!url || !token) return null;
+function getLimiter(prefix: string, limit: number): Ratelimit | null {
+  if (!initialised) {
+    initialised = true;
+    const url = process.env.UPSTASH_REDIS_REST_URL;
+    const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+    if (url && token) redis = new Redis({ url, token });
+  }
+  if (!redis) return null;
 
-  limiter = new Ratelimit({
-    redis: new Redis({ url, token }),
-    // 60 redirects / minute per IP — high enough for legitimate bursts
-    // (a single article with many anchor-link clicks) but stops scripted
-    // abuse hammering a single short code.
-    limiter: Ratelimit.slidingWindow(60, "1 m"),
-    prefix: "rl:redirect",
-    analytics: false,
-  });
+  let limiter = limiters.get(prefix);
+  if (!limiter) {
+    limiter = new Ratelimit({
+      redis,
+      limiter: Ratelimit.slidingWindow(limit, "1 m"),
+      prefix,
+      analytics: false,
+    });
+    limiters.set(prefix, limiter);
+  }
   return limiter;
 }
 
-/**
- * Check whether a redirect from `ip` is allowed.
- * Returns true when Upstash is not configured (fail-open for local dev).
- */
-export async function allowRedirect(ip: string): Promise<boolean> {
-  const rl = getLimiter();
+async function allow(prefix: string, limit: number, ip: string): Promise<boolean> {
+  const rl = getLimiter(prefix, limit);
   if (!rl) return true;
   try {
     const { success } = await rl.limit(ip);
     return success;
   } catch (err) {
-    // Don't block redirects because of a Redis hiccup.
+    // Don't block requests because of a Redis hiccup.
     console.warn("[ratelimit] check failed, allowing through:", err);
     return true;
   }
 }
+
+/**
+ * Check whether a redirect from `ip` is allowed.
+ * Returns true when Upstash is not configured (fail-open for local dev).
+ */
+export async function allowRedirect(ip: string): Promise<boolean> {
+  // 60 redirects / minute per IP — high enough for legitimate bursts
+  // (a single article with many anchor-link clicks) but stops scripted
+  // abuse hammering a single short code.
+  return allow("rl:redirect", 60, ip);
+}
+
+/**
+ * Check whether a postback from `ip` is allowed. Checked before anything
+ * is written, so rejected calls can't flood the delivery log.
+ */
+export async function allowPostback(ip: string): Promise<boolean> {
+  // 120 signed calls / minute per IP — each carries up to 100 events, so
+  // a real backend batching its conversions stays far below it.
+  return allow("rl:postback", 120, ip);
+}
@@ -0,0 +1,204 @@
+/**
+ * Referrer channels — maps a click's referrer (and in-app webview) to a
+ * normalised source ("facebook", "google") and a channel, so
+ * l.facebook.com, m.facebook.com and a Facebook in-app tap with no
+ * referrer all land on facebook / social instead of three rows and a
+ * "direct".
+ *
+ * Resolution order: the workspace's own rules (Workspace.referrerRules,
+ * edited in Settings > Channels), then DEFAULT_REFERRER_RULES — first
+ * match wins within each list. A click without a referrer falls back to
+ * its in-app webview; an unmatched host is a "referral" from the host
+ * itself.
+ *
+ * The redirect stores the result on the click (Click.referrerSource /
+ * Click.channel); shared with the settings UI, hence no server imports.
+ */
+
+export const REFERRER_CHANNELS = [
+  "social",
+  "search",
+  "email",
+  "messaging",
+  "referral",
+  "direct",
+] as const;
+
+export type ReferrerChannel = (typeof REFERRER_CHANNELS)[number];
+
+export function isReferrerChannel(value: unknown): value is ReferrerChannel {
+  return (REFERRER_CHANNELS as readonly unknown[]).includes(value);
+}
+
+/**
+ * `host` is a domain matching itself and its subdomains ("facebook.com"
+ * covers l.facebook.com); a trailing ".*" matches any TLD ("google.*"
+ * covers google.com.tw).
+ */
+export interface ReferrerRule {
+  host: string;
+  source: string;
+  channel: ReferrerChannel;
+}
+
+export interface ReferrerClass {
+  source: string;
+  channel: ReferrerChannel;
+}
+
+export const MAX_REFERRER_RULES = 200;
+
+/** Lowercase domain with an optional trailing ".*" — the stored rule form. */
+export const RULE_HOST_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)*(\.\*)?$/;
+
+const rule = (host: string, source: string, channel: ReferrerChannel): ReferrerRule => ({
+  host,
+  source,
+  channel,
+});
+
+// More specific hosts first — mail.google.com before google.*.
+export const DEFAULT_REFERRER_RULES: ReferrerRule[] = [
+  rule("mail.google.com", "gmail", "email"),
+  // Android apps send android-app://<package>/.
+  rule("com.google.android.gm", "gmail", "email"),
+  rule("outlook.live.com", "outlook", "email"),
+  rule("outlook.office.com", "outlook", "email"),
+  rule("outlook.office365.com", "outlook", "email"),
+  rule("mail.yahoo.com", "yahoo-mail", "email"),
+  rule("mail.qq.com", "qq-mail", "email"),
+  rule("facebook.com", "facebook", "social"),
+  rule("fb.com", "facebook", "social"),
+  rule("fb.me", "facebook", "social"),
+  rule("instagram.com", "instagram", "social"),
+  rule("threads.net", "threads", "social"),
+  rule("threads.com", "threads", "social"),
+  rule("t.co", "x", "social"),
+  rule("x.com", "x", "social"),
+  rule("twitter.com", "x", "social"),
+  rule("linkedin.com", "linkedin", "social"),
+  rule("lnkd.in", "linkedin", "social"),
+  rule("youtube.com", "youtube", "social"),
+  rule("youtu.be", "youtube", "social"),
+  rule("tiktok.com", "tiktok", "social"),
+  rule("pinterest.*", "pinterest", "social"),
+  rule("pin.it", "pinterest", "social"),
+  rule("reddit.com", "reddit", "social"),
+  rule("snapchat.com", "snapchat", "social"),
+  rule("dcard.tw", "dcard", "social"),
+  rule("ptt.cc", "ptt", "social"),
+  rule("line.me", "line", "messaging"),
+  rule("wa.me", "whatsapp", "messaging"),
+  rule("whatsapp.com", "whatsapp", "messaging"),
+  rule("t.me", "telegram", "messaging"),
+  rule("telegram.org", "telegram", "messaging"),
+  rule("m.me", "messenger", "messaging"),
+  rule("messenger.com", "messenger", "messaging"),
+  rule("discord.com", "discord", "messaging"),
+  rule("slack.com", "slack", "messaging"),
+  rule("kakao.com", "kakaotalk", "messaging"),
+  rule("weixin.qq.com", "wechat", "messaging"),
+  rule("google.*", "google", "search"),
+  rule("bing.com", "bing", "search"),
+  rule("duckduckgo.com", "duckduckgo", "search"),
+  rule("yahoo.*", "yahoo", "search"),
+  rule("baidu.com", "baidu", "search"),
+  rule("naver.com", "naver", "search"),
+  rule("yandex.*", "yandex", "search"),
+  rule("ecosia.org", "ecosia", "search"),
+];
+
+// In-app webviews (src/lib/user-agent.ts names) that often send no
+// referrer at all.
+const IN_APP_SOURCES: Record<string, ReferrerClass> = {
+  LINE: { source: "line", channel: "messaging" },
+  WeChat: { source: "wechat", channel: "messaging" },
+  Messenger: { source: "messenger", channel: "messaging" },
+  KakaoTalk: { source: "kakaotalk", channel: "messaging" },
+  Telegram: { source: "telegram", channel: "messaging" },
+  Threads: { source: "threads", channel: "social" },
+  Instagram: { source: "instagram", channel: "social" },
+  Facebook: { source: "facebook", channel: "social" },
+  TikTok: { source: "tiktok", channel: "social" },
+  X: { source: "x", channel: "social" },
+  LinkedIn: { source: "linkedin", channel: "social" },
+  Snapchat: { source: "snapchat", channel: "social" },
+  Pinterest: { source: "pinterest", channel: "social" },
+};
+
+const DIRECT: ReferrerClass = { source: "direct", channel: "direct" };
+
+// Host part of a referrer URL, lowercased. Kept in step with the SQL
+// version in src/lib/analytics/rollups.ts / the backfill script.
+const REFERRER_HOST = /^[a-z][a-z0-9+.-]*:\/\/([^/?#:]+)/i;
+
+export function referrerHost(referrer: string | null): string {
+  return referrer?.match(REFERRER_HOST)?.[1].toLowerCase() ?? "";
+}
+
+// Mobile / link-shim prefixes dropped from an unmatched host's source.
+const HOST_PREFIX = /^(?:www|m|l|lm|mobile)\./;
+
+/** Rule host in its stored form: lowercase, no scheme / path / port. */
+export function normalizeRuleHost(host: string): string {
+  return host
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, "")
+    .replace(/[/?#:].*$/, "")
+    .replace(/^\*\./, "");
+}
+
+function hostMatches(host: string, pattern: string): boolean {
+  if (!pattern.endsWith(".*")) return host === pattern || host.endsWith(`.${pattern}`);
+  // "google.*" — the name at a label boundary followed by a one- or
+  // two-label suffix (com, com.tw, co.jp).
+  const name = pattern.slice(0, -2);
+  const labels = host.split(".");
+  for (let i = 0; i < labels.length; i++) {
+    const rest = labels.slice(i).join(".");
+    if (!rest.startsWith(`${name}.`)) continue;
+    const suffix = rest.slice(name.length + 1).split(".");
+    if (suffix.length <= 2) return true;
+  }
+  return false;
+}
+
+/** Best-effort parse of a referrerRules JSON column; junk entries are dropped. */
+export function parseReferrerRules(raw: unknown): ReferrerRule[] {
+  if (!Array.isArray(raw)) return [];
+  const out: ReferrerRule[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const { host, source, channel } = item as Record<string, unknown>;
+    if (typeof host !== "string" || typeof source !== "string" || !isReferrerChannel(channel)) {
+      continue;
+    }
+    const normalized = normalizeRuleHost(host);
+    if (!RULE_HOST_PATTERN.test(normalized) || !source.trim()) continue;
+    out.push({ host: normalized, source: source.trim().toLowerCase(), channel });
+  }
+  return out;
+}
+
+/** Source / channel for a referrer host ("" = none) and in-app webview. */
+export function classifyHost(
+  host: string,
+  inApp: string | null,
+  rules: ReferrerRule[] = [],
+): ReferrerClass {
+  if (!host) return (inApp && IN_APP_SOURCES[inApp]) || DIRECT;
+  for (const list of [rules, DEFAULT_REFERRER_RULES]) {
+    const match = list.find((r) => hostMatches(host, r.host));
+    if (match) return { source: match.source, channel: match.channel };
+  }
+  return { source: host.replace(HOST_PREFIX, ""), channel: "referral" };
+}
+
+export function classifyReferrer(
+  referrer: string | null,
+  inApp: string | null,
+  rules: ReferrerRule[] = [],
+): ReferrerClass {
+  return classifyHost(referrerHost(referrer), inApp, rules);
+}
@@ -0,0 +1,69 @@
+/**
+ * Device / OS routing rules — per-link "send iOS to the App Store,
+ * Android to Play, everyone else to the product page". Evaluated by the
+ * redirect route before the A/B variant pick; a matching rule wins and
+ * the click is stamped with Click.ruleId.
+ */
+
+export const RULE_DEVICES = ["mobile", "tablet", "desktop"] as const;
+export const RULE_OSES = ["iOS", "Android", "Windows", "macOS", "Linux"] as const;
+
+export type RuleDevice = (typeof RULE_DEVICES)[number];
+export type RuleOs = (typeof RULE_OSES)[number];
+
+export interface DeviceRule {
+  /** Stable ID — kept in sync with Click.ruleId for the analytics breakdown. */
+  id: string;
+  /** Omitted = any device. */
+  device?: RuleDevice;
+  /** Omitted = any OS. */
+  os?: RuleOs;
+  url: string;
+  /** Optional human label (e.g. "App Store"). */
+  label?: string;
+}
+
+/**
+ * Best-effort parse of the `ShortLink.deviceRules` JSON column. Rules
+ * without a URL or without any condition are dropped — a condition-less
+ * rule would shadow every rule after it and the A/B variants too.
+ */
+export function parseDeviceRules(raw: unknown): DeviceRule[] {
+  if (!Array.isArray(raw)) return [];
+  const out: DeviceRule[] = [];
+  for (const r of raw) {
+    if (!r || typeof r !== "object") continue;
+    const obj = r as Record<string, unknown>;
+    const url = typeof obj.url === "string" ? obj.url : "";
+    const device = RULE_DEVICES.find((d) => d === obj.device);
+    const os = RULE_OSES.find((o) => o === obj.os);
+    if (!url || (!device && !os)) continue;
+    const id = typeof obj.id === "string" && obj.id ? obj.id : `r_${out.length}`;
+    const label = typeof obj.label === "string" ? obj.label : undefined;
+    out.push({ id, device, os, url, label });
+  }
+  return out;
+}
+
+/**
+ * First rule whose conditions all hold for this visitor, in list order.
+ * Returns null when nothing matches so callers fall through to variants /
+ * originalUrl.
+ */
+export function matchDeviceRule(
+  rules: DeviceRule[],
+  client: { device: string; os: string },
+): DeviceRule | null {
+  for (const rule of rules) {
+    if (rule.device && rule.device !== client.device) continue;
+    if (rule.os && rule.os !== client.os) continue;
+    return rule;
+  }
+  return null;
+}
+
+/** Display name for reports — the label if set, else "iOS · mobile". */
+export function describeDeviceRule(rule: DeviceRule): string {
+  if (rule.label) return rule.label;
+  return [rule.os, rule.device].filter(Boolean).join(" · ");
+}
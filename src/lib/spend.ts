@@ -0,0 +1,55 @@
+/**
+ * Campaign budgets and spend. A campaign can carry a budget
+ * (Campaign.budget / budgetCurrency) and any number of dated spend
+ * entries (CampaignSpend), each in its own currency and optionally tied
+ * to a channel — the utm_source / utm_medium the money went to.
+ *
+ * Reports convert both to the workspace's reporting currency like
+ * revenue (src/lib/currency.ts) and derive the cost metrics below from
+ * the same window's clicks, conversions and revenue. A spend entry with
+ * only a source covers every medium of that source; one with neither
+ * covers the whole campaign.
+ */
+
+export interface CostMetrics {
+  /** Spend per click */
+  cpc: number | null;
+  /** Spend per (attributed) conversion */
+  costPerConversion: number | null;
+  /** Revenue per unit of spend */
+  roas: number | null;
+}
+
+/** Null wherever the divisor is zero — "no data", not "free". */
+export function costMetrics({
+  spend,
+  clicks,
+  conversions,
+  revenue,
+}: {
+  spend: number;
+  clicks: number;
+  conversions: number;
+  revenue: number;
+}): CostMetrics {
+  return {
+    cpc: spend > 0 && clicks > 0 ? spend / clicks : null,
+    costPerConversion: spend > 0 && conversions > 0 ? spend / conversions : null,
+    roas: spend > 0 ? revenue / spend : null,
+  };
+}
+
+export function formatRoas(roas: number): string {
+  return `${roas.toFixed(roas >= 10 ? 0 : 1)}×`;
+}
+
+/** Whether a link tagged source / medium falls in a spend channel. */
+export function inSpendChannel(
+  channel: { source: string | null; medium: string | null },
+  link: { utmSource: string | null; utmMedium: string | null },
+): boolean {
+  return (
+    (channel.source === null || channel.source === link.utmSource) &&
+    (channel.medium === null || channel.medium === link.utmMedium)
+  );
+}
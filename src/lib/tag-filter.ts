@@ -0,0 +1,62 @@
+/**
+ * Multi-tag filtering shared by the list APIs, /api/analytics and the
+ * client-side computeAnalytics(). "any" keeps items carrying at least one
+ * of the tags (OR), "all" only items carrying every one of them (AND).
+ *
+ * Query string: `?tagIds=a,b&tagMatch=all`. The single `?tagId=` older
+ * callers send still works (it's a one-tag filter).
+ */
+
+export const TAG_MATCH_MODES = ["any", "all"] as const;
+export type TagMatch = (typeof TAG_MATCH_MODES)[number];
+
+export interface TagFilter {
+  tagIds: string[];
+  match: TagMatch;
+}
+
+/** Read a tag filter from query params; null when none is set. */
+export function parseTagFilter(searchParams: URLSearchParams): TagFilter | null {
+  const ids = new Set<string>();
+  for (const value of [searchParams.get("tagIds"), searchParams.get("tagId")]) {
+    for (const id of (value ?? "").split(",")) {
+      if (id.trim()) ids.add(id.trim());
+    }
+  }
+  if (ids.size === 0) return null;
+  const match = searchParams.get("tagMatch") === "all" ? "all" : "any";
+  return { tagIds: Array.from(ids), match };
+}
+
+/** Query-string form of a filter, for building request URLs. */
+export function tagFilterParams(filter: TagFilter | null): Record<string, string> {
+  if (!filter || filter.tagIds.length === 0) return {};
+  return { tagIds: filter.tagIds.join(","), tagMatch: filter.match };
+}
+
+/** Stable cache-key segment for a filter. */
+export function tagFilterKey(filter: TagFilter | null): string {
+  if (!filter || filter.tagIds.length === 0) return "_";
+  return `${filter.match}:${[...filter.tagIds].sort().join(",")}`;
+}
+
+/** Whether an item carrying `itemTagIds` passes the filter. */
+export function matchesTagFilter(itemTagIds: string[], filter: TagFilter | null): boolean {
+  if (!filter || filter.tagIds.length === 0) return true;
+  return filter.match === "all"
+    ? filter.tagIds.every((id) => itemTagIds.includes(id))
+    : filter.tagIds.some((id) => itemTagIds.includes(id));
+}
+
+/**
+ * Prisma where fragment for models whose `tags` relation is a join table
+ * with a `tagId` column (ShortLink → TagOnLink, Campaign → TagOnCampaign).
+ * Spread it into the model's where clause.
+ */
+export function tagFilterWhere(filter: TagFilter | null): Record<string, unknown> {
+  if (!filter || filter.tagIds.length === 0) return {};
+  if (filter.match === "all") {
+    return { AND: filter.tagIds.map((tagId) => ({ tags: { some: { tagId } } })) };
+  }
+  return { tags: { some: { tagId: { in: filter.tagIds } } } };
+}
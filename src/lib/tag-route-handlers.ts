@@ -0,0 +1,190 @@
+/**
+ * Route handlers shared by the link-tag (/api/tags/...) and campaign-tag
+ * (/api/campaign-tags/...) management endpoints — same operations, only
+ * the table differs. Each route file binds a TagKind.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { bumpLinksCache } from "@/lib/cache-scopes";
+import {
+  canManageTags,
+  deleteTag,
+  findTag,
+  findTagByName,
+  mergeTags,
+  updateTag,
+  type TagKind,
+} from "@/lib/tags";
+import { z } from "zod";
+
+const updateTagSchema = z.object({
+  name: z.string().trim().min(1).max(50).optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional().nullable(),
+});
+
+const mergeTagsSchema = z.object({
+  targetId: z.string(),
+  sourceIds: z.array(z.string()).min(1).max(50),
+});
+
+type TagRouteContext = { params: Promise<{ id: string }> };
+
+// The cached links list embeds tag names and colors.
+async function bumpIfLinkTags(kind: TagKind, workspaceId: string | null, userId: string) {
+  if (kind === "link") await bumpLinksCache(workspaceId, userId);
+}
+
+// PATCH - Rename / recolor. Renaming onto a name that's already taken in
+// the workspace returns 409 with the other tag's id so the UI can offer
+// a merge instead.
+export function patchTagHandler(kind: TagKind) {
+  return async function PATCH(request: NextRequest, { params }: TagRouteContext) {
+    try {
+      const session = await auth();
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const { id } = await params;
+      const validated = updateTagSchema.parse(await request.json());
+
+      const existing = await findTag(kind, id);
+      if (!existing) {
+        return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+      }
+      if (!(await canManageTags(session.user.id, existing.workspaceId))) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+
+      if (validated.name && validated.name !== existing.name) {
+        const conflict = await findTagByName(kind, existing.workspaceId, validated.name);
+        if (conflict) {
+          return NextResponse.json(
+            { error: "A tag with this name already exists", conflictId: conflict.id },
+            { status: 409 }
+          );
+        }
+      }
+
+      const tag = await updateTag(kind, id, validated);
+
+      await prisma.auditLog.create({
+        data: {
+          userId: session.user.id,
+          action: "UPDATE_TAG",
+          targetId: id,
+          metadata: { kind, previousName: existing.name, changes: validated },
+        },
+      });
+
+      await bumpIfLinkTags(kind, existing.workspaceId, session.user.id);
+
+      return NextResponse.json(tag);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json({ error: error.issues }, { status: 400 });
+      }
+      console.error("Failed to update tag:", error);
+      return NextResponse.json({ error: "Failed to update tag" }, { status: 500 });
+    }
+  };
+}
+
+// DELETE - Delete a tag and untag everything carrying it
+export function deleteTagHandler(kind: TagKind) {
+  return async function DELETE(_request: NextRequest, { params }: TagRouteContext) {
+    try {
+      const session = await auth();
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const { id } = await params;
+
+      const existing = await findTag(kind, id);
+      if (!existing) {
+        return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+      }
+      if (!(await canManageTags(session.user.id, existing.workspaceId))) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+
+      await deleteTag(kind, id);
+
+      await prisma.auditLog.create({
+        data: {
+          userId: session.user.id,
+          action: "DELETE_TAG",
+          targetId: id,
+          metadata: { kind, name: existing.name },
+        },
+      });
+
+      await bumpIfLinkTags(kind, existing.workspaceId, session.user.id);
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      console.error("Failed to delete tag:", error);
+      return NextResponse.json({ error: "Failed to delete tag" }, { status: 500 });
+    }
+  };
+}
+
+// POST - Merge source tags into a target tag of the same workspace
+export function mergeTagsHandler(kind: TagKind) {
+  return async function POST(request: NextRequest) {
+    try {
+      const session = await auth();
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const { targetId, sourceIds: rawSourceIds } = mergeTagsSchema.parse(await request.json());
+      const sourceIds = [...new Set(rawSourceIds)].filter((id) => id !== targetId);
+      if (sourceIds.length === 0) {
+        return NextResponse.json({ error: "Nothing to merge" }, { status: 400 });
+      }
+
+      const target = await findTag(kind, targetId);
+      if (!target) {
+        return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+      }
+      if (!(await canManageTags(session.user.id, target.workspaceId))) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+
+      const sources = await Promise.all(sourceIds.map((id) => findTag(kind, id)));
+      if (sources.some((s) => !s || s.workspaceId !== target.workspaceId)) {
+        return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+      }
+
+      const moved = await mergeTags(kind, targetId, sourceIds);
+
+      await prisma.auditLog.create({
+        data: {
+          userId: session.user.id,
+          action: "MERGE_TAGS",
+          targetId,
+          metadata: {
+            kind,
+            target: target.name,
+            merged: sources.map((s) => s!.name),
+            moved,
+          },
+        },
+      });
+
+      await bumpIfLinkTags(kind, target.workspaceId, session.user.id);
+
+      return NextResponse.json({ success: true, moved });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json({ error: error.issues }, { status: 400 });
+      }
+      console.error("Failed to merge tags:", error);
+      return NextResponse.json({ error: "Failed to merge tags" }, { status: 500 });
+    }
+  };
+}
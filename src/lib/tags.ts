@@ -0,0 +1,137 @@
+/**
+ * Link tags (Tag) and campaign tags (CampaignTag). Both are unique per
+ * workspace — the same name can exist once in every workspace — and share
+ * the management operations behind /api/tags and /api/campaign-tags:
+ * rename / recolor, merge, delete.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { checkWorkspaceAccess } from "@/lib/workspace";
+
+export type TagKind = "link" | "campaign";
+
+export interface ManagedTag {
+  id: string;
+  name: string;
+  color: string | null;
+  workspaceId: string | null;
+}
+
+const TAG_SELECT = { id: true, name: true, color: true, workspaceId: true } as const;
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+export async function findTagByName(
+  kind: TagKind,
+  workspaceId: string | null,
+  name: string,
+): Promise<ManagedTag | null> {
+  const where = { workspaceId, name };
+  return kind === "link"
+    ? prisma.tag.findFirst({ where, select: TAG_SELECT })
+    : prisma.campaignTag.findFirst({ where, select: TAG_SELECT });
+}
+
+/**
+ * The workspace's tag with this name, created if missing. A concurrent
+ * create of the same name loses the unique-index race and re-reads.
+ */
+export async function findOrCreateTag(
+  kind: TagKind,
+  workspaceId: string | null,
+  name: string,
+  color?: string | null,
+): Promise<ManagedTag> {
+  const existing = await findTagByName(kind, workspaceId, name);
+  if (existing) return existing;
+
+  const data = { name, color, workspaceId };
+  try {
+    return kind === "link"
+      ? await prisma.tag.create({ data, select: TAG_SELECT })
+      : await prisma.campaignTag.create({ data, select: TAG_SELECT });
+  } catch (error) {
+    if (!isUniqueViolation(error)) throw error;
+    const raced = await findTagByName(kind, workspaceId, name);
+    if (!raced) throw error;
+    return raced;
+  }
+}
+
+export async function findTag(kind: TagKind, id: string): Promise<ManagedTag | null> {
+  return kind === "link"
+    ? prisma.tag.findUnique({ where: { id }, select: TAG_SELECT })
+    : prisma.campaignTag.findUnique({ where: { id }, select: TAG_SELECT });
+}
+
+/** Whether every id is a link tag of `workspaceId` (no borrowing across workspaces). */
+export async function linkTagsBelongTo(tagIds: string[], workspaceId: string | null): Promise<boolean> {
+  const unique = [...new Set(tagIds)];
+  if (unique.length === 0) return true;
+  const count = await prisma.tag.count({ where: { id: { in: unique }, workspaceId } });
+  return count === unique.length;
+}
+
+/**
+ * Whether `userId` may rename / merge / delete workspace tags — they're
+ * shared by everyone in the workspace, so only OWNER / ADMIN. Tags
+ * outside any workspace have no one to delegate to and stay read-only.
+ */
+export async function canManageTags(userId: string, workspaceId: string | null): Promise<boolean> {
+  if (!workspaceId) return false;
+  const access = await checkWorkspaceAccess(workspaceId, userId);
+  return access?.role === "OWNER" || access?.role === "ADMIN";
+}
+
+export async function updateTag(
+  kind: TagKind,
+  id: string,
+  data: { name?: string; color?: string | null },
+): Promise<ManagedTag> {
+  return kind === "link"
+    ? prisma.tag.update({ where: { id }, data, select: TAG_SELECT })
+    : prisma.campaignTag.update({ where: { id }, data, select: TAG_SELECT });
+}
+
+/**
+ * Fold `sourceIds` into `targetId`: every link / campaign tagged with a
+ * source ends up tagged with the target (once), then the sources are
+ * deleted. Returns how many assignments were moved over.
+ */
+export async function mergeTags(kind: TagKind, targetId: string, sourceIds: string[]): Promise<number> {
+  if (kind === "link") {
+    const assignments = await prisma.tagOnLink.findMany({
+      where: { tagId: { in: sourceIds } },
+      select: { shortLinkId: true },
+    });
+    const [moved] = await prisma.$transaction([
+      prisma.tagOnLink.createMany({
+        data: assignments.map((a) => ({ shortLinkId: a.shortLinkId, tagId: targetId })),
+        skipDuplicates: true,
+      }),
+      prisma.tag.deleteMany({ where: { id: { in: sourceIds } } }),
+    ]);
+    return moved.count;
+  }
+  const assignments = await prisma.tagOnCampaign.findMany({
+    where: { tagId: { in: sourceIds } },
+    select: { campaignId: true },
+  });
+  const [moved] = await prisma.$transaction([
+    prisma.tagOnCampaign.createMany({
+      data: assignments.map((a) => ({ campaignId: a.campaignId, tagId: targetId })),
+      skipDuplicates: true,
+    }),
+    prisma.campaignTag.deleteMany({ where: { id: { in: sourceIds } } }),
+  ]);
+  return moved.count;
+}
+
+/** Delete a tag; its assignments go with it (FK cascade). */
+export async function deleteTag(kind: TagKind, id: string): Promise<void> {
+  if (kind === "link") await prisma.tag.delete({ where: { id } });
+  else await prisma.campaignTag.delete({ where: { id } });
+}
@@ -0,0 +1,124 @@
+/**
+ * Reporting time zone — the IANA zone (e.g. "Asia/Taipei") that days and
+ * hours are bucketed in for every analytics view, export and share link,
+ * so two viewers in different countries see the same daily totals.
+ *
+ * Set per workspace (Workspace.timezone); a user can override it for
+ * themselves (User.timezone). Clicks are stored in UTC either way.
+ */
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const MINUTE_MS = 60 * 1000;
+// DST switches land on whole quarter hours, so one offset holds per slot.
+const SLOT_MS = 15 * MINUTE_MS;
+
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The first valid zone of a user override and the workspace setting. */
+export function resolveTimeZone(
+  userTimeZone?: string | null,
+  workspaceTimeZone?: string | null,
+): string {
+  if (isValidTimeZone(userTimeZone)) return userTimeZone;
+  if (isValidTimeZone(workspaceTimeZone)) return workspaceTimeZone;
+  return DEFAULT_TIME_ZONE;
+}
+
+/** IANA zones the runtime knows, UTC first — for the settings pickers. */
+export function timeZoneOptions(): string[] {
+  const zones =
+    typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+  return [DEFAULT_TIME_ZONE, ...zones.filter((z) => z !== DEFAULT_TIME_ZONE)];
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const offsets = new Map<string, number>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Milliseconds `timeZone` is ahead of UTC at instant `t` (ms). */
+export function timeZoneOffsetMs(t: number, timeZone: string): number {
+  if (timeZone === DEFAULT_TIME_ZONE) return 0;
+  const key = `${timeZone}|${Math.floor(t / SLOT_MS)}`;
+  const cached = offsets.get(key);
+  if (cached !== undefined) return cached;
+
+  const parts: Record<string, number> = {};
+  for (const p of formatterFor(timeZone).formatToParts(new Date(t))) {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  }
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const offset = wall - Math.floor(t / MINUTE_MS) * MINUTE_MS;
+  if (offsets.size > 10_000) offsets.clear();
+  offsets.set(key, offset);
+  return offset;
+}
+
+/** Wall-clock fields of instant `t` (ms) in `timeZone`. */
+export interface ZonedFields {
+  year: number;
+  /** 0-11 */
+  month: number;
+  day: number;
+  hour: number;
+  /** 0 = Sunday, like Date#getDay */
+  weekday: number;
+}
+
+export function zonedFields(t: number, timeZone: string): ZonedFields {
+  const wall = new Date(t + timeZoneOffsetMs(t, timeZone));
+  return {
+    year: wall.getUTCFullYear(),
+    month: wall.getUTCMonth(),
+    day: wall.getUTCDate(),
+    hour: wall.getUTCHours(),
+    weekday: wall.getUTCDay(),
+  };
+}
+
+/** The YYYY-MM-DD day instant `t` (ms) falls on in `timeZone`. */
+export function zonedDayKey(t: number, timeZone: string): string {
+  return new Date(t + timeZoneOffsetMs(t, timeZone)).toISOString().slice(0, 10);
+}
+
+/**
+ * The instant `timeZone`'s clocks read 00:00 on (year, month, day).
+ * Out-of-range months / days roll over like Date.UTC.
+ */
+export function zonedMidnight(year: number, month: number, day: number, timeZone: string): Date {
+  const wall = Date.UTC(year, month, day);
+  // Second pass settles days whose offset differs from the guess's (DST).
+  let t = wall - timeZoneOffsetMs(wall, timeZone);
+  t = wall - timeZoneOffsetMs(t, timeZone);
+  return new Date(t);
+}
+
+/** "YYYY-MM-DD HH:mm:ss" wall-clock time of `date` in `timeZone` — CSV cells. */
+export function formatZoned(date: Date, timeZone: string): string {
+  const t = date.getTime();
+  return new Date(t + timeZoneOffsetMs(t, timeZone)).toISOString().slice(0, 19).replace("T", " ");
+}
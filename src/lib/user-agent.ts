@@ -0,0 +1,173 @@
+/**
+ * User-agent parsing for the redirect route — device class, OS and
+ * browser with versions, and the in-app webview a click came from (LINE,
+ * Instagram, WeChat, …). Device / OS names are the ones device routing
+ * rules match against (see RULE_DEVICES / RULE_OSES).
+ *
+ * Chromium's low-entropy client hints (sec-ch-ua-mobile /
+ * sec-ch-ua-platform) are sent on every request and override the UA
+ * string's frozen platform tokens when present.
+ *
+ * Known limit: iPadOS Safari in its default "desktop website" mode sends
+ * a Mac UA with no iPad token and no client hints, so it is reported as
+ * macOS desktop. In-app browsers on iPad still carry "iPad".
+ */
+
+export interface ParsedUserAgent {
+  device: "mobile" | "tablet" | "desktop" | "unknown";
+  os: string;
+  osVersion: string | null;
+  /** Browser family, or the app name for in-app webviews. */
+  browser: string;
+  browserVersion: string | null;
+  /** In-app webview (e.g. "LINE", "Instagram"); null for real browsers. */
+  inApp: string | null;
+}
+
+/** Client-hint headers used alongside the UA string. */
+export interface UaClientHints {
+  mobile?: string | null;
+  platform?: string | null;
+}
+
+// Checked in order — Messenger before Facebook (its UA carries FBAN
+// too), Threads before Instagram. [name, marker, version]
+const IN_APP_PATTERNS: [name: string, marker: RegExp, version?: RegExp][] = [
+  ["LINE", /\bLine\//, /\bLine\/([\d.]+)/],
+  ["WeChat", /MicroMessenger\//i, /MicroMessenger\/([\d.]+)/i],
+  ["Messenger", /FBAN\/Messenger|FB_IAB\/(?:Orca|MESSENGER)/, /FBAV\/([\d.]+)/],
+  ["Threads", /\bBarcelona\b/, /\bBarcelona ([\d.]+)/],
+  ["Instagram", /\bInstagram\b/, /\bInstagram[ /]([\d.]+)/],
+  ["Facebook", /FBAN\/|FB_IAB\/|\bFBAV\//, /FBAV\/([\d.]+)/],
+  ["TikTok", /musical_ly|BytedanceWebview|\bTikTok\b/i, /(?:musical_ly_|TikTok[ /])([\d.]+)/i],
+  ["X", /Twitter for (?:iPhone|iPad)|TwitterAndroid/],
+  ["LinkedIn", /LinkedInApp/, /LinkedInApp\/([\d.]+)/],
+  ["Snapchat", /Snapchat\//, /Snapchat\/([\d.]+)/],
+  ["Pinterest", /Pinterest\//, /Pinterest\/([\d.]+)/],
+  ["KakaoTalk", /KAKAOTALK/i, /KAKAOTALK[ /]([\d.]+)/i],
+  ["Telegram", /Telegram(?:-Android)?\//, /Telegram(?:-Android)?\/([\d.]+)/],
+];
+
+// Checked in order — forks first (they all contain "Chrome/…"), then
+// Chrome, then Safari (whose token every WebKit UA carries).
+const BROWSER_PATTERNS: [name: string, pattern: RegExp][] = [
+  ["Edge", /\b(?:Edg|EdgA|EdgiOS|Edge)\/([\d.]+)/],
+  ["Opera", /\b(?:OPR|OPiOS|Opera)\/([\d.]+)/],
+  ["Samsung Internet", /SamsungBrowser\/([\d.]+)/],
+  ["UC Browser", /UCBrowser\/([\d.]+)/],
+  ["Yandex", /YaBrowser\/([\d.]+)/],
+  ["Firefox", /\b(?:Firefox|FxiOS)\/([\d.]+)/],
+  ["Chrome", /\b(?:Chrome|CriOS)\/([\d.]+)/],
+  ["Safari", /Version\/([\d.]+).*Safari\//],
+];
+
+const WINDOWS_VERSIONS: Record<string, string> = {
+  "10.0": "10",
+  "6.3": "8.1",
+  "6.2": "8",
+  "6.1": "7",
+};
+
+// Trim "17.4.1.2024" style versions to major.minor — enough for reports,
+// and keeps the breakdowns from fragmenting on patch releases.
+function shortVersion(v: string | undefined): string | null {
+  if (!v) return null;
+  return v.replace(/_/g, ".").split(".").slice(0, 2).join(".");
+}
+
+function parseOs(ua: string): { os: string; osVersion: string | null } {
+  let m: RegExpMatchArray | null;
+  // iOS / iPadOS UAs also contain "like Mac OS X" — must win over macOS.
+  if ((m = ua.match(/(?:iPhone|iPad|iPod).*?OS (\d+[_.\d]*)/))) {
+    return { os: "iOS", osVersion: shortVersion(m[1]) };
+  }
+  if (/iPhone|iPad|iPod/.test(ua)) return { os: "iOS", osVersion: null };
+  // Android UAs also contain "Linux" — must win over Linux.
+  if ((m = ua.match(/Android[ /]?([\d.]+)?/))) {
+    return { os: "Android", osVersion: shortVersion(m[1]) };
+  }
+  if ((m = ua.match(/Windows NT ([\d.]+)/))) {
+    return { os: "Windows", osVersion: WINDOWS_VERSIONS[m[1]] ?? m[1] };
+  }
+  if (/Windows/.test(ua)) return { os: "Windows", osVersion: null };
+  if ((m = ua.match(/CrOS \S+ ([\d.]+)/))) {
+    return { os: "ChromeOS", osVersion: shortVersion(m[1]) };
+  }
+  if ((m = ua.match(/Mac OS X (\d+[_.\d]*)/))) {
+    return { os: "macOS", osVersion: shortVersion(m[1]) };
+  }
+  if (/Macintosh/.test(ua)) return { os: "macOS", osVersion: null };
+  if (/Linux/.test(ua)) return { os: "Linux", osVersion: null };
+  return { os: "unknown", osVersion: null };
+}
+
+function parseDevice(ua: string, os: string): ParsedUserAgent["device"] {
+  if (/iPad|Tablet|Kindle|Silk\//i.test(ua)) return "tablet";
+  if (/iPhone|iPod/.test(ua)) return "mobile";
+  // Android tablets drop the "Mobile" token.
+  if (os === "Android") return /Mobile/.test(ua) ? "mobile" : "tablet";
+  if (/Mobile/i.test(ua)) return "mobile";
+  return "desktop";
+}
+
+export function parseUserAgent(ua: string | null, hints: UaClientHints = {}): ParsedUserAgent {
+  if (!ua) {
+    return {
+      device: "unknown",
+      os: "unknown",
+      osVersion: null,
+      browser: "unknown",
+      browserVersion: null,
+      inApp: null,
+    };
+  }
+
+  let { os, osVersion } = parseOs(ua);
+  // Reduced Chromium UAs freeze the platform token (e.g. every Android
+  // device reports "Android 10; K"); the platform hint is authoritative.
+  const hintedPlatform = hints.platform?.replace(/"/g, "");
+  if (hintedPlatform && hintedPlatform !== "Unknown") {
+    const hintedOs = hintedPlatform === "Chrome OS" ? "ChromeOS" : hintedPlatform;
+    if (hintedOs !== os) {
+      os = hintedOs;
+      osVersion = null;
+    }
+  }
+
+  let device = parseDevice(ua, os);
+  if (hints.mobile === "?1") device = "mobile";
+
+  let inApp: string | null = null;
+  let inAppVersion: string | undefined;
+  for (const [name, marker, version] of IN_APP_PATTERNS) {
+    if (marker.test(ua)) {
+      inApp = name;
+      inAppVersion = version ? ua.match(version)?.[1] : undefined;
+      break;
+    }
+  }
+  // Generic Android System WebView ("; wv)") from an app we don't know.
+  if (!inApp && /; wv\)/.test(ua)) inApp = "WebView";
+
+  if (inApp && inApp !== "WebView") {
+    return { device, os, osVersion, browser: inApp, browserVersion: shortVersion(inAppVersion), inApp };
+  }
+
+  let browser = "unknown";
+  let browserVersion: string | null = null;
+  for (const [name, pattern] of BROWSER_PATTERNS) {
+    const m = ua.match(pattern);
+    if (m) {
+      browser = name;
+      browserVersion = shortVersion(m[1]);
+      break;
+    }
+  }
+  // iOS webviews without Safari's "Version/…" token.
+  if (browser === "unknown" && os === "iOS" && /AppleWebKit/.test(ua)) {
+    browser = "WebView";
+    inApp = "WebView";
+  }
+
+  return { device, os, osVersion, browser, browserVersion, inApp };
+}
@@ -0,0 +1,33 @@
+/**
+ * Client-safe short URL builder. Links on a custom Domain are served from
+ * that host at the root (`https://go.example.com/abc123`); links without
+ * one use the default NEXT_PUBLIC_SHORT_URL base.
+ */
+export function shortUrlBase(hostname?: string | null): string {
+  if (hostname) return `https://${hostname}`;
+  return process.env.NEXT_PUBLIC_SHORT_URL || "http://localhost:3000/s";
+}
+
+export function buildShortUrl(code: string, hostname?: string | null): string {
+  return `${shortUrlBase(hostname)}/${code}`;
+}
+
+/**
+ * `domainId` value that picks the default short host explicitly, in link
+ * payloads, form fields and query params. Leaving domainId out means "the
+ * workspace's default domain", which may be a custom one.
+ */
+export const DEFAULT_SHORT_HOST_ID = "__default__";
+
+// Platform preview URLs and local dev. They differ from
+// NEXT_PUBLIC_APP_URL but are never custom short domains — without this,
+// every Vercel/Zeabur preview deploy would be treated as a redirector.
+const PLATFORM_HOST_SUFFIXES = [".vercel.app", ".zeabur.app"];
+const LOCAL_HOSTS = /^(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+
+/** True for a local dev host or a platform preview host (port allowed). */
+export function isPlatformOrLocalHost(host: string): boolean {
+  if (LOCAL_HOSTS.test(host)) return true;
+  const bare = host.split(":")[0];
+  return PLATFORM_HOST_SUFFIXES.some((suffix) => bare.endsWith(suffix));
+}
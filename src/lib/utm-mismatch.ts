@@ -0,0 +1,144 @@
+/**
+ * UTM mismatch — does a link's traffic come from where its UTM tags say?
+ *
+ * A link tagged utm_source=facebook whose clicks mostly classify as
+ * line / messaging (src/lib/referrer-channels.ts) is probably being
+ * reused in the wrong channel, which skews every report keyed on its
+ * tags.
+ *
+ * The tags give an expected source (when utm_source names one the
+ * classifier knows) or else an expected channel (from utm_source or
+ * utm_medium). Only clicks that carry a signal count: "direct" clicks
+ * (no referrer, no in-app browser — email clients, pasted URLs) and
+ * clicks recorded before classification say nothing either way.
+ *
+ * Shared by /api/analytics/utm-mismatch and the UI, hence no server
+ * imports.
+ */
+
+import {
+  DEFAULT_REFERRER_RULES,
+  type ReferrerChannel,
+  type ReferrerRule,
+} from "@/lib/referrer-channels";
+
+/** Classified clicks a link needs before it can be flagged. */
+export const MISMATCH_MIN_CLICKS = 20;
+/** Flag when less than this share of classified clicks matches the tags. */
+export const MISMATCH_MATCH_SHARE = 0.5;
+
+export interface ExpectedTraffic {
+  /** Normalised referrer source, e.g. "facebook"; null = channel only */
+  source: string | null;
+  channel: ReferrerChannel;
+}
+
+export interface ObservedTraffic {
+  /** clicks per referrer source ("" = not classified) */
+  sources: Record<string, number>;
+  /** clicks per channel ("" = not classified) */
+  channels: Record<string, number>;
+}
+
+export interface UtmMismatchResult {
+  expected: ExpectedTraffic;
+  /** Clicks with a source / channel signal (not direct, not unclassified) */
+  classifiedClicks: number;
+  /** Share of classifiedClicks matching `expected`, 0–1 */
+  matchShare: number;
+  /** Biggest observed source / channel among the classified clicks */
+  topSource: { name: string; clicks: number } | null;
+  topChannel: { name: string; clicks: number } | null;
+  mismatch: boolean;
+}
+
+// Common utm_source spellings of a classifier source.
+const SOURCE_ALIASES: Record<string, string> = {
+  fb: "facebook",
+  meta: "facebook",
+  ig: "instagram",
+  twitter: "x",
+  tw: "x",
+  yt: "youtube",
+  li: "linkedin",
+  wa: "whatsapp",
+  tg: "telegram",
+  kakao: "kakaotalk",
+  "line-oa": "line",
+  "line@": "line",
+};
+
+// utm_medium (or a generic utm_source) keywords → channel; first match
+// wins, so "paid-social" is social before "paid" could mean anything.
+const MEDIUM_CHANNELS: [RegExp, ReferrerChannel][] = [
+  [/e-?mail|newsletter|edm/, "email"],
+  [/social|sns/, "social"],
+  [/cpc|ppc|sem|seo|search|organic/, "search"],
+  [/sms|chat|messag|^im$/, "messaging"],
+  [/referral|affiliate|partner/, "referral"],
+];
+
+function norm(value: string | null | undefined): string {
+  return (value ?? "").trim().toLowerCase();
+}
+
+/**
+ * What a link's UTM tags promise, or null when they don't name a known
+ * source or a recognisable channel (e.g. utm_source=spring-flyer, no
+ * medium) — such links are never flagged.
+ */
+export function expectedTraffic(
+  utmSource: string | null | undefined,
+  utmMedium: string | null | undefined,
+  rules: ReferrerRule[] = [],
+): ExpectedTraffic | null {
+  const source = norm(utmSource);
+  const medium = norm(utmMedium);
+
+  if (source) {
+    const name = SOURCE_ALIASES[source] ?? source;
+    const rule = [...rules, ...DEFAULT_REFERRER_RULES].find((r) => r.source === name);
+    // A workspace rule mapping to "direct" gives nothing to compare.
+    if (rule && rule.channel !== "direct") return { source: rule.source, channel: rule.channel };
+  }
+  for (const value of [medium, source]) {
+    if (!value) continue;
+    const match = MEDIUM_CHANNELS.find(([pattern]) => pattern.test(value));
+    if (match) return { source: null, channel: match[1] };
+  }
+  return null;
+}
+
+function top(counts: Record<string, number>): { name: string; clicks: number } | null {
+  let best: { name: string; clicks: number } | null = null;
+  for (const [name, clicks] of Object.entries(counts)) {
+    if (!name || name === "direct" || clicks <= 0) continue;
+    if (!best || clicks > best.clicks) best = { name, clicks };
+  }
+  return best;
+}
+
+export function detectUtmMismatch(
+  expected: ExpectedTraffic,
+  observed: ObservedTraffic,
+): UtmMismatchResult {
+  // Compare on the source when the tags name one, else on the channel.
+  const counts = expected.source ? observed.sources : observed.channels;
+  const target = expected.source ?? expected.channel;
+
+  let classifiedClicks = 0;
+  for (const [name, clicks] of Object.entries(counts)) {
+    if (name && name !== "direct") classifiedClicks += clicks;
+  }
+  const matched = counts[target] ?? 0;
+  const matchShare = classifiedClicks > 0 ? matched / classifiedClicks : 0;
+
+  return {
+    expected,
+    classifiedClicks,
+    matchShare,
+    topSource: top(observed.sources),
+    topChannel: top(observed.channels),
+    mismatch: classifiedClicks >= MISMATCH_MIN_CLICKS && matchShare < MISMATCH_MATCH_SHARE,
+  };
+}
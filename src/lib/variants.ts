@@ -7,7 +7,9 @@ export interface LinkVariant {
   /** Stable ID — kept in sync with Click.variantId for breakdown reports. */
   id: string;
   url: string;
-  /** Positive integer; we normalise against the sum, not a fixed total. */
+  /** Non-negative integer; we normalise against the sum, not a fixed
+   *  total. 0 = paused (e.g. lost an auto-promoted experiment) — kept so
+   *  its clicks still have a label in reports. */
   weight: number;
   /** Optional human label (e.g. "Landing A", "Product page variant"). */
   label?: string;
@@ -25,7 +27,7 @@ export function parseVariants(raw: unknown): LinkVariant[] {
     const obj = v as Record<string, unknown>;
     const url = typeof obj.url === "string" ? obj.url : "";
     const weight = Number(obj.weight);
-    if (!url || !Number.isFinite(weight) || weight <= 0) continue;
+    if (!url || !Number.isFinite(weight) || weight < 0) continue;
     const id = typeof obj.id === "string" && obj.id ? obj.id : `v_${out.length}`;
     const label = typeof obj.label === "string" ? obj.label : undefined;
     out.push({ id, url, weight, label });
@@ -35,7 +37,8 @@ export function parseVariants(raw: unknown): LinkVariant[] {
 
 /**
  * Weighted random pick. Returns null when the list is empty so callers
- * can fall back to the primary originalUrl.
+ * can fall back to the primary originalUrl. Paused (weight 0) variants
+ * are never picked unless every variant is paused.
  */
 export function pickVariant(
   variants: LinkVariant[],
@@ -46,10 +49,11 @@ export function pickVariant(
   if (total <= 0) return variants[0];
   let r = rand() * total;
   for (const v of variants) {
+    if (v.weight <= 0) continue;
     r -= v.weight;
     if (r <= 0) return v;
   }
-  return variants[variants.length - 1];
+  return variants.filter((v) => v.weight > 0).pop() ?? variants[0];
 }
 
 /**
@@ -103,6 +103,20 @@ export async function resolveWorkspaceScope(
   return { workspaceId: null, where: {} };
 }
 
+/**
+ * Whether `userId` may run workspace-wide admin actions (OWNER / ADMIN).
+ * Without a workspace the caller only reaches their own resources, so
+ * they count as their own admin — pair this with a creator-scoped query.
+ */
+export async function isWorkspaceAdmin(
+  workspaceId: string | null,
+  userId: string,
+): Promise<boolean> {
+  if (!workspaceId) return true;
+  const access = await checkWorkspaceAccess(workspaceId, userId);
+  return access?.role === "OWNER" || access?.role === "ADMIN";
+}
+
 /**
  * Whether `userId` is allowed to mutate (edit / delete / clone / share)
  * a resource. Three tiers:
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import createIntlMiddleware from "next-intl/middleware";
 import { routing } from "@/i18n/routing";
+import { isPlatformOrLocalHost } from "@/lib/utils/short-url";
 
 const intlMiddleware = createIntlMiddleware(routing);
 
@@ -19,11 +20,13 @@ const BRAND_SITE = "https://engeniustech.com";
 //                                          optional, in case landing
 //                                          pages reference the short
 //                                          domain instead of the app one)
+//   - /api/unlock                         (password form on /link-locked)
 const SHORT_DOMAIN_ALLOWED = [
   /^\/s\//,
-  /^\/link-(expired|inactive|limit-reached|not-yet-active|geo-blocked)(\/|$)/,
+  /^\/link-(expired|inactive|limit-reached|not-yet-active|geo-blocked|locked)(\/|$)/,
   /^\/track\.js$/,
   /^\/api\/track(\/|$)/,
+  /^\/api\/unlock(\/|$)/,
 ];
 
 // Paths where next-intl should NOT run locale rewriting (same scope
@@ -39,6 +42,19 @@ function hostOf(url: string | undefined): string | null {
   }
 }
 
+/**
+ * A host that may be a workspace-owned custom short domain (see the
+ * `Domain` model). The middleware runs on the edge and can't query
+ * Postgres, so any host that isn't the app host, the default short host
+ * or a platform/preview host is treated as a redirector; `/s/[code]`
+ * then resolves the host to a Domain row and 404s hosts no workspace
+ * has registered (never falling back to the default host's codes).
+ */
+function isCustomShortHost(host: string, appHost: string, shortHost: string | null): boolean {
+  if (host === appHost || host === shortHost) return false;
+  return !isPlatformOrLocalHost(host);
+}
+
 function isAllowedOnShortDomain(path: string): boolean {
   return SHORT_DOMAIN_ALLOWED.some((re) => re.test(path));
 }
@@ -63,7 +79,11 @@ export default function middleware(request: NextRequest) {
   // like before.
   const splitDomains = appHost && shortHost && appHost !== shortHost;
 
-  if (splitDomains && host === shortHost) {
+  const onShortHost =
+    (splitDomains && host === shortHost) ||
+    (appHost !== null && isCustomShortHost(host, appHost, shortHost));
+
+  if (onShortHost) {
     // Allowlisted infra paths — pass straight through to the route.
     if (isAllowedOnShortDomain(path)) {
       return NextResponse.next();